@@ -0,0 +1,394 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { useAdminAccess } from '@/contexts/AdminAccessContext'
+import { useStepUp } from '@/contexts/StepUpContext'
+import { PERMISSION_DESCRIPTIONS } from '@/lib/permissions'
+import { ApiToken, Permission } from '@/types'
+import { KeySquare, ChevronLeft, Shield, Plus, RefreshCw, Copy } from 'lucide-react'
+import Link from 'next/link'
+import { toast } from 'sonner'
+
+const EXPIRY_OPTIONS = [
+    { value: '7', label: '7 days' },
+    { value: '30', label: '30 days' },
+    { value: '90', label: '90 days' },
+    { value: '365', label: '1 year' },
+]
+
+function tokenState(token: ApiToken): 'revoked' | 'expired' | 'active' {
+    if (token.revoked_at) return 'revoked'
+    if (new Date(token.expires_at).getTime() <= Date.now()) return 'expired'
+    return 'active'
+}
+
+export default function ApiTokensPage() {
+    const { permissions } = useAdminAccess()
+    const { fetchWithStepUp } = useStepUp()
+    const [tokens, setTokens] = useState<ApiToken[]>([])
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState('')
+
+    // Create state
+    const [showCreate, setShowCreate] = useState(false)
+    const [name, setName] = useState('')
+    const [scopes, setScopes] = useState<Permission[]>([])
+    const [expiry, setExpiry] = useState('30')
+    const [creating, setCreating] = useState(false)
+    // The plaintext token, shown once after creation
+    const [created, setCreated] = useState<string | null>(null)
+
+    // Revoke state
+    const [revokeTarget, setRevokeTarget] = useState<ApiToken | null>(null)
+    const [revoking, setRevoking] = useState(false)
+
+    useEffect(() => {
+        fetchTokens()
+    }, [])
+
+    const fetchTokens = async () => {
+        try {
+            setLoading(true)
+            const res = await fetch('/api/admin/api-tokens')
+
+            if (!res.ok) {
+                throw new Error('Failed to fetch API tokens')
+            }
+
+            const data = await res.json()
+            setTokens(data.data || [])
+        } catch (err: any) {
+            setError(err.message)
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const openCreateDialog = () => {
+        setName('')
+        setScopes([])
+        setExpiry('30')
+        setShowCreate(true)
+    }
+
+    const toggleScope = (scope: Permission) => {
+        setScopes(prev => prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope])
+    }
+
+    const handleCreate = async () => {
+        try {
+            setCreating(true)
+            const res = await fetchWithStepUp('/api/admin/api-tokens', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ name: name.trim(), scopes, expires_in_days: Number(expiry) }),
+            })
+
+            const data = await res.json()
+            if (!res.ok) {
+                const detail = data.details?.[0]?.message
+                throw new Error(detail || data.error || 'Failed to create API token')
+            }
+
+            setShowCreate(false)
+            setCreated(data.data.token)
+            fetchTokens()
+        } catch (err: any) {
+            toast.error(err.message)
+        } finally {
+            setCreating(false)
+        }
+    }
+
+    const handleRevoke = async () => {
+        if (!revokeTarget) return
+
+        try {
+            setRevoking(true)
+            const res = await fetch(`/api/admin/api-tokens/${revokeTarget.id}`, {
+                method: 'DELETE',
+            })
+
+            if (!res.ok) {
+                const data = await res.json()
+                throw new Error(data.error || 'Failed to revoke API token')
+            }
+
+            toast.success(`Revoked ${revokeTarget.name}`)
+            setRevokeTarget(null)
+            fetchTokens()
+        } catch (err: any) {
+            toast.error(err.message)
+        } finally {
+            setRevoking(false)
+        }
+    }
+
+    const handleCopy = async () => {
+        if (!created) return
+        try {
+            await navigator.clipboard.writeText(created)
+            toast.success('Token copied')
+        } catch {
+            toast.error('Copy failed; select the token and copy it manually')
+        }
+    }
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div>
+                <Link href="/admin">
+                    <Button variant="ghost" size="sm" className="mb-4">
+                        <ChevronLeft className="h-4 w-4 mr-1" />
+                        Back to Admin
+                    </Button>
+                </Link>
+                <div className="flex items-center gap-2 mb-2">
+                    <KeySquare className="h-6 w-6 text-amber-500" />
+                    <h1 className="font-heading text-2xl sm:text-3xl font-bold tracking-tight text-foreground">API Tokens</h1>
+                </div>
+                <p className="text-sm sm:text-base text-muted-foreground">
+                    Personal tokens for scripts calling the admin API with <code className="font-mono text-foreground">Authorization: Bearer</code>.
+                    A token can do at most what your role allows, limited to its scopes.
+                </p>
+            </div>
+
+            <Card className="border-warm-border bg-warm-surface">
+                <CardHeader>
+                    <div className="flex items-center justify-between gap-4">
+                        <div>
+                            <CardTitle className="text-foreground">Your Tokens</CardTitle>
+                            <CardDescription>
+                                {tokens.filter(token => tokenState(token) === 'active').length} active
+                            </CardDescription>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <Button variant="outline" size="sm" className="rounded-lg border-warm-border" onClick={fetchTokens} disabled={loading}>
+                                <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+                                Refresh
+                            </Button>
+                            <Button size="sm" className="rounded-lg" onClick={openCreateDialog} disabled={permissions.length === 0}>
+                                <Plus className="h-4 w-4 mr-2" />
+                                New Token
+                            </Button>
+                        </div>
+                    </div>
+                </CardHeader>
+                <CardContent className="p-0">
+                    {loading ? (
+                        <div className="text-center py-12">
+                            <Shield className="h-8 w-8 animate-spin mx-auto mb-4 text-amber-500" />
+                            <p className="text-muted-foreground">Loading API tokens...</p>
+                        </div>
+                    ) : error ? (
+                        <div className="text-center py-12 text-destructive px-6">
+                            <p>{error}</p>
+                        </div>
+                    ) : tokens.length === 0 ? (
+                        <div className="text-center py-12 text-muted-foreground px-6">
+                            <p>No API tokens yet</p>
+                        </div>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow className="border-warm-border hover:bg-warm-muted/50">
+                                        <TableHead className="text-foreground">Name</TableHead>
+                                        <TableHead className="text-foreground">Scopes</TableHead>
+                                        <TableHead className="text-foreground">Expires</TableHead>
+                                        <TableHead className="text-foreground">Last Used</TableHead>
+                                        <TableHead className="text-right text-foreground">Actions</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {tokens.map((token) => {
+                                        const state = tokenState(token)
+                                        return (
+                                            <TableRow key={token.id} className="border-warm-border hover:bg-warm-muted/50">
+                                                <TableCell>
+                                                    <p className="font-medium text-foreground">{token.name}</p>
+                                                    <p className="text-xs font-mono text-muted-foreground">{token.token_prefix}…</p>
+                                                </TableCell>
+                                                <TableCell>
+                                                    <div className="flex flex-wrap gap-1">
+                                                        {token.scopes.map((scope) => (
+                                                            <span key={scope} className="text-xs font-mono bg-warm-muted px-1.5 py-0.5 rounded text-foreground">
+                                                                {scope}
+                                                            </span>
+                                                        ))}
+                                                    </div>
+                                                </TableCell>
+                                                <TableCell className="text-muted-foreground">
+                                                    {state === 'revoked' ? (
+                                                        <span className="text-xs bg-red-500/20 text-red-600 dark:text-red-400 px-2 py-1 rounded">Revoked</span>
+                                                    ) : state === 'expired' ? (
+                                                        <span className="text-xs bg-gray-500/20 text-gray-600 dark:text-gray-400 px-2 py-1 rounded">Expired</span>
+                                                    ) : (
+                                                        new Date(token.expires_at).toLocaleDateString()
+                                                    )}
+                                                </TableCell>
+                                                <TableCell className="text-muted-foreground">
+                                                    {token.last_used_at ? (
+                                                        <>
+                                                            {new Date(token.last_used_at).toLocaleString()}
+                                                            {token.last_used_ip && (
+                                                                <span className="block text-xs font-mono">{token.last_used_ip}</span>
+                                                            )}
+                                                        </>
+                                                    ) : 'Never'}
+                                                </TableCell>
+                                                <TableCell className="text-right">
+                                                    {state === 'active' && (
+                                                        <Button
+                                                            variant="outline"
+                                                            size="sm"
+                                                            className="rounded-lg border-red-500/30 text-red-500 hover:bg-red-500/10 hover:border-red-500/50"
+                                                            onClick={() => setRevokeTarget(token)}
+                                                        >
+                                                            Revoke
+                                                        </Button>
+                                                    )}
+                                                </TableCell>
+                                            </TableRow>
+                                        )
+                                    })}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            {/* Create Token Dialog */}
+            <Dialog open={showCreate} onOpenChange={setShowCreate}>
+                <DialogContent className="max-h-[90vh] overflow-y-auto">
+                    <DialogHeader>
+                        <DialogTitle>New API Token</DialogTitle>
+                        <DialogDescription>
+                            Pick only the scopes the script needs. You can choose from the permissions your role has.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4 py-4">
+                        <div className="space-y-2">
+                            <label className="text-sm font-medium">Name</label>
+                            <Input
+                                placeholder="Nightly user export"
+                                value={name}
+                                onChange={(e) => setName(e.target.value)}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <label className="text-sm font-medium">Expires in</label>
+                            <Select value={expiry} onValueChange={setExpiry}>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {EXPIRY_OPTIONS.map((option) => (
+                                        <SelectItem key={option.value} value={option.value}>
+                                            {option.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <label className="text-sm font-medium">Scopes</label>
+                            <div className="space-y-1 rounded-lg border border-warm-border p-2">
+                                {permissions.map((permission) => (
+                                    <label
+                                        key={permission}
+                                        className="flex items-start gap-3 rounded-md px-2 py-1.5 hover:bg-warm-muted/50 cursor-pointer"
+                                    >
+                                        <input
+                                            type="checkbox"
+                                            className="mt-0.5 h-4 w-4 accent-amber-500"
+                                            checked={scopes.includes(permission)}
+                                            onChange={() => toggleScope(permission)}
+                                        />
+                                        <span>
+                                            <span className="block text-sm font-mono text-foreground">{permission}</span>
+                                            <span className="block text-xs text-muted-foreground">{PERMISSION_DESCRIPTIONS[permission]}</span>
+                                        </span>
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setShowCreate(false)} disabled={creating}>
+                            Cancel
+                        </Button>
+                        <Button onClick={handleCreate} disabled={creating || !name.trim() || scopes.length === 0}>
+                            {creating ? 'Creating...' : 'Create Token'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            {/* New Token Dialog: the only time the plaintext is shown */}
+            <Dialog open={!!created} onOpenChange={(open) => !open && setCreated(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Copy your new token</DialogTitle>
+                        <DialogDescription>
+                            It won&apos;t be shown again. Store it somewhere safe, like your CI secret store.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="py-4">
+                        <code className="block rounded-lg border border-warm-border bg-warm-muted/50 px-3 py-2 font-mono text-sm text-foreground break-all">
+                            {created}
+                        </code>
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={handleCopy}>
+                            <Copy className="h-4 w-4 mr-2" />
+                            Copy
+                        </Button>
+                        <Button onClick={() => setCreated(null)}>Done</Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            {/* Revoke Confirmation Dialog */}
+            <Dialog open={!!revokeTarget} onOpenChange={(open) => !open && setRevokeTarget(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Revoke {revokeTarget?.name}?</DialogTitle>
+                        <DialogDescription>
+                            Scripts using this token stop working immediately. This can&apos;t be undone.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setRevokeTarget(null)} disabled={revoking}>
+                            Cancel
+                        </Button>
+                        <Button variant="destructive" onClick={handleRevoke} disabled={revoking}>
+                            {revoking ? 'Revoking...' : 'Revoke Token'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    )
+}
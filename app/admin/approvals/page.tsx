@@ -0,0 +1,265 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { useAuth } from '@/contexts/AuthContext'
+import { useStepUp } from '@/contexts/StepUpContext'
+import { PendingActionStatus, PendingAdminAction } from '@/types'
+import { ClipboardCheck, ChevronLeft, Shield, RefreshCw } from 'lucide-react'
+import Link from 'next/link'
+import { toast } from 'sonner'
+
+const STATUS_STYLES: Record<PendingActionStatus, string> = {
+    pending: 'bg-amber-500/20 text-amber-600 dark:text-amber-400',
+    approved: 'bg-green-500/20 text-green-600 dark:text-green-400',
+    rejected: 'bg-zinc-500/20 text-zinc-600 dark:text-zinc-400',
+    failed: 'bg-red-500/20 text-red-600 dark:text-red-400',
+}
+
+export default function ApprovalsPage() {
+    const router = useRouter()
+    const { user } = useAuth()
+    const { fetchWithStepUp } = useStepUp()
+    const [actions, setActions] = useState<PendingAdminAction[]>([])
+    const [statusFilter, setStatusFilter] = useState<'pending' | 'all'>('pending')
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState('')
+
+    // Decision state
+    const [decision, setDecision] = useState<{ action: PendingAdminAction, approve: boolean } | null>(null)
+    const [note, setNote] = useState('')
+    const [deciding, setDeciding] = useState(false)
+
+    useEffect(() => {
+        fetchActions()
+    }, [statusFilter])
+
+    const fetchActions = async () => {
+        try {
+            setLoading(true)
+            const query = statusFilter === 'pending' ? '?status=pending' : ''
+            const res = await fetch(`/api/admin/approvals${query}`)
+
+            if (!res.ok) {
+                if (res.status === 403) {
+                    router.push('/dashboard')
+                    return
+                }
+                throw new Error('Failed to fetch approval requests')
+            }
+
+            const data = await res.json()
+            setActions(data.data || [])
+        } catch (err: any) {
+            setError(err.message)
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const handleDecision = async () => {
+        if (!decision) return
+
+        try {
+            setDeciding(true)
+            const res = await fetchWithStepUp(`/api/admin/approvals/${decision.action.id}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    decision: decision.approve ? 'approve' : 'reject',
+                    note: note.trim() || null,
+                }),
+            })
+
+            const data = await res.json()
+            if (!res.ok) {
+                throw new Error(data.error || 'Failed to decide request')
+            }
+
+            toast.success(decision.approve ? 'Request approved and executed' : 'Request rejected')
+            setDecision(null)
+            setNote('')
+            fetchActions()
+        } catch (err: any) {
+            toast.error(err.message)
+            fetchActions()
+        } finally {
+            setDeciding(false)
+        }
+    }
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div>
+                <Link href="/admin">
+                    <Button variant="ghost" size="sm" className="mb-4">
+                        <ChevronLeft className="h-4 w-4 mr-1" />
+                        Back to Admin
+                    </Button>
+                </Link>
+                <div className="flex items-center gap-2 mb-2">
+                    <ClipboardCheck className="h-6 w-6 text-amber-500" />
+                    <h1 className="font-heading text-2xl sm:text-3xl font-bold tracking-tight text-foreground">Approvals</h1>
+                </div>
+                <p className="text-sm sm:text-base text-muted-foreground">
+                    Sensitive actions wait here until a second admin approves them
+                </p>
+            </div>
+
+            <Card className="border-warm-border bg-warm-surface">
+                <CardHeader>
+                    <div className="flex items-center justify-between gap-4">
+                        <div>
+                            <CardTitle className="text-foreground">{statusFilter === 'pending' ? 'Pending Requests' : 'All Requests'}</CardTitle>
+                            <CardDescription>{actions.length} {actions.length === 1 ? 'request' : 'requests'}</CardDescription>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as 'pending' | 'all')}>
+                                <SelectTrigger className="w-[140px]">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="pending">Pending</SelectItem>
+                                    <SelectItem value="all">All</SelectItem>
+                                </SelectContent>
+                            </Select>
+                            <Button variant="outline" size="sm" className="rounded-lg border-warm-border" onClick={fetchActions} disabled={loading}>
+                                <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+                            </Button>
+                        </div>
+                    </div>
+                </CardHeader>
+                <CardContent className="p-0">
+                    {loading ? (
+                        <div className="text-center py-12">
+                            <Shield className="h-8 w-8 animate-spin mx-auto mb-4 text-amber-500" />
+                            <p className="text-muted-foreground">Loading approval requests...</p>
+                        </div>
+                    ) : error ? (
+                        <div className="text-center py-12 text-destructive px-6">
+                            <p>{error}</p>
+                        </div>
+                    ) : actions.length === 0 ? (
+                        <div className="text-center py-12 text-muted-foreground px-6">
+                            <p>Nothing waiting for approval</p>
+                        </div>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow className="border-warm-border hover:bg-warm-muted/50">
+                                        <TableHead className="text-foreground">Action</TableHead>
+                                        <TableHead className="text-foreground">Requested By</TableHead>
+                                        <TableHead className="text-foreground">Requested At</TableHead>
+                                        <TableHead className="text-foreground">Status</TableHead>
+                                        <TableHead className="text-right text-foreground">Actions</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {actions.map((action) => {
+                                        const isOwn = action.requested_by === user?.id
+                                        return (
+                                            <TableRow key={action.id} className="border-warm-border hover:bg-warm-muted/50">
+                                                <TableCell className="max-w-[360px]">
+                                                    <p className="text-sm font-medium text-foreground">{action.summary}</p>
+                                                    <p className="text-xs font-mono text-muted-foreground">{action.action_type}</p>
+                                                </TableCell>
+                                                <TableCell className="text-muted-foreground">{action.requested_by_email || action.requested_by}</TableCell>
+                                                <TableCell className="text-muted-foreground">{new Date(action.created_at).toLocaleString()}</TableCell>
+                                                <TableCell>
+                                                    <span className={`text-xs px-2 py-1 rounded capitalize ${STATUS_STYLES[action.status]}`}>
+                                                        {action.status}
+                                                    </span>
+                                                    {action.decided_by_email && (
+                                                        <p className="mt-1 text-xs text-muted-foreground">by {action.decided_by_email}</p>
+                                                    )}
+                                                </TableCell>
+                                                <TableCell className="text-right">
+                                                    {action.status === 'pending' && (
+                                                        <div className="flex items-center justify-end gap-2">
+                                                            <Button
+                                                                variant="outline"
+                                                                size="sm"
+                                                                className="rounded-lg border-green-500/30 text-green-500 hover:bg-green-500/10 hover:border-green-500/50"
+                                                                disabled={isOwn}
+                                                                title={isOwn ? 'A different admin must approve your request' : undefined}
+                                                                onClick={() => setDecision({ action, approve: true })}
+                                                            >
+                                                                Approve
+                                                            </Button>
+                                                            <Button
+                                                                variant="outline"
+                                                                size="sm"
+                                                                className="rounded-lg border-red-500/30 text-red-500 hover:bg-red-500/10 hover:border-red-500/50"
+                                                                onClick={() => setDecision({ action, approve: false })}
+                                                            >
+                                                                {isOwn ? 'Withdraw' : 'Reject'}
+                                                            </Button>
+                                                        </div>
+                                                    )}
+                                                </TableCell>
+                                            </TableRow>
+                                        )
+                                    })}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            {/* Decision Dialog */}
+            <Dialog open={!!decision} onOpenChange={(open) => !open && setDecision(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>{decision?.approve ? 'Approve' : 'Reject'} this request?</DialogTitle>
+                        <DialogDescription>
+                            {decision?.action.summary}
+                            {decision?.approve && ' — it runs immediately, with your permissions.'}
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-2 py-4">
+                        <label className="text-sm font-medium">Note (optional)</label>
+                        <Input
+                            placeholder={decision?.approve ? 'Confirmed with the requester' : 'Why this was rejected'}
+                            value={note}
+                            onChange={(e) => setNote(e.target.value)}
+                        />
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setDecision(null)} disabled={deciding}>
+                            Cancel
+                        </Button>
+                        <Button
+                            variant={decision?.approve ? 'default' : 'destructive'}
+                            onClick={handleDecision}
+                            disabled={deciding}
+                        >
+                            {deciding ? 'Working...' : decision?.approve ? 'Approve' : 'Reject'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    )
+}
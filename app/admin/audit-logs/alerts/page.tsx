@@ -0,0 +1,442 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { AuditAlertRule, AuditSavedView } from '@/types'
+import { Bell, ChevronLeft, Shield, Plus, RefreshCw } from 'lucide-react'
+import Link from 'next/link'
+import { toast } from 'sonner'
+
+const WINDOW_OPTIONS = [
+    { value: '5', label: '5 minutes' },
+    { value: '15', label: '15 minutes' },
+    { value: '60', label: '1 hour' },
+    { value: '360', label: '6 hours' },
+    { value: '1440', label: '24 hours' },
+    { value: '10080', label: '7 days' },
+]
+
+// The rule being created or edited, as raw form input
+type DraftRule = {
+    name: string
+    viewId: string
+    threshold: string
+    windowMinutes: string
+    notifyInApp: boolean
+    webhookUrl: string
+}
+
+const EMPTY_DRAFT: DraftRule = { name: '', viewId: '', threshold: '10', windowMinutes: '60', notifyInApp: true, webhookUrl: '' }
+
+function formatWindow(minutes: number) {
+    const option = WINDOW_OPTIONS.find((o) => Number(o.value) === minutes)
+    return option ? option.label : `${minutes} minutes`
+}
+
+export default function AuditAlertsPage() {
+    const router = useRouter()
+    const [rules, setRules] = useState<AuditAlertRule[]>([])
+    const [views, setViews] = useState<AuditSavedView[]>([])
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState('')
+
+    // Create/edit state; editing is null while creating
+    const [showEditor, setShowEditor] = useState(false)
+    const [editing, setEditing] = useState<AuditAlertRule | null>(null)
+    const [draft, setDraft] = useState<DraftRule>(EMPTY_DRAFT)
+    const [saving, setSaving] = useState(false)
+
+    // Delete state
+    const [deleteTarget, setDeleteTarget] = useState<AuditAlertRule | null>(null)
+    const [deleting, setDeleting] = useState(false)
+
+    useEffect(() => {
+        fetchRules()
+    }, [])
+
+    const fetchRules = async () => {
+        try {
+            setLoading(true)
+            const [rulesRes, viewsRes] = await Promise.all([
+                fetch('/api/admin/audit-logs/alerts'),
+                fetch('/api/admin/audit-logs/views'),
+            ])
+
+            if (!rulesRes.ok || !viewsRes.ok) {
+                if (rulesRes.status === 403) {
+                    router.push('/dashboard')
+                    return
+                }
+                throw new Error('Failed to fetch alert rules')
+            }
+
+            const [rulesData, viewsData] = await Promise.all([rulesRes.json(), viewsRes.json()])
+            setError('')
+            setRules(rulesData.data || [])
+            setViews(viewsData.data || [])
+        } catch (err: any) {
+            setError(err.message)
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const openCreate = () => {
+        setEditing(null)
+        setDraft({ ...EMPTY_DRAFT, viewId: views[0]?.id || '' })
+        setShowEditor(true)
+    }
+
+    const openEdit = (rule: AuditAlertRule) => {
+        setEditing(rule)
+        setDraft({
+            name: rule.name,
+            viewId: rule.view_id,
+            threshold: String(rule.threshold),
+            windowMinutes: String(rule.window_minutes),
+            notifyInApp: rule.notify_in_app,
+            webhookUrl: rule.webhook_url || '',
+        })
+        setShowEditor(true)
+    }
+
+    const handleSave = async () => {
+        try {
+            setSaving(true)
+            const res = await fetch(editing ? `/api/admin/audit-logs/alerts/${editing.id}` : '/api/admin/audit-logs/alerts', {
+                method: editing ? 'PATCH' : 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    name: draft.name.trim(),
+                    view_id: draft.viewId,
+                    threshold: Number(draft.threshold),
+                    window_minutes: Number(draft.windowMinutes),
+                    notify_in_app: draft.notifyInApp,
+                    webhook_url: draft.webhookUrl.trim() || null,
+                }),
+            })
+
+            const data = await res.json()
+            if (!res.ok) {
+                const detail = data.details?.[0]?.message
+                throw new Error(detail || data.error || 'Failed to save alert rule')
+            }
+
+            toast.success(editing ? `Updated ${data.data.name}` : `Created ${data.data.name}`)
+            setShowEditor(false)
+            fetchRules()
+        } catch (err: any) {
+            toast.error(err.message)
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const toggleEnabled = async (rule: AuditAlertRule) => {
+        try {
+            const res = await fetch(`/api/admin/audit-logs/alerts/${rule.id}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ enabled: !rule.enabled }),
+            })
+
+            const data = await res.json()
+            if (!res.ok) {
+                throw new Error(data.error || 'Failed to update alert rule')
+            }
+
+            setRules((current) => current.map((r) => (r.id === rule.id ? data.data : r)))
+        } catch (err: any) {
+            toast.error(err.message)
+        }
+    }
+
+    const handleDelete = async () => {
+        if (!deleteTarget) return
+
+        try {
+            setDeleting(true)
+            const res = await fetch(`/api/admin/audit-logs/alerts/${deleteTarget.id}`, {
+                method: 'DELETE',
+            })
+
+            if (!res.ok) {
+                const data = await res.json()
+                throw new Error(data.error || 'Failed to delete alert rule')
+            }
+
+            toast.success(`Deleted ${deleteTarget.name}`)
+            setDeleteTarget(null)
+            fetchRules()
+        } catch (err: any) {
+            toast.error(err.message)
+        } finally {
+            setDeleting(false)
+        }
+    }
+
+    const canSave = draft.name.trim() && draft.viewId && Number(draft.threshold) >= 1 && (draft.notifyInApp || draft.webhookUrl.trim())
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div>
+                <Link href="/admin/audit-logs">
+                    <Button variant="ghost" size="sm" className="mb-4">
+                        <ChevronLeft className="h-4 w-4 mr-1" />
+                        Back to Audit Logs
+                    </Button>
+                </Link>
+                <div className="flex items-center gap-2 mb-2">
+                    <Bell className="h-6 w-6 text-amber-500" />
+                    <h1 className="font-heading text-2xl sm:text-3xl font-bold tracking-tight text-foreground">Audit Alerts</h1>
+                </div>
+                <p className="text-sm sm:text-base text-muted-foreground">
+                    Get told when one of your saved views matches too many entries in a short time, in the admin panel or at a webhook.
+                    Rules are checked every few minutes and stay quiet for one window after firing.
+                </p>
+            </div>
+
+            <Card className="border-warm-border bg-warm-surface">
+                <CardHeader>
+                    <div className="flex items-center justify-between gap-4">
+                        <div>
+                            <CardTitle className="text-foreground">Your Alert Rules</CardTitle>
+                            <CardDescription>
+                                {rules.filter((rule) => rule.enabled).length} enabled
+                            </CardDescription>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <Button variant="outline" size="sm" className="rounded-lg border-warm-border" onClick={fetchRules} disabled={loading}>
+                                <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+                                Refresh
+                            </Button>
+                            <Button size="sm" className="rounded-lg" onClick={openCreate} disabled={views.length === 0}>
+                                <Plus className="h-4 w-4 mr-2" />
+                                New Rule
+                            </Button>
+                        </div>
+                    </div>
+                </CardHeader>
+                <CardContent className="p-0">
+                    {loading ? (
+                        <div className="text-center py-12">
+                            <Shield className="h-8 w-8 animate-spin mx-auto mb-4 text-amber-500" />
+                            <p className="text-muted-foreground">Loading alert rules...</p>
+                        </div>
+                    ) : error ? (
+                        <div className="text-center py-12 text-destructive px-6">
+                            <p>{error}</p>
+                        </div>
+                    ) : rules.length === 0 ? (
+                        <div className="text-center py-12 text-muted-foreground px-6">
+                            <p>
+                                {views.length === 0
+                                    ? 'Save a view on the audit log page first, then alert on it here'
+                                    : 'No alert rules yet'}
+                            </p>
+                        </div>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow className="border-warm-border hover:bg-warm-muted/50">
+                                        <TableHead className="text-foreground">Name</TableHead>
+                                        <TableHead className="text-foreground">Condition</TableHead>
+                                        <TableHead className="text-foreground">Notify</TableHead>
+                                        <TableHead className="text-foreground">Last Checked</TableHead>
+                                        <TableHead className="text-right text-foreground">Actions</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {rules.map((rule) => (
+                                        <TableRow key={rule.id} className="border-warm-border hover:bg-warm-muted/50">
+                                            <TableCell>
+                                                <p className="font-medium text-foreground">{rule.name}</p>
+                                                {!rule.enabled && (
+                                                    <span className="text-xs bg-gray-500/20 text-gray-600 dark:text-gray-400 px-2 py-0.5 rounded">Disabled</span>
+                                                )}
+                                            </TableCell>
+                                            <TableCell className="text-sm text-muted-foreground">
+                                                <Link href={`/admin/audit-logs?view=${rule.view_id}`} className="font-medium text-foreground hover:underline">
+                                                    {rule.view?.name || 'Saved view'}
+                                                </Link>
+                                                {' '}matches {rule.threshold}+ in {formatWindow(rule.window_minutes)}
+                                            </TableCell>
+                                            <TableCell className="text-sm text-muted-foreground">
+                                                {[
+                                                    rule.notify_in_app ? 'In app' : null,
+                                                    rule.webhook_url ? new URL(rule.webhook_url).host : null,
+                                                ].filter(Boolean).join(', ')}
+                                            </TableCell>
+                                            <TableCell className="text-sm text-muted-foreground">
+                                                {rule.last_evaluated_at ? (
+                                                    <>
+                                                        {new Date(rule.last_evaluated_at).toLocaleString()}
+                                                        <span className="block text-xs">
+                                                            {rule.last_count ?? 0} matched
+                                                            {rule.last_fired_at && ` · fired ${new Date(rule.last_fired_at).toLocaleString()}`}
+                                                        </span>
+                                                    </>
+                                                ) : 'Never'}
+                                            </TableCell>
+                                            <TableCell className="text-right">
+                                                <div className="flex justify-end gap-2">
+                                                    <Button variant="outline" size="sm" className="rounded-lg border-warm-border" onClick={() => toggleEnabled(rule)}>
+                                                        {rule.enabled ? 'Disable' : 'Enable'}
+                                                    </Button>
+                                                    <Button variant="outline" size="sm" className="rounded-lg border-warm-border" onClick={() => openEdit(rule)}>
+                                                        Edit
+                                                    </Button>
+                                                    <Button
+                                                        variant="outline"
+                                                        size="sm"
+                                                        className="rounded-lg border-red-500/30 text-red-500 hover:bg-red-500/10 hover:border-red-500/50"
+                                                        onClick={() => setDeleteTarget(rule)}
+                                                    >
+                                                        Delete
+                                                    </Button>
+                                                </div>
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            {/* Create/Edit Rule Dialog */}
+            <Dialog open={showEditor} onOpenChange={setShowEditor}>
+                <DialogContent className="max-h-[90vh] overflow-y-auto">
+                    <DialogHeader>
+                        <DialogTitle>{editing ? `Edit ${editing.name}` : 'New Alert Rule'}</DialogTitle>
+                        <DialogDescription>
+                            Fires once the view matches at least the threshold within the window.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4 py-4">
+                        <div className="space-y-2">
+                            <label className="text-sm font-medium">Name</label>
+                            <Input
+                                placeholder="Burst of failed logins"
+                                value={draft.name}
+                                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <label className="text-sm font-medium">Saved view</label>
+                            <Select value={draft.viewId} onValueChange={(value) => setDraft({ ...draft, viewId: value })}>
+                                <SelectTrigger>
+                                    <SelectValue placeholder="Pick a view" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {views.map((view) => (
+                                        <SelectItem key={view.id} value={view.id}>
+                                            {view.name}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="grid gap-4 sm:grid-cols-2">
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium">At least</label>
+                                <Input
+                                    type="number"
+                                    min={1}
+                                    value={draft.threshold}
+                                    onChange={(e) => setDraft({ ...draft, threshold: e.target.value })}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium">Within</label>
+                                <Select value={draft.windowMinutes} onValueChange={(value) => setDraft({ ...draft, windowMinutes: value })}>
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {WINDOW_OPTIONS.map((option) => (
+                                            <SelectItem key={option.value} value={option.value}>
+                                                {option.label}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </div>
+                        <label className="flex items-center gap-3 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                className="h-4 w-4 accent-amber-500"
+                                checked={draft.notifyInApp}
+                                onChange={(e) => setDraft({ ...draft, notifyInApp: e.target.checked })}
+                            />
+                            <span className="text-sm text-foreground">Notify me in the admin panel</span>
+                        </label>
+                        <div className="space-y-2">
+                            <label className="text-sm font-medium">Webhook URL (optional)</label>
+                            <Input
+                                placeholder="https://hooks.example.com/..."
+                                value={draft.webhookUrl}
+                                onChange={(e) => setDraft({ ...draft, webhookUrl: e.target.value })}
+                                className="font-mono"
+                            />
+                            <p className="text-xs text-muted-foreground">
+                                Receives a JSON POST, signed in the X-Audit-Alert-Signature header when the server has a signing key.
+                            </p>
+                        </div>
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setShowEditor(false)} disabled={saving}>
+                            Cancel
+                        </Button>
+                        <Button onClick={handleSave} disabled={saving || !canSave}>
+                            {saving ? 'Saving...' : editing ? 'Save Rule' : 'Create Rule'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            {/* Delete Confirmation Dialog */}
+            <Dialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Delete {deleteTarget?.name}?</DialogTitle>
+                        <DialogDescription>
+                            The rule stops being checked. Its saved view is kept.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setDeleteTarget(null)} disabled={deleting}>
+                            Cancel
+                        </Button>
+                        <Button variant="destructive" onClick={handleDelete} disabled={deleting}>
+                            {deleting ? 'Deleting...' : 'Delete Rule'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    )
+}
@@ -0,0 +1,191 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { AuditChainVerification, AuditCheckpointStatus } from '@/types'
+import { ShieldCheck, ShieldAlert, ChevronLeft, Shield, RefreshCw } from 'lucide-react'
+import Link from 'next/link'
+
+const CHECKPOINT_STATUS: Record<AuditCheckpointStatus, { label: string; className: string }> = {
+    ok: { label: 'Matches', className: 'bg-green-500/20 text-green-600 dark:text-green-400' },
+    mismatch: { label: 'Altered or missing', className: 'bg-red-500/20 text-red-600 dark:text-red-400' },
+    pruned: { label: 'Pruned', className: 'bg-gray-500/20 text-gray-600 dark:text-gray-400' },
+    bad_signature: { label: 'Bad signature', className: 'bg-red-500/20 text-red-600 dark:text-red-400' },
+}
+
+export default function AuditIntegrityPage() {
+    const router = useRouter()
+    const [result, setResult] = useState<AuditChainVerification | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState('')
+
+    useEffect(() => {
+        verify()
+    }, [])
+
+    const verify = async () => {
+        try {
+            setLoading(true)
+            setError('')
+            const res = await fetch('/api/admin/audit-logs/verify')
+
+            if (!res.ok) {
+                if (res.status === 403) {
+                    router.push('/dashboard')
+                    return
+                }
+                const data = await res.json()
+                throw new Error(data.message || data.error || 'Failed to verify audit log')
+            }
+
+            const data = await res.json()
+            setResult(data.data)
+        } catch (err: any) {
+            setError(err.message)
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div>
+                <Link href="/admin/audit-logs">
+                    <Button variant="ghost" size="sm" className="mb-4">
+                        <ChevronLeft className="h-4 w-4 mr-1" />
+                        Back to Audit Logs
+                    </Button>
+                </Link>
+                <div className="flex items-center gap-2 mb-2">
+                    <ShieldCheck className="h-6 w-6 text-amber-500" />
+                    <h1 className="font-heading text-2xl sm:text-3xl font-bold tracking-tight text-foreground">Audit Log Integrity</h1>
+                </div>
+                <p className="text-sm sm:text-base text-muted-foreground">
+                    Every entry is hash-chained to the one before it. Verification recomputes each hash and
+                    checks the chain against signed checkpoints kept outside the database.
+                </p>
+            </div>
+
+            <Card className="border-warm-border bg-warm-surface">
+                <CardHeader>
+                    <div className="flex items-center justify-between gap-4">
+                        <div>
+                            <CardTitle className="text-foreground">Hash Chain</CardTitle>
+                            <CardDescription>
+                                {result ? `Verified ${new Date(result.verified_at).toLocaleString()}` : 'Not verified yet'}
+                            </CardDescription>
+                        </div>
+                        <Button variant="outline" size="sm" className="rounded-lg border-warm-border" onClick={verify} disabled={loading}>
+                            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+                            Verify Again
+                        </Button>
+                    </div>
+                </CardHeader>
+                <CardContent>
+                    {loading ? (
+                        <div className="text-center py-12">
+                            <Shield className="h-8 w-8 animate-spin mx-auto mb-4 text-amber-500" />
+                            <p className="text-muted-foreground">Walking the audit chain...</p>
+                        </div>
+                    ) : error ? (
+                        <div className="text-center py-12 text-destructive">
+                            <p>{error}</p>
+                        </div>
+                    ) : result && (
+                        <div className="space-y-4">
+                            {result.valid ? (
+                                <div className="flex items-start gap-3 rounded-lg border border-green-500/20 bg-green-500/5 px-4 py-3">
+                                    <ShieldCheck className="h-5 w-5 text-green-500 mt-0.5" />
+                                    <div>
+                                        <p className="font-medium text-foreground">The audit log is intact</p>
+                                        <p className="text-sm text-muted-foreground">
+                                            {result.checked} entries checked
+                                            {result.first_seq !== null && ` (#${result.first_seq} to #${result.last_seq})`}
+                                        </p>
+                                    </div>
+                                </div>
+                            ) : (
+                                <div className="flex items-start gap-3 rounded-lg border border-red-500/20 bg-red-500/5 px-4 py-3">
+                                    <ShieldAlert className="h-5 w-5 text-red-500 mt-0.5" />
+                                    <div>
+                                        <p className="font-medium text-foreground">
+                                            {result.broken
+                                                ? `Chain broken${result.broken.seq !== null ? ` at entry #${result.broken.seq}` : ''}`
+                                                : 'A checkpoint no longer matches the log'}
+                                        </p>
+                                        <p className="text-sm text-muted-foreground">
+                                            {result.broken
+                                                ? result.broken.reason
+                                                : 'Entries recorded by a signed checkpoint were altered or removed.'}
+                                            {result.broken?.id && <> · entry <span className="font-mono">{result.broken.id}</span></>}
+                                        </p>
+                                        {result.broken && (
+                                            <p className="text-xs text-muted-foreground mt-1">
+                                                {result.checked} entries verified before the break
+                                            </p>
+                                        )}
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            {result && !loading && (
+                <Card className="border-warm-border bg-warm-surface">
+                    <CardHeader>
+                        <CardTitle className="text-foreground">Checkpoints</CardTitle>
+                        <CardDescription>
+                            {result.checkpoints_enabled
+                                ? 'Signed snapshots of the chain head, newest first. Pruned ones point at entries removed by clearing or retention.'
+                                : 'Checkpoints are off: set AUDIT_CHECKPOINT_SECRET and schedule /api/cron/audit-checkpoint.'}
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="p-0">
+                        {result.checkpoints.length === 0 ? (
+                            <div className="text-center py-12 text-muted-foreground px-6">
+                                <p>No checkpoints yet</p>
+                            </div>
+                        ) : (
+                            <div className="overflow-x-auto">
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow className="border-warm-border hover:bg-warm-muted/50">
+                                            <TableHead className="text-foreground">Taken</TableHead>
+                                            <TableHead className="text-foreground">Entry</TableHead>
+                                            <TableHead className="text-foreground">Hash</TableHead>
+                                            <TableHead className="text-foreground">Status</TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {result.checkpoints.map((checkpoint, index) => (
+                                            <TableRow key={`${checkpoint.seq}-${index}`} className="border-warm-border hover:bg-warm-muted/50">
+                                                <TableCell className="text-muted-foreground">
+                                                    {checkpoint.created_at ? new Date(checkpoint.created_at).toLocaleString() : '—'}
+                                                </TableCell>
+                                                <TableCell className="text-foreground">#{checkpoint.seq}</TableCell>
+                                                <TableCell className="font-mono text-xs text-muted-foreground">
+                                                    {checkpoint.hash ? `${checkpoint.hash.slice(0, 16)}…` : '—'}
+                                                </TableCell>
+                                                <TableCell>
+                                                    <span className={`text-xs px-2 py-1 rounded ${CHECKPOINT_STATUS[checkpoint.status].className}`}>
+                                                        {CHECKPOINT_STATUS[checkpoint.status].label}
+                                                    </span>
+                                                </TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+            )}
+        </div>
+    )
+}
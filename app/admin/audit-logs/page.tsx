@@ -1,6 +1,6 @@
 'use client'
 
-import { useEffect, useMemo, useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -12,6 +12,7 @@ import {
     SelectTrigger,
     SelectValue,
 } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import {
     Dialog,
     DialogContent,
@@ -20,8 +21,9 @@ import {
     DialogHeader,
     DialogTitle,
 } from '@/components/ui/dialog'
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
-import { AuditLog, AuditAction } from '@/types'
+import { AuditChanges } from '@/components/audit-changes'
+import { describeAuditLog, formatActionLabel } from '@/lib/audit-describe'
+import { AuditLog, AuditAction, AuditExportFormat, AuditSavedView, AuditViewFilters } from '@/types'
 import {
     Clock,
     Filter,
@@ -29,71 +31,130 @@ import {
     ChevronRight,
     Search,
     Shield,
-    Trash2,
+    Archive,
     LogIn,
     LogOut,
     Database,
     Activity,
+    ShieldCheck,
+    Download,
+    Pause,
+    Play,
+    Radio,
+    X,
+    Bell,
+    Bookmark,
+    Trash2,
 } from 'lucide-react'
 import Link from 'next/link'
+import { toast } from 'sonner'
 
 const AUDIT_ACTIONS: AuditAction[] = [
     'user.login',
     'user.logout',
     'user.signup',
     'user.password_reset',
+    'user.login_failed',
+    'user.locked',
+    'user.unlocked',
+    'user.reauthenticated',
+    'user.reauth_failed',
+    'user.session_revoked',
+    'user.sessions_revoked',
+    'user.suspended',
+    'user.deleted',
+    'user.restored',
     'session.created',
     'session.updated',
     'session.deleted',
     'session.restored',
     'role.updated',
+    'role.expired',
+    'role.expiry_held',
+    'role.created',
+    'role.permissions_changed',
+    'role.deleted',
+    'subscription.revoked',
+    'request.approved',
+    'request.rejected',
+    'audit.cleared',
+    'audit.retention_changed',
+    'audit.purged',
+    'audit.exported',
+    'audit.alert_created',
+    'audit.alert_updated',
+    'audit.alert_deleted',
+    'audit.alert_fired',
+    'ip.blocked',
+    'ip.unblocked',
+    'approval.requested',
+    'approval.approved',
+    'approval.rejected',
+    'impersonation.started',
+    'impersonation.ended',
+    'mfa.enrolled',
+    'mfa.verified',
+    'mfa.failed',
+    'mfa.reset',
+    'api_token.created',
+    'api_token.revoked',
+    'api_token.used',
+]
+
+// Filter by a whole family of actions, e.g. everything under role.*
+const AUDIT_ACTION_GROUPS = Array.from(new Set(AUDIT_ACTIONS.map((action) => `${action.split('.')[0]}.*`)))
+
+// Text filters, applied together when the filter form is submitted
+type SearchFilters = { q: string; email: string; ip: string; resourceId: string; requestId: string; details: string }
+
+const EMPTY_FILTERS: SearchFilters = { q: '', email: '', ip: '', resourceId: '', requestId: '', details: '' }
+
+// How far back a saved view looks; 'all' keeps no start date
+const VIEW_RANGES = [
+    { value: 'all', label: 'All time' },
+    { value: '1', label: 'Last 24 hours' },
+    { value: '7', label: 'Last 7 days' },
+    { value: '30', label: 'Last 30 days' },
 ]
 
-function formatActionLabel(action: string) {
-    return action.replace('.', ' ').replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase())
+// A saved view's query string filters back into the page's own filter state
+function viewFilterState(filters: AuditViewFilters): { actions: string[]; search: SearchFilters } {
+    return {
+        actions: filters.action ? filters.action.split(',').filter(Boolean) : [],
+        search: {
+            q: filters.q || '',
+            email: filters.email || '',
+            ip: filters.ip || '',
+            resourceId: filters.resource_id || '',
+            requestId: filters.request_id || '',
+            details: filters.details || '',
+        },
+    }
 }
 
+// Most entries kept on screen in live mode, and held back while paused
+const LIVE_BUFFER_SIZE = 500
+
 function getActionColor(action: string) {
+    if (action === 'audit.cleared' || action === 'user.deleted') return 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300'
     if (action.startsWith('user.')) return 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300'
     if (action.startsWith('session.')) return 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/40 dark:text-emerald-300'
     if (action.startsWith('role.')) return 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300'
+    if (action.startsWith('approval.')) return 'bg-violet-100 text-violet-800 dark:bg-violet-900/40 dark:text-violet-300'
+    if (action.startsWith('impersonation.')) return 'bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-300'
+    if (action.startsWith('mfa.')) return 'bg-teal-100 text-teal-800 dark:bg-teal-900/40 dark:text-teal-300'
+    if (action.startsWith('request.')) return 'bg-lime-100 text-lime-800 dark:bg-lime-900/40 dark:text-lime-300'
+    if (action.startsWith('api_token.')) return 'bg-cyan-100 text-cyan-800 dark:bg-cyan-900/40 dark:text-cyan-300'
+    if (action.startsWith('audit.')) return 'bg-slate-100 text-slate-800 dark:bg-slate-800 dark:text-slate-300'
+    if (action.startsWith('ip.')) return 'bg-rose-100 text-rose-800 dark:bg-rose-900/40 dark:text-rose-300'
     return 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300'
 }
 
-function describeLog(log: AuditLog) {
-    const details = log.details || {}
-    if (log.action === 'session.created') {
-        const sessionName = typeof details.session_name === 'string' ? details.session_name : null
-        const agentType = typeof details.agent_type === 'string' ? details.agent_type.replace(/_/g, ' ') : 'agent session'
-        return sessionName ? `Created session "${sessionName}" (${agentType})` : `Created ${agentType} session`
-    }
-    if (log.action === 'session.updated') {
-        return 'Updated session'
-    }
-    if (log.action === 'session.deleted') {
-        return 'Deleted session'
-    }
-    if (log.action === 'session.restored') {
-        return 'Restored session'
-    }
-    if (log.action === 'role.updated') {
-        const target = typeof details.target_user_email === 'string' ? details.target_user_email : 'a user'
-        const role = typeof details.new_role === 'string' ? details.new_role : 'user'
-        return `Changed ${target} role to ${role}`
-    }
-    if (log.action === 'user.login') {
-        return 'User logged in'
-    }
-    if (log.action === 'user.logout') {
-        return 'User logged out'
-    }
-    if (log.action === 'user.signup') {
-        return 'User signed up'
-    }
-    if (log.action === 'user.password_reset') {
-        return 'User reset password'
-    }
-    return formatActionLabel(log.action)
+// Everything in details besides the diff, which the dialog renders on its own
+function otherDetails(log: AuditLog) {
+    if (!log.details) return null
+    const { changes: _changes, ...rest } = log.details
+    return Object.keys(rest).length > 0 ? rest : null
 }
 
 function detailsPreview(log: AuditLog) {
@@ -110,30 +171,118 @@ export default function AuditLogsPage() {
     const [loading, setLoading] = useState(true)
     const [error, setError] = useState('')
     const [totalCount, setTotalCount] = useState(0)
-    const [showClearDialog, setShowClearDialog] = useState(false)
-    const [clearing, setClearing] = useState(false)
 
-    const [actionFilter, setActionFilter] = useState<string>('all')
-    const [searchEmail, setSearchEmail] = useState('')
+    const [actionFilters, setActionFilters] = useState<string[]>([])
+    const [searchInput, setSearchInput] = useState<SearchFilters>(EMPTY_FILTERS)
+    const [appliedSearch, setAppliedSearch] = useState<SearchFilters>(EMPTY_FILTERS)
     const [currentPage, setCurrentPage] = useState(1)
+    const [exportFormat, setExportFormat] = useState<AuditExportFormat>('csv')
     const logsPerPage = 50
 
+    // Saved views: the loaded one's trailing range applies on top of the filters
+    const [views, setViews] = useState<AuditSavedView[]>([])
+    const [activeViewId, setActiveViewId] = useState('')
+    const [rangeDays, setRangeDays] = useState<number | null>(null)
+    const [showSaveView, setShowSaveView] = useState(false)
+    const [viewName, setViewName] = useState('')
+    const [viewRange, setViewRange] = useState('all')
+    const [savingView, setSavingView] = useState(false)
+
+    // Live tail: new entries are prepended as they arrive, or held while paused
+    const [live, setLive] = useState(false)
+    const [paused, setPaused] = useState(false)
+    const [heldCount, setHeldCount] = useState(0)
+    const [missedCount, setMissedCount] = useState(0)
+    const [selectedLog, setSelectedLog] = useState<AuditLog | null>(null)
+    const pausedRef = useRef(false)
+    const heldRef = useRef<AuditLog[]>([])
+
     useEffect(() => {
         fetchAuditLogs()
-    }, [actionFilter, currentPage])
+    }, [actionFilters, appliedSearch, rangeDays, currentPage])
+
+    useEffect(() => {
+        fetchViews()
+    }, [])
+
+    useEffect(() => {
+        if (!live) return
+
+        const source = new EventSource(`/api/admin/audit-logs/stream?${filterParams()}`)
+
+        source.addEventListener('entry', (event) => {
+            const entry = JSON.parse((event as MessageEvent).data) as AuditLog
+
+            if (pausedRef.current) {
+                heldRef.current.unshift(entry)
+                if (heldRef.current.length > LIVE_BUFFER_SIZE) {
+                    heldRef.current.pop()
+                    setMissedCount((count) => count + 1)
+                }
+                setHeldCount(heldRef.current.length)
+                return
+            }
+
+            setLogs((current) => current.some((log) => log.id === entry.id)
+                ? current
+                : [entry, ...current].slice(0, LIVE_BUFFER_SIZE))
+            setTotalCount((count) => count + 1)
+        })
+
+        source.addEventListener('skipped', (event) => {
+            const { count } = JSON.parse((event as MessageEvent).data) as { count: number }
+            setMissedCount((missed) => missed + count)
+        })
+
+        source.addEventListener('failed', () => {
+            toast.error('The live audit log could not start')
+            setLive(false)
+        })
+
+        // EventSource reconnects by itself; CLOSED means it gave up (e.g. 403)
+        source.onerror = () => {
+            if (source.readyState === EventSource.CLOSED) {
+                toast.error('Lost the live audit log connection')
+                setLive(false)
+            }
+        }
+
+        return () => source.close()
+    }, [live, actionFilters, appliedSearch, rangeDays])
+
+    // The applied filters as query parameters, shared by the list, exports and saved views
+    const searchParams = () => {
+        const params = new URLSearchParams()
+        if (actionFilters.length > 0) params.append('action', actionFilters.join(','))
+        if (appliedSearch.q.trim()) params.append('q', appliedSearch.q.trim())
+        if (appliedSearch.email.trim()) params.append('email', appliedSearch.email.trim())
+        if (appliedSearch.ip.trim()) params.append('ip', appliedSearch.ip.trim())
+        if (appliedSearch.resourceId.trim()) params.append('resource_id', appliedSearch.resourceId.trim())
+        if (appliedSearch.requestId.trim()) params.append('request_id', appliedSearch.requestId.trim())
+        if (appliedSearch.details.trim()) params.append('details', appliedSearch.details.trim())
+        return params
+    }
+
+    // ...plus the loaded view's trailing range
+    const filterParams = () => {
+        const params = searchParams()
+        if (rangeDays) params.append('start_date', new Date(Date.now() - rangeDays * 24 * 60 * 60 * 1000).toISOString())
+        return params
+    }
+
+    const exportHref = () => {
+        const params = filterParams()
+        params.append('format', exportFormat)
+        return `/api/admin/audit-logs/export?${params}`
+    }
 
     const fetchAuditLogs = async () => {
         try {
             setLoading(true)
 
-            const params = new URLSearchParams({
-                limit: logsPerPage.toString(),
-                offset: ((currentPage - 1) * logsPerPage).toString(),
-            })
-
-            if (actionFilter !== 'all') {
-                params.append('action', actionFilter)
-            }
+            const params = filterParams()
+            params.append('limit', logsPerPage.toString())
+            params.append('offset', ((currentPage - 1) * logsPerPage).toString())
 
             const res = await fetch(`/api/admin/audit-logs?${params}`)
 
@@ -142,10 +291,13 @@ export default function AuditLogsPage() {
                     router.push('/dashboard')
                     return
                 }
-                throw new Error('Failed to fetch audit logs')
+                const data = await res.json()
+                const detail = data.details?.[0]?.message
+                throw new Error(detail || data.error || 'Failed to fetch audit logs')
             }
 
             const data = await res.json()
+            setError('')
             setLogs(data.data || [])
             setTotalCount(data.count || 0)
         } catch (err: any) {
@@ -155,38 +307,161 @@ export default function AuditLogsPage() {
         }
     }
 
-    const handleClearLogs = async () => {
+    const fetchViews = async () => {
         try {
-            setClearing(true)
-            const res = await fetch('/api/admin/audit-logs/clear', {
-                method: 'DELETE',
+            const res = await fetch('/api/admin/audit-logs/views')
+            if (!res.ok) {
+                throw new Error('Failed to fetch saved views')
+            }
+
+            const data = await res.json()
+            const loaded: AuditSavedView[] = data.data || []
+            setViews(loaded)
+
+            // Alert notifications link here with ?view=<id>
+            const linked = loaded.find((view) => view.id === new URLSearchParams(window.location.search).get('view'))
+            if (linked) {
+                applyView(linked)
+            }
+        } catch (err: any) {
+            toast.error(err.message)
+        }
+    }
+
+    const applyView = (view: AuditSavedView) => {
+        const { actions, search } = viewFilterState(view.filters)
+        setCurrentPage(1)
+        setActionFilters(actions)
+        setSearchInput(search)
+        setAppliedSearch(search)
+        setRangeDays(view.range_days)
+        setActiveViewId(view.id)
+    }
+
+    const openSaveView = () => {
+        setViewName('')
+        setViewRange(rangeDays ? String(rangeDays) : 'all')
+        setShowSaveView(true)
+    }
+
+    const handleSaveView = async () => {
+        try {
+            setSavingView(true)
+            const res = await fetch('/api/admin/audit-logs/views', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    name: viewName.trim(),
+                    filters: Object.fromEntries(searchParams()),
+                    range_days: viewRange === 'all' ? null : Number(viewRange),
+                }),
             })
 
+            const data = await res.json()
             if (!res.ok) {
-                throw new Error('Failed to clear audit logs')
+                const detail = data.details?.[0]?.message
+                throw new Error(detail || data.error || 'Failed to save view')
             }
 
-            await fetchAuditLogs()
-            setShowClearDialog(false)
+            const view: AuditSavedView = data.data
+            setViews((current) => [...current, view].sort((a, b) => a.name.localeCompare(b.name)))
+            setRangeDays(view.range_days)
+            setActiveViewId(view.id)
+            setShowSaveView(false)
+            toast.success(`Saved view ${view.name}`)
         } catch (err: any) {
-            setError(err.message)
+            toast.error(err.message)
         } finally {
-            setClearing(false)
+            setSavingView(false)
+        }
+    }
+
+    const handleDeleteView = async () => {
+        const view = views.find((v) => v.id === activeViewId)
+        if (!view) return
+
+        try {
+            const res = await fetch(`/api/admin/audit-logs/views/${view.id}`, { method: 'DELETE' })
+
+            if (!res.ok) {
+                const data = await res.json()
+                throw new Error(data.error || 'Failed to delete view')
+            }
+
+            setViews((current) => current.filter((v) => v.id !== view.id))
+            setActiveViewId('')
+            toast.success(`Deleted view ${view.name}`)
+        } catch (err: any) {
+            toast.error(err.message)
+        }
+    }
+
+    const applySearch = (e: React.FormEvent) => {
+        e.preventDefault()
+        setCurrentPage(1)
+        setAppliedSearch(searchInput)
+        setActiveViewId('')
+    }
+
+    const clearFilters = () => {
+        setCurrentPage(1)
+        setActionFilters([])
+        setSearchInput(EMPTY_FILTERS)
+        setAppliedSearch(EMPTY_FILTERS)
+        setRangeDays(null)
+        setActiveViewId('')
+    }
+
+    // Everything logged while serving the same request as this entry
+    const showRequest = (log: AuditLog) => {
+        if (!log.request_id) return
+        const filters = { ...EMPTY_FILTERS, requestId: log.request_id }
+        setCurrentPage(1)
+        setActionFilters([])
+        setSearchInput(filters)
+        setAppliedSearch(filters)
+        setRangeDays(null)
+        setActiveViewId('')
+        setSelectedLog(null)
+    }
+
+    const setLivePaused = (value: boolean) => {
+        pausedRef.current = value
+        setPaused(value)
+
+        if (!value && heldRef.current.length > 0) {
+            const held = heldRef.current
+            heldRef.current = []
+            setHeldCount(0)
+            setLogs((current) => [...held, ...current].slice(0, LIVE_BUFFER_SIZE))
+            setTotalCount((count) => count + held.length)
+        }
+    }
+
+    const toggleLive = () => {
+        setLivePaused(false)
+        setMissedCount(0)
+
+        if (live) {
+            setLive(false)
+            // Back to regular pages
+            fetchAuditLogs()
+        } else {
+            setCurrentPage(1)
+            setLive(true)
         }
     }
 
-    const filteredLogs = searchEmail
-        ? logs.filter((log) => log.user_email?.toLowerCase().includes(searchEmail.toLowerCase()))
-        : logs
+    const hasFilters = actionFilters.length > 0 || rangeDays !== null || Object.values(appliedSearch).some((value) => value.trim())
 
     const totalPages = Math.ceil(totalCount / logsPerPage)
 
     const pageMetrics = useMemo(() => {
-        const loginCount = filteredLogs.filter((l) => l.action === 'user.login').length
-        const logoutCount = filteredLogs.filter((l) => l.action === 'user.logout').length
-        const sessionCreatedCount = filteredLogs.filter((l) => l.action === 'session.created').length
+        const loginCount = logs.filter((l) => l.action === 'user.login').length
+        const logoutCount = logs.filter((l) => l.action === 'user.logout').length
+        const sessionCreatedCount = logs.filter((l) => l.action === 'session.created').length
         return { loginCount, logoutCount, sessionCreatedCount }
-    }, [filteredLogs])
+    }, [logs])
 
     return (
         <div className="space-y-6">
@@ -215,7 +490,7 @@ export default function AuditLogsPage() {
                         </CardTitle>
                     </CardHeader>
                     <CardContent>
-                        <div className="font-heading text-2xl font-bold text-foreground">{filteredLogs.length}</div>
+                        <div className="font-heading text-2xl font-bold text-foreground">{logs.length}</div>
                     </CardContent>
                 </Card>
                 <Card className="border-warm-border bg-warm-surface">
@@ -255,48 +530,172 @@ export default function AuditLogsPage() {
 
             <Card className="border-warm-border bg-warm-surface">
                 <CardHeader>
-                    <CardTitle className="flex items-center gap-2 text-foreground">
-                        <Filter className="h-5 w-5 text-amber-500" />
-                        Filters
-                    </CardTitle>
-                </CardHeader>
-                <CardContent>
-                    <div className="grid gap-4 md:grid-cols-2">
-                        <div className="space-y-2">
-                            <label className="text-sm font-medium">Action Type</label>
+                    <div className="flex items-center justify-between gap-4">
+                        <div>
+                            <CardTitle className="flex items-center gap-2 text-foreground">
+                                <Filter className="h-5 w-5 text-amber-500" />
+                                Filters
+                            </CardTitle>
+                            {rangeDays && (
+                                <CardDescription>
+                                    Last {rangeDays === 1 ? '24 hours' : `${rangeDays} days`} only
+                                </CardDescription>
+                            )}
+                        </div>
+                        <div className="flex items-center gap-2">
                             <Select
-                                value={actionFilter}
+                                value={activeViewId}
                                 onValueChange={(value) => {
-                                    setCurrentPage(1)
-                                    setActionFilter(value)
+                                    const view = views.find((v) => v.id === value)
+                                    if (view) applyView(view)
                                 }}
+                                disabled={views.length === 0}
                             >
-                                <SelectTrigger>
-                                    <SelectValue />
+                                <SelectTrigger className="h-9 w-[200px] rounded-lg border-warm-border">
+                                    <SelectValue placeholder={views.length > 0 ? 'Saved views' : 'No saved views'} />
                                 </SelectTrigger>
                                 <SelectContent>
-                                    <SelectItem value="all">All Actions</SelectItem>
-                                    {AUDIT_ACTIONS.map((action) => (
-                                        <SelectItem key={action} value={action}>
-                                            {formatActionLabel(action)}
+                                    {views.map((view) => (
+                                        <SelectItem key={view.id} value={view.id}>
+                                            {view.name}
                                         </SelectItem>
                                     ))}
                                 </SelectContent>
                             </Select>
+                            {activeViewId && (
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="rounded-lg border-warm-border"
+                                    onClick={handleDeleteView}
+                                    title="Delete this view"
+                                >
+                                    <Trash2 className="h-4 w-4" />
+                                </Button>
+                            )}
+                            <Button variant="outline" size="sm" className="rounded-lg border-warm-border" onClick={openSaveView}>
+                                <Bookmark className="h-4 w-4 mr-2" />
+                                Save View
+                            </Button>
                         </div>
-                        <div className="space-y-2">
-                            <label className="text-sm font-medium">Search by Email</label>
-                            <div className="relative">
-                                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    </div>
+                </CardHeader>
+                <CardContent>
+                    <form onSubmit={applySearch} className="space-y-4">
+                        <div className="grid gap-4 md:grid-cols-2">
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium">Actions</label>
+                                <Select
+                                    value=""
+                                    onValueChange={(value) => {
+                                        setCurrentPage(1)
+                                        setActiveViewId('')
+                                        setActionFilters((current) => (current.includes(value) ? current : [...current, value]))
+                                    }}
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue placeholder={actionFilters.length > 0 ? 'Add another action...' : 'All Actions'} />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {AUDIT_ACTION_GROUPS.map((group) => (
+                                            <SelectItem key={group} value={group}>
+                                                {formatActionLabel(group)}
+                                            </SelectItem>
+                                        ))}
+                                        {AUDIT_ACTIONS.map((action) => (
+                                            <SelectItem key={action} value={action}>
+                                                {formatActionLabel(action)}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                {actionFilters.length > 0 && (
+                                    <div className="flex flex-wrap gap-1">
+                                        {actionFilters.map((action) => (
+                                            <button
+                                                key={action}
+                                                type="button"
+                                                className={`text-xs px-2 py-1 rounded inline-flex items-center gap-1 ${getActionColor(action)}`}
+                                                onClick={() => {
+                                                    setCurrentPage(1)
+                                                    setActiveViewId('')
+                                                    setActionFilters((current) => current.filter((a) => a !== action))
+                                                }}
+                                            >
+                                                {formatActionLabel(action)}
+                                                <X className="h-3 w-3" />
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium">Search</label>
+                                <div className="relative">
+                                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                                    <Input
+                                        placeholder="Anything in the email, action, resource, IP or details"
+                                        value={searchInput.q}
+                                        onChange={(e) => setSearchInput({ ...searchInput, q: e.target.value })}
+                                        className="pl-9"
+                                    />
+                                </div>
+                            </div>
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium">Email starts with</label>
+                                <Input
+                                    placeholder="alice@"
+                                    value={searchInput.email}
+                                    onChange={(e) => setSearchInput({ ...searchInput, email: e.target.value })}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium">IP starts with</label>
+                                <Input
+                                    placeholder="203.0.113."
+                                    value={searchInput.ip}
+                                    onChange={(e) => setSearchInput({ ...searchInput, ip: e.target.value })}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium">Resource ID</label>
+                                <Input
+                                    placeholder="Exact ID of a user, role, token..."
+                                    value={searchInput.resourceId}
+                                    onChange={(e) => setSearchInput({ ...searchInput, resourceId: e.target.value })}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium">Request ID</label>
                                 <Input
-                                    placeholder="user@example.com"
-                                    value={searchEmail}
-                                    onChange={(e) => setSearchEmail(e.target.value)}
-                                    className="pl-9"
+                                    placeholder="X-Request-Id from an error or server log"
+                                    value={searchInput.requestId}
+                                    onChange={(e) => setSearchInput({ ...searchInput, requestId: e.target.value })}
+                                    className="font-mono"
+                                />
+                            </div>
+                            <div className="space-y-2 md:col-span-2">
+                                <label className="text-sm font-medium">Details</label>
+                                <Input
+                                    placeholder="changes.after.role:admin, target_user_email:bob@example.com"
+                                    value={searchInput.details}
+                                    onChange={(e) => setSearchInput({ ...searchInput, details: e.target.value })}
+                                    className="font-mono"
                                 />
                             </div>
                         </div>
-                    </div>
+                        <div className="flex items-center justify-end gap-2">
+                            {hasFilters && (
+                                <Button type="button" variant="ghost" size="sm" onClick={clearFilters}>
+                                    Clear Filters
+                                </Button>
+                            )}
+                            <Button type="submit" size="sm" className="rounded-lg">
+                                <Search className="h-4 w-4 mr-2" />
+                                Search
+                            </Button>
+                        </div>
+                    </form>
                 </CardContent>
             </Card>
 
@@ -305,18 +704,71 @@ export default function AuditLogsPage() {
                     <div className="flex items-center justify-between gap-4">
                         <div>
                             <CardTitle className="text-foreground">Activity Log</CardTitle>
-                            <CardDescription>Showing {filteredLogs.length} of {totalCount} entries</CardDescription>
+                            <CardDescription>
+                                {live ? (
+                                    <span className="inline-flex items-center gap-2">
+                                        <span className={`h-2 w-2 rounded-full ${paused ? 'bg-amber-500' : 'bg-green-500 animate-pulse'}`} />
+                                        {paused
+                                            ? `Paused · ${heldCount} new ${heldCount === 1 ? 'entry' : 'entries'} waiting`
+                                            : `Live · showing the latest ${logs.length} of ${totalCount} entries`}
+                                        {missedCount > 0 && ` · ${missedCount} not shown (too many at once)`}
+                                    </span>
+                                ) : (
+                                    `Showing ${logs.length} of ${totalCount} entries`
+                                )}
+                            </CardDescription>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            {live && (
+                                <Button variant="outline" size="sm" className="rounded-lg border-warm-border" onClick={() => setLivePaused(!paused)}>
+                                    {paused ? <Play className="h-4 w-4 mr-2" /> : <Pause className="h-4 w-4 mr-2" />}
+                                    {paused ? 'Resume' : 'Pause'}
+                                </Button>
+                            )}
+                            <Button
+                                variant={live ? 'default' : 'outline'}
+                                size="sm"
+                                className={live ? 'rounded-lg' : 'rounded-lg border-warm-border'}
+                                onClick={toggleLive}
+                            >
+                                <Radio className="h-4 w-4 mr-2" />
+                                {live ? 'Stop Live' : 'Live'}
+                            </Button>
+                            <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as AuditExportFormat)}>
+                                <SelectTrigger className="h-9 w-[100px] rounded-lg border-warm-border">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="csv">CSV</SelectItem>
+                                    <SelectItem value="ndjson">NDJSON</SelectItem>
+                                    <SelectItem value="cef">CEF</SelectItem>
+                                </SelectContent>
+                            </Select>
+                            <a href={exportHref()} download>
+                                <Button variant="outline" size="sm" className="rounded-lg border-warm-border" disabled={totalCount === 0}>
+                                    <Download className="h-4 w-4 mr-2" />
+                                    Export
+                                </Button>
+                            </a>
+                            <Link href="/admin/audit-logs/integrity">
+                                <Button variant="outline" size="sm" className="rounded-lg border-warm-border">
+                                    <ShieldCheck className="h-4 w-4 mr-2" />
+                                    Verify Integrity
+                                </Button>
+                            </Link>
+                            <Link href="/admin/audit-logs/retention">
+                                <Button variant="outline" size="sm" className="rounded-lg border-warm-border">
+                                    <Archive className="h-4 w-4 mr-2" />
+                                    Retention
+                                </Button>
+                            </Link>
+                            <Link href="/admin/audit-logs/alerts">
+                                <Button variant="outline" size="sm" className="rounded-lg border-warm-border">
+                                    <Bell className="h-4 w-4 mr-2" />
+                                    Alerts
+                                </Button>
+                            </Link>
                         </div>
-                        <Button
-                            variant="destructive"
-                            size="sm"
-                            className="rounded-lg"
-                            onClick={() => setShowClearDialog(true)}
-                            disabled={totalCount === 0}
-                        >
-                            <Trash2 className="h-4 w-4 mr-2" />
-                            Clear Logs
-                        </Button>
                     </div>
                 </CardHeader>
                 <CardContent className="p-0">
@@ -329,7 +781,7 @@ export default function AuditLogsPage() {
                         <div className="text-center py-12 text-destructive px-6">
                             <p>{error}</p>
                         </div>
-                    ) : filteredLogs.length === 0 ? (
+                    ) : logs.length === 0 ? (
                         <div className="text-center py-12 text-muted-foreground px-6">
                             <p>No audit logs found</p>
                         </div>
@@ -348,14 +800,18 @@ export default function AuditLogsPage() {
                                     </TableRow>
                                 </TableHeader>
                                 <TableBody>
-                                    {filteredLogs.map((log) => (
-                                        <TableRow key={log.id} className="border-warm-border hover:bg-warm-muted/50 align-top">
+                                    {logs.map((log) => (
+                                        <TableRow
+                                            key={log.id}
+                                            className="border-warm-border hover:bg-warm-muted/50 align-top cursor-pointer"
+                                            onClick={() => setSelectedLog(log)}
+                                        >
                                             <TableCell>
                                                 <span className={`text-xs font-mono px-2 py-1 rounded ${getActionColor(log.action)}`}>
                                                     {log.action}
                                                 </span>
                                             </TableCell>
-                                            <TableCell className="text-sm text-foreground min-w-[220px]">{describeLog(log)}</TableCell>
+                                            <TableCell className="text-sm text-foreground min-w-[220px]">{describeAuditLog(log)}</TableCell>
                                             <TableCell className="font-medium text-foreground">{log.user_email || 'System'}</TableCell>
                                             <TableCell className="text-muted-foreground">
                                                 {log.resource_type || 'N/A'}
@@ -375,7 +831,7 @@ export default function AuditLogsPage() {
                         </div>
                     )}
 
-                    {!loading && totalPages > 1 && (
+                    {!loading && !live && totalPages > 1 && (
                         <div className="flex items-center justify-between mt-6 pt-4 border-t border-warm-border px-6 pb-6">
                             <p className="text-sm text-muted-foreground">
                                 Page {currentPage} of {totalPages}
@@ -405,24 +861,124 @@ export default function AuditLogsPage() {
                 </CardContent>
             </Card>
 
-            <Dialog open={showClearDialog} onOpenChange={setShowClearDialog}>
+            {/* Save View Dialog */}
+            <Dialog open={showSaveView} onOpenChange={setShowSaveView}>
                 <DialogContent>
                     <DialogHeader>
-                        <DialogTitle>Clear All Audit Logs?</DialogTitle>
+                        <DialogTitle>Save View</DialogTitle>
                         <DialogDescription>
-                            This action cannot be undone. This permanently deletes every audit trail entry.
+                            Keeps the filters you&apos;ve applied under a name, for you to load later or to alert on.
                         </DialogDescription>
                     </DialogHeader>
+                    <div className="space-y-4 py-4">
+                        <div className="space-y-2">
+                            <label className="text-sm font-medium">Name</label>
+                            <Input
+                                placeholder="Failed logins from outside the office"
+                                value={viewName}
+                                onChange={(e) => setViewName(e.target.value)}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <label className="text-sm font-medium">Show entries from</label>
+                            <Select value={viewRange} onValueChange={setViewRange}>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {VIEW_RANGES.map((option) => (
+                                        <SelectItem key={option.value} value={option.value}>
+                                            {option.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
                     <DialogFooter>
-                        <Button variant="outline" onClick={() => setShowClearDialog(false)} disabled={clearing}>
+                        <Button variant="outline" onClick={() => setShowSaveView(false)} disabled={savingView}>
                             Cancel
                         </Button>
-                        <Button variant="destructive" onClick={handleClearLogs} disabled={clearing}>
-                            {clearing ? 'Clearing...' : 'Clear All Logs'}
+                        <Button onClick={handleSaveView} disabled={savingView || !viewName.trim()}>
+                            {savingView ? 'Saving...' : 'Save View'}
                         </Button>
                     </DialogFooter>
                 </DialogContent>
             </Dialog>
+
+            {/* Entry Detail Dialog */}
+            <Dialog open={!!selectedLog} onOpenChange={(open) => !open && setSelectedLog(null)}>
+                <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+                    {selectedLog && (
+                        <>
+                            <DialogHeader>
+                                <DialogTitle className="flex items-center gap-2">
+                                    <span className={`text-xs font-mono px-2 py-1 rounded ${getActionColor(selectedLog.action)}`}>
+                                        {selectedLog.action}
+                                    </span>
+                                </DialogTitle>
+                                <DialogDescription>{describeAuditLog(selectedLog)}</DialogDescription>
+                            </DialogHeader>
+
+                            <dl className="grid grid-cols-[120px_1fr] gap-x-3 gap-y-2 text-sm">
+                                <dt className="text-muted-foreground">Time</dt>
+                                <dd className="text-foreground">{new Date(selectedLog.created_at).toLocaleString()}</dd>
+                                <dt className="text-muted-foreground">User</dt>
+                                <dd className="text-foreground">{selectedLog.user_email || 'System'}</dd>
+                                <dt className="text-muted-foreground">Resource</dt>
+                                <dd className="text-foreground">
+                                    {selectedLog.resource_type || 'N/A'}
+                                    {selectedLog.resource_id && (
+                                        <span className="ml-2 font-mono text-xs text-muted-foreground">{selectedLog.resource_id}</span>
+                                    )}
+                                </dd>
+                                <dt className="text-muted-foreground">IP</dt>
+                                <dd className="text-foreground">{selectedLog.ip_address || 'N/A'}</dd>
+                                <dt className="text-muted-foreground">User agent</dt>
+                                <dd className="break-all text-xs text-foreground">{selectedLog.user_agent || 'N/A'}</dd>
+                                <dt className="text-muted-foreground">Request</dt>
+                                <dd className="flex flex-wrap items-center gap-2">
+                                    {selectedLog.request_id ? (
+                                        <>
+                                            <span className="break-all font-mono text-xs text-foreground">{selectedLog.request_id}</span>
+                                            <Button
+                                                variant="link"
+                                                size="sm"
+                                                className="h-auto p-0 text-xs"
+                                                onClick={() => showRequest(selectedLog)}
+                                            >
+                                                Show all entries from this request
+                                            </Button>
+                                        </>
+                                    ) : (
+                                        <span className="text-foreground">N/A</span>
+                                    )}
+                                </dd>
+                                <dt className="text-muted-foreground">Chain</dt>
+                                <dd className="break-all font-mono text-xs text-muted-foreground">
+                                    #{selectedLog.chain_seq ?? '—'} {selectedLog.hash}
+                                </dd>
+                            </dl>
+
+                            {selectedLog.details?.changes && (
+                                <div className="space-y-2">
+                                    <h3 className="text-sm font-medium text-foreground">Changes</h3>
+                                    <AuditChanges changes={selectedLog.details.changes} />
+                                </div>
+                            )}
+
+                            {otherDetails(selectedLog) && (
+                                <div className="space-y-2">
+                                    <h3 className="text-sm font-medium text-foreground">Details</h3>
+                                    <pre className="rounded-md bg-warm-muted/50 p-3 text-xs text-foreground whitespace-pre-wrap break-all">
+                                        {JSON.stringify(otherDetails(selectedLog), null, 2)}
+                                    </pre>
+                                </div>
+                            )}
+                        </>
+                    )}
+                </DialogContent>
+            </Dialog>
         </div>
     )
 }
@@ -0,0 +1,409 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { AuditArchive, AuditRetentionPolicy, AuditRetentionPreview } from '@/types'
+import { Archive, ChevronLeft, Shield, Plus, RefreshCw, Trash2 } from 'lucide-react'
+import Link from 'next/link'
+import { toast } from 'sonner'
+import { useAdminAccess } from '@/contexts/AdminAccessContext'
+import { useStepUp } from '@/contexts/StepUpContext'
+import { PERMISSIONS } from '@/lib/permissions'
+
+// A policy row being edited; days is the raw input, blank meaning forever
+type DraftPolicy = { pattern: string; days: string; isNew: boolean }
+
+function toDraft(policies: AuditRetentionPolicy[]): DraftPolicy[] {
+    return policies.map((policy) => ({
+        pattern: policy.pattern,
+        days: policy.retention_days === null ? '' : String(policy.retention_days),
+        isNew: false,
+    }))
+}
+
+function formatRetention(days: number | null) {
+    if (days === null) return 'Forever'
+    if (days % 365 === 0) return `${days / 365} ${days === 365 ? 'year' : 'years'}`
+    return `${days} ${days === 1 ? 'day' : 'days'}`
+}
+
+export default function AuditRetentionPage() {
+    const router = useRouter()
+    const { can } = useAdminAccess()
+    const { fetchWithStepUp } = useStepUp()
+    const canManage = can(PERMISSIONS.AUDIT_PURGE)
+
+    const [policies, setPolicies] = useState<AuditRetentionPolicy[]>([])
+    const [archives, setArchives] = useState<AuditArchive[]>([])
+    const [draft, setDraft] = useState<DraftPolicy[]>([])
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState('')
+
+    const [preview, setPreview] = useState<AuditRetentionPreview[] | null>(null)
+    const [loadingPreview, setLoadingPreview] = useState(false)
+
+    const [showConfirm, setShowConfirm] = useState(false)
+    const [saving, setSaving] = useState(false)
+
+    useEffect(() => {
+        fetchPolicies()
+        fetchPreview()
+    }, [])
+
+    const fetchPolicies = async () => {
+        try {
+            setLoading(true)
+            const res = await fetch('/api/admin/audit-logs/retention')
+
+            if (!res.ok) {
+                if (res.status === 403) {
+                    router.push('/dashboard')
+                    return
+                }
+                throw new Error('Failed to fetch retention policies')
+            }
+
+            const data = await res.json()
+            setPolicies(data.data.policies || [])
+            setArchives(data.data.archives || [])
+            setDraft(toDraft(data.data.policies || []))
+        } catch (err: any) {
+            setError(err.message)
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const fetchPreview = async () => {
+        try {
+            setLoadingPreview(true)
+            const res = await fetch('/api/admin/audit-logs/retention/preview')
+
+            if (!res.ok) {
+                const data = await res.json()
+                throw new Error(data.message || data.error || 'Failed to preview retention')
+            }
+
+            const data = await res.json()
+            setPreview(data.data || [])
+        } catch (err: any) {
+            toast.error(err.message)
+        } finally {
+            setLoadingPreview(false)
+        }
+    }
+
+    const updateDraft = (index: number, changes: Partial<DraftPolicy>) => {
+        setDraft((current) => current.map((policy, i) => (i === index ? { ...policy, ...changes } : policy)))
+    }
+
+    const removeDraft = (index: number) => {
+        setDraft((current) => current.filter((_, i) => i !== index))
+    }
+
+    const dirty = JSON.stringify(draft.map(({ pattern, days }) => [pattern, days]))
+        !== JSON.stringify(toDraft(policies).map(({ pattern, days }) => [pattern, days]))
+
+    // Policies that will keep entries for less time than they do now
+    const shortened = draft.filter((policy) => {
+        const before = policies.find((p) => p.pattern === policy.pattern)
+        const days = policy.days.trim() ? Number(policy.days) : null
+        return before && days !== null && (before.retention_days === null || days < before.retention_days)
+    })
+
+    const handleSave = async () => {
+        try {
+            setSaving(true)
+            const res = await fetchWithStepUp('/api/admin/audit-logs/retention', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    policies: draft.map((policy) => ({
+                        pattern: policy.pattern.trim(),
+                        retention_days: policy.days.trim() ? Number(policy.days) : null,
+                    })),
+                }),
+            })
+
+            if (!res.ok) {
+                const data = await res.json()
+                const detail = data.details?.[0]?.message
+                throw new Error(detail || data.error || 'Failed to save retention policies')
+            }
+
+            setShowConfirm(false)
+
+            if (res.status === 202) {
+                toast.info('Sent for approval by another admin')
+                return
+            }
+
+            toast.success('Retention policies updated')
+            fetchPolicies()
+            fetchPreview()
+        } catch (err: any) {
+            toast.error(err.message)
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div>
+                <Link href="/admin/audit-logs">
+                    <Button variant="ghost" size="sm" className="mb-4">
+                        <ChevronLeft className="h-4 w-4 mr-1" />
+                        Back to Audit Logs
+                    </Button>
+                </Link>
+                <div className="flex items-center gap-2 mb-2">
+                    <Archive className="h-6 w-6 text-amber-500" />
+                    <h1 className="font-heading text-2xl sm:text-3xl font-bold tracking-tight text-foreground">Audit Log Retention</h1>
+                </div>
+                <p className="text-sm sm:text-base text-muted-foreground">
+                    How long each kind of entry is kept. Expired entries are archived to compressed files
+                    by the daily retention job before they are removed from the log.
+                </p>
+            </div>
+
+            <Card className="border-warm-border bg-warm-surface">
+                <CardHeader>
+                    <div className="flex items-center justify-between gap-4">
+                        <div>
+                            <CardTitle className="text-foreground">Policies</CardTitle>
+                            <CardDescription>
+                                Match an action (user.login), a group (role.*) or everything (*). The most specific match wins;
+                                leave the period blank to keep entries forever.
+                            </CardDescription>
+                        </div>
+                        {canManage && (
+                            <div className="flex items-center gap-2">
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="rounded-lg border-warm-border"
+                                    onClick={() => setDraft((current) => [...current, { pattern: '', days: '', isNew: true }])}
+                                >
+                                    <Plus className="h-4 w-4 mr-2" />
+                                    Add Policy
+                                </Button>
+                                <Button size="sm" className="rounded-lg" onClick={() => setShowConfirm(true)} disabled={!dirty}>
+                                    Save Changes
+                                </Button>
+                            </div>
+                        )}
+                    </div>
+                </CardHeader>
+                <CardContent className="p-0">
+                    {loading ? (
+                        <div className="text-center py-12">
+                            <Shield className="h-8 w-8 animate-spin mx-auto mb-4 text-amber-500" />
+                            <p className="text-muted-foreground">Loading retention policies...</p>
+                        </div>
+                    ) : error ? (
+                        <div className="text-center py-12 text-destructive px-6">
+                            <p>{error}</p>
+                        </div>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow className="border-warm-border hover:bg-warm-muted/50">
+                                        <TableHead className="text-foreground">Pattern</TableHead>
+                                        <TableHead className="text-foreground">Keep for (days)</TableHead>
+                                        <TableHead className="text-foreground">Last changed</TableHead>
+                                        {canManage && <TableHead className="text-right text-foreground">Actions</TableHead>}
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {draft.map((policy, index) => {
+                                        const saved = policies.find((p) => p.pattern === policy.pattern)
+                                        return (
+                                            <TableRow key={policy.isNew ? `new-${index}` : policy.pattern} className="border-warm-border hover:bg-warm-muted/50">
+                                                <TableCell className="font-mono text-sm text-foreground">
+                                                    {policy.isNew ? (
+                                                        <Input
+                                                            placeholder="session.*"
+                                                            value={policy.pattern}
+                                                            onChange={(e) => updateDraft(index, { pattern: e.target.value.toLowerCase() })}
+                                                            className="max-w-[220px] font-mono"
+                                                        />
+                                                    ) : (
+                                                        policy.pattern
+                                                    )}
+                                                </TableCell>
+                                                <TableCell>
+                                                    {canManage ? (
+                                                        <Input
+                                                            type="number"
+                                                            min={1}
+                                                            placeholder="Forever"
+                                                            value={policy.days}
+                                                            onChange={(e) => updateDraft(index, { days: e.target.value })}
+                                                            className="max-w-[140px]"
+                                                        />
+                                                    ) : (
+                                                        <span className="text-muted-foreground">
+                                                            {formatRetention(saved?.retention_days ?? null)}
+                                                        </span>
+                                                    )}
+                                                </TableCell>
+                                                <TableCell className="text-sm text-muted-foreground">
+                                                    {saved?.updated_by_email
+                                                        ? `${saved.updated_by_email}, ${new Date(saved.updated_at).toLocaleDateString()}`
+                                                        : '—'}
+                                                </TableCell>
+                                                {canManage && (
+                                                    <TableCell className="text-right">
+                                                        {policy.pattern !== '*' && (
+                                                            <Button
+                                                                variant="ghost"
+                                                                size="sm"
+                                                                className="text-red-500 hover:bg-red-500/10"
+                                                                onClick={() => removeDraft(index)}
+                                                            >
+                                                                <Trash2 className="h-4 w-4" />
+                                                            </Button>
+                                                        )}
+                                                    </TableCell>
+                                                )}
+                                            </TableRow>
+                                        )
+                                    })}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Card className="border-warm-border bg-warm-surface">
+                <CardHeader>
+                    <div className="flex items-center justify-between gap-4">
+                        <div>
+                            <CardTitle className="text-foreground">Next Run</CardTitle>
+                            <CardDescription>Entries the retention job would archive and remove right now, under the saved policies</CardDescription>
+                        </div>
+                        <Button variant="outline" size="sm" className="rounded-lg border-warm-border" onClick={fetchPreview} disabled={loadingPreview}>
+                            <RefreshCw className={`h-4 w-4 mr-2 ${loadingPreview ? 'animate-spin' : ''}`} />
+                            Refresh
+                        </Button>
+                    </div>
+                </CardHeader>
+                <CardContent className="p-0">
+                    {!preview ? (
+                        <div className="text-center py-12 text-muted-foreground px-6">
+                            <p>{loadingPreview ? 'Counting expired entries...' : 'No preview yet'}</p>
+                        </div>
+                    ) : preview.length === 0 ? (
+                        <div className="text-center py-12 text-muted-foreground px-6">
+                            <p>Nothing has expired</p>
+                        </div>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow className="border-warm-border hover:bg-warm-muted/50">
+                                        <TableHead className="text-foreground">Policy</TableHead>
+                                        <TableHead className="text-foreground">Kept for</TableHead>
+                                        <TableHead className="text-foreground">Entries</TableHead>
+                                        <TableHead className="text-foreground">Oldest</TableHead>
+                                        <TableHead className="text-foreground">Newest</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {preview.map((row) => (
+                                        <TableRow key={row.pattern} className="border-warm-border hover:bg-warm-muted/50">
+                                            <TableCell className="font-mono text-sm text-foreground">{row.pattern}</TableCell>
+                                            <TableCell className="text-muted-foreground">{formatRetention(row.retention_days)}</TableCell>
+                                            <TableCell className="text-foreground">{row.entries.toLocaleString()}</TableCell>
+                                            <TableCell className="text-muted-foreground">{new Date(row.oldest).toLocaleString()}</TableCell>
+                                            <TableCell className="text-muted-foreground">{new Date(row.newest).toLocaleString()}</TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Card className="border-warm-border bg-warm-surface">
+                <CardHeader>
+                    <CardTitle className="text-foreground">Archives</CardTitle>
+                    <CardDescription>Compressed NDJSON files written before each purge, newest first</CardDescription>
+                </CardHeader>
+                <CardContent className="p-0">
+                    {archives.length === 0 ? (
+                        <div className="text-center py-12 text-muted-foreground px-6">
+                            <p>Nothing has been archived yet</p>
+                        </div>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow className="border-warm-border hover:bg-warm-muted/50">
+                                        <TableHead className="text-foreground">Written</TableHead>
+                                        <TableHead className="text-foreground">File</TableHead>
+                                        <TableHead className="text-foreground">Entries</TableHead>
+                                        <TableHead className="text-foreground">Covers</TableHead>
+                                        <TableHead className="text-foreground">SHA-256</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {archives.map((archive) => (
+                                        <TableRow key={archive.file} className="border-warm-border hover:bg-warm-muted/50">
+                                            <TableCell className="text-muted-foreground">{new Date(archive.created_at).toLocaleString()}</TableCell>
+                                            <TableCell className="font-mono text-xs text-foreground">{archive.file}</TableCell>
+                                            <TableCell className="text-foreground">{archive.entries.toLocaleString()}</TableCell>
+                                            <TableCell className="text-sm text-muted-foreground">
+                                                {new Date(archive.oldest).toLocaleDateString()} – {new Date(archive.newest).toLocaleDateString()}
+                                            </TableCell>
+                                            <TableCell className="font-mono text-xs text-muted-foreground">{archive.sha256.slice(0, 16)}…</TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            {/* Save Confirmation Dialog */}
+            <Dialog open={showConfirm} onOpenChange={setShowConfirm}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Save retention policies?</DialogTitle>
+                        <DialogDescription>
+                            {shortened.length > 0
+                                ? `This shortens retention for ${shortened.map((policy) => policy.pattern).join(', ')}. Entries older than the new period are archived and removed on the next run.`
+                                : 'The retention job applies the new policies on its next run.'}
+                        </DialogDescription>
+                    </DialogHeader>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setShowConfirm(false)} disabled={saving}>
+                            Cancel
+                        </Button>
+                        <Button onClick={handleSave} disabled={saving}>
+                            {saving ? 'Saving...' : 'Save Policies'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    )
+}
@@ -3,6 +3,11 @@
 import Link from 'next/link'
 import { usePathname, useRouter } from 'next/navigation'
 import { useAuth } from '@/contexts/AuthContext'
+import { AdminAccessProvider, useAdminAccess } from '@/contexts/AdminAccessContext'
+import { ImpersonationProvider, useImpersonation } from '@/contexts/ImpersonationContext'
+import { StepUpProvider } from '@/contexts/StepUpContext'
+import { PERMISSIONS } from '@/lib/permissions'
+import { AdminNotification, Permission } from '@/types'
 import { Button } from '@/components/ui/button'
 import { ThemeToggle } from '@/components/theme-toggle'
 import {
@@ -14,27 +19,68 @@ import {
     Menu,
     X,
     Zap,
+    ShieldBan,
+    Lock,
+    KeyRound,
+    ClipboardCheck,
+    Eye,
+    ShieldCheck,
+    Smartphone,
+    KeySquare,
+    Bell,
 } from 'lucide-react'
-import { useState } from 'react'
-
-const navigation = [
-    { name: 'Dashboard', href: '/admin', icon: LayoutDashboard },
-    { name: 'Access Requests', href: '/admin/requests', icon: Shield },
-    { name: 'Users', href: '/admin/users', icon: Users },
-    { name: 'Credits', href: '/admin/credits', icon: Zap },
-    { name: 'Audit Logs', href: '/admin/audit-logs', icon: Clock },
+import { useCallback, useEffect, useState } from 'react'
+
+// Each entry is shown only to roles holding its permission
+const navigation: { name: string; href: string; icon: typeof Shield; permission: Permission }[] = [
+    { name: 'Dashboard', href: '/admin', icon: LayoutDashboard, permission: PERMISSIONS.DASHBOARD_VIEW },
+    { name: 'Access Requests', href: '/admin/requests', icon: Shield, permission: PERMISSIONS.REQUESTS_APPROVE },
+    { name: 'Users', href: '/admin/users', icon: Users, permission: PERMISSIONS.USERS_READ },
+    { name: 'Roles', href: '/admin/roles', icon: KeyRound, permission: PERMISSIONS.ROLES_MANAGE },
+    { name: 'Credits', href: '/admin/credits', icon: Zap, permission: PERMISSIONS.CREDITS_READ },
+    { name: 'Audit Logs', href: '/admin/audit-logs', icon: Clock, permission: PERMISSIONS.AUDIT_READ },
+    { name: 'Approvals', href: '/admin/approvals', icon: ClipboardCheck, permission: PERMISSIONS.APPROVALS_REVIEW },
+    { name: 'IP Blocks', href: '/admin/security/ip-blocks', icon: ShieldBan, permission: PERMISSIONS.SECURITY_MANAGE },
+    { name: 'Locked Accounts', href: '/admin/security/locked-accounts', icon: Lock, permission: PERMISSIONS.SECURITY_MANAGE },
+    { name: 'MFA Coverage', href: '/admin/security/mfa', icon: ShieldCheck, permission: PERMISSIONS.SECURITY_MANAGE },
 ]
 
+const MFA_PATH = '/admin/mfa'
+
+// How often the header checks for new notifications
+const NOTIFICATION_POLL_MS = 60_000
+
 export default function AdminLayout({
     children,
 }: {
     children: React.ReactNode
 }) {
+    return (
+        <AdminAccessProvider>
+            <ImpersonationProvider>
+                <StepUpProvider>
+                    <AdminShell>{children}</AdminShell>
+                </StepUpProvider>
+            </ImpersonationProvider>
+        </AdminAccessProvider>
+    )
+}
+
+function AdminShell({ children }: { children: React.ReactNode }) {
     const pathname = usePathname()
     const router = useRouter()
     const { user, signOut } = useAuth()
+    const { role, mfa, can } = useAdminAccess()
     const [sidebarOpen, setSidebarOpen] = useState(false)
 
+    // Privileged users go through MFA before anything else; the API refuses them until then
+    const mfaPending = !!mfa?.required && !mfa.verified
+    useEffect(() => {
+        if (mfaPending && pathname !== MFA_PATH) {
+            router.replace(MFA_PATH)
+        }
+    }, [mfaPending, pathname, router])
+
     const handleSignOut = async () => {
         await signOut()
         router.push('/login')
@@ -77,7 +123,7 @@ export default function AdminLayout({
                     </div>
 
                     <nav className="flex-1 space-y-0.5 overflow-y-auto px-3 py-5">
-                        {navigation.map((item) => {
+                        {navigation.filter((item) => can(item.permission)).map((item) => {
                             const isActive = pathname === item.href
                             return (
                                 <Link
@@ -113,11 +159,25 @@ export default function AdminLayout({
                                     <p className="truncate text-sm font-medium text-zinc-100">
                                         {user?.user_metadata?.name || user?.email?.split('@')[0]}
                                     </p>
-                                    <p className="text-xs text-zinc-500">Admin</p>
+                                    <p className="text-xs capitalize text-zinc-500">{role || 'Admin'}</p>
                                 </div>
                             </div>
                         </div>
                         <div className="mt-3 flex flex-col gap-2">
+                            <Link
+                                href={MFA_PATH}
+                                className="flex items-center rounded-md px-3 py-1.5 text-xs text-zinc-400 hover:bg-zinc-800 hover:text-zinc-100"
+                            >
+                                <Smartphone className="mr-2 h-4 w-4" />
+                                Two-factor authentication
+                            </Link>
+                            <Link
+                                href="/admin/api-tokens"
+                                className="flex items-center rounded-md px-3 py-1.5 text-xs text-zinc-400 hover:bg-zinc-800 hover:text-zinc-100"
+                            >
+                                <KeySquare className="mr-2 h-4 w-4" />
+                                API tokens
+                            </Link>
                             <ThemeToggle />
                             <Button
                                 variant="outline"
@@ -146,11 +206,175 @@ export default function AdminLayout({
                             <Menu className="h-6 w-6" />
                         </button>
                         <div className="flex-1" />
+                        {!mfaPending && <NotificationBell />}
                     </div>
                 </header>
 
+                <ImpersonationBanner />
+
                 <main className="p-4 sm:p-6 lg:p-8">{children}</main>
             </div>
         </div>
     )
 }
+
+// Unread count and latest notifications (audit alerts) in the header
+function NotificationBell() {
+    const router = useRouter()
+    const [notifications, setNotifications] = useState<AdminNotification[]>([])
+    const [unread, setUnread] = useState(0)
+    const [open, setOpen] = useState(false)
+
+    const fetchNotifications = useCallback(async () => {
+        try {
+            const res = await fetch('/api/admin/notifications')
+            if (!res.ok) return
+
+            const data = await res.json()
+            setNotifications(data.data || [])
+            setUnread(data.unread || 0)
+        } catch {
+            // Try again on the next poll
+        }
+    }, [])
+
+    useEffect(() => {
+        fetchNotifications()
+        const timer = setInterval(fetchNotifications, NOTIFICATION_POLL_MS)
+        return () => clearInterval(timer)
+    }, [fetchNotifications])
+
+    const markRead = async (ids?: string[]) => {
+        await fetch('/api/admin/notifications/read', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(ids ? { ids } : {}),
+        })
+        fetchNotifications()
+    }
+
+    const openNotification = (notification: AdminNotification) => {
+        setOpen(false)
+        if (!notification.read_at) {
+            markRead([notification.id])
+        }
+        if (notification.link) {
+            router.push(notification.link)
+        }
+    }
+
+    return (
+        <div className="relative">
+            <button
+                type="button"
+                onClick={() => setOpen(!open)}
+                className="relative rounded-lg p-2 text-stone-600 hover:bg-warm-muted dark:text-stone-300"
+                aria-label={unread > 0 ? `${unread} unread notifications` : 'Notifications'}
+            >
+                <Bell className="h-5 w-5" />
+                {unread > 0 && (
+                    <span className="absolute right-1 top-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-500 px-1 text-[10px] font-semibold text-white">
+                        {unread > 9 ? '9+' : unread}
+                    </span>
+                )}
+            </button>
+
+            {open && (
+                <>
+                    <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} aria-hidden />
+                    <div className="absolute right-0 z-50 mt-2 w-80 rounded-xl border border-warm-border bg-warm-surface shadow-lg">
+                        <div className="flex items-center justify-between border-b border-warm-border px-4 py-3">
+                            <span className="text-sm font-medium text-foreground">Notifications</span>
+                            {unread > 0 && (
+                                <button type="button" className="text-xs text-amber-600 hover:underline" onClick={() => markRead()}>
+                                    Mark all read
+                                </button>
+                            )}
+                        </div>
+                        {notifications.length === 0 ? (
+                            <p className="px-4 py-6 text-center text-sm text-muted-foreground">No notifications</p>
+                        ) : (
+                            <ul className="max-h-96 divide-y divide-warm-border overflow-y-auto">
+                                {notifications.map((notification) => (
+                                    <li key={notification.id}>
+                                        <button
+                                            type="button"
+                                            className="w-full px-4 py-3 text-left hover:bg-warm-muted/50"
+                                            onClick={() => openNotification(notification)}
+                                        >
+                                            <span className="flex items-center gap-2 text-sm font-medium text-foreground">
+                                                {!notification.read_at && <span className="h-2 w-2 shrink-0 rounded-full bg-amber-500" />}
+                                                {notification.title}
+                                            </span>
+                                            {notification.body && (
+                                                <span className="mt-1 block text-xs text-muted-foreground">{notification.body}</span>
+                                            )}
+                                            <span className="mt-1 block text-xs text-muted-foreground/80">
+                                                {new Date(notification.created_at).toLocaleString()}
+                                            </span>
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    )
+}
+
+// Shown on every admin page while the admin has an impersonation session open
+function ImpersonationBanner() {
+    const { session, end, refresh } = useImpersonation()
+    const [now, setNow] = useState(() => Date.now())
+    const [ending, setEnding] = useState(false)
+
+    useEffect(() => {
+        if (!session) return
+        const timer = setInterval(() => setNow(Date.now()), 1000)
+        return () => clearInterval(timer)
+    }, [session])
+
+    const remainingMs = session ? new Date(session.expires_at).getTime() - now : 0
+    const expired = !!session && remainingMs <= 0
+
+    // Let the server close the session (and audit it) once it runs out
+    useEffect(() => {
+        if (expired) {
+            refresh()
+        }
+    }, [expired, refresh])
+
+    if (!session || expired) {
+        return null
+    }
+
+    const minutes = Math.floor(remainingMs / 60000)
+    const seconds = Math.floor((remainingMs % 60000) / 1000)
+
+    const handleEnd = async () => {
+        setEnding(true)
+        await end()
+        setEnding(false)
+    }
+
+    return (
+        <div className="sticky top-14 z-20 flex flex-wrap items-center justify-between gap-2 border-b border-amber-500/40 bg-amber-500/15 px-4 py-2 text-sm text-amber-800 dark:text-amber-300 sm:top-16 sm:px-6 lg:px-8">
+            <span className="inline-flex items-center gap-2">
+                <Eye className="h-4 w-4" />
+                Impersonating <strong>{session.target_email || session.target_user_id}</strong> (read-only)
+                <span className="font-mono">· ends in {minutes}:{String(seconds).padStart(2, '0')}</span>
+            </span>
+            <Button
+                variant="outline"
+                size="sm"
+                className="h-7 rounded-lg border-amber-500/50 bg-transparent hover:bg-amber-500/20"
+                onClick={handleEnd}
+                disabled={ending}
+            >
+                {ending ? 'Ending...' : 'End Impersonation'}
+            </Button>
+        </div>
+    )
+}
@@ -0,0 +1,210 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { useAdminAccess } from '@/contexts/AdminAccessContext'
+import { MfaStatus } from '@/types'
+import { Smartphone, Shield, CheckCircle2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+type Factor = { id: string; friendly_name: string | null; created_at: string }
+
+export default function MfaPage() {
+    const router = useRouter()
+    const { refresh } = useAdminAccess()
+    const [status, setStatus] = useState<(MfaStatus & { factors: Factor[] }) | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState('')
+
+    // Enrollment in progress: the factor waits for its first code
+    const [enrollment, setEnrollment] = useState<{ factor_id: string, qr_code: string, secret: string } | null>(null)
+    const [starting, setStarting] = useState(false)
+    const [code, setCode] = useState('')
+    const [verifying, setVerifying] = useState(false)
+
+    useEffect(() => {
+        fetchStatus()
+    }, [])
+
+    const fetchStatus = async () => {
+        try {
+            setLoading(true)
+            const res = await fetch('/api/admin/mfa')
+
+            if (!res.ok) {
+                throw new Error('Failed to fetch MFA status')
+            }
+
+            const data = await res.json()
+            setStatus(data.data)
+        } catch (err: any) {
+            setError(err.message)
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const handleStartEnrollment = async () => {
+        try {
+            setStarting(true)
+            const res = await fetch('/api/admin/mfa', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({}),
+            })
+
+            const data = await res.json()
+            if (!res.ok) {
+                throw new Error(data.error || 'Failed to start enrollment')
+            }
+
+            setEnrollment(data.data)
+        } catch (err: any) {
+            toast.error(err.message)
+        } finally {
+            setStarting(false)
+        }
+    }
+
+    const handleVerify = async () => {
+        const factorId = enrollment?.factor_id || status?.factors[0]?.id
+        if (!factorId) return
+
+        try {
+            setVerifying(true)
+            const res = await fetch('/api/admin/mfa/verify', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ factor_id: factorId, code }),
+            })
+
+            const data = await res.json()
+            if (!res.ok) {
+                const detail = data.details?.[0]?.message
+                throw new Error(detail || data.message || data.error || 'Verification failed')
+            }
+
+            toast.success(enrollment ? 'Authenticator enrolled' : 'Verified')
+            setEnrollment(null)
+            setCode('')
+            await refresh()
+            router.push('/admin')
+        } catch (err: any) {
+            toast.error(err.message)
+            setCode('')
+        } finally {
+            setVerifying(false)
+        }
+    }
+
+    const codeInput = (
+        <div className="flex flex-col gap-3 sm:flex-row">
+            <Input
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="6-digit code"
+                className="sm:max-w-[200px] font-mono tracking-widest"
+                value={code}
+                onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                onKeyDown={(e) => e.key === 'Enter' && code.length === 6 && !verifying && handleVerify()}
+                autoFocus
+            />
+            <Button onClick={handleVerify} disabled={verifying || code.length !== 6}>
+                {verifying ? 'Verifying...' : 'Verify'}
+            </Button>
+        </div>
+    )
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div>
+                <div className="flex items-center gap-2 mb-2">
+                    <Smartphone className="h-6 w-6 text-amber-500" />
+                    <h1 className="font-heading text-2xl sm:text-3xl font-bold tracking-tight text-foreground">Two-Factor Authentication</h1>
+                </div>
+                <p className="text-sm sm:text-base text-muted-foreground">
+                    {status?.required
+                        ? 'Admin panel accounts need an authenticator app code on every sign-in'
+                        : 'Protect your account with an authenticator app code'}
+                </p>
+            </div>
+
+            <Card className="border-warm-border bg-warm-surface max-w-2xl">
+                {loading ? (
+                    <CardContent className="text-center py-12">
+                        <Shield className="h-8 w-8 animate-spin mx-auto mb-4 text-amber-500" />
+                        <p className="text-muted-foreground">Loading...</p>
+                    </CardContent>
+                ) : error || !status ? (
+                    <CardContent className="text-center py-12 text-destructive">
+                        <p>{error || 'Failed to fetch MFA status'}</p>
+                    </CardContent>
+                ) : enrollment ? (
+                    <>
+                        <CardHeader>
+                            <CardTitle className="text-foreground">Scan this QR code</CardTitle>
+                            <CardDescription>
+                                Use Google Authenticator, 1Password, Authy or any TOTP app, then enter the code it shows.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <img src={enrollment.qr_code} alt="Authenticator QR code" className="h-44 w-44 rounded-lg bg-white p-2" />
+                            <p className="text-xs text-muted-foreground">
+                                Can&apos;t scan? Enter this key manually: <code className="font-mono text-foreground break-all">{enrollment.secret}</code>
+                            </p>
+                            {codeInput}
+                        </CardContent>
+                    </>
+                ) : !status.enrolled ? (
+                    <>
+                        <CardHeader>
+                            <CardTitle className="text-foreground">No authenticator set up</CardTitle>
+                            <CardDescription>
+                                {status.required
+                                    ? 'You need to set one up before you can use the admin panel.'
+                                    : 'Setting one up is optional for your account.'}
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <Button onClick={handleStartEnrollment} disabled={starting}>
+                                {starting ? 'Starting...' : 'Set Up Authenticator'}
+                            </Button>
+                        </CardContent>
+                    </>
+                ) : !status.verified ? (
+                    <>
+                        <CardHeader>
+                            <CardTitle className="text-foreground">Enter your code</CardTitle>
+                            <CardDescription>
+                                Open {status.factors[0]?.friendly_name || 'your authenticator app'} and enter the current code.
+                                Lost access? Ask another admin to reset your two-factor authentication.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>{codeInput}</CardContent>
+                    </>
+                ) : (
+                    <>
+                        <CardHeader>
+                            <CardTitle className="text-foreground flex items-center gap-2">
+                                <CheckCircle2 className="h-5 w-5 text-green-500" />
+                                Two-factor authentication is on
+                            </CardTitle>
+                            <CardDescription>This session has been verified with your authenticator app.</CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-1 text-sm text-muted-foreground">
+                            {status.factors.map((factor) => (
+                                <p key={factor.id}>
+                                    {factor.friendly_name || 'Authenticator'} · added {new Date(factor.created_at).toLocaleDateString()}
+                                </p>
+                            ))}
+                        </CardContent>
+                    </>
+                )}
+            </Card>
+        </div>
+    )
+}
@@ -6,6 +6,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Input } from '@/components/ui/input'
+import { formatActionLabel } from '@/lib/audit-describe'
 import { AdminStats, AuditLog } from '@/types'
 import {
     Users,
@@ -40,28 +41,6 @@ import { startOfDay, startOfMonth, startOfYear, endOfDay, format } from 'date-fn
 
 const PIE_COLORS = ['#f59e0b', '#10b981', '#3b82f6', '#f97316', '#6366f1', '#ef4444']
 
-function formatActionLabel(action: string) {
-    return action.replace('.', ' ').replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase())
-}
-
-function getLogSummary(log: AuditLog) {
-    const details = log.details || {}
-    if (log.action === 'session.created') {
-        const agent = typeof details.agent_type === 'string' ? details.agent_type.replace(/_/g, ' ') : 'session'
-        return `Created ${agent}`
-    }
-    if (log.action === 'session.updated') return 'Updated a session'
-    if (log.action === 'session.deleted') return 'Deleted a session'
-    if (log.action === 'role.updated') {
-        const role = details.new_role ? String(details.new_role) : 'user'
-        const target = details.target_user_email ? String(details.target_user_email) : 'a user'
-        return `Changed role to ${role} for ${target}`
-    }
-    if (log.action === 'user.login') return 'User logged in'
-    if (log.action === 'user.logout') return 'User logged out'
-    return formatActionLabel(log.action)
-}
-
 export default function AdminDashboard() {
     const router = useRouter()
     const contentRef = useRef<HTMLDivElement>(null)
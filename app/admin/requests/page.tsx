@@ -64,16 +64,22 @@ export default function AdminRequestsPage() {
   const handleReject = async (id: string) => {
     setActionLoading(id + '-reject')
     try {
-      const { error } = await supabase
-        .from('account_requests')
-        .update({ status: 'rejected' })
-        .eq('id', id)
-        
-      if (error) throw error
-      await fetchRequests()
+      const res = await fetch('/api/admin/requests/reject', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ requestId: id })
+      })
+
+      if (res.ok) {
+        await fetchRequests()
+      } else {
+        const errorData = await res.json()
+        console.error('Failed to reject:', errorData)
+        alert('Failed to reject request: ' + (errorData.error || 'Unknown error'))
+      }
     } catch (error) {
-      console.error('Failed to reject:', error)
-      alert('Failed to reject request')
+      console.error('Error rejecting request:', error)
+      alert('An unexpected error occurred')
     } finally {
       setActionLoading(null)
     }
@@ -0,0 +1,345 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { ALL_PERMISSIONS, PERMISSION_DESCRIPTIONS } from '@/lib/permissions'
+import { Permission, Role } from '@/types'
+import { KeyRound, ChevronLeft, Shield, Plus, Lock } from 'lucide-react'
+import Link from 'next/link'
+import { toast } from 'sonner'
+
+export default function RolesPage() {
+    const router = useRouter()
+    const [roles, setRoles] = useState<Role[]>([])
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState('')
+
+    // Create / edit state; editing holds the role being edited, null when creating
+    const [showEditor, setShowEditor] = useState(false)
+    const [editing, setEditing] = useState<Role | null>(null)
+    const [name, setName] = useState('')
+    const [description, setDescription] = useState('')
+    const [permissions, setPermissions] = useState<Permission[]>([])
+    const [saving, setSaving] = useState(false)
+
+    // Delete state
+    const [deleteTarget, setDeleteTarget] = useState<Role | null>(null)
+    const [deleting, setDeleting] = useState(false)
+
+    useEffect(() => {
+        fetchRoles()
+    }, [])
+
+    const fetchRoles = async () => {
+        try {
+            setLoading(true)
+            const res = await fetch('/api/admin/roles')
+
+            if (!res.ok) {
+                if (res.status === 403) {
+                    router.push('/dashboard')
+                    return
+                }
+                throw new Error('Failed to fetch roles')
+            }
+
+            const data = await res.json()
+            setRoles(data.data || [])
+        } catch (err: any) {
+            setError(err.message)
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const openEditor = (role: Role | null) => {
+        setEditing(role)
+        setName(role?.name || '')
+        setDescription(role?.description || '')
+        setPermissions(role?.permissions || [])
+        setShowEditor(true)
+    }
+
+    const togglePermission = (permission: Permission) => {
+        setPermissions((current) =>
+            current.includes(permission)
+                ? current.filter((p) => p !== permission)
+                : [...current, permission]
+        )
+    }
+
+    const handleSave = async () => {
+        try {
+            setSaving(true)
+            const res = editing
+                ? await fetch(`/api/admin/roles/${editing.id}`, {
+                    method: 'PATCH',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify(
+                        editing.name === 'admin'
+                            ? { description: description.trim() || null }
+                            : { description: description.trim() || null, permissions }
+                    ),
+                })
+                : await fetch('/api/admin/roles', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({
+                        name: name.trim(),
+                        description: description.trim() || null,
+                        permissions,
+                    }),
+                })
+
+            if (!res.ok) {
+                const data = await res.json()
+                const detail = data.details?.[0]?.message
+                throw new Error(detail || data.error || 'Failed to save role')
+            }
+
+            toast.success(editing ? `Updated ${editing.name}` : `Created ${name.trim()}`)
+            setShowEditor(false)
+            fetchRoles()
+        } catch (err: any) {
+            toast.error(err.message)
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const handleDelete = async () => {
+        if (!deleteTarget) return
+
+        try {
+            setDeleting(true)
+            const res = await fetch(`/api/admin/roles/${deleteTarget.id}`, {
+                method: 'DELETE',
+            })
+
+            if (!res.ok) {
+                const data = await res.json()
+                throw new Error(data.error || 'Failed to delete role')
+            }
+
+            toast.success(`Deleted ${deleteTarget.name}`)
+            setDeleteTarget(null)
+            fetchRoles()
+        } catch (err: any) {
+            toast.error(err.message)
+        } finally {
+            setDeleting(false)
+        }
+    }
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div>
+                <Link href="/admin">
+                    <Button variant="ghost" size="sm" className="mb-4">
+                        <ChevronLeft className="h-4 w-4 mr-1" />
+                        Back to Admin
+                    </Button>
+                </Link>
+                <div className="flex items-center gap-2 mb-2">
+                    <KeyRound className="h-6 w-6 text-amber-500" />
+                    <h1 className="font-heading text-2xl sm:text-3xl font-bold tracking-tight text-foreground">Roles</h1>
+                </div>
+                <p className="text-sm sm:text-base text-muted-foreground">
+                    Named bundles of permissions that can be assigned to users
+                </p>
+            </div>
+
+            <Card className="border-warm-border bg-warm-surface">
+                <CardHeader>
+                    <div className="flex items-center justify-between gap-4">
+                        <div>
+                            <CardTitle className="text-foreground">All Roles</CardTitle>
+                            <CardDescription>{roles.length} {roles.length === 1 ? 'role' : 'roles'}</CardDescription>
+                        </div>
+                        <Button size="sm" className="rounded-lg" onClick={() => openEditor(null)}>
+                            <Plus className="h-4 w-4 mr-2" />
+                            New Role
+                        </Button>
+                    </div>
+                </CardHeader>
+                <CardContent className="p-0">
+                    {loading ? (
+                        <div className="text-center py-12">
+                            <Shield className="h-8 w-8 animate-spin mx-auto mb-4 text-amber-500" />
+                            <p className="text-muted-foreground">Loading roles...</p>
+                        </div>
+                    ) : error ? (
+                        <div className="text-center py-12 text-destructive px-6">
+                            <p>{error}</p>
+                        </div>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow className="border-warm-border hover:bg-warm-muted/50">
+                                        <TableHead className="text-foreground">Role</TableHead>
+                                        <TableHead className="text-foreground">Description</TableHead>
+                                        <TableHead className="text-foreground">Permissions</TableHead>
+                                        <TableHead className="text-foreground">Users</TableHead>
+                                        <TableHead className="text-right text-foreground">Actions</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {roles.map((role) => (
+                                        <TableRow key={role.id} className="border-warm-border hover:bg-warm-muted/50">
+                                            <TableCell className="font-medium text-foreground">
+                                                <span className="inline-flex items-center gap-2">
+                                                    {role.name}
+                                                    {role.is_system && (
+                                                        <span className="text-xs bg-zinc-500/20 text-zinc-600 dark:text-zinc-400 px-2 py-0.5 rounded inline-flex items-center gap-1">
+                                                            <Lock className="h-3 w-3" /> Built-in
+                                                        </span>
+                                                    )}
+                                                </span>
+                                            </TableCell>
+                                            <TableCell className="text-sm text-muted-foreground max-w-[280px]">{role.description || '—'}</TableCell>
+                                            <TableCell className="max-w-[360px]">
+                                                {role.permissions.length === 0 ? (
+                                                    <span className="text-sm text-muted-foreground">None</span>
+                                                ) : (
+                                                    <div className="flex flex-wrap gap-1">
+                                                        {role.permissions.map((permission) => (
+                                                            <span key={permission} className="text-xs font-mono bg-amber-500/15 text-amber-700 dark:text-amber-400 px-2 py-0.5 rounded">
+                                                                {permission}
+                                                            </span>
+                                                        ))}
+                                                    </div>
+                                                )}
+                                            </TableCell>
+                                            <TableCell className="text-muted-foreground">{role.user_count ?? 0}</TableCell>
+                                            <TableCell className="text-right">
+                                                <div className="flex items-center justify-end gap-2">
+                                                    <Button
+                                                        variant="outline"
+                                                        size="sm"
+                                                        className="rounded-lg border-warm-border"
+                                                        onClick={() => openEditor(role)}
+                                                    >
+                                                        Edit
+                                                    </Button>
+                                                    {!role.is_system && (
+                                                        <Button
+                                                            variant="outline"
+                                                            size="sm"
+                                                            className="rounded-lg border-red-500/30 text-red-500 hover:bg-red-500/10 hover:border-red-500/50"
+                                                            onClick={() => setDeleteTarget(role)}
+                                                        >
+                                                            Delete
+                                                        </Button>
+                                                    )}
+                                                </div>
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            {/* Create / Edit Role Dialog */}
+            <Dialog open={showEditor} onOpenChange={setShowEditor}>
+                <DialogContent className="max-h-[90vh] overflow-y-auto">
+                    <DialogHeader>
+                        <DialogTitle>{editing ? `Edit ${editing.name}` : 'New Role'}</DialogTitle>
+                        <DialogDescription>
+                            {editing?.name === 'admin'
+                                ? 'The admin role always has every permission.'
+                                : 'Users with this role get exactly the permissions checked below.'}
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4 py-4">
+                        {!editing && (
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium">Name</label>
+                                <Input
+                                    placeholder="support"
+                                    value={name}
+                                    onChange={(e) => setName(e.target.value.toLowerCase())}
+                                />
+                            </div>
+                        )}
+                        <div className="space-y-2">
+                            <label className="text-sm font-medium">Description</label>
+                            <Input
+                                placeholder="Handles user support tickets"
+                                value={description}
+                                onChange={(e) => setDescription(e.target.value)}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <label className="text-sm font-medium">Permissions</label>
+                            <div className="space-y-1 rounded-lg border border-warm-border p-2">
+                                {ALL_PERMISSIONS.map((permission) => (
+                                    <label
+                                        key={permission}
+                                        className="flex items-start gap-3 rounded-md px-2 py-1.5 hover:bg-warm-muted/50 cursor-pointer"
+                                    >
+                                        <input
+                                            type="checkbox"
+                                            className="mt-0.5 h-4 w-4 accent-amber-500"
+                                            checked={editing?.name === 'admin' || permissions.includes(permission)}
+                                            disabled={editing?.name === 'admin'}
+                                            onChange={() => togglePermission(permission)}
+                                        />
+                                        <span>
+                                            <span className="block text-sm font-mono text-foreground">{permission}</span>
+                                            <span className="block text-xs text-muted-foreground">{PERMISSION_DESCRIPTIONS[permission]}</span>
+                                        </span>
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setShowEditor(false)} disabled={saving}>
+                            Cancel
+                        </Button>
+                        <Button onClick={handleSave} disabled={saving || (!editing && !name.trim())}>
+                            {saving ? 'Saving...' : editing ? 'Save Changes' : 'Create Role'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            {/* Delete Confirmation Dialog */}
+            <Dialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Delete {deleteTarget?.name}?</DialogTitle>
+                        <DialogDescription>
+                            Roles still assigned to users can&apos;t be deleted. Reassign those users first.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setDeleteTarget(null)} disabled={deleting}>
+                            Cancel
+                        </Button>
+                        <Button variant="destructive" onClick={handleDelete} disabled={deleting}>
+                            {deleting ? 'Deleting...' : 'Delete Role'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    )
+}
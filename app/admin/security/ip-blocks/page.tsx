@@ -0,0 +1,311 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { IpBlock } from '@/types'
+import { ShieldBan, ChevronLeft, Shield, Plus, Bot, User } from 'lucide-react'
+import Link from 'next/link'
+import { toast } from 'sonner'
+
+const EXPIRY_OPTIONS: { value: string; label: string; ms: number | null }[] = [
+    { value: 'never', label: 'Never', ms: null },
+    { value: '1h', label: '1 hour', ms: 60 * 60 * 1000 },
+    { value: '24h', label: '24 hours', ms: 24 * 60 * 60 * 1000 },
+    { value: '7d', label: '7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+    { value: '30d', label: '30 days', ms: 30 * 24 * 60 * 60 * 1000 },
+]
+
+export default function IpBlocksPage() {
+    const router = useRouter()
+    const [blocks, setBlocks] = useState<IpBlock[]>([])
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState('')
+
+    // Add block state
+    const [showAddDialog, setShowAddDialog] = useState(false)
+    const [newIp, setNewIp] = useState('')
+    const [newReason, setNewReason] = useState('')
+    const [newExpiry, setNewExpiry] = useState('never')
+    const [saving, setSaving] = useState(false)
+
+    // Unblock state
+    const [unblockTarget, setUnblockTarget] = useState<IpBlock | null>(null)
+    const [unblocking, setUnblocking] = useState(false)
+
+    useEffect(() => {
+        fetchBlocks()
+    }, [])
+
+    const fetchBlocks = async () => {
+        try {
+            setLoading(true)
+            const res = await fetch('/api/admin/ip-blocks')
+
+            if (!res.ok) {
+                if (res.status === 403) {
+                    router.push('/dashboard')
+                    return
+                }
+                throw new Error('Failed to fetch IP blocks')
+            }
+
+            const data = await res.json()
+            setBlocks(data.data || [])
+        } catch (err: any) {
+            setError(err.message)
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const handleAddBlock = async () => {
+        try {
+            setSaving(true)
+            const expiryMs = EXPIRY_OPTIONS.find(o => o.value === newExpiry)?.ms ?? null
+            const res = await fetch('/api/admin/ip-blocks', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    ip: newIp.trim(),
+                    reason: newReason.trim(),
+                    expires_at: expiryMs ? new Date(Date.now() + expiryMs).toISOString() : null,
+                }),
+            })
+
+            if (!res.ok) {
+                const data = await res.json()
+                const detail = data.details?.[0]?.message
+                throw new Error(detail || data.error || 'Failed to block IP')
+            }
+
+            toast.success(`Blocked ${newIp.trim()}`)
+            setShowAddDialog(false)
+            setNewIp('')
+            setNewReason('')
+            setNewExpiry('never')
+            fetchBlocks()
+        } catch (err: any) {
+            toast.error(err.message)
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const handleUnblock = async () => {
+        if (!unblockTarget) return
+
+        try {
+            setUnblocking(true)
+            const res = await fetch(`/api/admin/ip-blocks?id=${encodeURIComponent(unblockTarget.id)}`, {
+                method: 'DELETE',
+            })
+
+            if (!res.ok) {
+                const data = await res.json()
+                throw new Error(data.error || 'Failed to unblock IP')
+            }
+
+            toast.success(`Unblocked ${unblockTarget.ip}`)
+            setUnblockTarget(null)
+            fetchBlocks()
+        } catch (err: any) {
+            toast.error(err.message)
+        } finally {
+            setUnblocking(false)
+        }
+    }
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div>
+                <Link href="/admin">
+                    <Button variant="ghost" size="sm" className="mb-4">
+                        <ChevronLeft className="h-4 w-4 mr-1" />
+                        Back to Admin
+                    </Button>
+                </Link>
+                <div className="flex items-center gap-2 mb-2">
+                    <ShieldBan className="h-6 w-6 text-amber-500" />
+                    <h1 className="font-heading text-2xl sm:text-3xl font-bold tracking-tight text-foreground">IP Blocks</h1>
+                </div>
+                <p className="text-sm sm:text-base text-muted-foreground">
+                    Addresses and CIDR ranges denied access to the admin and auth APIs
+                </p>
+            </div>
+
+            <Card className="border-warm-border bg-warm-surface">
+                <CardHeader>
+                    <div className="flex items-center justify-between gap-4">
+                        <div>
+                            <CardTitle className="text-foreground">Active Blocks</CardTitle>
+                            <CardDescription>{blocks.length} active {blocks.length === 1 ? 'block' : 'blocks'}</CardDescription>
+                        </div>
+                        <Button size="sm" className="rounded-lg" onClick={() => setShowAddDialog(true)}>
+                            <Plus className="h-4 w-4 mr-2" />
+                            Block IP
+                        </Button>
+                    </div>
+                </CardHeader>
+                <CardContent className="p-0">
+                    {loading ? (
+                        <div className="text-center py-12">
+                            <Shield className="h-8 w-8 animate-spin mx-auto mb-4 text-amber-500" />
+                            <p className="text-muted-foreground">Loading IP blocks...</p>
+                        </div>
+                    ) : error ? (
+                        <div className="text-center py-12 text-destructive px-6">
+                            <p>{error}</p>
+                        </div>
+                    ) : blocks.length === 0 ? (
+                        <div className="text-center py-12 text-muted-foreground px-6">
+                            <p>No IP addresses are blocked</p>
+                        </div>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow className="border-warm-border hover:bg-warm-muted/50">
+                                        <TableHead className="text-foreground">IP / Range</TableHead>
+                                        <TableHead className="text-foreground">Reason</TableHead>
+                                        <TableHead className="text-foreground">Source</TableHead>
+                                        <TableHead className="text-foreground">Blocked By</TableHead>
+                                        <TableHead className="text-foreground">Blocked At</TableHead>
+                                        <TableHead className="text-foreground">Expires</TableHead>
+                                        <TableHead className="text-right text-foreground">Actions</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {blocks.map((block) => (
+                                        <TableRow key={block.id} className="border-warm-border hover:bg-warm-muted/50">
+                                            <TableCell className="font-mono text-sm text-foreground">{block.ip}</TableCell>
+                                            <TableCell className="text-sm text-foreground max-w-[280px]">{block.reason || '—'}</TableCell>
+                                            <TableCell>
+                                                {block.source === 'auto' ? (
+                                                    <span className="text-xs bg-orange-500/20 text-orange-600 dark:text-orange-400 px-2 py-1 rounded inline-flex items-center gap-1">
+                                                        <Bot className="h-3 w-3" /> Auto
+                                                    </span>
+                                                ) : (
+                                                    <span className="text-xs bg-sky-500/20 text-sky-600 dark:text-sky-400 px-2 py-1 rounded inline-flex items-center gap-1">
+                                                        <User className="h-3 w-3" /> Manual
+                                                    </span>
+                                                )}
+                                            </TableCell>
+                                            <TableCell className="text-muted-foreground">{block.created_by_email || 'System'}</TableCell>
+                                            <TableCell className="text-muted-foreground">{new Date(block.created_at).toLocaleString()}</TableCell>
+                                            <TableCell className="text-muted-foreground">
+                                                {block.expires_at ? new Date(block.expires_at).toLocaleString() : 'Never'}
+                                            </TableCell>
+                                            <TableCell className="text-right">
+                                                <Button
+                                                    variant="outline"
+                                                    size="sm"
+                                                    className="rounded-lg border-green-500/30 text-green-500 hover:bg-green-500/10 hover:border-green-500/50"
+                                                    onClick={() => setUnblockTarget(block)}
+                                                >
+                                                    Unblock
+                                                </Button>
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            {/* Add Block Dialog */}
+            <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Block IP Address</DialogTitle>
+                        <DialogDescription>
+                            Requests from this address or range will be rejected by the admin and auth APIs.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4 py-4">
+                        <div className="space-y-2">
+                            <label className="text-sm font-medium">IP Address or CIDR</label>
+                            <Input
+                                placeholder="203.0.113.7 or 203.0.113.0/24"
+                                value={newIp}
+                                onChange={(e) => setNewIp(e.target.value)}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <label className="text-sm font-medium">Reason</label>
+                            <Input
+                                placeholder="Credential stuffing from this range"
+                                value={newReason}
+                                onChange={(e) => setNewReason(e.target.value)}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <label className="text-sm font-medium">Expires</label>
+                            <Select value={newExpiry} onValueChange={setNewExpiry}>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {EXPIRY_OPTIONS.map((option) => (
+                                        <SelectItem key={option.value} value={option.value}>
+                                            {option.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setShowAddDialog(false)} disabled={saving}>
+                            Cancel
+                        </Button>
+                        <Button onClick={handleAddBlock} disabled={saving || !newIp.trim() || !newReason.trim()}>
+                            {saving ? 'Blocking...' : 'Block IP'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            {/* Unblock Confirmation Dialog */}
+            <Dialog open={!!unblockTarget} onOpenChange={(open) => !open && setUnblockTarget(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Unblock {unblockTarget?.ip}?</DialogTitle>
+                        <DialogDescription>
+                            Requests from this {unblockTarget?.ip.includes('/') ? 'range' : 'address'} will be allowed again.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setUnblockTarget(null)} disabled={unblocking}>
+                            Cancel
+                        </Button>
+                        <Button onClick={handleUnblock} disabled={unblocking}>
+                            {unblocking ? 'Unblocking...' : 'Unblock'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    )
+}
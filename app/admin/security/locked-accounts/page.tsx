@@ -0,0 +1,198 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { AccountLockout } from '@/types'
+import { Lock, ChevronLeft, Shield, RefreshCw } from 'lucide-react'
+import Link from 'next/link'
+import { toast } from 'sonner'
+
+function formatRemaining(lockedUntil: string) {
+    const minutes = Math.max(0, Math.ceil((new Date(lockedUntil).getTime() - Date.now()) / 60000))
+    if (minutes < 60) return `${minutes} min`
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
+
+export default function LockedAccountsPage() {
+    const router = useRouter()
+    const [lockouts, setLockouts] = useState<AccountLockout[]>([])
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState('')
+
+    // Clear lockout state
+    const [clearTarget, setClearTarget] = useState<AccountLockout | null>(null)
+    const [clearing, setClearing] = useState(false)
+
+    useEffect(() => {
+        fetchLockouts()
+    }, [])
+
+    const fetchLockouts = async () => {
+        try {
+            setLoading(true)
+            const res = await fetch('/api/admin/locked-accounts')
+
+            if (!res.ok) {
+                if (res.status === 403) {
+                    router.push('/dashboard')
+                    return
+                }
+                throw new Error('Failed to fetch locked accounts')
+            }
+
+            const data = await res.json()
+            setLockouts(data.data || [])
+        } catch (err: any) {
+            setError(err.message)
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const handleClearLockout = async () => {
+        if (!clearTarget) return
+
+        try {
+            setClearing(true)
+            const res = await fetch(`/api/admin/locked-accounts?id=${encodeURIComponent(clearTarget.id)}`, {
+                method: 'DELETE',
+            })
+
+            if (!res.ok) {
+                const data = await res.json()
+                throw new Error(data.error || 'Failed to clear lockout')
+            }
+
+            toast.success(`Unlocked ${clearTarget.email}`)
+            setClearTarget(null)
+            fetchLockouts()
+        } catch (err: any) {
+            toast.error(err.message)
+        } finally {
+            setClearing(false)
+        }
+    }
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div>
+                <Link href="/admin">
+                    <Button variant="ghost" size="sm" className="mb-4">
+                        <ChevronLeft className="h-4 w-4 mr-1" />
+                        Back to Admin
+                    </Button>
+                </Link>
+                <div className="flex items-center gap-2 mb-2">
+                    <Lock className="h-6 w-6 text-amber-500" />
+                    <h1 className="font-heading text-2xl sm:text-3xl font-bold tracking-tight text-foreground">Locked Accounts</h1>
+                </div>
+                <p className="text-sm sm:text-base text-muted-foreground">
+                    Accounts temporarily locked after repeated failed login attempts
+                </p>
+            </div>
+
+            <Card className="border-warm-border bg-warm-surface">
+                <CardHeader>
+                    <div className="flex items-center justify-between gap-4">
+                        <div>
+                            <CardTitle className="text-foreground">Active Lockouts</CardTitle>
+                            <CardDescription>{lockouts.length} locked {lockouts.length === 1 ? 'account' : 'accounts'}</CardDescription>
+                        </div>
+                        <Button variant="outline" size="sm" className="rounded-lg border-warm-border" onClick={fetchLockouts} disabled={loading}>
+                            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+                            Refresh
+                        </Button>
+                    </div>
+                </CardHeader>
+                <CardContent className="p-0">
+                    {loading ? (
+                        <div className="text-center py-12">
+                            <Shield className="h-8 w-8 animate-spin mx-auto mb-4 text-amber-500" />
+                            <p className="text-muted-foreground">Loading locked accounts...</p>
+                        </div>
+                    ) : error ? (
+                        <div className="text-center py-12 text-destructive px-6">
+                            <p>{error}</p>
+                        </div>
+                    ) : lockouts.length === 0 ? (
+                        <div className="text-center py-12 text-muted-foreground px-6">
+                            <p>No accounts are locked</p>
+                        </div>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow className="border-warm-border hover:bg-warm-muted/50">
+                                        <TableHead className="text-foreground">Email</TableHead>
+                                        <TableHead className="text-foreground">Failed Attempts</TableHead>
+                                        <TableHead className="text-foreground">Last IP</TableHead>
+                                        <TableHead className="text-foreground">Locked At</TableHead>
+                                        <TableHead className="text-foreground">Unlocks In</TableHead>
+                                        <TableHead className="text-right text-foreground">Actions</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {lockouts.map((lockout) => (
+                                        <TableRow key={lockout.id} className="border-warm-border hover:bg-warm-muted/50">
+                                            <TableCell className="font-medium text-foreground">{lockout.email}</TableCell>
+                                            <TableCell className="text-muted-foreground">{lockout.failed_attempts}</TableCell>
+                                            <TableCell className="font-mono text-sm text-muted-foreground">{lockout.last_ip || 'N/A'}</TableCell>
+                                            <TableCell className="text-muted-foreground">{new Date(lockout.created_at).toLocaleString()}</TableCell>
+                                            <TableCell>
+                                                <span className="text-xs bg-orange-500/20 text-orange-600 dark:text-orange-400 px-2 py-1 rounded inline-flex items-center gap-1">
+                                                    <Lock className="h-3 w-3" /> {formatRemaining(lockout.locked_until)}
+                                                </span>
+                                            </TableCell>
+                                            <TableCell className="text-right">
+                                                <Button
+                                                    variant="outline"
+                                                    size="sm"
+                                                    className="rounded-lg border-green-500/30 text-green-500 hover:bg-green-500/10 hover:border-green-500/50"
+                                                    onClick={() => setClearTarget(lockout)}
+                                                >
+                                                    Unlock
+                                                </Button>
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            {/* Clear Lockout Confirmation Dialog */}
+            <Dialog open={!!clearTarget} onOpenChange={(open) => !open && setClearTarget(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Unlock {clearTarget?.email}?</DialogTitle>
+                        <DialogDescription>
+                            The account can sign in again immediately and its failed-attempt count is reset.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setClearTarget(null)} disabled={clearing}>
+                            Cancel
+                        </Button>
+                        <Button onClick={handleClearLockout} disabled={clearing}>
+                            {clearing ? 'Unlocking...' : 'Unlock Account'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    )
+}
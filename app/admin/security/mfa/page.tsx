@@ -0,0 +1,210 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { useStepUp } from '@/contexts/StepUpContext'
+import { MfaCoverageEntry } from '@/types'
+import { ShieldCheck, ShieldAlert, ChevronLeft, Shield, RefreshCw } from 'lucide-react'
+import Link from 'next/link'
+import { toast } from 'sonner'
+
+export default function MfaCoveragePage() {
+    const router = useRouter()
+    const { fetchWithStepUp } = useStepUp()
+    const [entries, setEntries] = useState<MfaCoverageEntry[]>([])
+    const [enforced, setEnforced] = useState(true)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState('')
+
+    // Reset state
+    const [resetTarget, setResetTarget] = useState<MfaCoverageEntry | null>(null)
+    const [resetting, setResetting] = useState(false)
+
+    useEffect(() => {
+        fetchCoverage()
+    }, [])
+
+    const fetchCoverage = async () => {
+        try {
+            setLoading(true)
+            const res = await fetch('/api/admin/mfa/coverage')
+
+            if (!res.ok) {
+                if (res.status === 403) {
+                    router.push('/dashboard')
+                    return
+                }
+                throw new Error('Failed to fetch MFA coverage')
+            }
+
+            const data = await res.json()
+            setEntries(data.data || [])
+            setEnforced(data.enforced !== false)
+        } catch (err: any) {
+            setError(err.message)
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const handleReset = async () => {
+        if (!resetTarget) return
+
+        try {
+            setResetting(true)
+            const res = await fetchWithStepUp(`/api/admin/users/${resetTarget.user_id}/mfa`, {
+                method: 'DELETE',
+            })
+
+            if (!res.ok) {
+                const data = await res.json()
+                throw new Error(data.error || 'Failed to reset MFA')
+            }
+
+            toast.success(`Reset two-factor authentication for ${resetTarget.email}`)
+            setResetTarget(null)
+            fetchCoverage()
+        } catch (err: any) {
+            toast.error(err.message)
+        } finally {
+            setResetting(false)
+        }
+    }
+
+    const missing = entries.filter((entry) => !entry.enrolled).length
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div>
+                <Link href="/admin">
+                    <Button variant="ghost" size="sm" className="mb-4">
+                        <ChevronLeft className="h-4 w-4 mr-1" />
+                        Back to Admin
+                    </Button>
+                </Link>
+                <div className="flex items-center gap-2 mb-2">
+                    <ShieldCheck className="h-6 w-6 text-amber-500" />
+                    <h1 className="font-heading text-2xl sm:text-3xl font-bold tracking-tight text-foreground">MFA Coverage</h1>
+                </div>
+                <p className="text-sm sm:text-base text-muted-foreground">
+                    Users with admin panel access and whether they have an authenticator app enrolled
+                    {!enforced && ' (enforcement is currently turned off)'}
+                </p>
+            </div>
+
+            <Card className="border-warm-border bg-warm-surface">
+                <CardHeader>
+                    <div className="flex items-center justify-between gap-4">
+                        <div>
+                            <CardTitle className="text-foreground">Privileged Users</CardTitle>
+                            <CardDescription>
+                                {entries.length} {entries.length === 1 ? 'user' : 'users'}, {missing} not enrolled
+                            </CardDescription>
+                        </div>
+                        <Button variant="outline" size="sm" className="rounded-lg border-warm-border" onClick={fetchCoverage} disabled={loading}>
+                            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+                            Refresh
+                        </Button>
+                    </div>
+                </CardHeader>
+                <CardContent className="p-0">
+                    {loading ? (
+                        <div className="text-center py-12">
+                            <Shield className="h-8 w-8 animate-spin mx-auto mb-4 text-amber-500" />
+                            <p className="text-muted-foreground">Loading MFA coverage...</p>
+                        </div>
+                    ) : error ? (
+                        <div className="text-center py-12 text-destructive px-6">
+                            <p>{error}</p>
+                        </div>
+                    ) : entries.length === 0 ? (
+                        <div className="text-center py-12 text-muted-foreground px-6">
+                            <p>No users have admin panel access</p>
+                        </div>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow className="border-warm-border hover:bg-warm-muted/50">
+                                        <TableHead className="text-foreground">Email</TableHead>
+                                        <TableHead className="text-foreground">Role</TableHead>
+                                        <TableHead className="text-foreground">MFA</TableHead>
+                                        <TableHead className="text-foreground">Last Sign In</TableHead>
+                                        <TableHead className="text-right text-foreground">Actions</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {entries.map((entry) => (
+                                        <TableRow key={entry.user_id} className="border-warm-border hover:bg-warm-muted/50">
+                                            <TableCell className="font-medium text-foreground">{entry.email || entry.user_id}</TableCell>
+                                            <TableCell className="text-muted-foreground capitalize">{entry.role}</TableCell>
+                                            <TableCell>
+                                                {entry.enrolled ? (
+                                                    <span className="text-xs bg-green-500/20 text-green-600 dark:text-green-400 px-2 py-1 rounded inline-flex items-center gap-1">
+                                                        <ShieldCheck className="h-3 w-3" /> Enrolled
+                                                    </span>
+                                                ) : (
+                                                    <span className="text-xs bg-red-500/20 text-red-600 dark:text-red-400 px-2 py-1 rounded inline-flex items-center gap-1">
+                                                        <ShieldAlert className="h-3 w-3" /> Not enrolled
+                                                    </span>
+                                                )}
+                                            </TableCell>
+                                            <TableCell className="text-muted-foreground">
+                                                {entry.last_sign_in_at ? new Date(entry.last_sign_in_at).toLocaleDateString() : 'Never'}
+                                            </TableCell>
+                                            <TableCell className="text-right">
+                                                {entry.enrolled && (
+                                                    <Button
+                                                        variant="outline"
+                                                        size="sm"
+                                                        className="rounded-lg border-red-500/30 text-red-500 hover:bg-red-500/10 hover:border-red-500/50"
+                                                        onClick={() => setResetTarget(entry)}
+                                                    >
+                                                        Reset
+                                                    </Button>
+                                                )}
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            {/* Reset MFA Confirmation Dialog */}
+            <Dialog open={!!resetTarget} onOpenChange={(open) => !open && setResetTarget(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Reset two-factor authentication for {resetTarget?.email}?</DialogTitle>
+                        <DialogDescription>
+                            Their authenticator app stops working and they must enroll a new one on their next sign-in.
+                            Only do this after confirming their identity out of band.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setResetTarget(null)} disabled={resetting}>
+                            Cancel
+                        </Button>
+                        <Button variant="destructive" onClick={handleReset} disabled={resetting}>
+                            {resetting ? 'Resetting...' : 'Reset MFA'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    )
+}
@@ -21,13 +21,53 @@ import {
     DialogTitle,
 } from '@/components/ui/dialog'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
-import { AdminUser, UserRoleType } from '@/types'
-import { Users, Search, ChevronLeft, Shield, Crown, User, Sparkles, Ban, Download } from 'lucide-react'
+import { AdminUser, AuthSession, Role, UserRoleType } from '@/types'
+import { Users, Search, ChevronLeft, Shield, Crown, User, Sparkles, Ban, Download, KeyRound, AlertTriangle, Timer, Eye, MonitorSmartphone, LogOut } from 'lucide-react'
 import Link from 'next/link'
 import { toast } from 'sonner'
+import { useAdminAccess } from '@/contexts/AdminAccessContext'
+import { useImpersonation } from '@/contexts/ImpersonationContext'
+import { useStepUp } from '@/contexts/StepUpContext'
+import { PERMISSIONS } from '@/lib/permissions'
+
+const ROLE_EXPIRY_OPTIONS: { value: string; label: string; ms: number | null }[] = [
+    { value: 'never', label: 'Permanent', ms: null },
+    { value: '1d', label: '1 day', ms: 24 * 60 * 60 * 1000 },
+    { value: '3d', label: '3 days', ms: 3 * 24 * 60 * 60 * 1000 },
+    { value: '7d', label: '7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+    { value: '30d', label: '30 days', ms: 30 * 24 * 60 * 60 * 1000 },
+]
+
+function describeDevice(userAgent: string | null) {
+    if (!userAgent) return 'Unknown device'
+    const browser = /Edg\//.test(userAgent) ? 'Edge'
+        : /Firefox\//.test(userAgent) ? 'Firefox'
+            : /Chrome\//.test(userAgent) ? 'Chrome'
+                : /Safari\//.test(userAgent) ? 'Safari'
+                    : null
+    const os = /iPhone|iPad/.test(userAgent) ? 'iOS'
+        : /Android/.test(userAgent) ? 'Android'
+            : /Mac OS X/.test(userAgent) ? 'macOS'
+                : /Windows/.test(userAgent) ? 'Windows'
+                    : /Linux/.test(userAgent) ? 'Linux'
+                        : null
+    if (!browser && !os) return userAgent.slice(0, 40)
+    return [browser, os].filter(Boolean).join(' on ')
+}
+
+function formatExpiresIn(expiresAt: string) {
+    const minutes = Math.max(0, Math.ceil((new Date(expiresAt).getTime() - Date.now()) / 60000))
+    if (minutes < 60) return `${minutes}m`
+    const hours = Math.floor(minutes / 60)
+    if (hours < 48) return `${hours}h`
+    return `${Math.floor(hours / 24)}d`
+}
 
 export default function UserManagementPage() {
     const router = useRouter()
+    const { can } = useAdminAccess()
+    const { start: startImpersonation } = useImpersonation()
+    const { fetchWithStepUp } = useStepUp()
     const [users, setUsers] = useState<AdminUser[]>([])
     const [loading, setLoading] = useState(true)
     const [error, setError] = useState('')
@@ -41,7 +81,11 @@ export default function UserManagementPage() {
     // Role update state
     const [selectedUser, setSelectedUser] = useState<AdminUser | null>(null)
     const [newRole, setNewRole] = useState<UserRoleType>('user')
+    const [newRoleExpiry, setNewRoleExpiry] = useState('never')
     const [updating, setUpdating] = useState(false)
+    const [roles, setRoles] = useState<Role[]>([])
+    // Role changes the server refused (409): shown inline in the dialog
+    const [roleConflict, setRoleConflict] = useState<{ message: string, confirmationToken?: string } | null>(null)
 
     // Status update state
     const [statusTarget, setStatusTarget] = useState<{ user: AdminUser, newStatus: string } | null>(null)
@@ -51,10 +95,27 @@ export default function UserManagementPage() {
     const [revokeTarget, setRevokeTarget] = useState<AdminUser | null>(null)
     const [revoking, setRevoking] = useState(false)
 
+    // Impersonation state
+    const [impersonateTarget, setImpersonateTarget] = useState<AdminUser | null>(null)
+    const [impersonationReason, setImpersonationReason] = useState('')
+    const [impersonating, setImpersonating] = useState(false)
+
+    // Sign-in sessions state
+    const [sessionsTarget, setSessionsTarget] = useState<AdminUser | null>(null)
+    const [sessions, setSessions] = useState<AuthSession[]>([])
+    const [loadingSessions, setLoadingSessions] = useState(false)
+    const [revokingSession, setRevokingSession] = useState<string | null>(null)
+
     useEffect(() => {
         fetchUsers()
     }, [])
 
+    useEffect(() => {
+        if (can(PERMISSIONS.ROLES_ASSIGN)) {
+            fetchRoles()
+        }
+    }, [can])
+
     const fetchUsers = async () => {
         try {
             setLoading(true)
@@ -77,24 +138,62 @@ export default function UserManagementPage() {
         }
     }
 
+    const fetchRoles = async () => {
+        try {
+            const res = await fetch('/api/admin/roles')
+            if (!res.ok) return
+
+            const data = await res.json()
+            setRoles(data.data || [])
+        } catch (err) {
+            console.error('Failed to fetch roles:', err)
+        }
+    }
+
+    const openRoleDialog = (user: AdminUser) => {
+        setSelectedUser(user)
+        setNewRole(user.role)
+        setNewRoleExpiry('never')
+        setRoleConflict(null)
+    }
+
     const handleUpdateRole = async () => {
         if (!selectedUser) return
 
         try {
             setUpdating(true)
-            const res = await fetch(`/api/admin/users/${selectedUser.id}/role`, {
+            const expiryMs = ROLE_EXPIRY_OPTIONS.find(o => o.value === newRoleExpiry)?.ms ?? null
+            const res = await fetchWithStepUp(`/api/admin/users/${selectedUser.id}/role`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ role: newRole }),
+                body: JSON.stringify({
+                    role: newRole,
+                    confirmation_token: roleConflict?.confirmationToken,
+                    expires_at: expiryMs ? new Date(Date.now() + expiryMs).toISOString() : null,
+                }),
             })
 
             if (!res.ok) {
                 const data = await res.json()
+                if (res.status === 409) {
+                    setRoleConflict({
+                        message: data.error,
+                        confirmationToken: data.data?.confirmation_token,
+                    })
+                    return
+                }
                 throw new Error(data.error || 'Failed to update role')
             }
 
+            if (res.status === 202) {
+                toast.info('Sent for approval by another admin')
+                setSelectedUser(null)
+                return
+            }
+
             toast.success('User role updated successfully')
             setSelectedUser(null)
+            setRoleConflict(null)
             fetchUsers()
         } catch (err: any) {
             toast.error(err.message)
@@ -108,7 +207,7 @@ export default function UserManagementPage() {
 
         try {
             setUpdatingStatus(true)
-            const res = await fetch(`/api/admin/users/${statusTarget.user.id}/status`, {
+            const res = await fetchWithStepUp(`/api/admin/users/${statusTarget.user.id}/status`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({ status: statusTarget.newStatus }),
@@ -119,6 +218,12 @@ export default function UserManagementPage() {
                 throw new Error(data.error || 'Failed to update status')
             }
 
+            if (res.status === 202) {
+                toast.info('Sent for approval by another admin')
+                setStatusTarget(null)
+                return
+            }
+
             toast.success(`User status updated to ${statusTarget.newStatus}`)
             setStatusTarget(null)
             fetchUsers()
@@ -145,6 +250,12 @@ export default function UserManagementPage() {
                 throw new Error(data.error || 'Failed to revoke subscription')
             }
 
+            if (res.status === 202) {
+                toast.info('Sent for approval by another admin')
+                setRevokeTarget(null)
+                return
+            }
+
             toast.success(`Premium subscription revoked for ${revokeTarget.email}`)
             setRevokeTarget(null)
             fetchUsers()
@@ -155,6 +266,88 @@ export default function UserManagementPage() {
         }
     }
 
+    const handleImpersonate = async () => {
+        if (!impersonateTarget) return
+
+        // Open the tab inside the click so popup blockers let it through
+        const tab = window.open('', '_blank')
+
+        setImpersonating(true)
+        const { url, error } = await startImpersonation(impersonateTarget.id, impersonationReason.trim())
+        setImpersonating(false)
+
+        if (error || !url) {
+            tab?.close()
+            toast.error(error || 'Failed to start impersonation')
+            return
+        }
+
+        if (tab) {
+            tab.opener = null
+            tab.location.href = url
+        } else {
+            window.open(url, '_blank', 'noopener')
+        }
+
+        toast.success(`Viewing the app as ${impersonateTarget.email}`)
+        setImpersonateTarget(null)
+        setImpersonationReason('')
+    }
+
+    const openSessionsDialog = async (user: AdminUser) => {
+        setSessionsTarget(user)
+        setSessions([])
+
+        try {
+            setLoadingSessions(true)
+            const res = await fetch(`/api/admin/users/${user.id}/sessions`)
+
+            if (!res.ok) {
+                const data = await res.json()
+                throw new Error(data.error || 'Failed to fetch sessions')
+            }
+
+            const data = await res.json()
+            setSessions(data.data || [])
+        } catch (err: any) {
+            toast.error(err.message)
+        } finally {
+            setLoadingSessions(false)
+        }
+    }
+
+    const handleRevokeSession = async (sessionId: string | null) => {
+        if (!sessionsTarget) return
+
+        try {
+            setRevokingSession(sessionId || 'all')
+            const res = await fetch(
+                sessionId
+                    ? `/api/admin/users/${sessionsTarget.id}/sessions/${sessionId}`
+                    : `/api/admin/users/${sessionsTarget.id}/sessions`,
+                { method: 'DELETE' }
+            )
+
+            if (!res.ok) {
+                const data = await res.json()
+                throw new Error(data.error || 'Failed to revoke session')
+            }
+
+            if (sessionId) {
+                toast.success('Session revoked')
+                setSessions(prev => prev.filter(session => session.id !== sessionId))
+            } else {
+                const data = await res.json()
+                toast.success(`Signed ${sessionsTarget.email} out of ${data.data?.revoked ?? 0} sessions`)
+                setSessions([])
+            }
+        } catch (err: any) {
+            toast.error(err.message)
+        } finally {
+            setRevokingSession(null)
+        }
+    }
+
     const filteredUsers = users.filter((user) => {
         if (searchQuery && !user.email.toLowerCase().includes(searchQuery.toLowerCase())) {
             return false
@@ -413,11 +606,30 @@ export default function UserManagementPage() {
                                                     <span className="text-xs bg-sky-500/20 text-sky-600 dark:text-sky-400 px-2 py-1 rounded inline-flex items-center gap-1">
                                                         <Shield className="h-3 w-3" /> Mod
                                                     </span>
-                                                ) : (
+                                                ) : user.role === 'user' ? (
                                                     <span className="text-xs bg-muted text-muted-foreground px-2 py-1 rounded inline-flex items-center gap-1">
                                                         <User className="h-3 w-3" /> User
                                                     </span>
+                                                ) : (
+                                                    <span className="text-xs bg-violet-500/20 text-violet-600 dark:text-violet-400 px-2 py-1 rounded inline-flex items-center gap-1 capitalize">
+                                                        <KeyRound className="h-3 w-3" /> {user.role}
+                                                    </span>
                                                 )}
+                                                {user.role_expires_at && (user.role_expiry_held ? (
+                                                    <span
+                                                        className="ml-1 text-xs bg-red-500/20 text-red-600 dark:text-red-400 px-2 py-1 rounded inline-flex items-center gap-1"
+                                                        title={`Expired on ${new Date(user.role_expires_at).toLocaleString()}, but reverting it would leave too few admins. Promote another admin and it reverts on the next sweep.`}
+                                                    >
+                                                        <AlertTriangle className="h-3 w-3" /> expired, kept
+                                                    </span>
+                                                ) : (
+                                                    <span
+                                                        className="ml-1 text-xs bg-orange-500/20 text-orange-600 dark:text-orange-400 px-2 py-1 rounded inline-flex items-center gap-1"
+                                                        title={`Reverts on ${new Date(user.role_expires_at).toLocaleString()}`}
+                                                    >
+                                                        <Timer className="h-3 w-3" /> expires in {formatExpiresIn(user.role_expires_at)}
+                                                    </span>
+                                                ))}
                                             </TableCell>
                                             <TableCell>
                                                 {user.subscription_type === 'premium' ? (
@@ -452,18 +664,39 @@ export default function UserManagementPage() {
                                             <TableCell className="text-muted-foreground">{user.session_count}</TableCell>
                                             <TableCell className="text-right">
                                                 <div className="flex items-center justify-end gap-2">
-                                                    <Button
-                                                        variant="outline"
-                                                        size="sm"
-                                                        className="rounded-lg border-warm-border"
-                                                        onClick={() => {
-                                                            setSelectedUser(user)
-                                                            setNewRole(user.role)
-                                                        }}
-                                                    >
-                                                        Change Role
-                                                    </Button>
-                                                    {user.subscription_type === 'premium' && (
+                                                    {can(PERMISSIONS.USERS_IMPERSONATE) && user.status !== 'deleted' && (
+                                                        <Button
+                                                            variant="outline"
+                                                            size="sm"
+                                                            className="rounded-lg border-warm-border"
+                                                            onClick={() => setImpersonateTarget(user)}
+                                                        >
+                                                            <Eye className="h-3 w-3 mr-1" />
+                                                            View as
+                                                        </Button>
+                                                    )}
+                                                    {can(PERMISSIONS.USERS_SUSPEND) && (
+                                                        <Button
+                                                            variant="outline"
+                                                            size="sm"
+                                                            className="rounded-lg border-warm-border"
+                                                            onClick={() => openSessionsDialog(user)}
+                                                        >
+                                                            <MonitorSmartphone className="h-3 w-3 mr-1" />
+                                                            Sessions
+                                                        </Button>
+                                                    )}
+                                                    {can(PERMISSIONS.ROLES_ASSIGN) && (
+                                                        <Button
+                                                            variant="outline"
+                                                            size="sm"
+                                                            className="rounded-lg border-warm-border"
+                                                            onClick={() => openRoleDialog(user)}
+                                                        >
+                                                            Change Role
+                                                        </Button>
+                                                    )}
+                                                    {user.subscription_type === 'premium' && can(PERMISSIONS.CREDITS_MANAGE) && (
                                                         <Button
                                                             variant="outline"
                                                             size="sm"
@@ -475,7 +708,7 @@ export default function UserManagementPage() {
                                                         </Button>
                                                     )}
 
-                                                    {user.status === 'suspended' || user.status === 'deleted' ? (
+                                                    {!can(PERMISSIONS.USERS_SUSPEND) ? null : user.status === 'suspended' || user.status === 'deleted' ? (
                                                         <Button
                                                             variant="outline"
                                                             size="sm"
@@ -495,7 +728,7 @@ export default function UserManagementPage() {
                                                         </Button>
                                                     )}
 
-                                                    {(user.status === 'active' || user.status === 'suspended') && (
+                                                    {(user.status === 'active' || user.status === 'suspended') && can(PERMISSIONS.USERS_DELETE) && (
                                                         <Button
                                                             variant="outline"
                                                             size="sm"
@@ -528,33 +761,112 @@ export default function UserManagementPage() {
                     <div className="space-y-4 py-4">
                         <div className="space-y-2">
                             <label className="text-sm font-medium">New Role</label>
-                            <Select value={newRole} onValueChange={(value) => setNewRole(value as UserRoleType)}>
+                            <Select
+                                value={newRole}
+                                onValueChange={(value) => {
+                                    setNewRole(value as UserRoleType)
+                                    setRoleConflict(null)
+                                }}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {roles.map((role) => (
+                                        <SelectItem key={role.id} value={role.name}>
+                                            <span className="capitalize">{role.name}</span>
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <label className="text-sm font-medium">Duration</label>
+                            <Select value={newRoleExpiry} onValueChange={setNewRoleExpiry}>
                                 <SelectTrigger>
                                     <SelectValue />
                                 </SelectTrigger>
                                 <SelectContent>
-                                    <SelectItem value="user">User</SelectItem>
-                                    <SelectItem value="mod">Moderator</SelectItem>
-                                    <SelectItem value="admin">Admin</SelectItem>
+                                    {ROLE_EXPIRY_OPTIONS.map((option) => (
+                                        <SelectItem key={option.value} value={option.value}>
+                                            {option.label}
+                                        </SelectItem>
+                                    ))}
                                 </SelectContent>
                             </Select>
                         </div>
                         <div className="text-sm text-muted-foreground">
                             {newRole === 'admin' ? (
                                 <p>⚠️ Admins have full access to the admin panel and can manage other users.</p>
-                            ) : newRole === 'mod' ? (
-                                <p>🛡️ Moderators can view audit logs and all sessions for support purposes.</p>
-                            ) : (
+                            ) : newRole === 'user' ? (
                                 <p>Regular users have access to all agent features but cannot access the admin panel.</p>
+                            ) : (
+                                <p>
+                                    {roles.find((role) => role.name === newRole)?.description || 'Custom role'}
+                                    {' '}({roles.find((role) => role.name === newRole)?.permissions.length ?? 0} permissions)
+                                </p>
                             )}
                         </div>
+                        {roleConflict && (
+                            <div className="flex items-start gap-2 rounded-lg border border-red-500/30 bg-red-500/10 p-3 text-sm text-red-600 dark:text-red-400">
+                                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                                <p>{roleConflict.message}</p>
+                            </div>
+                        )}
                     </div>
                     <DialogFooter>
                         <Button variant="outline" onClick={() => setSelectedUser(null)} disabled={updating}>
                             Cancel
                         </Button>
-                        <Button onClick={handleUpdateRole} disabled={updating || newRole === selectedUser?.role}>
-                            {updating ? 'Updating...' : 'Update Role'}
+                        <Button
+                            variant={roleConflict?.confirmationToken ? 'destructive' : 'default'}
+                            onClick={handleUpdateRole}
+                            disabled={updating || (newRole === selectedUser?.role && newRoleExpiry === 'never' && !selectedUser?.role_expires_at) || (!!roleConflict && !roleConflict.confirmationToken)}
+                        >
+                            {updating ? 'Updating...' : roleConflict?.confirmationToken ? 'Yes, Remove My Admin Access' : 'Update Role'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            {/* Impersonation Dialog */}
+            <Dialog
+                open={!!impersonateTarget}
+                onOpenChange={(open) => {
+                    if (!open) {
+                        setImpersonateTarget(null)
+                        setImpersonationReason('')
+                    }
+                }}
+            >
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle className="flex items-center gap-2">
+                            <Eye className="h-5 w-5 text-amber-500" />
+                            View as {impersonateTarget?.email}
+                        </DialogTitle>
+                        <DialogDescription>
+                            Opens the app in a new tab as this user. The session is read-only, ends on its own
+                            after a few minutes, and is recorded in the audit log with your reason.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-2 py-4">
+                        <label className="text-sm font-medium">Reason</label>
+                        <Input
+                            placeholder="Support ticket #1234: dashboard shows no sessions"
+                            value={impersonationReason}
+                            onChange={(e) => setImpersonationReason(e.target.value)}
+                        />
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setImpersonateTarget(null)} disabled={impersonating}>
+                            Cancel
+                        </Button>
+                        <Button
+                            onClick={handleImpersonate}
+                            disabled={impersonating || impersonationReason.trim().length < 5}
+                        >
+                            {impersonating ? 'Starting...' : 'Start Impersonation'}
                         </Button>
                     </DialogFooter>
                 </DialogContent>
@@ -593,6 +905,87 @@ export default function UserManagementPage() {
                 </DialogContent>
             </Dialog>
 
+            {/* Sign-In Sessions Dialog */}
+            <Dialog open={!!sessionsTarget} onOpenChange={(open) => !open && setSessionsTarget(null)}>
+                <DialogContent className="sm:max-w-2xl">
+                    <DialogHeader>
+                        <DialogTitle className="flex items-center gap-2">
+                            <MonitorSmartphone className="h-5 w-5 text-amber-500" />
+                            Sign-In Sessions
+                        </DialogTitle>
+                        <DialogDescription>
+                            Devices where <strong>{sessionsTarget?.email}</strong> is signed in. Revoking a session signs that
+                            device out once its current access token expires.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="py-2 max-h-[50vh] overflow-y-auto">
+                        {loadingSessions ? (
+                            <p className="text-center py-6 text-sm text-muted-foreground">Loading sessions...</p>
+                        ) : sessions.length === 0 ? (
+                            <p className="text-center py-6 text-sm text-muted-foreground">No active sessions</p>
+                        ) : (
+                            <Table>
+                                <TableHeader>
+                                    <TableRow className="border-warm-border hover:bg-warm-muted/50">
+                                        <TableHead className="text-foreground">Device</TableHead>
+                                        <TableHead className="text-foreground">IP</TableHead>
+                                        <TableHead className="text-foreground">Last Active</TableHead>
+                                        <TableHead className="text-right text-foreground"></TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {sessions.map((session) => (
+                                        <TableRow key={session.id} className="border-warm-border hover:bg-warm-muted/50">
+                                            <TableCell className="text-foreground">
+                                                <div className="flex items-center gap-2">
+                                                    <span title={session.user_agent || undefined}>{describeDevice(session.user_agent)}</span>
+                                                    {session.current && (
+                                                        <span className="text-xs bg-blue-500/20 text-blue-600 dark:text-blue-400 px-2 py-0.5 rounded">
+                                                            This session
+                                                        </span>
+                                                    )}
+                                                </div>
+                                                <p className="text-xs text-muted-foreground">
+                                                    Signed in {new Date(session.created_at).toLocaleString()}
+                                                </p>
+                                            </TableCell>
+                                            <TableCell className="text-muted-foreground font-mono text-xs">{session.ip || '—'}</TableCell>
+                                            <TableCell className="text-muted-foreground">
+                                                {new Date(session.refreshed_at || session.updated_at || session.created_at).toLocaleString()}
+                                            </TableCell>
+                                            <TableCell className="text-right">
+                                                <Button
+                                                    variant="outline"
+                                                    size="sm"
+                                                    className="rounded-lg border-red-500/30 text-red-500 hover:bg-red-500/10 hover:border-red-500/50"
+                                                    onClick={() => handleRevokeSession(session.id)}
+                                                    disabled={!!revokingSession}
+                                                >
+                                                    {revokingSession === session.id ? 'Revoking...' : 'Revoke'}
+                                                </Button>
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        )}
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setSessionsTarget(null)}>
+                            Close
+                        </Button>
+                        <Button
+                            onClick={() => handleRevokeSession(null)}
+                            disabled={!!revokingSession || loadingSessions || sessions.length === 0}
+                            className="bg-red-600 hover:bg-red-700 text-white"
+                        >
+                            <LogOut className="h-4 w-4 mr-2" />
+                            {revokingSession === 'all' ? 'Signing out...' : 'Sign Out Everywhere'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
             {/* Update Status Confirmation Dialog */}
             <Dialog open={!!statusTarget} onOpenChange={(open) => !open && setStatusTarget(null)}>
                 <DialogContent>
@@ -608,9 +1001,9 @@ export default function UserManagementPage() {
                         </DialogTitle>
                         <DialogDescription>
                             {statusTarget?.newStatus === 'deleted' ? (
-                                <>This will permanently block <strong>{statusTarget?.user?.email}</strong> from accessing AI agents and canvas workflows. They can still log in, but all usage pathways will be revoked.</>
+                                <>This will permanently block <strong>{statusTarget?.user?.email}</strong> from accessing AI agents and canvas workflows. They are signed out everywhere; they can still log in, but all usage pathways will be revoked.</>
                             ) : statusTarget?.newStatus === 'suspended' ? (
-                                <>This will suspend <strong>{statusTarget?.user?.email}</strong>. They will retain their existing data but cannot generate new tasks or access AI tools until restored.</>
+                                <>This will suspend <strong>{statusTarget?.user?.email}</strong>. They are signed out everywhere and will retain their existing data but cannot generate new tasks or access AI tools until restored.</>
                             ) : (
                                 <>This will restore <strong>{statusTarget?.user?.email}</strong> giving them full access to the platform tools again without needing an access request.</>
                             )}
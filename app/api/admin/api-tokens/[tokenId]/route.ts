@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { revokeApiToken } from '@/lib/api-tokens'
+import { NotFoundError } from '@/lib/errors'
+import { withAdminRoute } from '@/lib/route-guard'
+import { apiTokenIdParamsSchema } from '@/lib/validations'
+
+export const DELETE = withAdminRoute(
+    { allowAnyUser: true, params: apiTokenIdParamsSchema, errorMessage: 'Failed to revoke API token' },
+    async ({ actor, params, request }) => {
+        const token = await revokeApiToken({
+            tokenId: params.tokenId,
+            actor,
+            request,
+        })
+
+        if (!token) {
+            throw new NotFoundError('API token not found')
+        }
+
+        return NextResponse.json({
+            message: 'API token revoked',
+            data: token,
+        })
+    }
+)
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { createApiToken, listApiTokens } from '@/lib/api-tokens'
+import { withAdminRoute } from '@/lib/route-guard'
+import { createApiTokenSchema } from '@/lib/validations'
+
+// The signed-in user's own tokens; scopes are checked against their role
+export const GET = withAdminRoute(
+    { allowAnyUser: true, errorMessage: 'Failed to fetch API tokens' },
+    async ({ actor }) => {
+        const data = await listApiTokens(actor.id)
+
+        return NextResponse.json({ data })
+    }
+)
+
+// A token skips MFA and session checks for as long as it lives, so minting
+// one needs the same re-authentication as other sensitive actions
+export const POST = withAdminRoute(
+    { allowAnyUser: true, schema: createApiTokenSchema, stepUp: true, errorMessage: 'Failed to create API token' },
+    async ({ actor, body, request }) => {
+        const { token, plaintext } = await createApiToken({
+            name: body.name,
+            scopes: body.scopes,
+            expiresInDays: body.expires_in_days,
+            actor,
+            request,
+        })
+
+        return NextResponse.json({
+            message: 'Copy this token now; it will not be shown again',
+            data: { ...token, token: plaintext },
+        })
+    }
+)
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server'
+import { NotFoundError } from '@/lib/errors'
+import { claimPendingAction, completePendingAction, rejectPendingAction } from '@/lib/pending-actions'
+import { PERMISSIONS } from '@/lib/permissions'
+import { withAdminRoute } from '@/lib/route-guard'
+import { actionIdParamsSchema, approvalDecisionSchema } from '@/lib/validations'
+import { replayPendingAction } from '../handlers'
+
+export const POST = withAdminRoute(
+    {
+        permission: PERMISSIONS.APPROVALS_REVIEW,
+        params: actionIdParamsSchema,
+        schema: approvalDecisionSchema,
+        stepUp: ({ body }) => body.decision === 'approve',
+        errorMessage: 'Failed to decide approval request',
+    },
+    async ({ actor, params, body, request }) => {
+        if (body.decision === 'reject') {
+            const rejected = await rejectPendingAction({
+                id: params.actionId,
+                actor,
+                note: body.note,
+                request,
+            })
+
+            if (!rejected) {
+                throw new NotFoundError('Approval request not found')
+            }
+
+            return NextResponse.json({
+                message: 'Request rejected',
+                data: rejected,
+            })
+        }
+
+        const action = await claimPendingAction({
+            id: params.actionId,
+            approver: actor,
+            note: body.note,
+        })
+
+        if (!action) {
+            throw new NotFoundError('Approval request not found')
+        }
+
+        const response = await replayPendingAction(action, request)
+        const result = await response.json().catch(() => null)
+        const succeeded = response.status < 400
+
+        const completed = await completePendingAction({
+            action,
+            succeeded,
+            result,
+            approver: actor,
+            request,
+        })
+
+        return NextResponse.json(
+            {
+                message: succeeded ? 'Request approved and executed' : 'Request approved but the action failed',
+                error: succeeded ? undefined : result?.error,
+                data: completed,
+            },
+            { status: succeeded ? 200 : 422 }
+        )
+    }
+)
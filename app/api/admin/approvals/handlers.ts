@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AdminRouteHandler } from '@/lib/route-guard'
+import { PendingActionType, PendingAdminAction } from '@/types'
+import { PUT as updateAuditRetention } from '../audit-logs/retention/route'
+import { POST as updateUserRole } from '../users/[userId]/role/route'
+import { POST as updateUserStatus } from '../users/[userId]/status/route'
+import { POST as revokeSubscription } from '../users/[userId]/subscription/route'
+
+// The route handler each approvable action was parked from
+const HANDLERS: Record<PendingActionType, AdminRouteHandler> = {
+    'role.grant_admin': updateUserRole,
+    'user.delete': updateUserStatus,
+    'subscription.revoke': revokeSubscription,
+    'audit.retention': updateAuditRetention,
+}
+
+/**
+ * Re-issue the stored request against its original handler
+ * Runs as the approving admin, so their permissions apply too
+ */
+export async function replayPendingAction(
+    action: PendingAdminAction,
+    approvalRequest: NextRequest
+): Promise<NextResponse> {
+    const headers = new Headers(approvalRequest.headers)
+    headers.delete('content-length')
+    headers.set('content-type', 'application/json')
+
+    const request = new NextRequest(new URL(action.path, approvalRequest.url), {
+        method: action.method,
+        headers,
+        body: action.payload.body === undefined ? undefined : JSON.stringify(action.payload.body),
+    })
+
+    return HANDLERS[action.action_type].replay(
+        request,
+        { params: Promise.resolve(action.payload.params || {}) },
+        action
+    )
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server'
+import { listPendingActions } from '@/lib/pending-actions'
+import { PERMISSIONS } from '@/lib/permissions'
+import { withAdminRoute } from '@/lib/route-guard'
+import { approvalQuerySchema } from '@/lib/validations'
+
+export const GET = withAdminRoute(
+    { permission: PERMISSIONS.APPROVALS_REVIEW, query: approvalQuerySchema, errorMessage: 'Failed to fetch approval requests' },
+    async ({ query }) => {
+        const data = await listPendingActions(query.status)
+
+        return NextResponse.json({ data })
+    }
+)
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server'
+import { deleteAuditAlert, updateAuditAlert } from '@/lib/audit-alerts'
+import { NotFoundError } from '@/lib/errors'
+import { PERMISSIONS } from '@/lib/permissions'
+import { withAdminRoute } from '@/lib/route-guard'
+import { auditAlertIdParamsSchema, updateAuditAlertSchema } from '@/lib/validations'
+
+export const PATCH = withAdminRoute(
+    {
+        permission: PERMISSIONS.AUDIT_READ,
+        params: auditAlertIdParamsSchema,
+        schema: updateAuditAlertSchema,
+        errorMessage: 'Failed to update alert rule',
+    },
+    async ({ actor, params, body, request }) => {
+        const rule = await updateAuditAlert({
+            ruleId: params.ruleId,
+            name: body.name,
+            viewId: body.view_id,
+            threshold: body.threshold,
+            windowMinutes: body.window_minutes,
+            notifyInApp: body.notify_in_app,
+            webhookUrl: body.webhook_url,
+            enabled: body.enabled,
+            actor,
+            request,
+        })
+
+        if (!rule) {
+            throw new NotFoundError('Alert rule not found')
+        }
+
+        return NextResponse.json({
+            message: 'Alert rule updated',
+            data: rule,
+        })
+    }
+)
+
+export const DELETE = withAdminRoute(
+    { permission: PERMISSIONS.AUDIT_READ, params: auditAlertIdParamsSchema, errorMessage: 'Failed to delete alert rule' },
+    async ({ actor, params, request }) => {
+        const rule = await deleteAuditAlert({
+            ruleId: params.ruleId,
+            actor,
+            request,
+        })
+
+        if (!rule) {
+            throw new NotFoundError('Alert rule not found')
+        }
+
+        return NextResponse.json({
+            message: 'Alert rule deleted',
+            data: rule,
+        })
+    }
+)
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import { createAuditAlert, listAuditAlerts } from '@/lib/audit-alerts'
+import { PERMISSIONS } from '@/lib/permissions'
+import { withAdminRoute } from '@/lib/route-guard'
+import { createAuditAlertSchema } from '@/lib/validations'
+
+// The signed-in admin's own alert rules
+export const GET = withAdminRoute(
+    { permission: PERMISSIONS.AUDIT_READ, errorMessage: 'Failed to fetch alert rules' },
+    async ({ actor }) => {
+        const data = await listAuditAlerts(actor.id)
+
+        return NextResponse.json({ data })
+    }
+)
+
+export const POST = withAdminRoute(
+    { permission: PERMISSIONS.AUDIT_READ, schema: createAuditAlertSchema, errorMessage: 'Failed to create alert rule' },
+    async ({ actor, body, request }) => {
+        const rule = await createAuditAlert({
+            name: body.name,
+            viewId: body.view_id,
+            threshold: body.threshold,
+            windowMinutes: body.window_minutes,
+            notifyInApp: body.notify_in_app,
+            webhookUrl: body.webhook_url,
+            enabled: body.enabled,
+            actor,
+            request,
+        })
+
+        return NextResponse.json({
+            message: 'Alert rule created',
+            data: rule,
+        })
+    }
+)
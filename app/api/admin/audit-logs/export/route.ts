@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server'
+import { EXPORT_CONTENT_TYPES, EXPORT_EXTENSIONS, streamAuditExport } from '@/lib/audit-export'
+import { PERMISSIONS } from '@/lib/permissions'
+import { withAdminRoute } from '@/lib/route-guard'
+import { auditLogExportQuerySchema } from '@/lib/validations'
+
+// Exports can cover the whole log, so keep them to a few a minute
+export const GET = withAdminRoute(
+    {
+        permission: PERMISSIONS.AUDIT_READ,
+        query: auditLogExportQuerySchema,
+        rateLimit: { windowMs: 60 * 1000, maxRequests: 5 },
+        errorMessage: 'Failed to export audit logs',
+    },
+    async ({ actor, query, request }) => {
+        const stream = streamAuditExport({
+            filters: {
+                userId: query.user_id,
+                actions: query.action,
+                email: query.email,
+                ip: query.ip,
+                resourceType: query.resource_type,
+                resourceId: query.resource_id,
+                requestId: query.request_id,
+                details: query.details,
+                search: query.q,
+                startDate: query.start_date,
+                endDate: query.end_date,
+            },
+            format: query.format,
+            actor,
+            request,
+        })
+
+        const filename = `audit-logs-${new Date().toISOString().slice(0, 10)}.${EXPORT_EXTENSIONS[query.format]}`
+
+        return new NextResponse(stream, {
+            headers: {
+                'Content-Type': EXPORT_CONTENT_TYPES[query.format],
+                'Content-Disposition': `attachment; filename="${filename}"`,
+                'Cache-Control': 'no-store',
+            },
+        })
+    }
+)
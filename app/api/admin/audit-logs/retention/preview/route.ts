@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server'
+import { previewAuditRetention } from '@/lib/audit-retention'
+import { PERMISSIONS } from '@/lib/permissions'
+import { withAdminRoute } from '@/lib/route-guard'
+
+// Counts every expired entry, so keep it to a few runs a minute
+export const GET = withAdminRoute(
+    {
+        permission: PERMISSIONS.AUDIT_READ,
+        rateLimit: { windowMs: 60 * 1000, maxRequests: 10 },
+        errorMessage: 'Failed to preview audit retention',
+    },
+    async () => {
+        const data = await previewAuditRetention()
+
+        return NextResponse.json({ data })
+    }
+)
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server'
+import { listAuditArchives, listRetentionPolicies, replaceRetentionPolicies } from '@/lib/audit-retention'
+import { PERMISSIONS } from '@/lib/permissions'
+import { withAdminRoute } from '@/lib/route-guard'
+import { updateAuditRetentionSchema } from '@/lib/validations'
+
+export const GET = withAdminRoute(
+    { permission: PERMISSIONS.AUDIT_READ, errorMessage: 'Failed to fetch retention policies' },
+    async () => {
+        const [policies, archives] = await Promise.all([listRetentionPolicies(), listAuditArchives()])
+
+        return NextResponse.json({ data: { policies, archives } })
+    }
+)
+
+// Shortening retention deletes history, so it gets the same guards clearing had
+export const PUT = withAdminRoute(
+    {
+        permission: PERMISSIONS.AUDIT_PURGE,
+        schema: updateAuditRetentionSchema,
+        stepUp: true,
+        approval: {
+            action: 'audit.retention',
+            summary: () => 'Change audit log retention policies',
+        },
+        errorMessage: 'Failed to update retention policies',
+    },
+    async ({ actor, body, request }) => {
+        const policies = await replaceRetentionPolicies({
+            policies: body.policies,
+            actor,
+            request,
+        })
+
+        return NextResponse.json({
+            message: 'Retention policies updated successfully',
+            data: policies,
+        })
+    }
+)
@@ -1,30 +1,27 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { requireAdmin } from '@/lib/admin'
+import { NextResponse } from 'next/server'
 import { getAuditLogs } from '@/lib/audit'
-import { AuditAction } from '@/types'
+import { PERMISSIONS } from '@/lib/permissions'
+import { withAdminRoute } from '@/lib/route-guard'
+import { auditLogQuerySchema } from '@/lib/validations'
 
-export async function GET(request: NextRequest) {
-    try {
-        // Verify admin access
-        await requireAdmin()
-
-        // Get query parameters
-        const searchParams = request.nextUrl.searchParams
-        const userId = searchParams.get('user_id') || undefined
-        const action = searchParams.get('action') as AuditAction | undefined
-        const resourceType = searchParams.get('resource_type') || undefined
-        const startDate = searchParams.get('start_date') || undefined
-        const endDate = searchParams.get('end_date') || undefined
-        const limit = parseInt(searchParams.get('limit') || '50')
-        const offset = parseInt(searchParams.get('offset') || '0')
+export const GET = withAdminRoute(
+    { permission: PERMISSIONS.AUDIT_READ, query: auditLogQuerySchema, errorMessage: 'Failed to fetch audit logs' },
+    async ({ query }) => {
+        const { limit, offset } = query
 
         // Fetch audit logs
         const { data, count } = await getAuditLogs({
-            userId,
-            action,
-            resourceType,
-            startDate,
-            endDate,
+            userId: query.user_id,
+            actions: query.action,
+            email: query.email,
+            ip: query.ip,
+            resourceType: query.resource_type,
+            resourceId: query.resource_id,
+            requestId: query.request_id,
+            details: query.details,
+            search: query.q,
+            startDate: query.start_date,
+            endDate: query.end_date,
             limit,
             offset,
         })
@@ -35,19 +32,5 @@ export async function GET(request: NextRequest) {
             limit,
             offset,
         })
-    } catch (error: any) {
-        console.error('Admin audit logs API error:', error)
-
-        if (error.message === 'Unauthorized: Admin access required') {
-            return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 403 }
-            )
-        }
-
-        return NextResponse.json(
-            { error: error.message || 'Failed to fetch audit logs' },
-            { status: 500 }
-        )
     }
-}
+)
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { streamAuditTail } from '@/lib/audit-tail'
+import { PERMISSIONS } from '@/lib/permissions'
+import { withAdminRoute } from '@/lib/route-guard'
+import { auditLogStreamQuerySchema } from '@/lib/validations'
+
+export const GET = withAdminRoute(
+    {
+        permission: PERMISSIONS.AUDIT_READ,
+        query: auditLogStreamQuerySchema,
+        rateLimit: { windowMs: 60 * 1000, maxRequests: 30 },
+        errorMessage: 'Failed to open the live audit log',
+    },
+    async ({ query, request }) => {
+        // EventSource resends the last id it saw when it reconnects
+        const lastEventId = request.headers.get('last-event-id')
+        const after = lastEventId && /^\d+$/.test(lastEventId) ? Number(lastEventId) : query.after
+
+        const stream = streamAuditTail({
+            filters: {
+                userId: query.user_id,
+                actions: query.action,
+                email: query.email,
+                ip: query.ip,
+                resourceType: query.resource_type,
+                resourceId: query.resource_id,
+                requestId: query.request_id,
+                details: query.details,
+                search: query.q,
+                startDate: query.start_date,
+                endDate: query.end_date,
+            },
+            after,
+            signal: request.signal,
+        })
+
+        return new NextResponse(stream, {
+            headers: {
+                'Content-Type': 'text/event-stream; charset=utf-8',
+                'Cache-Control': 'no-cache, no-transform',
+                'Connection': 'keep-alive',
+                'X-Accel-Buffering': 'no',
+            },
+        })
+    }
+)
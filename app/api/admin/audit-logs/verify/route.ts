@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server'
+import { verifyAuditChain } from '@/lib/audit-chain'
+import { PERMISSIONS } from '@/lib/permissions'
+import { withAdminRoute } from '@/lib/route-guard'
+
+// Walks the whole log, so keep it to a few runs a minute
+export const GET = withAdminRoute(
+    {
+        permission: PERMISSIONS.AUDIT_READ,
+        rateLimit: { windowMs: 60 * 1000, maxRequests: 5 },
+        errorMessage: 'Failed to verify audit log',
+    },
+    async () => {
+        const data = await verifyAuditChain()
+
+        return NextResponse.json({ data })
+    }
+)
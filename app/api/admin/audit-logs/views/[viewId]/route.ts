@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server'
+import { deleteAuditView, updateAuditView } from '@/lib/audit-views'
+import { NotFoundError } from '@/lib/errors'
+import { PERMISSIONS } from '@/lib/permissions'
+import { withAdminRoute } from '@/lib/route-guard'
+import { auditViewIdParamsSchema, updateAuditViewSchema } from '@/lib/validations'
+
+export const PATCH = withAdminRoute(
+    {
+        permission: PERMISSIONS.AUDIT_READ,
+        params: auditViewIdParamsSchema,
+        schema: updateAuditViewSchema,
+        errorMessage: 'Failed to update view',
+    },
+    async ({ actor, params, body }) => {
+        const view = await updateAuditView({
+            userId: actor.id,
+            viewId: params.viewId,
+            name: body.name,
+            filters: body.filters,
+            rangeDays: body.range_days,
+        })
+
+        if (!view) {
+            throw new NotFoundError('Saved view not found')
+        }
+
+        return NextResponse.json({
+            message: 'View updated',
+            data: view,
+        })
+    }
+)
+
+export const DELETE = withAdminRoute(
+    { permission: PERMISSIONS.AUDIT_READ, params: auditViewIdParamsSchema, errorMessage: 'Failed to delete view' },
+    async ({ actor, params }) => {
+        const view = await deleteAuditView({
+            userId: actor.id,
+            viewId: params.viewId,
+        })
+
+        if (!view) {
+            throw new NotFoundError('Saved view not found')
+        }
+
+        return NextResponse.json({
+            message: 'View deleted',
+            data: view,
+        })
+    }
+)
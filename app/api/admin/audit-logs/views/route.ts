@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { createAuditView, listAuditViews } from '@/lib/audit-views'
+import { PERMISSIONS } from '@/lib/permissions'
+import { withAdminRoute } from '@/lib/route-guard'
+import { createAuditViewSchema } from '@/lib/validations'
+
+// The signed-in admin's own saved views
+export const GET = withAdminRoute(
+    { permission: PERMISSIONS.AUDIT_READ, errorMessage: 'Failed to fetch saved views' },
+    async ({ actor }) => {
+        const data = await listAuditViews(actor.id)
+
+        return NextResponse.json({ data })
+    }
+)
+
+export const POST = withAdminRoute(
+    { permission: PERMISSIONS.AUDIT_READ, schema: createAuditViewSchema, errorMessage: 'Failed to save view' },
+    async ({ actor, body }) => {
+        const view = await createAuditView({
+            userId: actor.id,
+            name: body.name,
+            filters: body.filters,
+            rangeDays: body.range_days,
+        })
+
+        return NextResponse.json({
+            message: 'View saved',
+            data: view,
+        })
+    }
+)
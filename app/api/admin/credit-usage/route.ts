@@ -1,5 +1,7 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { requireAdmin } from '@/lib/admin'
+import { NextResponse } from 'next/server'
+import { logger } from '@/lib/logger'
+import { PERMISSIONS } from '@/lib/permissions'
+import { withAdminRoute } from '@/lib/route-guard'
 import { createServiceRoleClient } from '@/lib/supabase/service-role'
 
 const PLAN_LIMITS = {
@@ -7,10 +9,9 @@ const PLAN_LIMITS = {
     premium: { outputs: 50, canvas: 20 },
 }
 
-export async function GET(_request: NextRequest) {
-    try {
-        await requireAdmin()
-
+export const GET = withAdminRoute(
+    { permission: PERMISSIONS.CREDITS_READ, errorMessage: 'Failed to fetch credit usage' },
+    async () => {
         const supabaseAdmin = createServiceRoleClient()
 
         // List all auth users
@@ -23,7 +24,7 @@ export async function GET(_request: NextRequest) {
             .select('user_id, total_credits_used, canvas_creations_used, updated_at')
 
         if (usageError) {
-            console.error('Error fetching usage:', usageError)
+            logger.error('Failed to fetch credit usage', { error: usageError })
         }
 
         // Fetch all profiles for subscription type
@@ -32,7 +33,7 @@ export async function GET(_request: NextRequest) {
             .select('id, account_type')
 
         if (profilesError) {
-            console.error('Error fetching profiles:', profilesError)
+            logger.error('Failed to fetch profiles for credit usage', { error: profilesError })
         }
 
         // Build lookup maps
@@ -75,13 +76,5 @@ export async function GET(_request: NextRequest) {
         })
 
         return NextResponse.json({ data: result })
-    } catch (error: any) {
-        console.error('Credit usage API error:', error)
-
-        if (error.message === 'Unauthorized: Admin access required') {
-            return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
-        }
-
-        return NextResponse.json({ error: error.message || 'Failed to fetch credit usage' }, { status: 500 })
     }
-}
+)
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { NotFoundError } from '@/lib/errors'
+import { endImpersonation, getActiveImpersonation } from '@/lib/impersonation'
+import { PERMISSIONS } from '@/lib/permissions'
+import { withAdminRoute } from '@/lib/route-guard'
+
+// The acting admin's own impersonation session; starting one lives under
+// app/api/admin/users/[userId]/impersonate
+export const GET = withAdminRoute(
+    { permission: PERMISSIONS.USERS_IMPERSONATE, errorMessage: 'Failed to fetch impersonation session' },
+    async ({ actor, request }) => {
+        const data = await getActiveImpersonation(actor, request)
+
+        return NextResponse.json({ data })
+    }
+)
+
+export const DELETE = withAdminRoute(
+    { permission: PERMISSIONS.USERS_IMPERSONATE, errorMessage: 'Failed to end impersonation' },
+    async ({ actor, request }) => {
+        const session = await endImpersonation({ actor, request })
+
+        if (!session) {
+            throw new NotFoundError('No impersonation session is active')
+        }
+
+        return NextResponse.json({
+            message: 'Impersonation ended',
+            data: session,
+        })
+    }
+)
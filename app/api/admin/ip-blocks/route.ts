@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server'
+import { NotFoundError, ValidationError } from '@/lib/errors'
+import { createIpBlock, listIpBlocks, removeIpBlock } from '@/lib/ip-blocks'
+import { PERMISSIONS } from '@/lib/permissions'
+import { withAdminRoute } from '@/lib/route-guard'
+import { createIpBlockSchema, idQuerySchema } from '@/lib/validations'
+
+export const GET = withAdminRoute(
+    { permission: PERMISSIONS.SECURITY_MANAGE, errorMessage: 'Failed to fetch IP blocks' },
+    async () => {
+        const data = await listIpBlocks()
+
+        return NextResponse.json({ data })
+    }
+)
+
+export const POST = withAdminRoute(
+    { permission: PERMISSIONS.SECURITY_MANAGE, schema: createIpBlockSchema, errorMessage: 'Failed to block IP' },
+    async ({ actor, body, request }) => {
+        const { ip, reason, expires_at } = body
+
+        if (expires_at && new Date(expires_at).getTime() <= Date.now()) {
+            throw new ValidationError('Expiry must be in the future')
+        }
+
+        const block = await createIpBlock({
+            ip,
+            reason,
+            source: 'manual',
+            expiresAt: expires_at,
+            actor,
+            request,
+        })
+
+        return NextResponse.json({
+            message: 'IP blocked successfully',
+            data: block,
+        })
+    }
+)
+
+export const DELETE = withAdminRoute(
+    { permission: PERMISSIONS.SECURITY_MANAGE, query: idQuerySchema, errorMessage: 'Failed to unblock IP' },
+    async ({ actor, query, request }) => {
+        const block = await removeIpBlock({
+            id: query.id,
+            actor,
+            request,
+        })
+
+        if (!block) {
+            throw new NotFoundError('IP block not found')
+        }
+
+        return NextResponse.json({
+            message: 'IP unblocked successfully',
+            data: block,
+        })
+    }
+)
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server'
+import { clearLockout, listLockedAccounts } from '@/lib/account-lockouts'
+import { NotFoundError } from '@/lib/errors'
+import { PERMISSIONS } from '@/lib/permissions'
+import { withAdminRoute } from '@/lib/route-guard'
+import { resetAccountFailures } from '@/lib/security'
+import { idQuerySchema } from '@/lib/validations'
+
+export const GET = withAdminRoute(
+    { permission: PERMISSIONS.SECURITY_MANAGE, errorMessage: 'Failed to fetch locked accounts' },
+    async () => {
+        const data = await listLockedAccounts()
+
+        return NextResponse.json({ data })
+    }
+)
+
+export const DELETE = withAdminRoute(
+    { permission: PERMISSIONS.SECURITY_MANAGE, query: idQuerySchema, errorMessage: 'Failed to clear lockout' },
+    async ({ actor, query, request }) => {
+        const lockout = await clearLockout({
+            id: query.id,
+            actor,
+            request,
+        })
+
+        if (!lockout) {
+            throw new NotFoundError('Lockout not found')
+        }
+
+        // Give the user a clean slate rather than relocking on the next typo
+        await resetAccountFailures(lockout.email)
+
+        return NextResponse.json({
+            message: 'Lockout cleared successfully',
+            data: lockout,
+        })
+    }
+)
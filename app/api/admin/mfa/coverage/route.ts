@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server'
+import { ADMIN_MFA_REQUIRED, listMfaCoverage } from '@/lib/mfa'
+import { PERMISSIONS } from '@/lib/permissions'
+import { withAdminRoute } from '@/lib/route-guard'
+
+export const GET = withAdminRoute(
+    { permission: PERMISSIONS.SECURITY_MANAGE, errorMessage: 'Failed to fetch MFA coverage' },
+    async () => {
+        const data = await listMfaCoverage()
+
+        return NextResponse.json({
+            data,
+            enforced: ADMIN_MFA_REQUIRED,
+        })
+    }
+)
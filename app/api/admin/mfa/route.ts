@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { enrollTotp, getMfaStatus, listTotpFactors } from '@/lib/mfa'
+import { withAdminRoute } from '@/lib/route-guard'
+import { enrollMfaSchema } from '@/lib/validations'
+
+// The signed-in user's own authenticator; reachable before MFA is passed
+// so privileged users can enroll
+export const GET = withAdminRoute(
+    { allowAnyUser: true, allowWithoutMfa: true, errorMessage: 'Failed to fetch MFA status' },
+    async ({ actor }) => {
+        const [status, factors] = await Promise.all([
+            getMfaStatus(actor),
+            listTotpFactors(),
+        ])
+
+        return NextResponse.json({
+            data: { ...status, factors },
+        })
+    }
+)
+
+export const POST = withAdminRoute(
+    { allowAnyUser: true, allowWithoutMfa: true, schema: enrollMfaSchema, errorMessage: 'Failed to start MFA enrollment' },
+    async ({ body }) => {
+        const data = await enrollTotp(body.friendly_name)
+
+        return NextResponse.json({
+            message: 'Scan the QR code, then enter a code to finish',
+            data,
+        })
+    }
+)
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { UnauthorizedError } from '@/lib/errors'
+import { getMfaStatus, verifyTotp } from '@/lib/mfa'
+import { withAdminRoute } from '@/lib/route-guard'
+import { AUTH_RATE_LIMIT } from '@/lib/security'
+import { verifyMfaSchema } from '@/lib/validations'
+
+export const POST = withAdminRoute(
+    {
+        allowAnyUser: true,
+        allowWithoutMfa: true,
+        schema: verifyMfaSchema,
+        rateLimit: AUTH_RATE_LIMIT,
+        errorMessage: 'Failed to verify authenticator code',
+    },
+    async ({ actor, body, request }) => {
+        const verified = await verifyTotp({
+            actor,
+            factorId: body.factor_id,
+            code: body.code,
+            request,
+        })
+
+        if (!verified) {
+            throw new UnauthorizedError('Invalid authenticator code')
+        }
+
+        return NextResponse.json({
+            message: 'Authenticator verified',
+            data: await getMfaStatus(actor),
+        })
+    }
+)
@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server'
+import { markNotificationsRead } from '@/lib/notifications'
+import { withAdminRoute } from '@/lib/route-guard'
+import { markNotificationsReadSchema } from '@/lib/validations'
+
+export const POST = withAdminRoute(
+    { allowAnyUser: true, schema: markNotificationsReadSchema, errorMessage: 'Failed to mark notifications read' },
+    async ({ actor, body }) => {
+        const updated = await markNotificationsRead(actor.id, body.ids)
+
+        return NextResponse.json({ data: { updated } })
+    }
+)
@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server'
+import { listNotifications } from '@/lib/notifications'
+import { withAdminRoute } from '@/lib/route-guard'
+
+// The signed-in user's own notifications and unread count
+export const GET = withAdminRoute(
+    { allowAnyUser: true, errorMessage: 'Failed to fetch notifications' },
+    async ({ actor }) => {
+        const { data, unread } = await listNotifications(actor.id)
+
+        return NextResponse.json({ data, unread })
+    }
+)
@@ -1,39 +1,28 @@
 import { NextResponse } from 'next/server'
-import { createClient } from '@supabase/supabase-js'
-import { createClient as createServerClient } from '@/lib/supabase/server'
-
-export async function POST(req: Request) {
-  try {
-    const serverSupabase = await createServerClient()
-    const { data: { user } } = await serverSupabase.auth.getUser()
-
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    // Verify admin role
-    const { data: profile } = await serverSupabase
-      .from('profiles')
-      .select('role')
-      .eq('id', user.id)
-      .single()
-
-    if (!profile || profile.role !== 'admin') {
-      return NextResponse.json({ error: 'Forbidden. Admin access required.' }, { status: 403 })
-    }
-
-    const body = await req.json()
+import { AUDIT_ACTIONS } from '@/lib/audit'
+import { auditChange } from '@/lib/audit-details'
+import { ConflictError, NotFoundError, ValidationError } from '@/lib/errors'
+import { PERMISSIONS } from '@/lib/permissions'
+import { withAdminRoute } from '@/lib/route-guard'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { approveAccountRequestSchema } from '@/lib/validations'
+
+export const POST = withAdminRoute(
+  {
+    permission: PERMISSIONS.REQUESTS_APPROVE,
+    schema: approveAccountRequestSchema,
+    audit: {
+      action: AUDIT_ACTIONS.REQUEST_APPROVED,
+      resourceType: 'account_request',
+      resourceId: ({ body }) => body.requestId,
+    },
+    errorMessage: 'Failed to approve request',
+  },
+  async ({ body, auditDetails }) => {
     const { requestId } = body
 
-    if (!requestId) {
-      return NextResponse.json({ error: 'Request ID is required' }, { status: 400 })
-    }
-
     // Initialize Supabase Admin client
-    const supabaseAdmin = createClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.SUPABASE_SERVICE_ROLE_KEY!
-    )
+    const supabaseAdmin = createServiceRoleClient()
 
     // Get the request details
     const { data: request, error: fetchError } = await supabaseAdmin
@@ -43,13 +32,17 @@ export async function POST(req: Request) {
       .single()
 
     if (fetchError || !request) {
-      return NextResponse.json({ error: 'Request not found' }, { status: 404 })
+      throw new NotFoundError('Request not found')
     }
 
     if (request.status !== 'pending') {
-      return NextResponse.json({ error: 'Request is already processed' }, { status: 400 })
+      throw new ConflictError('Request is already processed')
     }
 
+    auditDetails.email = request.email
+    auditDetails.name = request.name
+    auditDetails.changes = auditChange({ status: request.status }, { status: 'approved' })
+
     // Determine the user app URL (fallback to localhost:3000 if not specified)
     const userAppUrl = process.env.NEXT_PUBLIC_USER_APP_URL || 'http://localhost:3000'
     const normalizedEmail = request.email.trim().toLowerCase()
@@ -74,7 +67,7 @@ export async function POST(req: Request) {
       // Fallback path: user already exists (e.g., attempted Google OAuth before approval).
       // Convert approval into a password-reset onboarding flow instead of failing.
       if (!isAlreadyRegistered) {
-        return NextResponse.json({ error: inviteError.message }, { status: 400 })
+        throw new ValidationError(`Failed to invite ${request.email}: ${inviteError.message}`)
       }
 
       const { data: existingProfile, error: existingProfileError } = await supabaseAdmin
@@ -83,15 +76,18 @@ export async function POST(req: Request) {
         .ilike('email', normalizedEmail)
         .maybeSingle()
 
-      if (existingProfileError || !existingProfile?.id) {
-        return NextResponse.json({ error: inviteError.message }, { status: 400 })
+      if (existingProfileError) {
+        throw new Error(`Failed to fetch existing profile: ${existingProfileError.message}`)
+      }
+      if (!existingProfile?.id) {
+        throw new ConflictError(`${request.email} is already registered but has no profile`)
       }
 
       const { data: existingUserData, error: existingUserError } =
         await supabaseAdmin.auth.admin.getUserById(existingProfile.id)
 
       if (existingUserError) {
-        return NextResponse.json({ error: existingUserError.message }, { status: 400 })
+        throw new Error(`Failed to fetch existing user: ${existingUserError.message}`)
       }
 
       const existingMetadata = existingUserData.user?.user_metadata || {}
@@ -107,7 +103,7 @@ export async function POST(req: Request) {
       )
 
       if (updateUserError) {
-        return NextResponse.json({ error: updateUserError.message }, { status: 400 })
+        throw new Error(`Failed to update existing user: ${updateUserError.message}`)
       }
 
       const { error: updateProfileError } = await supabaseAdmin
@@ -116,7 +112,7 @@ export async function POST(req: Request) {
         .eq('id', existingProfile.id)
 
       if (updateProfileError) {
-        return NextResponse.json({ error: updateProfileError.message }, { status: 400 })
+        throw new Error(`Failed to update existing profile: ${updateProfileError.message}`)
       }
 
       const { error: resetError } = await supabaseAdmin.auth.resetPasswordForEmail(normalizedEmail, {
@@ -124,7 +120,7 @@ export async function POST(req: Request) {
       })
 
       if (resetError) {
-        return NextResponse.json({ error: resetError.message }, { status: 400 })
+        throw new ValidationError(`Failed to send the password reset email: ${resetError.message}`)
       }
 
       await supabaseAdmin
@@ -132,6 +128,9 @@ export async function POST(req: Request) {
         .update({ status: 'approved' })
         .eq('id', requestId)
 
+      auditDetails.onboarding = 'password_reset'
+      auditDetails.target_user_id = existingProfile.id
+
       return NextResponse.json({ message: 'Existing user approved and reset email sent successfully' })
     }
 
@@ -150,9 +149,9 @@ export async function POST(req: Request) {
       .update({ status: 'approved' })
       .eq('id', requestId)
 
+    auditDetails.onboarding = 'invite'
+    auditDetails.target_user_id = inviteData?.user?.id || null
+
     return NextResponse.json({ message: 'User invited successfully' })
-  } catch (error: unknown) {
-    console.error('Error approving request:', error)
-    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
-}
+)
@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server'
+import { AUDIT_ACTIONS } from '@/lib/audit'
+import { auditChange } from '@/lib/audit-details'
+import { ConflictError, NotFoundError } from '@/lib/errors'
+import { PERMISSIONS } from '@/lib/permissions'
+import { withAdminRoute } from '@/lib/route-guard'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { rejectAccountRequestSchema } from '@/lib/validations'
+
+export const POST = withAdminRoute(
+  {
+    permission: PERMISSIONS.REQUESTS_APPROVE,
+    schema: rejectAccountRequestSchema,
+    audit: {
+      action: AUDIT_ACTIONS.REQUEST_REJECTED,
+      resourceType: 'account_request',
+      resourceId: ({ body }) => body.requestId,
+    },
+    errorMessage: 'Failed to reject request',
+  },
+  async ({ body, auditDetails }) => {
+    const { requestId } = body
+
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data: request, error: fetchError } = await supabaseAdmin
+      .from('account_requests')
+      .select('*')
+      .eq('id', requestId)
+      .single()
+
+    if (fetchError || !request) {
+      throw new NotFoundError('Request not found')
+    }
+
+    if (request.status !== 'pending') {
+      throw new ConflictError('Request is already processed')
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from('account_requests')
+      .update({ status: 'rejected' })
+      .eq('id', requestId)
+
+    if (updateError) {
+      throw new Error(`Failed to reject request: ${updateError.message}`)
+    }
+
+    auditDetails.email = request.email
+    auditDetails.name = request.name
+    auditDetails.changes = auditChange({ status: request.status }, { status: 'rejected' })
+
+    return NextResponse.json({ message: 'Request rejected' })
+  }
+)
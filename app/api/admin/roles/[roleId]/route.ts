@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server'
+import { NotFoundError } from '@/lib/errors'
+import { PERMISSIONS } from '@/lib/permissions'
+import { deleteRole, updateRole } from '@/lib/roles'
+import { withAdminRoute } from '@/lib/route-guard'
+import { roleIdParamsSchema, updateRoleSchema } from '@/lib/validations'
+
+export const PATCH = withAdminRoute(
+    {
+        permission: PERMISSIONS.ROLES_MANAGE,
+        params: roleIdParamsSchema,
+        schema: updateRoleSchema,
+        errorMessage: 'Failed to update role',
+    },
+    async ({ actor, params, body, request }) => {
+        const role = await updateRole({
+            id: params.roleId,
+            description: body.description,
+            permissions: body.permissions,
+            actor,
+            request,
+        })
+
+        if (!role) {
+            throw new NotFoundError('Role not found')
+        }
+
+        return NextResponse.json({
+            message: 'Role updated successfully',
+            data: role,
+        })
+    }
+)
+
+export const DELETE = withAdminRoute(
+    { permission: PERMISSIONS.ROLES_MANAGE, params: roleIdParamsSchema, errorMessage: 'Failed to delete role' },
+    async ({ actor, params, request }) => {
+        const role = await deleteRole({
+            id: params.roleId,
+            actor,
+            request,
+        })
+
+        if (!role) {
+            throw new NotFoundError('Role not found')
+        }
+
+        return NextResponse.json({
+            message: 'Role deleted successfully',
+            data: role,
+        })
+    }
+)
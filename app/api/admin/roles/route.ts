@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { PERMISSIONS } from '@/lib/permissions'
+import { createRole, listRoles } from '@/lib/roles'
+import { withAdminRoute } from '@/lib/route-guard'
+import { createRoleSchema } from '@/lib/validations'
+
+// The users page role dialog and the roles editor both list roles
+export const GET = withAdminRoute(
+    { permission: [PERMISSIONS.ROLES_ASSIGN, PERMISSIONS.ROLES_MANAGE], errorMessage: 'Failed to fetch roles' },
+    async () => {
+        const data = await listRoles()
+
+        return NextResponse.json({ data })
+    }
+)
+
+export const POST = withAdminRoute(
+    { permission: PERMISSIONS.ROLES_MANAGE, schema: createRoleSchema, errorMessage: 'Failed to create role' },
+    async ({ actor, body, request }) => {
+        const role = await createRole({
+            name: body.name,
+            description: body.description,
+            permissions: body.permissions,
+            actor,
+            request,
+        })
+
+        return NextResponse.json({
+            message: 'Role created successfully',
+            data: role,
+        })
+    }
+)
@@ -1,6 +1,6 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { requireAdmin } from '@/lib/admin'
-import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { PERMISSIONS } from '@/lib/permissions'
+import { withAdminRoute } from '@/lib/route-guard'
 import { createServiceRoleClient } from '@/lib/supabase/service-role'
 
 function formatDateKey(dateInput: string | Date) {
@@ -15,11 +15,9 @@ function getHourKey(dateInput: string | Date) {
     return d.toISOString()
 }
 
-export async function GET(request: NextRequest) {
-    try {
-        await requireAdmin()
-
-        const supabase = await createClient()
+export const GET = withAdminRoute(
+    { permission: PERMISSIONS.DASHBOARD_VIEW, errorMessage: 'Failed to fetch statistics' },
+    async ({ request }) => {
         const supabaseAdmin = createServiceRoleClient()
 
         const url = new URL(request.url)
@@ -45,19 +43,19 @@ export async function GET(request: NextRequest) {
         const { data: authUsers } = await supabaseAdmin.auth.admin.listUsers()
         const totalUsers = authUsers?.users?.length || 0
 
-        const { count: sessionCount } = await supabase
+        const { count: sessionCount } = await supabaseAdmin
             .from('agent_sessions')
             .select('*', { count: 'exact', head: true })
             .gte('created_at', startIso)
             .lte('created_at', endIso)
 
-        const { count: activityCount } = await supabase
+        const { count: activityCount } = await supabaseAdmin
             .from('audit_logs')
             .select('*', { count: 'exact', head: true })
             .gte('created_at', startIso)
             .lte('created_at', endIso)
 
-        const { data: userActivity } = await supabase
+        const { data: userActivity } = await supabaseAdmin
             .from('audit_logs')
             .select('user_email')
             .not('user_email', 'is', null)
@@ -78,7 +76,7 @@ export async function GET(request: NextRequest) {
             .sort((a, b) => b.action_count - a.action_count)
             .slice(0, 5)
 
-        const { data: sessionsData } = await supabase
+        const { data: sessionsData } = await supabaseAdmin
             .from('agent_sessions')
             .select('agent_type, created_at')
             .gte('created_at', startIso)
@@ -102,7 +100,7 @@ export async function GET(request: NextRequest) {
             percentage: totalAgentSessions > 0 ? Math.round((item.usage_count / totalAgentSessions) * 100) : 0,
         }))
 
-        const { data: auditLogs } = await supabase
+        const { data: auditLogs } = await supabaseAdmin
             .from('audit_logs')
             .select('action, resource_type, created_at')
             .gte('created_at', startIso)
@@ -209,11 +207,5 @@ export async function GET(request: NextRequest) {
         }
 
         return NextResponse.json({ data: stats })
-    } catch (error: any) {
-        console.error('Admin stats API error:', error)
-        if (error.message === 'Unauthorized: Admin access required') {
-            return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
-        }
-        return NextResponse.json({ error: error.message || 'Failed to fetch statistics' }, { status: 500 })
     }
-}
+)
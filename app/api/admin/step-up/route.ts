@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server'
+import { UnauthorizedError } from '@/lib/errors'
+import { withAdminRoute } from '@/lib/route-guard'
+import { AUTH_RATE_LIMIT } from '@/lib/security'
+import { getStepUpExpiry, getStepUpMethods, verifyStepUp } from '@/lib/step-up'
+import { stepUpSchema } from '@/lib/validations'
+
+// Re-authentication for routes declared with stepUp; any signed-in user can
+// confirm their own identity
+export const GET = withAdminRoute(
+    { allowAnyUser: true, errorMessage: 'Failed to check re-authentication' },
+    async ({ actor }) => {
+        const [methods, verifiedUntil] = await Promise.all([
+            getStepUpMethods(),
+            getStepUpExpiry(actor),
+        ])
+
+        return NextResponse.json({
+            data: { methods, verified_until: verifiedUntil },
+        })
+    }
+)
+
+export const POST = withAdminRoute(
+    {
+        allowAnyUser: true,
+        schema: stepUpSchema,
+        rateLimit: AUTH_RATE_LIMIT,
+        errorMessage: 'Failed to re-authenticate',
+    },
+    async ({ actor, body, request }) => {
+        const verifiedUntil = await verifyStepUp({
+            actor,
+            method: body.method,
+            password: body.method === 'password' ? body.password : undefined,
+            code: body.method === 'totp' ? body.code : undefined,
+            request,
+        })
+
+        if (!verifiedUntil) {
+            throw new UnauthorizedError(body.method === 'password' ? 'Incorrect password' : 'Invalid authenticator code')
+        }
+
+        return NextResponse.json({
+            message: 'Re-authenticated',
+            data: { verified_until: verifiedUntil },
+        })
+    }
+)
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { NotFoundError } from '@/lib/errors'
+import { startImpersonation } from '@/lib/impersonation'
+import { PERMISSIONS } from '@/lib/permissions'
+import { withAdminRoute } from '@/lib/route-guard'
+import { startImpersonationSchema, userIdParamsSchema } from '@/lib/validations'
+
+export const POST = withAdminRoute(
+    {
+        permission: PERMISSIONS.USERS_IMPERSONATE,
+        params: userIdParamsSchema,
+        schema: startImpersonationSchema,
+        errorMessage: 'Failed to start impersonation',
+    },
+    async ({ actor, params, body, request }) => {
+        const started = await startImpersonation({
+            targetUserId: params.userId,
+            reason: body.reason,
+            actor,
+            request,
+        })
+
+        if (!started) {
+            throw new NotFoundError('User not found')
+        }
+
+        return NextResponse.json({
+            message: 'Impersonation started',
+            data: started,
+        })
+    }
+)
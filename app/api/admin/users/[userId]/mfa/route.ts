@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { NotFoundError } from '@/lib/errors'
+import { resetUserMfa } from '@/lib/mfa'
+import { PERMISSIONS } from '@/lib/permissions'
+import { withAdminRoute } from '@/lib/route-guard'
+import { userIdParamsSchema } from '@/lib/validations'
+
+// Lost-authenticator recovery: the user enrolls again on their next sign-in
+export const DELETE = withAdminRoute(
+    {
+        permission: PERMISSIONS.SECURITY_MANAGE,
+        params: userIdParamsSchema,
+        stepUp: true,
+        errorMessage: 'Failed to reset MFA',
+    },
+    async ({ actor, params, request }) => {
+        const result = await resetUserMfa({
+            userId: params.userId,
+            actor,
+            request,
+        })
+
+        if (!result) {
+            throw new NotFoundError('User not found')
+        }
+
+        return NextResponse.json({
+            message: 'MFA reset successfully',
+            data: result,
+        })
+    }
+)
@@ -1,78 +1,67 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { requireAdmin, updateUserRole } from '@/lib/admin'
-import { logAuditEvent, AUDIT_ACTIONS } from '@/lib/audit'
-import { createClient } from '@/lib/supabase/server'
-import { updateUserRoleSchema, validateInput, validationErrorResponse, uuidSchema } from '@/lib/validations'
+import { NextResponse } from 'next/server'
+import { updateUserRole } from '@/lib/admin'
+import { AUDIT_ACTIONS } from '@/lib/audit'
+import { auditChange } from '@/lib/audit-details'
+import { ValidationError } from '@/lib/errors'
+import { describeUser } from '@/lib/pending-actions'
+import { PERMISSIONS } from '@/lib/permissions'
+import { roleExists } from '@/lib/roles'
+import { withAdminRoute } from '@/lib/route-guard'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { updateUserRoleSchema, userIdParamsSchema } from '@/lib/validations'
 
-export async function POST(
-    request: NextRequest,
-    { params }: { params: Promise<{ userId: string }> }
-) {
-    try {
-        // Verify admin access
-        await requireAdmin()
-
-        const { userId } = await params
+export const POST = withAdminRoute(
+    {
+        permission: PERMISSIONS.ROLES_ASSIGN,
+        params: userIdParamsSchema,
+        schema: updateUserRoleSchema,
+        stepUp: ({ body }) => body.role === 'admin',
+        audit: {
+            action: AUDIT_ACTIONS.ROLE_UPDATED,
+            resourceType: 'user',
+            resourceId: ({ params }) => params.userId,
+        },
+        approval: {
+            action: 'role.grant_admin',
+            when: ({ body }) => body.role === 'admin',
+            summary: async ({ params, body }) =>
+                `Make ${await describeUser(params.userId)} an admin` +
+                (body.expires_at ? ` until ${new Date(body.expires_at).toUTCString()}` : ''),
+        },
+        errorMessage: 'Failed to update user role',
+    },
+    async (ctx) => {
+        const { userId } = ctx.params
+        const { role, confirmation_token, expires_at } = ctx.body
 
-        // Validate user ID
-        const userIdValidation = uuidSchema.safeParse(userId)
-        if (!userIdValidation.success) {
-            return NextResponse.json({ error: 'Invalid user ID format' }, { status: 400 })
+        if (!(await roleExists(role))) {
+            throw new ValidationError(`Role "${role}" does not exist`)
         }
 
-        const body = await request.json()
-
-        // Validate input with Zod (rejects extra fields)
-        const validation = validateInput(updateUserRoleSchema, body)
-        if (!validation.success) {
-            return NextResponse.json(validationErrorResponse(validation.errors), { status: 400 })
+        if (expires_at && new Date(expires_at).getTime() <= Date.now()) {
+            throw new ValidationError('Expiry must be in the future')
         }
 
-        const { role } = validation.data
-
-        // Get current admin user
-        const supabase = await createClient()
-        const {
-            data: { user: adminUser },
-        } = await supabase.auth.getUser()
-
         // Update the role
-        await updateUserRole(userId, role)
+        const previousRole = await updateUserRole(userId, role, {
+            actor: ctx.actor,
+            confirmationToken: confirmation_token,
+            expiresAt: expires_at,
+        })
 
         // Get target user email
-        const { data: targetUser } = await supabase.auth.admin.getUserById(userId)
+        const supabaseAdmin = createServiceRoleClient()
+        const { data: targetUser } = await supabaseAdmin.auth.admin.getUserById(userId)
 
-        // Log audit event
-        await logAuditEvent({
-            userId: adminUser?.id,
-            userEmail: adminUser?.email,
-            action: AUDIT_ACTIONS.ROLE_UPDATED,
-            resourceType: 'user',
-            resourceId: userId,
-            details: {
-                new_role: role,
-                target_user_email: targetUser?.user?.email,
-            },
-            request,
-        })
+        ctx.auditDetails.target_user_email = targetUser?.user?.email
+        ctx.auditDetails.changes = auditChange(
+            { role: previousRole },
+            { role, expires_at: expires_at || null }
+        )
 
         return NextResponse.json({
             message: 'User role updated successfully',
-            data: { userId, role },
+            data: { userId, role, expires_at: expires_at || null },
         })
-    } catch (error: any) {
-        console.error('Update role API error:', error)
-
-        if (error.message === 'Unauthorized: Admin access required') {
-            return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 403 }
-            )
-        }
-
-        return NextResponse.json(
-            { error: error.message || 'Failed to update user role' },
-            { status: 500 }
-        )
     }
-}
+)
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { revokeUserSession } from '@/lib/auth-sessions'
+import { NotFoundError } from '@/lib/errors'
+import { PERMISSIONS } from '@/lib/permissions'
+import { withAdminRoute } from '@/lib/route-guard'
+import { userSessionParamsSchema } from '@/lib/validations'
+
+export const DELETE = withAdminRoute(
+    { permission: PERMISSIONS.USERS_SUSPEND, params: userSessionParamsSchema, errorMessage: 'Failed to revoke session' },
+    async ({ actor, params, request }) => {
+        const revoked = await revokeUserSession({
+            userId: params.userId,
+            sessionId: params.sessionId,
+            actor,
+            request,
+        })
+
+        if (!revoked) {
+            throw new NotFoundError('Session not found')
+        }
+
+        return NextResponse.json({ message: 'Session revoked' })
+    }
+)
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { listUserSessions, revokeAllUserSessions } from '@/lib/auth-sessions'
+import { PERMISSIONS } from '@/lib/permissions'
+import { withAdminRoute } from '@/lib/route-guard'
+import { userIdParamsSchema } from '@/lib/validations'
+
+export const GET = withAdminRoute(
+    { permission: PERMISSIONS.USERS_SUSPEND, params: userIdParamsSchema, errorMessage: 'Failed to fetch sessions' },
+    async ({ params }) => {
+        const data = await listUserSessions(params.userId)
+
+        return NextResponse.json({ data })
+    }
+)
+
+// Sign out everywhere
+export const DELETE = withAdminRoute(
+    { permission: PERMISSIONS.USERS_SUSPEND, params: userIdParamsSchema, errorMessage: 'Failed to revoke sessions' },
+    async ({ actor, params, request }) => {
+        const revoked = await revokeAllUserSessions({
+            userId: params.userId,
+            actor,
+            request,
+        })
+
+        return NextResponse.json({
+            message: revoked ? `Signed out of ${revoked} ${revoked === 1 ? 'session' : 'sessions'}` : 'No active sessions',
+            data: { revoked },
+        })
+    }
+)
@@ -1,28 +1,61 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { requireAdmin } from '@/lib/admin'
+import { NextResponse } from 'next/server'
+import { assertCanDeactivateUser } from '@/lib/admin'
+import { AUDIT_ACTIONS } from '@/lib/audit'
+import { auditChange } from '@/lib/audit-details'
+import { revokeAllUserSessions } from '@/lib/auth-sessions'
+import { NotFoundError } from '@/lib/errors'
+import { describeUser } from '@/lib/pending-actions'
+import { PERMISSIONS } from '@/lib/permissions'
+import { withAdminRoute } from '@/lib/route-guard'
 import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { updateUserStatusSchema, userIdParamsSchema } from '@/lib/validations'
 
-export async function POST(
-    request: NextRequest,
-    { params }: { params: Promise<{ userId: string }> }
-) {
-    try {
-        // Verify admin access
-        await requireAdmin()
+const STATUS_AUDIT_ACTIONS = {
+    active: AUDIT_ACTIONS.USER_RESTORED,
+    suspended: AUDIT_ACTIONS.USER_SUSPENDED,
+    deleted: AUDIT_ACTIONS.USER_DELETED,
+}
 
-        const { userId } = await params
-        const body = await request.json()
+export const POST = withAdminRoute(
+    {
+        permission: PERMISSIONS.USERS_SUSPEND,
+        params: userIdParamsSchema,
+        schema: updateUserStatusSchema,
+        // Suspending and restoring are moderation; deleting is not
+        requires: ({ body }) => (body.status === 'deleted' ? PERMISSIONS.USERS_DELETE : null),
+        stepUp: ({ body }) => body.status === 'deleted',
+        audit: {
+            action: ({ body }) => STATUS_AUDIT_ACTIONS[body.status],
+            resourceType: 'user',
+            resourceId: ({ params }) => params.userId,
+        },
+        approval: {
+            action: 'user.delete',
+            when: ({ body }) => body.status === 'deleted',
+            summary: async ({ params }) => `Delete user ${await describeUser(params.userId)}`,
+        },
+        errorMessage: 'Failed to update user status',
+    },
+    async ({ actor, params, body, request, auditDetails }) => {
+        const { userId } = params
         const { status } = body
 
-        if (!['active', 'suspended', 'deleted'].includes(status)) {
-            return NextResponse.json(
-                { error: 'Invalid status. Must be active, suspended, or deleted.' },
-                { status: 400 }
-            )
+        if (status !== 'active') {
+            await assertCanDeactivateUser(userId)
         }
 
         const supabaseAdmin = createServiceRoleClient()
 
+        const { data: profile } = await supabaseAdmin
+            .from('profiles')
+            .select('status, email')
+            .eq('id', userId)
+            .maybeSingle()
+
+        if (!profile) {
+            throw new NotFoundError('User profile not found')
+        }
+
         // For deleted status, we could also delete from auth.users, but the prompt says 
         // "he/she can login but all pathways... will be blocked", 
         // so we just update the status field.
@@ -35,35 +68,19 @@ export async function POST(
             throw new Error(`Failed to update status: ${updateError.message}`)
         }
 
-        // Add to audit logs
-        try {
-            // Getting admin user ID would be nice, but we might not have it easily here without supabase auth check.
-            // We just log the action.
-            await supabaseAdmin.from('audit_logs').insert({
-                action: status === 'deleted' ? 'user.deleted' : status === 'suspended' ? 'user.suspended' : 'user.restored',
-                resource_type: 'user',
-                resource_id: userId,
-                details: { status },
-                created_at: new Date().toISOString()
+        // Kick a suspended or deleted user out of every device right away
+        if (status !== 'active') {
+            await revokeAllUserSessions({
+                userId,
+                reason: status,
+                actor,
+                request,
             })
-        } catch (auditError) {
-            console.error('Failed to write audit log:', auditError)
         }
 
-        return NextResponse.json({ success: true, status })
-    } catch (error: any) {
-        console.error('Update status API error:', error)
-
-        if (error.message === 'Unauthorized: Admin access required') {
-            return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 403 }
-            )
-        }
+        auditDetails.target_user_email = profile.email
+        auditDetails.changes = auditChange({ status: profile.status || 'active' }, { status })
 
-        return NextResponse.json(
-            { error: error.message || 'Failed to update user status' },
-            { status: 500 }
-        )
+        return NextResponse.json({ success: true, status })
     }
-}
+)
@@ -1,49 +1,40 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { requireAdmin } from '@/lib/admin'
-import { logAuditEvent, AUDIT_ACTIONS } from '@/lib/audit'
-import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { AUDIT_ACTIONS } from '@/lib/audit'
+import { auditChange } from '@/lib/audit-details'
+import { NotFoundError, ValidationError } from '@/lib/errors'
+import { describeUser } from '@/lib/pending-actions'
+import { PERMISSIONS } from '@/lib/permissions'
+import { withAdminRoute } from '@/lib/route-guard'
 import { createServiceRoleClient } from '@/lib/supabase/service-role'
-import { uuidSchema } from '@/lib/validations'
+import { userIdParamsSchema } from '@/lib/validations'
 import { z } from 'zod'
 
 // Only 'revoke' is accepted — admins cannot promote users to premium
 const revokeSubscriptionSchema = z.object({
-    action: z.literal('revoke'),
+    action: z.literal('revoke', 'Admins cannot promote users to premium; only revocation is permitted'),
 }).strict()
 
-export async function POST(
-    request: NextRequest,
-    { params }: { params: Promise<{ userId: string }> }
-) {
-    try {
-        // Verify admin access
-        await requireAdmin()
-
-        const { userId } = await params
-
-        // Validate user ID
-        const userIdValidation = uuidSchema.safeParse(userId)
-        if (!userIdValidation.success) {
-            return NextResponse.json({ error: 'Invalid user ID format' }, { status: 400 })
-        }
-
-        const body = await request.json()
-
-        // Validate input — only 'revoke' allowed
-        const validation = revokeSubscriptionSchema.safeParse(body)
-        if (!validation.success) {
-            // Explicitly reject any attempt to upgrade via admin
-            return NextResponse.json(
-                {
-                    error: 'Forbidden: Admin cannot manually promote users to premium. Only revocation is permitted.',
-                },
-                { status: 403 }
-            )
-        }
+export const POST = withAdminRoute(
+    {
+        permission: PERMISSIONS.CREDITS_MANAGE,
+        params: userIdParamsSchema,
+        schema: revokeSubscriptionSchema,
+        audit: {
+            action: AUDIT_ACTIONS.SUBSCRIPTION_REVOKED,
+            resourceType: 'subscription',
+            resourceId: ({ params }) => params.userId,
+        },
+        approval: {
+            action: 'subscription.revoke',
+            summary: async ({ params }) => `Revoke the premium subscription of ${await describeUser(params.userId)}`,
+        },
+        errorMessage: 'Failed to revoke subscription',
+    },
+    async (ctx) => {
+        const { userId } = ctx.params
 
         // Use service role to bypass RLS for cross-user update
         const supabaseAdmin = createServiceRoleClient()
-        const supabase = await createClient()
 
         // Check current subscription type
         const { data: profile, error: profileError } = await supabaseAdmin
@@ -53,14 +44,11 @@ export async function POST(
             .single()
 
         if (profileError || !profile) {
-            return NextResponse.json({ error: 'User profile not found' }, { status: 404 })
+            throw new NotFoundError('User profile not found')
         }
 
         if (profile.account_type !== 'premium' && profile.account_type !== 'enterprise') {
-            return NextResponse.json(
-                { error: 'User is not on a premium plan — nothing to revoke' },
-                { status: 400 }
-            )
+            throw new ValidationError('User is not on a premium plan — nothing to revoke')
         }
 
         // Revoke: set account_type back to 'basic' (maps to 'free' in app layer)
@@ -73,40 +61,12 @@ export async function POST(
             throw new Error(`Failed to revoke subscription: ${updateError.message}`)
         }
 
-        // Get admin user for audit log
-        const {
-            data: { user: adminUser },
-        } = await supabase.auth.getUser()
-
-        // Log audit event
-        await logAuditEvent({
-            userId: adminUser?.id,
-            userEmail: adminUser?.email,
-            action: AUDIT_ACTIONS.SUBSCRIPTION_REVOKED,
-            resourceType: 'subscription',
-            resourceId: userId,
-            details: {
-                target_user_email: profile.email,
-                previous_account_type: profile.account_type,
-                new_account_type: 'basic',
-            },
-            request,
-        })
+        ctx.auditDetails.target_user_email = profile.email
+        ctx.auditDetails.changes = auditChange({ account_type: profile.account_type }, { account_type: 'basic' })
 
         return NextResponse.json({
             message: 'Subscription revoked successfully',
             data: { userId, subscription_type: 'free' },
         })
-    } catch (error: any) {
-        console.error('Revoke subscription API error:', error)
-
-        if (error.message === 'Unauthorized: Admin access required') {
-            return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
-        }
-
-        return NextResponse.json(
-            { error: error.message || 'Failed to revoke subscription' },
-            { status: 500 }
-        )
     }
-}
+)
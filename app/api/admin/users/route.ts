@@ -1,17 +1,15 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { requireAdmin } from '@/lib/admin'
-import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { logger } from '@/lib/logger'
+import { PERMISSIONS } from '@/lib/permissions'
+import { withAdminRoute } from '@/lib/route-guard'
 import { createServiceRoleClient } from '@/lib/supabase/service-role'
 import { AdminUser } from '@/types'
 
-export async function GET(request: NextRequest) {
-    try {
-        // Verify admin access
-        await requireAdmin()
-
+export const GET = withAdminRoute(
+    { permission: PERMISSIONS.USERS_READ, errorMessage: 'Failed to fetch users' },
+    async () => {
         // Use service role client for admin operations
         const supabaseAdmin = createServiceRoleClient()
-        const supabase = await createClient()
 
         // Get all users from auth.users
         const { data: users, error: usersError } = await supabaseAdmin.auth.admin.listUsers()
@@ -20,13 +18,13 @@ export async function GET(request: NextRequest) {
             throw new Error(`Failed to fetch users: ${usersError.message}`)
         }
 
-        // Get user roles
-        const { data: roles, error: rolesError } = await supabase
+        // Get user roles (service role: custom roles aren't covered by user_roles RLS)
+        const { data: roles, error: rolesError } = await supabaseAdmin
             .from('user_roles')
-            .select('user_id, role')
+            .select('user_id, role, expires_at, expiry_held_at')
 
         if (rolesError) {
-            console.error('Error fetching roles:', rolesError)
+            logger.error('Failed to fetch user roles', { error: rolesError })
         }
 
         // Get profiles for subscription type and status
@@ -35,21 +33,21 @@ export async function GET(request: NextRequest) {
             .select('id, account_type, status')
 
         if (profilesError) {
-            console.error('Error fetching profiles:', profilesError)
+            logger.error('Failed to fetch user profiles', { error: profilesError })
         }
 
         // Get session counts per user
-        const { data: sessionCounts, error: sessionError } = await supabase
+        const { data: sessionCounts, error: sessionError } = await supabaseAdmin
             .from('agent_sessions')
             .select('user_id')
 
         if (sessionError) {
-            console.error('Error fetching session counts:', sessionError)
+            logger.error('Failed to fetch session counts', { error: sessionError })
         }
 
         // Create a map of user roles
         const roleMap = new Map(
-            roles?.map(r => [r.user_id, r.role]) || []
+            roles?.map(r => [r.user_id, r]) || []
         )
 
         // Create maps for account types and status
@@ -73,26 +71,14 @@ export async function GET(request: NextRequest) {
             email: user.email || '',
             created_at: user.created_at,
             last_sign_in_at: user.last_sign_in_at || null,
-            role: roleMap.get(user.id) || 'user',
+            role: roleMap.get(user.id)?.role || 'user',
+            role_expires_at: roleMap.get(user.id)?.expires_at || null,
+            role_expiry_held: !!roleMap.get(user.id)?.expiry_held_at,
             session_count: sessionCountMap.get(user.id) || 0,
             subscription_type: accountTypeMap.get(user.id) || 'free',
             status: (statusMap.get(user.id) as 'active' | 'suspended' | 'deleted') || 'active',
         }))
 
         return NextResponse.json({ data: adminUsers })
-    } catch (error: any) {
-        console.error('Admin users API error:', error)
-
-        if (error.message === 'Unauthorized: Admin access required') {
-            return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 403 }
-            )
-        }
-
-        return NextResponse.json(
-            { error: error.message || 'Failed to fetch users' },
-            { status: 500 }
-        )
     }
-}
+)
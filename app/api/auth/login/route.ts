@@ -1,8 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { logAuditEvent, AUDIT_ACTIONS } from '@/lib/audit'
+import { requestLogger } from '@/lib/logger'
+import { getRequestId } from '@/lib/request-id'
 import { loginSchema, validateInput, validationErrorResponse } from '@/lib/validations'
 import { sanitizeEmail } from '@/utils/sanitize'
+import {
+    LOGIN_LOCKOUT,
+    clearFailedLogins,
+    getClientIp,
+    getLoginDelay,
+    recordFailedLogin,
+} from '@/lib/security'
+import { getActiveLockout } from '@/lib/account-lockouts'
+
+function accountLockedResponse(lockedUntil: string) {
+    const retryAfter = Math.max(1, Math.ceil((new Date(lockedUntil).getTime() - Date.now()) / 1000))
+    return NextResponse.json(
+        {
+            error: 'Account temporarily locked',
+            message: `Too many failed login attempts. Try again in ${Math.ceil(retryAfter / 60)} minutes.`,
+            retryAfter,
+        },
+        { status: 423, headers: { 'Retry-After': String(retryAfter) } }
+    )
+}
 
 export async function POST(request: NextRequest) {
     try {
@@ -23,6 +45,20 @@ export async function POST(request: NextRequest) {
             )
         }
 
+        const ip = getClientIp(request)
+
+        // Locked accounts are refused before the password is even checked
+        const lockout = await getActiveLockout(sanitizedEmail)
+        if (lockout) {
+            return accountLockedResponse(lockout.locked_until)
+        }
+
+        // Slow down repeated guesses against the same account
+        const delayMs = await getLoginDelay(sanitizedEmail)
+        if (delayMs > 0) {
+            await new Promise(resolve => setTimeout(resolve, delayMs))
+        }
+
         const supabase = await createClient()
 
         const { data, error } = await supabase.auth.signInWithPassword({
@@ -31,9 +67,34 @@ export async function POST(request: NextRequest) {
         })
 
         if (error) {
+            const outcome = await recordFailedLogin(ip, sanitizedEmail, request)
+
+            await logAuditEvent({
+                userEmail: sanitizedEmail,
+                action: AUDIT_ACTIONS.USER_LOGIN_FAILED,
+                resourceType: 'user',
+                details: {
+                    email: sanitizedEmail,
+                    source: 'admin_panel',
+                    reason: error.message,
+                    attempts: outcome.attempts,
+                    account_locked: outcome.accountLocked,
+                    ip_blocked: outcome.ipBlocked,
+                },
+                request,
+            })
+
+            if (outcome.accountLocked) {
+                return accountLockedResponse(
+                    new Date(Date.now() + LOGIN_LOCKOUT.lockDurationMs).toISOString()
+                )
+            }
+
             return NextResponse.json({ error: error.message }, { status: 400 })
         }
 
+        await clearFailedLogins(ip, sanitizedEmail)
+
         if (data.user) {
             await logAuditEvent({
                 userId: data.user.id,
@@ -48,9 +109,10 @@ export async function POST(request: NextRequest) {
 
         return NextResponse.json({ data })
     } catch (error: any) {
-        console.error('Login API error:', error)
+        const requestId = getRequestId(request)
+        requestLogger(request).error('Login failed', { error })
         return NextResponse.json(
-            { error: error.message || 'Login failed' },
+            { error: error.message || 'Login failed', request_id: requestId },
             { status: 500 }
         )
     }
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { logAuditEvent, AUDIT_ACTIONS } from '@/lib/audit'
+import { requestLogger } from '@/lib/logger'
+import { getRequestId } from '@/lib/request-id'
 
 export async function POST(request: NextRequest) {
     try {
@@ -31,9 +33,10 @@ export async function POST(request: NextRequest) {
 
         return NextResponse.json({ success: true })
     } catch (error: any) {
-        console.error('Logout API error:', error)
+        const requestId = getRequestId(request)
+        requestLogger(request).error('Logout failed', { error })
         return NextResponse.json(
-            { error: error.message || 'Logout failed' },
+            { error: error.message || 'Logout failed', request_id: requestId },
             { status: 500 }
         )
     }
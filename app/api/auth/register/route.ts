@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { logAuditEvent, AUDIT_ACTIONS } from '@/lib/audit'
+import { requestLogger } from '@/lib/logger'
+import { getRequestId } from '@/lib/request-id'
 import { registerSchema, validateInput, validationErrorResponse } from '@/lib/validations'
 import { sanitizeEmail, sanitizeText } from '@/utils/sanitize'
 
@@ -53,9 +55,10 @@ export async function POST(request: NextRequest) {
 
         return NextResponse.json({ data })
     } catch (error: any) {
-        console.error('Register API error:', error)
+        const requestId = getRequestId(request)
+        requestLogger(request).error('Registration failed', { error })
         return NextResponse.json(
-            { error: error.message || 'Registration failed' },
+            { error: error.message || 'Registration failed', request_id: requestId },
             { status: 500 }
         )
     }
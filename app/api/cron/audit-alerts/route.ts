@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { evaluateAuditAlerts } from '@/lib/audit-alerts'
+import { UnauthorizedError } from '@/lib/errors'
+import { requestLogger } from '@/lib/logger'
+import { getRequestId } from '@/lib/request-id'
+import { apiErrorResponse } from '@/lib/route-guard'
+import { isAuthorizedCron } from '@/lib/security'
+
+// Invoke on a schedule (e.g. every 5 minutes, the shortest alert window) to
+// evaluate audit alert rules
+export async function GET(request: NextRequest) {
+    try {
+        if (!isAuthorizedCron(request)) {
+            throw new UnauthorizedError('Invalid cron secret')
+        }
+
+        const result = await evaluateAuditAlerts(request)
+
+        return NextResponse.json({ data: result })
+    } catch (error) {
+        if (!(error instanceof UnauthorizedError)) {
+            requestLogger(request).error('Audit alert evaluation failed', { error })
+        }
+        return apiErrorResponse(error, 'Failed to evaluate audit alerts', getRequestId(request))
+    }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { writeAuditCheckpoint } from '@/lib/audit-chain'
+import { UnauthorizedError } from '@/lib/errors'
+import { requestLogger } from '@/lib/logger'
+import { getRequestId } from '@/lib/request-id'
+import { apiErrorResponse } from '@/lib/route-guard'
+import { isAuthorizedCron } from '@/lib/security'
+
+// Invoke on a schedule (e.g. hourly) to export a signed audit chain checkpoint
+export async function GET(request: NextRequest) {
+    try {
+        if (!isAuthorizedCron(request)) {
+            throw new UnauthorizedError('Invalid cron secret')
+        }
+
+        const checkpoint = await writeAuditCheckpoint()
+
+        return NextResponse.json({ data: checkpoint })
+    } catch (error) {
+        if (!(error instanceof UnauthorizedError)) {
+            requestLogger(request).error('Audit checkpoint failed', { error })
+        }
+        return apiErrorResponse(error, 'Failed to write audit checkpoint', getRequestId(request))
+    }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { previewAuditRetention, purgeExpiredAuditLogs } from '@/lib/audit-retention'
+import { UnauthorizedError } from '@/lib/errors'
+import { requestLogger } from '@/lib/logger'
+import { getRequestId } from '@/lib/request-id'
+import { apiErrorResponse } from '@/lib/route-guard'
+import { isAuthorizedCron } from '@/lib/security'
+
+// Invoke on a schedule (e.g. daily) to archive and purge expired audit logs.
+// ?dry_run=true only reports what would be purged
+export async function GET(request: NextRequest) {
+    try {
+        if (!isAuthorizedCron(request)) {
+            throw new UnauthorizedError('Invalid cron secret')
+        }
+
+        if (request.nextUrl.searchParams.get('dry_run') === 'true') {
+            const preview = await previewAuditRetention()
+            return NextResponse.json({ data: { dry_run: true, preview } })
+        }
+
+        const result = await purgeExpiredAuditLogs({ request })
+
+        return NextResponse.json({ data: { dry_run: false, ...result } })
+    } catch (error) {
+        if (!(error instanceof UnauthorizedError)) {
+            requestLogger(request).error('Audit retention failed', { error })
+        }
+        return apiErrorResponse(error, 'Failed to apply audit retention', getRequestId(request))
+    }
+}
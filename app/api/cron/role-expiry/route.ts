@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sweepExpiredRoleGrants } from '@/lib/admin'
+import { UnauthorizedError } from '@/lib/errors'
+import { requestLogger } from '@/lib/logger'
+import { getRequestId } from '@/lib/request-id'
+import { apiErrorResponse } from '@/lib/route-guard'
+import { isAuthorizedCron } from '@/lib/security'
+
+// Invoke on a schedule (e.g. every 5 minutes) to revert expired role grants
+export async function GET(request: NextRequest) {
+    try {
+        if (!isAuthorizedCron(request)) {
+            throw new UnauthorizedError('Invalid cron secret')
+        }
+
+        const result = await sweepExpiredRoleGrants(request)
+
+        return NextResponse.json({ data: result })
+    } catch (error) {
+        if (!(error instanceof UnauthorizedError)) {
+            requestLogger(request).error('Role expiry sweep failed', { error })
+        }
+        return apiErrorResponse(error, 'Failed to sweep expired role grants', getRequestId(request))
+    }
+}
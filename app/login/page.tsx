@@ -32,13 +32,13 @@ export default function LoginPage() {
                 return
             }
 
-            // Check if user is admin
+            // Check if user may use the admin panel
             const res = await fetch('/api/admin/check')
             const data = await res.json()
 
-            if (!data.isAdmin) {
-                setError('Access denied. Admin privileges required.')
-                // Sign out non-admin user
+            if (!data.canAccessAdmin) {
+                setError('Access denied. Admin or moderator privileges required.')
+                // Sign out user without admin panel access
                 await fetch('/api/auth/logout', { method: 'POST' })
                 setLoading(false)
                 return
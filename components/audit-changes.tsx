@@ -0,0 +1,65 @@
+'use client'
+
+import { listFieldChanges } from '@/lib/audit-details'
+import { AuditChange } from '@/types'
+
+function formatValue(value: unknown) {
+    if (value === undefined) return '—'
+    if (value === null) return 'none'
+    if (typeof value === 'string') return value
+    return JSON.stringify(value)
+}
+
+function formatField(field: string) {
+    return field.replace(/_/g, ' ')
+}
+
+/**
+ * Field-level diff of an audit entry's details.changes
+ * List fields show the items added and removed rather than both lists whole
+ */
+export function AuditChanges({ changes }: { changes: AuditChange | null | undefined }) {
+    const rows = listFieldChanges(changes)
+
+    if (rows.length === 0) {
+        return <p className="text-sm text-muted-foreground">No field changes recorded.</p>
+    }
+
+    return (
+        <div className="rounded-md border border-warm-border divide-y divide-warm-border text-sm">
+            <div className="grid grid-cols-[140px_1fr_1fr] gap-3 px-3 py-2 text-xs font-medium uppercase text-muted-foreground">
+                <span>Field</span>
+                <span>Before</span>
+                <span>After</span>
+            </div>
+            {rows.map((row) => (
+                <div key={row.field} className="grid grid-cols-[140px_1fr_1fr] gap-3 px-3 py-2">
+                    <span className="font-medium text-foreground capitalize">{formatField(row.field)}</span>
+                    {row.added || row.removed ? (
+                        <>
+                            <span className="flex flex-wrap gap-1">
+                                {row.removed?.length ? row.removed.map((item) => (
+                                    <span key={formatValue(item)} className="rounded bg-red-100 px-1.5 py-0.5 font-mono text-xs text-red-800 line-through dark:bg-red-900/40 dark:text-red-300">
+                                        {formatValue(item)}
+                                    </span>
+                                )) : <span className="text-muted-foreground">—</span>}
+                            </span>
+                            <span className="flex flex-wrap gap-1">
+                                {row.added?.length ? row.added.map((item) => (
+                                    <span key={formatValue(item)} className="rounded bg-emerald-100 px-1.5 py-0.5 font-mono text-xs text-emerald-800 dark:bg-emerald-900/40 dark:text-emerald-300">
+                                        {formatValue(item)}
+                                    </span>
+                                )) : <span className="text-muted-foreground">—</span>}
+                            </span>
+                        </>
+                    ) : (
+                        <>
+                            <span className="break-all font-mono text-xs text-red-700 dark:text-red-300">{formatValue(row.before)}</span>
+                            <span className="break-all font-mono text-xs text-emerald-700 dark:text-emerald-300">{formatValue(row.after)}</span>
+                        </>
+                    )}
+                </div>
+            ))}
+        </div>
+    )
+}
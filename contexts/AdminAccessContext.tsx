@@ -0,0 +1,65 @@
+'use client'
+
+import { createContext, useCallback, useContext, useEffect, useState } from 'react'
+import { MfaStatus, Permission, UserRoleType } from '@/types'
+
+interface AdminAccessContextType {
+    role: UserRoleType | null
+    permissions: Permission[]
+    mfa: MfaStatus | null
+    loading: boolean
+    can: (permission: Permission) => boolean
+    refresh: () => Promise<void>
+}
+
+const AdminAccessContext = createContext<AdminAccessContextType | undefined>(undefined)
+
+export function AdminAccessProvider({ children }: { children: React.ReactNode }) {
+    const [role, setRole] = useState<UserRoleType | null>(null)
+    const [permissions, setPermissions] = useState<Permission[]>([])
+    const [mfa, setMfa] = useState<MfaStatus | null>(null)
+    const [loading, setLoading] = useState(true)
+
+    const refresh = useCallback(async () => {
+        try {
+            const res = await fetch('/api/admin/check')
+            if (!res.ok) {
+                setRole(null)
+                setPermissions([])
+                setMfa(null)
+                return
+            }
+
+            const data = await res.json()
+            setRole(data.role || null)
+            setPermissions(data.permissions || [])
+            setMfa(data.mfa || null)
+        } catch (error) {
+            console.error('Failed to load admin permissions:', error)
+            setPermissions([])
+        } finally {
+            setLoading(false)
+        }
+    }, [])
+
+    useEffect(() => {
+        refresh()
+    }, [refresh])
+
+    // UI hint only; the API routes enforce the same permissions server-side
+    const can = useCallback((permission: Permission) => permissions.includes(permission), [permissions])
+
+    return (
+        <AdminAccessContext.Provider value={{ role, permissions, mfa, loading, can, refresh }}>
+            {children}
+        </AdminAccessContext.Provider>
+    )
+}
+
+export function useAdminAccess() {
+    const context = useContext(AdminAccessContext)
+    if (context === undefined) {
+        throw new Error('useAdminAccess must be used within an AdminAccessProvider')
+    }
+    return context
+}
@@ -60,7 +60,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
             })
             const data = await res.json()
             if (!res.ok) {
-                return { error: new Error(data.error || 'Login failed') }
+                return { error: new Error(data.message || data.error || 'Login failed') }
             }
             return { error: null }
         } catch (error: any) {
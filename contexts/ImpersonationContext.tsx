@@ -0,0 +1,83 @@
+'use client'
+
+import { createContext, useCallback, useContext, useEffect, useState } from 'react'
+import { useAdminAccess } from '@/contexts/AdminAccessContext'
+import { PERMISSIONS } from '@/lib/permissions'
+import { ImpersonationSession } from '@/types'
+
+interface ImpersonationContextType {
+    session: ImpersonationSession | null
+    start: (userId: string, reason: string) => Promise<{ url: string | null, error: string | null }>
+    end: () => Promise<void>
+    refresh: () => Promise<void>
+}
+
+const ImpersonationContext = createContext<ImpersonationContextType | undefined>(undefined)
+
+export function ImpersonationProvider({ children }: { children: React.ReactNode }) {
+    const { can } = useAdminAccess()
+    const canImpersonate = can(PERMISSIONS.USERS_IMPERSONATE)
+    const [session, setSession] = useState<ImpersonationSession | null>(null)
+
+    const refresh = useCallback(async () => {
+        if (!canImpersonate) {
+            setSession(null)
+            return
+        }
+
+        try {
+            const res = await fetch('/api/admin/impersonation')
+            const data = await res.json()
+            setSession(res.ok ? data.data : null)
+        } catch (error) {
+            console.error('Failed to load impersonation session:', error)
+        }
+    }, [canImpersonate])
+
+    useEffect(() => {
+        refresh()
+    }, [refresh])
+
+    const start = async (userId: string, reason: string) => {
+        try {
+            const res = await fetch(`/api/admin/users/${userId}/impersonate`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ reason }),
+            })
+            const data = await res.json()
+            if (!res.ok) {
+                const detail = data.details?.[0]?.message
+                return { url: null, error: detail || data.error || 'Failed to start impersonation' }
+            }
+
+            setSession(data.data.session)
+            return { url: data.data.url as string, error: null }
+        } catch (error: any) {
+            return { url: null, error: error.message }
+        }
+    }
+
+    const end = async () => {
+        try {
+            await fetch('/api/admin/impersonation', { method: 'DELETE' })
+        } catch (error) {
+            console.error('Failed to end impersonation:', error)
+        }
+        setSession(null)
+    }
+
+    return (
+        <ImpersonationContext.Provider value={{ session, start, end, refresh }}>
+            {children}
+        </ImpersonationContext.Provider>
+    )
+}
+
+export function useImpersonation() {
+    const context = useContext(ImpersonationContext)
+    if (context === undefined) {
+        throw new Error('useImpersonation must be used within an ImpersonationProvider')
+    }
+    return context
+}
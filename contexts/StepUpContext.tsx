@@ -0,0 +1,163 @@
+'use client'
+
+import { createContext, useCallback, useContext, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog'
+import { StepUpMethod } from '@/types'
+import { ShieldCheck } from 'lucide-react'
+
+interface StepUpContextType {
+    // fetch() that asks the admin to re-authenticate and retries once when
+    // the route answers 403 step_up_required
+    fetchWithStepUp: (input: string, init?: RequestInit) => Promise<Response>
+}
+
+const StepUpContext = createContext<StepUpContextType | undefined>(undefined)
+
+export function StepUpProvider({ children }: { children: React.ReactNode }) {
+    const [methods, setMethods] = useState<StepUpMethod[] | null>(null)
+    const [method, setMethod] = useState<StepUpMethod>('password')
+    const [secret, setSecret] = useState('')
+    const [error, setError] = useState('')
+    const [verifying, setVerifying] = useState(false)
+    // Settles the pending fetchWithStepUp call once the dialog closes
+    const settle = useRef<((verified: boolean) => void) | null>(null)
+
+    const close = (verified: boolean) => {
+        settle.current?.(verified)
+        settle.current = null
+        setMethods(null)
+        setSecret('')
+        setError('')
+    }
+
+    const requestStepUp = (available: StepUpMethod[]) => {
+        setMethods(available)
+        setMethod(available[0] || 'password')
+        return new Promise<boolean>((resolve) => {
+            settle.current = resolve
+        })
+    }
+
+    const fetchWithStepUp = useCallback(async (input: string, init?: RequestInit) => {
+        const res = await fetch(input, init)
+        if (res.status !== 403) {
+            return res
+        }
+
+        const data = await res.clone().json().catch(() => null)
+        if (data?.code !== 'step_up_required') {
+            return res
+        }
+
+        const verified = await requestStepUp(data.data?.methods || [])
+        return verified ? fetch(input, init) : res
+    }, [])
+
+    const handleVerify = async () => {
+        try {
+            setVerifying(true)
+            setError('')
+            const res = await fetch('/api/admin/step-up', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(method === 'password' ? { method, password: secret } : { method, code: secret }),
+            })
+
+            if (!res.ok) {
+                const data = await res.json()
+                const detail = data.details?.[0]?.message
+                throw new Error(detail || data.message || data.error || 'Re-authentication failed')
+            }
+
+            close(true)
+        } catch (err: any) {
+            setError(err.message)
+            setSecret('')
+        } finally {
+            setVerifying(false)
+        }
+    }
+
+    return (
+        <StepUpContext.Provider value={{ fetchWithStepUp }}>
+            {children}
+
+            <Dialog open={!!methods} onOpenChange={(open) => !open && close(false)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle className="flex items-center gap-2">
+                            <ShieldCheck className="h-5 w-5 text-amber-500" />
+                            Confirm it&apos;s you
+                        </DialogTitle>
+                        <DialogDescription>
+                            This action can&apos;t be undone easily, so we need you to re-authenticate first.
+                        </DialogDescription>
+                    </DialogHeader>
+                    {methods?.length === 0 ? (
+                        <div className="py-4 text-sm text-red-500">
+                            Your account has no password or authenticator app to confirm with. Set one up and try again.
+                        </div>
+                    ) : (
+                        <div className="space-y-3 py-4">
+                            {methods && methods.length > 1 && (
+                                <div className="flex gap-2">
+                                    {methods.map((m) => (
+                                        <Button
+                                            key={m}
+                                            variant={m === method ? 'default' : 'outline'}
+                                            size="sm"
+                                            className="rounded-lg"
+                                            onClick={() => {
+                                                setMethod(m)
+                                                setSecret('')
+                                                setError('')
+                                            }}
+                                        >
+                                            {m === 'password' ? 'Password' : 'Authenticator code'}
+                                        </Button>
+                                    ))}
+                                </div>
+                            )}
+                            <Input
+                                type={method === 'password' ? 'password' : 'text'}
+                                inputMode={method === 'totp' ? 'numeric' : undefined}
+                                autoComplete={method === 'password' ? 'current-password' : 'one-time-code'}
+                                placeholder={method === 'password' ? 'Your password' : '6-digit code'}
+                                value={secret}
+                                onChange={(e) => setSecret(e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && secret && !verifying && handleVerify()}
+                                autoFocus
+                            />
+                            {error && <p className="text-sm text-red-500">{error}</p>}
+                        </div>
+                    )}
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => close(false)} disabled={verifying}>
+                            Cancel
+                        </Button>
+                        <Button onClick={handleVerify} disabled={verifying || !secret || methods?.length === 0}>
+                            {verifying ? 'Verifying...' : 'Confirm'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </StepUpContext.Provider>
+    )
+}
+
+export function useStepUp() {
+    const context = useContext(StepUpContext)
+    if (context === undefined) {
+        throw new Error('useStepUp must be used within a StepUpProvider')
+    }
+    return context
+}
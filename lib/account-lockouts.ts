@@ -0,0 +1,150 @@
+/**
+ * Account Lockouts
+ * Temporary locks placed on an email address after repeated failed logins
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { logAuditEvent, AUDIT_ACTIONS } from '@/lib/audit'
+import { AccountLockout } from '@/types'
+
+/**
+ * Get the active lockout for an email, if any
+ */
+export async function getActiveLockout(email: string): Promise<AccountLockout | null> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data, error } = await supabaseAdmin
+        .from('account_lockouts')
+        .select('*')
+        .eq('email', email)
+        .gt('locked_until', new Date().toISOString())
+        .maybeSingle()
+
+    if (error) {
+        throw new Error(`Failed to check account lockout: ${error.message}`)
+    }
+
+    return (data as AccountLockout) || null
+}
+
+/**
+ * Lock an account until the given time
+ * Writes a user.locked audit event
+ */
+export async function lockAccount({
+    email,
+    failedAttempts,
+    ip,
+    lockedUntil,
+    request,
+}: {
+    email: string
+    failedAttempts: number
+    ip: string
+    lockedUntil: Date
+    request?: Request
+}): Promise<AccountLockout> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data, error } = await supabaseAdmin
+        .from('account_lockouts')
+        .upsert(
+            {
+                email,
+                failed_attempts: failedAttempts,
+                last_ip: ip,
+                locked_until: lockedUntil.toISOString(),
+                created_at: new Date().toISOString(),
+            },
+            { onConflict: 'email' }
+        )
+        .select('*')
+        .single()
+
+    if (error || !data) {
+        throw new Error(`Failed to lock account: ${error?.message || 'no row returned'}`)
+    }
+
+    await logAuditEvent({
+        userEmail: email,
+        action: AUDIT_ACTIONS.USER_LOCKED,
+        resourceType: 'account_lockout',
+        resourceId: data.id,
+        details: {
+            email,
+            failed_attempts: failedAttempts,
+            locked_until: lockedUntil.toISOString(),
+        },
+        request,
+    })
+
+    return data as AccountLockout
+}
+
+/**
+ * List accounts that are currently locked, soonest expiry last
+ */
+export async function listLockedAccounts(): Promise<AccountLockout[]> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data, error } = await supabaseAdmin
+        .from('account_lockouts')
+        .select('*')
+        .gt('locked_until', new Date().toISOString())
+        .order('locked_until', { ascending: false })
+
+    if (error) {
+        throw new Error(`Failed to fetch locked accounts: ${error.message}`)
+    }
+
+    return (data as AccountLockout[]) || []
+}
+
+/**
+ * Clear a lockout by id
+ * Writes a user.unlocked audit event
+ */
+export async function clearLockout({
+    id,
+    actor,
+    request,
+}: {
+    id: string
+    actor?: { id: string; email?: string | null } | null
+    request?: Request
+}): Promise<AccountLockout | null> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data, error } = await supabaseAdmin
+        .from('account_lockouts')
+        .delete()
+        .eq('id', id)
+        .select('*')
+        .maybeSingle()
+
+    if (error) {
+        throw new Error(`Failed to clear lockout: ${error.message}`)
+    }
+
+    if (!data) {
+        return null
+    }
+
+    const lockout = data as AccountLockout
+
+    await logAuditEvent({
+        userId: actor?.id,
+        userEmail: actor?.email,
+        action: AUDIT_ACTIONS.USER_UNLOCKED,
+        resourceType: 'account_lockout',
+        resourceId: lockout.id,
+        details: {
+            email: lockout.email,
+            failed_attempts: lockout.failed_attempts,
+            locked_until: lockout.locked_until,
+        },
+        request,
+    })
+
+    return lockout
+}
@@ -1,5 +1,13 @@
 import { createClient } from '@/lib/supabase/server'
-import { UserRoleType } from '@/types'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { Permission, UserRoleHistoryEntry, UserRoleType } from '@/types'
+import { ConflictError, ForbiddenError } from '@/lib/errors'
+import { logAuditEvent, AUDIT_ACTIONS } from '@/lib/audit'
+import { auditChange } from '@/lib/audit-details'
+import { logger } from '@/lib/logger'
+import { PERMISSIONS } from '@/lib/permissions'
+import { assertCanGrant, resolveRolePermissions } from '@/lib/roles'
+import { getSecurityStore } from '@/lib/security-store'
 
 /**
  * Check if the current user is an admin
@@ -28,7 +36,7 @@ export async function isAdmin(): Promise<boolean> {
 
         return data.role === 'admin'
     } catch (error) {
-        console.error('Error checking admin status:', error)
+        logger.error('Failed to check admin status', { error })
         return false
     }
 }
@@ -60,7 +68,7 @@ export async function getUserRole(): Promise<UserRoleType> {
 
         return data.role as UserRoleType
     } catch (error) {
-        console.error('Error getting user role:', error)
+        logger.error('Failed to get user role', { error })
         return 'user'
     }
 }
@@ -73,7 +81,7 @@ export async function requireAdmin(): Promise<void> {
     const adminStatus = await isAdmin()
 
     if (!adminStatus) {
-        throw new Error('Unauthorized: Admin access required')
+        throw new ForbiddenError('Unauthorized: Admin access required')
     }
 }
 
@@ -126,24 +134,67 @@ export async function isMod(): Promise<boolean> {
 
         return data.role === 'mod' || data.role === 'admin'
     } catch (error) {
-        console.error('Error checking mod status:', error)
+        logger.error('Failed to check mod status', { error })
         return false
     }
 }
 
 /**
- * Check if user has a role at or above the specified level
- * Role hierarchy: user < mod < admin
+ * Check if the current user's role grants a permission
+ * Resolved from the roles table, so custom roles work too
  */
-export async function hasRoleLevel(requiredRole: UserRoleType): Promise<boolean> {
-    const roleHierarchy: Record<UserRoleType, number> = {
-        user: 1,
-        mod: 2,
-        admin: 3,
+export async function hasPermission(permission: Permission): Promise<boolean> {
+    const currentRole = await getUserRole()
+    const permissions = await resolveRolePermissions(currentRole)
+    return permissions.includes(permission)
+}
+
+export interface AdminActor {
+    id: string
+    email: string | null
+    role: UserRoleType
+    permissions: Permission[]
+    apiTokenId?: string  // Set when authenticated with an API token (lib/api-tokens)
+}
+
+/**
+ * Resolve the authenticated user, their role and its permissions in one pass
+ * Returns null if there is no session, or if the user is suspended or
+ * deleted (authenticateApiToken refuses their tokens the same way)
+ */
+export async function getCurrentActor(): Promise<AdminActor | null> {
+    const supabase = await createClient()
+
+    const {
+        data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+        return null
     }
 
-    const currentRole = await getUserRole()
-    return roleHierarchy[currentRole] >= roleHierarchy[requiredRole]
+    if ((await getProfileStatus(createServiceRoleClient(), user.id)) !== 'active') {
+        return null
+    }
+
+    const { data, error } = await supabase
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', user.id)
+        .single()
+
+    if (error && error.code !== 'PGRST116') {
+        logger.error('Failed to get user role', { error })
+    }
+
+    const role = (data?.role as UserRoleType) || 'user'
+
+    return {
+        id: user.id,
+        email: user.email || null,
+        role,
+        permissions: await resolveRolePermissions(role),
+    }
 }
 
 /**
@@ -153,34 +204,200 @@ export async function requireMod(): Promise<void> {
     const modStatus = await isMod()
 
     if (!modStatus) {
-        throw new Error('Unauthorized: Moderator access required')
+        throw new ForbiddenError('Unauthorized: Moderator access required')
     }
 }
 
+// ============================================================================
+// ROLE CHANGE SAFEGUARDS
+// ============================================================================
+
+// Minimum number of active admins that must remain after any role or status change
+export const MIN_ADMIN_COUNT = Math.max(1, Math.floor(Number(process.env.MIN_ADMIN_COUNT)) || 1)
+
+const SELF_DEMOTION_TOKEN_TTL_MS = 5 * 60 * 1000
+
+type ServiceRoleClient = ReturnType<typeof createServiceRoleClient>
+
 /**
- * Update user role
- * Only admins can call this
+ * Count admins whose profile is still active
+ */
+async function countActiveAdmins(supabase: ServiceRoleClient): Promise<number> {
+    const { data: admins, error } = await supabase
+        .from('user_roles')
+        .select('user_id')
+        .eq('role', 'admin')
+
+    if (error) {
+        throw new Error(`Failed to count admins: ${error.message}`)
+    }
+    if (!admins || admins.length === 0) {
+        return 0
+    }
+
+    const { data: inactive, error: statusError } = await supabase
+        .from('profiles')
+        .select('id')
+        .in('id', admins.map(admin => admin.user_id))
+        .in('status', ['suspended', 'deleted'])
+
+    if (statusError) {
+        throw new Error(`Failed to check admin status: ${statusError.message}`)
+    }
+
+    return admins.length - (inactive?.length || 0)
+}
+
+async function getCurrentRoleOf(supabase: ServiceRoleClient, userId: string): Promise<UserRoleType> {
+    const { data } = await supabase
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', userId)
+        .maybeSingle()
+
+    return (data?.role as UserRoleType) || 'user'
+}
+
+async function getProfileStatus(supabase: ServiceRoleClient, userId: string): Promise<string> {
+    const { data } = await supabase
+        .from('profiles')
+        .select('status')
+        .eq('id', userId)
+        .maybeSingle()
+
+    return data?.status || 'active'
+}
+
+async function assertAdminsRemain(supabase: ServiceRoleClient, message: string): Promise<void> {
+    const remaining = (await countActiveAdmins(supabase)) - 1
+    if (remaining < MIN_ADMIN_COUNT) {
+        throw new ConflictError(
+            `${message}: at least ${MIN_ADMIN_COUNT} active ${MIN_ADMIN_COUNT === 1 ? 'admin' : 'admins'} must remain`,
+            'last_admin'
+        )
+    }
+}
+
+/**
+ * Single-use token an admin must echo back to confirm demoting themselves
+ * Kept in the security store so it works across instances sharing one
+ */
+function selfDemotionKey(actorId: string, role: UserRoleType, token: string): string {
+    return `role-confirm:${actorId}:${role}:${token}`
+}
+
+async function issueSelfDemotionToken(actorId: string, role: UserRoleType): Promise<string> {
+    const token = crypto.randomUUID()
+    await getSecurityStore().increment(selfDemotionKey(actorId, role, token), SELF_DEMOTION_TOKEN_TTL_MS)
+    return token
+}
+
+async function consumeSelfDemotionToken(actorId: string, role: UserRoleType, token: string): Promise<boolean> {
+    const store = getSecurityStore()
+    const key = selfDemotionKey(actorId, role, token)
+
+    if (!(await store.getCounter(key))) {
+        return false
+    }
+
+    await store.deleteCounter(key)
+    return true
+}
+
+/**
+ * Ensure a user can be suspended or deleted without breaking admin invariants
+ * Admins must be demoted first, so the last-admin check happens on the role change
+ */
+export async function assertCanDeactivateUser(userId: string): Promise<void> {
+    const supabase = createServiceRoleClient()
+
+    if ((await getCurrentRoleOf(supabase, userId)) === 'admin') {
+        throw new ConflictError('Admins cannot be suspended or deleted; change their role first', 'inactive_admin')
+    }
+}
+
+/**
+ * Update user role on behalf of actor (the caller the route guard resolved)
+ * Only callers with the roles.assign permission can call this, and only to
+ * move users between roles whose permissions the caller holds; only admins
+ * grant admin. Refuses to leave fewer than MIN_ADMIN_COUNT active admins, to make a suspended or
+ * deleted user an admin, or to let an admin demote themselves without a
+ * confirmation token from a previous attempt. With expiresAt the grant is
+ * time-boxed and reverts to the user's last permanent role. Returns the role
+ * the user had before
  */
 export async function updateUserRole(
     userId: string,
-    role: UserRoleType
-): Promise<void> {
-    await requireAdmin()
+    role: UserRoleType,
+    { actor, confirmationToken, expiresAt }: { actor: AdminActor; confirmationToken?: string; expiresAt?: string | null }
+): Promise<UserRoleType> {
+    if (!actor.permissions.includes(PERMISSIONS.ROLES_ASSIGN)) {
+        throw new ForbiddenError(`Missing permission: ${PERMISSIONS.ROLES_ASSIGN}`)
+    }
 
-    const supabase = await createClient()
+    // user_roles RLS only knows about the built-in admin role, so write
+    // with the service role once the permission check has passed
+    const supabase = createServiceRoleClient()
+
+    const currentRole = await getCurrentRoleOf(supabase, userId)
+    const isActive = (await getProfileStatus(supabase, userId)) === 'active'
+
+    if (role === 'admin' && actor.role !== 'admin') {
+        throw new ForbiddenError('Only admins can grant the admin role')
+    }
+    assertCanGrant(await resolveRolePermissions(role), actor, `The ${role} role grants permissions you don't have`)
+    // Nor take a role away from someone who outranks the caller
+    assertCanGrant(await resolveRolePermissions(currentRole), actor, `This user's ${currentRole} role grants permissions you don't have`)
+
+    if (role === 'admin' && currentRole !== 'admin' && !isActive) {
+        throw new ConflictError('Suspended or deleted users cannot be made admin', 'inactive_admin')
+    }
+
+    if (currentRole === 'admin' && role !== 'admin') {
+        // Inactive admins (left over from before this check) don't count towards the minimum
+        if (isActive) {
+            await assertAdminsRemain(supabase, 'Cannot demote this admin')
+        }
+
+        if (userId === actor.id) {
+            const confirmed = confirmationToken
+                ? await consumeSelfDemotionToken(actor.id, role, confirmationToken)
+                : false
+
+            if (!confirmed) {
+                throw new ConflictError(
+                    'You are about to remove your own admin access. Confirm to continue.',
+                    'self_demotion_unconfirmed',
+                    { confirmation_token: await issueSelfDemotionToken(actor.id, role) }
+                )
+            }
+        }
+    }
 
     // Check if role exists
     const { data: existing } = await supabase
         .from('user_roles')
-        .select('id')
+        .select('id, role, expires_at, previous_role')
         .eq('user_id', userId)
         .single()
 
+    // Stacked temporary grants all revert to the last permanent role
+    const previousRole = expiresAt
+        ? (existing?.expires_at ? existing.previous_role : existing?.role) || 'user'
+        : null
+
+    const grant = {
+        role,
+        expires_at: expiresAt || null,
+        previous_role: previousRole,
+        expiry_held_at: null,
+    }
+
     if (existing) {
         // Update existing role
         const { error } = await supabase
             .from('user_roles')
-            .update({ role })
+            .update(grant)
             .eq('user_id', userId)
 
         if (error) {
@@ -190,10 +407,162 @@ export async function updateUserRole(
         // Insert new role
         const { error } = await supabase
             .from('user_roles')
-            .insert({ user_id: userId, role })
+            .insert({ user_id: userId, ...grant })
 
         if (error) {
             throw new Error(`Failed to create user role: ${error.message}`)
         }
     }
+
+    await recordRoleHistory(supabase, {
+        user_id: userId,
+        event: 'granted',
+        role,
+        previous_role: currentRole,
+        expires_at: expiresAt || null,
+        changed_by: actor.id,
+        changed_by_email: actor.email,
+    })
+
+    return currentRole
+}
+
+// ============================================================================
+// ROLE GRANT EXPIRY
+// ============================================================================
+
+async function recordRoleHistory(
+    supabase: ServiceRoleClient,
+    entry: Omit<UserRoleHistoryEntry, 'id' | 'created_at'>
+): Promise<void> {
+    const { error } = await supabase.from('user_role_history').insert(entry)
+
+    if (error) {
+        // History is secondary to the role change itself
+        logger.error('Failed to record role history', { error })
+    }
+}
+
+/**
+ * Record, once per grant, that an expired grant is being kept
+ */
+async function markExpiryHeld(
+    supabase: ServiceRoleClient,
+    grant: { id: string; user_id: string; role: UserRoleType; expires_at: string },
+    request?: Request
+): Promise<void> {
+    // Match on expires_at too so a grant renewed mid-sweep is left alone
+    const { data: marked, error } = await supabase
+        .from('user_roles')
+        .update({ expiry_held_at: new Date().toISOString() })
+        .eq('id', grant.id)
+        .eq('expires_at', grant.expires_at)
+        .is('expiry_held_at', null)
+        .select('id')
+
+    if (error) {
+        logger.error('Failed to mark role expiry as held', { user_id: grant.user_id, error })
+        return
+    }
+    if (!marked || marked.length === 0) {
+        return
+    }
+
+    await logAuditEvent({
+        action: AUDIT_ACTIONS.ROLE_EXPIRY_HELD,
+        resourceType: 'user',
+        resourceId: grant.user_id,
+        details: {
+            role: grant.role,
+            expires_at: grant.expires_at,
+            min_admin_count: MIN_ADMIN_COUNT,
+        },
+        request,
+    })
+}
+
+export interface RoleExpirySweepResult {
+    expired: number
+    skipped: number   // Left in place because reverting would break the admin minimum
+    held: { user_id: string; role: UserRoleType; expires_at: string }[]  // The skipped grants
+}
+
+/**
+ * Revert every time-boxed role grant whose expiry has passed
+ * Runs without a user session (cron), so it acts as the system. A grant
+ * held back by the admin minimum is marked expiry_held_at and audited as
+ * role.expiry_held the first time it is skipped; later sweeps retry it
+ */
+export async function sweepExpiredRoleGrants(request?: Request): Promise<RoleExpirySweepResult> {
+    const supabase = createServiceRoleClient()
+    const result: RoleExpirySweepResult = { expired: 0, skipped: 0, held: [] }
+
+    const { data: grants, error } = await supabase
+        .from('user_roles')
+        .select('id, user_id, role, expires_at, previous_role, expiry_held_at')
+        .not('expires_at', 'is', null)
+        .lte('expires_at', new Date().toISOString())
+
+    if (error) {
+        throw new Error(`Failed to fetch expired role grants: ${error.message}`)
+    }
+
+    for (const grant of grants || []) {
+        const restoredRole: UserRoleType = grant.previous_role || 'user'
+
+        if (grant.role === 'admin' && restoredRole !== 'admin') {
+            const remaining = (await countActiveAdmins(supabase)) - 1
+            if (remaining < MIN_ADMIN_COUNT) {
+                logger.warn('Role expiry skipped: it would leave too few admins', { user_id: grant.user_id, min_admin_count: MIN_ADMIN_COUNT })
+                result.skipped++
+                result.held.push({ user_id: grant.user_id, role: grant.role, expires_at: grant.expires_at })
+
+                if (!grant.expiry_held_at) {
+                    await markExpiryHeld(supabase, grant, request)
+                }
+                continue
+            }
+        }
+
+        // Match on expires_at too so a grant renewed mid-sweep is left alone
+        const { data: reverted, error: revertError } = await supabase
+            .from('user_roles')
+            .update({ role: restoredRole, expires_at: null, previous_role: null, expiry_held_at: null })
+            .eq('id', grant.id)
+            .eq('expires_at', grant.expires_at)
+            .select('id')
+
+        if (revertError) {
+            logger.error('Failed to revert expired role grant', { user_id: grant.user_id, error: revertError })
+            continue
+        }
+        if (!reverted || reverted.length === 0) {
+            continue
+        }
+
+        result.expired++
+
+        await recordRoleHistory(supabase, {
+            user_id: grant.user_id,
+            event: 'expired',
+            role: restoredRole,
+            previous_role: grant.role,
+            expires_at: grant.expires_at,
+            changed_by: null,
+            changed_by_email: null,
+        })
+
+        await logAuditEvent({
+            action: AUDIT_ACTIONS.ROLE_EXPIRED,
+            resourceType: 'user',
+            resourceId: grant.user_id,
+            details: {
+                expires_at: grant.expires_at,
+                changes: auditChange({ role: grant.role }, { role: restoredRole }),
+            },
+            request,
+        })
+    }
+
+    return result
 }
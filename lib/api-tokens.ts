@@ -0,0 +1,218 @@
+/**
+ * Admin API Tokens
+ * Personal tokens that let scripts call the admin API without a browser
+ * session, sent as "Authorization: Bearer adm_...". Only a SHA-256 hash is
+ * stored. A token acts as its owner with the owner's current permissions
+ * narrowed to the token's scopes, so demoting the owner weakens their tokens too
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import { NextRequest } from 'next/server'
+import { AdminActor } from '@/lib/admin'
+import { logAuditEvent, tagApiTokenRequest, AUDIT_ACTIONS } from '@/lib/audit'
+import { ValidationError } from '@/lib/errors'
+import { logger } from '@/lib/logger'
+import { resolveRolePermissions } from '@/lib/roles'
+import { getClientIp } from '@/lib/security'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { ApiToken, Permission, UserRoleType } from '@/types'
+
+type Actor = { id: string; email?: string | null; permissions: Permission[] }
+
+const TOKEN_PREFIX = 'adm_'
+const TOKEN_COLUMNS = 'id, name, token_prefix, scopes, expires_at, last_used_at, last_used_ip, revoked_at, created_at'
+
+function hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Pull an admin API token out of the Authorization header, if there is one
+ */
+export function getBearerToken(request: Request): string | null {
+    const header = request.headers.get('authorization')
+    if (!header?.startsWith('Bearer ')) {
+        return null
+    }
+    return header.slice('Bearer '.length).trim() || null
+}
+
+/**
+ * The actor's tokens, newest first (revoked and expired ones included)
+ */
+export async function listApiTokens(userId: string): Promise<ApiToken[]> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data, error } = await supabaseAdmin
+        .from('admin_api_tokens')
+        .select(TOKEN_COLUMNS)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+
+    if (error) {
+        throw new Error(`Failed to fetch API tokens: ${error.message}`)
+    }
+
+    return (data || []) as ApiToken[]
+}
+
+/**
+ * Create a token for the actor; the plaintext is returned only this once
+ * Scopes can't exceed what the actor's role grants. Writes api_token.created
+ */
+export async function createApiToken({
+    name,
+    scopes,
+    expiresInDays,
+    actor,
+    request,
+}: {
+    name: string
+    scopes: Permission[]
+    expiresInDays: number
+    actor: Actor
+    request?: Request
+}): Promise<{ token: ApiToken; plaintext: string }> {
+    const notHeld = scopes.filter(scope => !actor.permissions.includes(scope))
+    if (notHeld.length > 0) {
+        throw new ValidationError(`Your role doesn't grant these scopes: ${notHeld.join(', ')}`)
+    }
+
+    const plaintext = TOKEN_PREFIX + randomBytes(32).toString('base64url')
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data, error } = await supabaseAdmin
+        .from('admin_api_tokens')
+        .insert({
+            user_id: actor.id,
+            name,
+            token_prefix: plaintext.slice(0, TOKEN_PREFIX.length + 6),
+            token_hash: hashToken(plaintext),
+            scopes: Array.from(new Set(scopes)),
+            expires_at: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString(),
+        })
+        .select(TOKEN_COLUMNS)
+        .single()
+
+    if (error || !data) {
+        throw new Error(`Failed to create API token: ${error?.message || 'no row returned'}`)
+    }
+
+    const token = data as ApiToken
+
+    await logAuditEvent({
+        userId: actor.id,
+        userEmail: actor.email,
+        action: AUDIT_ACTIONS.API_TOKEN_CREATED,
+        resourceType: 'api_token',
+        resourceId: token.id,
+        details: { name, scopes: token.scopes, expires_at: token.expires_at },
+        request,
+    })
+
+    return { token, plaintext }
+}
+
+/**
+ * Revoke one of the actor's tokens
+ * Writes api_token.revoked; returns null if the actor has no such live token
+ */
+export async function revokeApiToken({
+    tokenId,
+    actor,
+    request,
+}: {
+    tokenId: string
+    actor: Actor
+    request?: Request
+}): Promise<ApiToken | null> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data, error } = await supabaseAdmin
+        .from('admin_api_tokens')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', tokenId)
+        .eq('user_id', actor.id)
+        .is('revoked_at', null)
+        .select(TOKEN_COLUMNS)
+        .maybeSingle()
+
+    if (error) {
+        throw new Error(`Failed to revoke API token: ${error.message}`)
+    }
+    if (!data) {
+        return null
+    }
+
+    const token = data as ApiToken
+
+    await logAuditEvent({
+        userId: actor.id,
+        userEmail: actor.email,
+        action: AUDIT_ACTIONS.API_TOKEN_REVOKED,
+        resourceType: 'api_token',
+        resourceId: token.id,
+        details: { name: token.name },
+        request,
+    })
+
+    return token
+}
+
+/**
+ * Resolve the actor behind a bearer token
+ * Returns null if the token is unknown, revoked or expired, or its owner is
+ * no longer active. Records last use and tags the request for the audit log
+ */
+export async function authenticateApiToken(plaintext: string, request: NextRequest): Promise<AdminActor | null> {
+    if (!plaintext.startsWith(TOKEN_PREFIX)) {
+        return null
+    }
+
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data: token, error } = await supabaseAdmin
+        .from('admin_api_tokens')
+        .select('id, user_id, scopes, expires_at, revoked_at')
+        .eq('token_hash', hashToken(plaintext))
+        .maybeSingle()
+
+    if (error) {
+        throw new Error(`Failed to look up API token: ${error.message}`)
+    }
+    if (!token || token.revoked_at || new Date(token.expires_at).getTime() <= Date.now()) {
+        return null
+    }
+
+    const [{ data: userData }, { data: roleRow }, { data: profile }] = await Promise.all([
+        supabaseAdmin.auth.admin.getUserById(token.user_id),
+        supabaseAdmin.from('user_roles').select('role').eq('user_id', token.user_id).maybeSingle(),
+        supabaseAdmin.from('profiles').select('status').eq('id', token.user_id).maybeSingle(),
+    ])
+
+    if (!userData?.user || (profile?.status && profile.status !== 'active')) {
+        return null
+    }
+
+    const role = (roleRow?.role as UserRoleType) || 'user'
+    const rolePermissions = await resolveRolePermissions(role)
+
+    const { error: touchError } = await supabaseAdmin
+        .from('admin_api_tokens')
+        .update({ last_used_at: new Date().toISOString(), last_used_ip: getClientIp(request) })
+        .eq('id', token.id)
+
+    if (touchError) {
+        logger.error('Failed to record API token use', { error: touchError })
+    }
+
+    tagApiTokenRequest(request, token.id)
+
+    return {
+        id: token.user_id,
+        email: userData.user.email || null,
+        role,
+        permissions: rolePermissions.filter(permission => (token.scopes as string[]).includes(permission)),
+        apiTokenId: token.id,
+    }
+}
@@ -0,0 +1,446 @@
+/**
+ * Audit Log Alert Rules
+ * A rule counts the entries matching one of its owner's saved views over a
+ * trailing window. /api/cron/audit-alerts evaluates every enabled rule; once
+ * the count reaches the threshold the owner gets an in-app notification
+ * and/or the rule's webhook is called, then the rule stays quiet for one
+ * window so a sustained burst raises one alert rather than one per run
+ *
+ * Webhooks get a JSON POST, signed as X-Audit-Alert-Signature:
+ * sha256=<HMAC of the body> when AUDIT_ALERT_WEBHOOK_SECRET is set
+ */
+
+import { createHmac } from 'crypto'
+import { logAuditEvent, getAuditLogs, AUDIT_ACTIONS } from '@/lib/audit'
+import { auditChange } from '@/lib/audit-details'
+import { auditViewToFilters, getAuditView } from '@/lib/audit-views'
+import { NotFoundError, ValidationError } from '@/lib/errors'
+import { logger } from '@/lib/logger'
+import { createNotification } from '@/lib/notifications'
+import { PERMISSIONS } from '@/lib/permissions'
+import { resolveRolePermissions } from '@/lib/roles'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { AuditAlertEvaluation, AuditAlertRule, AuditSavedView } from '@/types'
+
+type Actor = { id: string; email?: string | null }
+
+const RULE_COLUMNS = '*, view:audit_saved_views(id, name)'
+const WEBHOOK_TIMEOUT_MS = 5000
+
+// Only the host goes into the audit log: webhook paths often carry a secret
+function webhookHost(url: string | null | undefined): string | null {
+    return url ? new URL(url).host : null
+}
+
+/**
+ * The owner's rules, newest first, each with its view's name
+ */
+export async function listAuditAlerts(userId: string): Promise<AuditAlertRule[]> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data, error } = await supabaseAdmin
+        .from('audit_alert_rules')
+        .select(RULE_COLUMNS)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+
+    if (error) {
+        throw new Error(`Failed to fetch alert rules: ${error.message}`)
+    }
+
+    return (data || []) as AuditAlertRule[]
+}
+
+/**
+ * Create a rule on one of the actor's views
+ * Writes audit.alert_created
+ */
+export async function createAuditAlert({
+    name,
+    viewId,
+    threshold,
+    windowMinutes,
+    notifyInApp,
+    webhookUrl,
+    enabled,
+    actor,
+    request,
+}: {
+    name: string
+    viewId: string
+    threshold: number
+    windowMinutes: number
+    notifyInApp: boolean
+    webhookUrl?: string | null
+    enabled: boolean
+    actor: Actor
+    request?: Request
+}): Promise<AuditAlertRule> {
+    const view = await getAuditView(actor.id, viewId)
+    if (!view) {
+        throw new NotFoundError('Saved view not found')
+    }
+
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data, error } = await supabaseAdmin
+        .from('audit_alert_rules')
+        .insert({
+            user_id: actor.id,
+            view_id: view.id,
+            name,
+            threshold,
+            window_minutes: windowMinutes,
+            notify_in_app: notifyInApp,
+            webhook_url: webhookUrl || null,
+            enabled,
+        })
+        .select(RULE_COLUMNS)
+        .single()
+
+    if (error || !data) {
+        throw new Error(`Failed to create alert rule: ${error?.message || 'no row returned'}`)
+    }
+
+    const rule = data as AuditAlertRule
+
+    await logAuditEvent({
+        userId: actor.id,
+        userEmail: actor.email,
+        action: AUDIT_ACTIONS.AUDIT_ALERT_CREATED,
+        resourceType: 'audit_alert',
+        resourceId: rule.id,
+        details: {
+            name,
+            view_name: view.name,
+            threshold,
+            window_minutes: windowMinutes,
+            notify_in_app: notifyInApp,
+            webhook_host: webhookHost(rule.webhook_url),
+        },
+        request,
+    })
+
+    return rule
+}
+
+/**
+ * Change one of the actor's rules
+ * Writes audit.alert_updated; returns null if the actor has no such rule
+ */
+export async function updateAuditAlert({
+    ruleId,
+    name,
+    viewId,
+    threshold,
+    windowMinutes,
+    notifyInApp,
+    webhookUrl,
+    enabled,
+    actor,
+    request,
+}: {
+    ruleId: string
+    name?: string
+    viewId?: string
+    threshold?: number
+    windowMinutes?: number
+    notifyInApp?: boolean
+    webhookUrl?: string | null
+    enabled?: boolean
+    actor: Actor
+    request?: Request
+}): Promise<AuditAlertRule | null> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data: existing, error: fetchError } = await supabaseAdmin
+        .from('audit_alert_rules')
+        .select(RULE_COLUMNS)
+        .eq('id', ruleId)
+        .eq('user_id', actor.id)
+        .maybeSingle()
+
+    if (fetchError) {
+        throw new Error(`Failed to fetch alert rule: ${fetchError.message}`)
+    }
+    if (!existing) {
+        return null
+    }
+
+    const previous = existing as AuditAlertRule
+
+    let view: AuditSavedView | null = null
+    if (viewId !== undefined && viewId !== previous.view_id) {
+        view = await getAuditView(actor.id, viewId)
+        if (!view) {
+            throw new NotFoundError('Saved view not found')
+        }
+    }
+
+    const updates: Record<string, any> = { updated_at: new Date().toISOString() }
+    if (name !== undefined) updates.name = name
+    if (view) updates.view_id = view.id
+    if (threshold !== undefined) updates.threshold = threshold
+    if (windowMinutes !== undefined) updates.window_minutes = windowMinutes
+    if (notifyInApp !== undefined) updates.notify_in_app = notifyInApp
+    if (webhookUrl !== undefined) updates.webhook_url = webhookUrl || null
+    if (enabled !== undefined) updates.enabled = enabled
+
+    const { data, error } = await supabaseAdmin
+        .from('audit_alert_rules')
+        .update(updates)
+        .eq('id', ruleId)
+        .eq('user_id', actor.id)
+        .select(RULE_COLUMNS)
+        .single()
+
+    // The table's check: a rule has to notify somewhere
+    if (error?.code === '23514') {
+        throw new ValidationError('Pick in-app notifications, a webhook, or both')
+    }
+    if (error || !data) {
+        throw new Error(`Failed to update alert rule: ${error?.message || 'no row returned'}`)
+    }
+
+    const rule = data as AuditAlertRule
+
+    await logAuditEvent({
+        userId: actor.id,
+        userEmail: actor.email,
+        action: AUDIT_ACTIONS.AUDIT_ALERT_UPDATED,
+        resourceType: 'audit_alert',
+        resourceId: rule.id,
+        details: {
+            name: rule.name,
+            changes: auditChange(
+                {
+                    name: previous.name,
+                    view_name: previous.view?.name ?? '',
+                    threshold: previous.threshold,
+                    window_minutes: previous.window_minutes,
+                    notify_in_app: previous.notify_in_app,
+                    webhook_host: webhookHost(previous.webhook_url),
+                    enabled: previous.enabled,
+                },
+                {
+                    name: rule.name,
+                    view_name: rule.view?.name ?? '',
+                    threshold: rule.threshold,
+                    window_minutes: rule.window_minutes,
+                    notify_in_app: rule.notify_in_app,
+                    webhook_host: webhookHost(rule.webhook_url),
+                    enabled: rule.enabled,
+                }
+            ),
+        },
+        request,
+    })
+
+    return rule
+}
+
+/**
+ * Delete one of the actor's rules
+ * Writes audit.alert_deleted; returns null if the actor has no such rule
+ */
+export async function deleteAuditAlert({
+    ruleId,
+    actor,
+    request,
+}: {
+    ruleId: string
+    actor: Actor
+    request?: Request
+}): Promise<AuditAlertRule | null> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data, error } = await supabaseAdmin
+        .from('audit_alert_rules')
+        .delete()
+        .eq('id', ruleId)
+        .eq('user_id', actor.id)
+        .select('*')
+        .maybeSingle()
+
+    if (error) {
+        throw new Error(`Failed to delete alert rule: ${error.message}`)
+    }
+    if (!data) {
+        return null
+    }
+
+    const rule = data as AuditAlertRule
+
+    await logAuditEvent({
+        userId: actor.id,
+        userEmail: actor.email,
+        action: AUDIT_ACTIONS.AUDIT_ALERT_DELETED,
+        resourceType: 'audit_alert',
+        resourceId: rule.id,
+        details: { name: rule.name },
+        request,
+    })
+
+    return rule
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Whether the rule's owner is still an active user who may read the audit log
+ * Alerts would otherwise keep leaking entries to someone since demoted
+ */
+async function ownerCanReadAuditLog(userId: string): Promise<boolean> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const [{ data: roleRow }, { data: profile }] = await Promise.all([
+        supabaseAdmin.from('user_roles').select('role').eq('user_id', userId).maybeSingle(),
+        supabaseAdmin.from('profiles').select('status').eq('id', userId).maybeSingle(),
+    ])
+
+    if (profile?.status && profile.status !== 'active') {
+        return false
+    }
+
+    const permissions = await resolveRolePermissions(roleRow?.role || 'user')
+    return permissions.includes(PERMISSIONS.AUDIT_READ)
+}
+
+/**
+ * POST the alert to the rule's webhook
+ * Returns the response status, or null if the call never completed
+ */
+async function deliverWebhook(url: string, payload: Record<string, unknown>): Promise<number | null> {
+    const body = JSON.stringify(payload)
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+
+    const secret = process.env.AUDIT_ALERT_WEBHOOK_SECRET
+    if (secret) {
+        headers['X-Audit-Alert-Signature'] = `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`
+    }
+
+    try {
+        const response = await fetch(url, {
+            method: 'POST',
+            headers,
+            body,
+            redirect: 'manual',
+            signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+        })
+        return response.status
+    } catch (error) {
+        logger.warn('Audit alert webhook failed', { host: webhookHost(url), error })
+        return null
+    }
+}
+
+/**
+ * Count every enabled rule's matches and fire the rules over threshold
+ * Runs without a user session (cron), so it acts as the system
+ */
+export async function evaluateAuditAlerts(request?: Request): Promise<AuditAlertEvaluation> {
+    const supabaseAdmin = createServiceRoleClient()
+    const result: AuditAlertEvaluation = { evaluated: 0, fired: 0, skipped: 0, failed: 0 }
+
+    const { data: rules, error } = await supabaseAdmin
+        .from('audit_alert_rules')
+        .select('*, view:audit_saved_views(*)')
+        .eq('enabled', true)
+
+    if (error) {
+        throw new Error(`Failed to fetch alert rules: ${error.message}`)
+    }
+
+    for (const row of rules || []) {
+        const rule = row as AuditAlertRule & { view: AuditSavedView }
+        const log = logger.child({ rule_id: rule.id })
+
+        try {
+            if (!(await ownerCanReadAuditLog(rule.user_id))) {
+                result.skipped++
+                continue
+            }
+
+            const now = new Date()
+            const windowStart = new Date(now.getTime() - rule.window_minutes * 60 * 1000)
+
+            const { count } = await getAuditLogs(auditViewToFilters(rule.view, {
+                startDate: windowStart.toISOString(),
+                endDate: now.toISOString(),
+                limit: 1,
+            }))
+
+            result.evaluated++
+
+            // Quiet for one window after firing
+            const cooling = rule.last_fired_at && new Date(rule.last_fired_at) > windowStart
+            const fire = count >= rule.threshold && !cooling
+
+            const { error: updateError } = await supabaseAdmin
+                .from('audit_alert_rules')
+                .update({
+                    last_evaluated_at: now.toISOString(),
+                    last_count: count,
+                    ...(fire ? { last_fired_at: now.toISOString() } : {}),
+                })
+                .eq('id', rule.id)
+
+            if (updateError) {
+                throw new Error(`Failed to record alert evaluation: ${updateError.message}`)
+            }
+            if (!fire) {
+                continue
+            }
+
+            const title = `Audit alert: ${rule.name}`
+            const body = `${count} ${count === 1 ? 'entry' : 'entries'} matched "${rule.view.name}" in the last ${rule.window_minutes} minutes (threshold ${rule.threshold})`
+            const link = `/admin/audit-logs?view=${rule.view.id}`
+
+            if (rule.notify_in_app) {
+                await createNotification({ userId: rule.user_id, kind: 'audit_alert', title, body, link, ruleId: rule.id })
+            }
+
+            let webhookStatus: number | null = null
+            if (rule.webhook_url) {
+                webhookStatus = await deliverWebhook(rule.webhook_url, {
+                    rule: { id: rule.id, name: rule.name, threshold: rule.threshold, window_minutes: rule.window_minutes },
+                    view: { id: rule.view.id, name: rule.view.name, filters: rule.view.filters },
+                    count,
+                    window_start: windowStart.toISOString(),
+                    window_end: now.toISOString(),
+                    message: body,
+                })
+            }
+
+            const delivered = webhookStatus !== null && webhookStatus >= 200 && webhookStatus < 300
+
+            result.fired++
+            log.info('Audit alert fired', { count, threshold: rule.threshold, webhook_status: webhookStatus })
+
+            await logAuditEvent({
+                action: AUDIT_ACTIONS.AUDIT_ALERT_FIRED,
+                resourceType: 'audit_alert',
+                resourceId: rule.id,
+                details: {
+                    name: rule.name,
+                    view_name: rule.view.name,
+                    count,
+                    threshold: rule.threshold,
+                    window_minutes: rule.window_minutes,
+                    notified_in_app: rule.notify_in_app,
+                    webhook: rule.webhook_url ? (delivered ? 'delivered' : 'failed') : 'none',
+                    webhook_status: webhookStatus,
+                },
+                request,
+            })
+        } catch (error) {
+            // One broken rule (say, a view that no longer parses) mustn't stop the rest
+            log.error('Failed to evaluate audit alert', { error })
+            result.failed++
+        }
+    }
+
+    return result
+}
@@ -0,0 +1,181 @@
+/**
+ * Audit Log Integrity
+ * audit_logs is hash-chained by a database trigger (see the audit_log_chain
+ * migration); verify_audit_chain() walks it and reports the first broken link.
+ * Because a database admin could rewrite the whole chain, the chain head is
+ * also exported periodically as an HMAC-signed checkpoint, one JSON line per
+ * checkpoint, to AUDIT_CHECKPOINT_FILE. Verification checks that every
+ * checkpoint still matches the entry it recorded, or that entry's tombstone
+ * once retention has purged it
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { appendFile, mkdir, readFile } from 'fs/promises'
+import path from 'path'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { AuditChainVerification, AuditCheckpoint, AuditCheckpointStatus } from '@/types'
+
+const CHECKPOINT_FILE = path.resolve(process.env.AUDIT_CHECKPOINT_FILE || 'audit-checkpoints.ndjson')
+
+// Checkpoints shown with a verification result, newest first
+const CHECKPOINTS_REPORTED = 50
+
+function checkpointSecret(): string {
+    const secret = process.env.AUDIT_CHECKPOINT_SECRET
+    if (!secret) {
+        throw new Error('Audit checkpoints are not configured: AUDIT_CHECKPOINT_SECRET is missing')
+    }
+    return secret
+}
+
+function signCheckpoint(checkpoint: Omit<AuditCheckpoint, 'signature'>, secret: string): string {
+    const payload = JSON.stringify([checkpoint.seq, checkpoint.hash, checkpoint.created_at])
+    return createHmac('sha256', secret).update(payload).digest('hex')
+}
+
+function hasValidSignature(checkpoint: AuditCheckpoint, secret: string): boolean {
+    const expected = Buffer.from(signCheckpoint(checkpoint, secret))
+    const provided = Buffer.from(String(checkpoint.signature))
+    return expected.length === provided.length && timingSafeEqual(expected, provided)
+}
+
+/**
+ * Every checkpoint in the file, oldest first (none if it doesn't exist yet)
+ */
+async function readCheckpoints(): Promise<AuditCheckpoint[]> {
+    let contents: string
+    try {
+        contents = await readFile(CHECKPOINT_FILE, 'utf8')
+    } catch (error: any) {
+        if (error?.code === 'ENOENT') {
+            return []
+        }
+        throw error
+    }
+
+    return contents
+        .split('\n')
+        .filter(line => line.trim())
+        .map(line => {
+            try {
+                return JSON.parse(line) as AuditCheckpoint
+            } catch {
+                // A mangled line can't be trusted; report it as unsigned
+                return { seq: 0, hash: '', created_at: '', signature: '' }
+            }
+        })
+}
+
+/**
+ * Sign the current chain head and append it to the checkpoint file
+ * Returns null while the log is still empty
+ */
+export async function writeAuditCheckpoint(): Promise<AuditCheckpoint | null> {
+    const secret = checkpointSecret()
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data: head, error } = await supabaseAdmin
+        .from('audit_chain_head')
+        .select('seq, hash')
+        .maybeSingle()
+
+    if (error) {
+        throw new Error(`Failed to read audit chain head: ${error.message}`)
+    }
+    if (!head) {
+        return null
+    }
+
+    const unsigned = { seq: Number(head.seq), hash: head.hash as string, created_at: new Date().toISOString() }
+    const checkpoint: AuditCheckpoint = { ...unsigned, signature: signCheckpoint(unsigned, secret) }
+
+    await mkdir(path.dirname(CHECKPOINT_FILE), { recursive: true })
+    await appendFile(CHECKPOINT_FILE, JSON.stringify(checkpoint) + '\n', 'utf8')
+
+    return checkpoint
+}
+
+/**
+ * Walk the audit chain and check it against the exported checkpoints
+ */
+export async function verifyAuditChain(): Promise<AuditChainVerification> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data, error } = await supabaseAdmin.rpc('verify_audit_chain').single()
+    if (error || !data) {
+        throw new Error(`Failed to verify audit chain: ${error?.message || 'no result'}`)
+    }
+
+    const result = data as {
+        checked: number
+        first_seq: number | null
+        last_seq: number | null
+        broken_seq: number | null
+        broken_id: string | null
+        reason: string | null
+    }
+
+    // Without a secret there is nothing to check checkpoints against
+    const secret = process.env.AUDIT_CHECKPOINT_SECRET
+    const checkpoints = secret ? await readCheckpoints() : []
+
+    // Look up the entries the checkpoints point at, in the log or purged
+    const firstSeq = result.first_seq === null ? null : Number(result.first_seq)
+    const retainedSeqs = checkpoints
+        .map(checkpoint => checkpoint.seq)
+        .filter(seq => firstSeq !== null && seq >= firstSeq)
+    const hashesBySeq = new Map<number, string | null>()
+    const purgedSeqs = new Set<number>()
+
+    for (const table of ['audit_logs', 'audit_log_tombstones']) {
+        for (let i = 0; i < retainedSeqs.length; i += 500) {
+            const { data: rows, error: rowsError } = await supabaseAdmin
+                .from(table)
+                .select('chain_seq, hash')
+                .in('chain_seq', retainedSeqs.slice(i, i + 500))
+
+            if (rowsError) {
+                throw new Error(`Failed to look up checkpointed entries: ${rowsError.message}`)
+            }
+            for (const row of rows || []) {
+                hashesBySeq.set(Number(row.chain_seq), row.hash)
+                if (table === 'audit_log_tombstones') {
+                    purgedSeqs.add(Number(row.chain_seq))
+                }
+            }
+        }
+    }
+
+    const checked = checkpoints.map(checkpoint => {
+        let status: AuditCheckpointStatus
+        if (!secret || !hasValidSignature(checkpoint, secret)) {
+            status = 'bad_signature'
+        } else if (firstSeq === null || checkpoint.seq < firstSeq) {
+            status = 'pruned'
+        } else if (hashesBySeq.get(checkpoint.seq) !== checkpoint.hash) {
+            status = 'mismatch'
+        } else {
+            status = purgedSeqs.has(checkpoint.seq) ? 'pruned' : 'ok'
+        }
+        return { ...checkpoint, status }
+    })
+
+    const broken = result.reason
+        ? {
+            seq: result.broken_seq === null ? null : Number(result.broken_seq),
+            id: result.broken_id,
+            reason: result.reason,
+        }
+        : null
+
+    return {
+        valid: !broken && checked.every(checkpoint => checkpoint.status === 'ok' || checkpoint.status === 'pruned'),
+        checked: Number(result.checked),
+        first_seq: firstSeq,
+        last_seq: result.last_seq === null ? null : Number(result.last_seq),
+        broken,
+        checkpoints_enabled: !!secret,
+        checkpoints: checked.slice(-CHECKPOINTS_REPORTED).reverse(),
+        verified_at: new Date().toISOString(),
+    }
+}
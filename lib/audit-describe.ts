@@ -0,0 +1,127 @@
+/**
+ * Audit Log Descriptions
+ * One-line, human readable summaries of audit entries, shared by the
+ * dashboard's recent activity and the audit log page. Reads details through
+ * the schemas in lib/audit-details; safe to import from client components
+ */
+
+import { AuditDetails, readAuditDetails } from '@/lib/audit-details'
+import { AuditAction, AuditLog } from '@/types'
+
+/**
+ * 'role.permissions_changed' -> 'Role Permissions Changed'
+ * Groups read as a phrase: 'role.*' -> 'All role actions'
+ */
+export function formatActionLabel(action: string) {
+    if (action.endsWith('.*')) return `All ${action.slice(0, -2).replace(/_/g, ' ')} actions`
+    return action.replace('.', ' ').replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase())
+}
+
+function plural(count: number, one: string, many: string) {
+    return `${count} ${count === 1 ? one : many}`
+}
+
+type Describer<A extends AuditAction> = (details: Partial<AuditDetails<A>>) => string
+
+const DESCRIBERS: { [A in AuditAction]?: Describer<A> } = {
+    'user.login': () => 'User logged in',
+    'user.logout': () => 'User logged out',
+    'user.signup': () => 'User signed up',
+    'user.password_reset': () => 'User reset password',
+    'user.login_failed': (d) => `Failed login${d.attempts !== undefined ? ` (attempt ${d.attempts})` : ''}`,
+    'user.locked': (d) => `${d.email || 'Account'} locked after failed logins`,
+    'user.unlocked': (d) => `Unlocked ${d.email || 'an account'}`,
+    'user.reauthenticated': (d) => `Re-authenticated with ${d.method === 'totp' ? 'authenticator code' : 'password'}`,
+    'user.reauth_failed': (d) => `Failed re-authentication with ${d.method === 'totp' ? 'authenticator code' : 'password'}`,
+    'user.session_revoked': () => 'Revoked a sign-in session',
+    'user.sessions_revoked': (d) => {
+        const sessions = plural(d.revoked ?? 0, 'session', 'sessions')
+        if (d.reason === 'suspended') return `Signed out of ${sessions} on suspension`
+        if (d.reason === 'deleted') return `Signed out of ${sessions} on deletion`
+        return `Signed out of ${sessions} everywhere`
+    },
+    'user.suspended': (d) => `Suspended ${d.target_user_email || 'a user'}`,
+    'user.deleted': (d) => `Deleted ${d.target_user_email || 'a user'}`,
+    'user.restored': (d) => `Restored ${d.target_user_email || 'a user'}`,
+
+    'session.created': (d) => {
+        const agentType = d.agent_type ? d.agent_type.replace(/_/g, ' ') : 'agent session'
+        return d.session_name ? `Created session "${d.session_name}" (${agentType})` : `Created ${agentType} session`
+    },
+    'session.updated': () => 'Updated session',
+    'session.deleted': () => 'Deleted session',
+    'session.restored': () => 'Restored session',
+
+    'role.updated': (d) => {
+        const target = d.target_user_email || 'a user'
+        const role = d.changes?.after.role
+        const expiresAt = d.changes?.after.expires_at
+        const until = expiresAt ? ` until ${new Date(expiresAt).toLocaleString()}` : ''
+        return role ? `Changed ${target} role to ${role}${until}` : `Changed ${target} role`
+    },
+    'role.expired': (d) =>
+        `Temporary ${d.changes?.before.role || 'role'} grant expired; reverted to ${d.changes?.after.role || 'user'}`,
+    'role.expiry_held': (d) =>
+        `Temporary ${d.role || 'role'} grant expired but was kept: reverting would leave fewer than ${d.min_admin_count ?? 'the minimum'} admins`,
+    'role.created': (d) => `Created role ${d.name || 'a role'}`,
+    'role.permissions_changed': (d) => `Changed permissions of role ${d.name || 'a role'}`,
+    'role.deleted': (d) => `Deleted role ${d.name || 'a role'}`,
+    'subscription.revoked': (d) => `Revoked the premium subscription of ${d.target_user_email || 'a user'}`,
+    'request.approved': (d) => `Approved access request from ${d.email || 'an account'}`,
+    'request.rejected': (d) => `Rejected access request from ${d.email || 'an account'}`,
+
+    'audit.cleared': (d) => `Cleared the audit log${d.deleted !== undefined ? ` (${d.deleted} entries)` : ''}`,
+    'audit.retention_changed': () => 'Changed audit log retention policies',
+    'audit.exported': (d) => {
+        const format = d.format ? d.format.toUpperCase() : 'a file'
+        const partial = d.completed === false ? ' (interrupted)' : ''
+        return `Exported ${plural(d.entries ?? 0, 'entry', 'entries')} as ${format}${partial}`
+    },
+    'audit.alert_created': (d) => `Created audit alert "${d.name || 'an alert'}"`,
+    'audit.alert_updated': (d) => {
+        const enabled = d.changes?.after.enabled
+        if (enabled === true) return `Enabled audit alert "${d.name || 'an alert'}"`
+        if (enabled === false) return `Disabled audit alert "${d.name || 'an alert'}"`
+        return `Changed audit alert "${d.name || 'an alert'}"`
+    },
+    'audit.alert_deleted': (d) => `Deleted audit alert "${d.name || 'an alert'}"`,
+    'audit.alert_fired': (d) =>
+        `Alert "${d.name || 'an alert'}" fired: ${plural(d.count ?? 0, 'match', 'matches')} in ${d.window_minutes ?? '?'} minutes`,
+    'audit.purged': (d) => `Archived and purged ${plural(d.purged ?? 0, 'expired entry', 'expired entries')}`,
+
+    'ip.blocked': (d) => `${d.source === 'auto' ? 'Auto-blocked' : 'Blocked'} ${d.ip || 'an IP'}`,
+    'ip.unblocked': (d) => `Unblocked ${d.ip || 'an IP'}`,
+
+    'approval.requested': (d) => `Requested approval: ${d.summary || 'an action'}`,
+    'approval.approved': (d) => `${d.outcome === 'failed' ? 'Approved (failed)' : 'Approved'}: ${d.summary || 'an action'}`,
+    'approval.rejected': (d) => `Rejected: ${d.summary || 'an action'}`,
+
+    'impersonation.started': (d) =>
+        `Started impersonating ${d.target_user_email || 'a user'}${d.reason ? ` — ${d.reason}` : ''}`,
+    'impersonation.ended': (d) => d.end_reason === 'expired'
+        ? `Impersonation of ${d.target_user_email || 'a user'} expired`
+        : `Stopped impersonating ${d.target_user_email || 'a user'}`,
+
+    'mfa.enrolled': () => 'Enrolled an authenticator app',
+    'mfa.verified': () => 'Verified with authenticator app',
+    'mfa.failed': () => 'Entered a wrong authenticator code',
+    'mfa.reset': (d) => `Reset two-factor authentication for ${d.target_user_email || 'a user'}`,
+
+    'api_token.created': (d) => `Created API token ${d.name ? `"${d.name}"` : 'an API token'}`,
+    'api_token.revoked': (d) => `Revoked API token ${d.name ? `"${d.name}"` : 'an API token'}`,
+    'api_token.used': (d) => {
+        const call = d.method && d.path ? `${d.method} ${d.path}` : 'the admin API'
+        return d.status !== undefined ? `API token called ${call} (${d.status})` : `API token called ${call}`
+    },
+}
+
+/**
+ * Summarise an entry in a sentence
+ * Falls back to the action label when the details don't fit the schema
+ */
+export function describeAuditLog(log: AuditLog): string {
+    const describe = DESCRIBERS[log.action] as Describer<AuditAction> | undefined
+    const details = readAuditDetails(log)
+
+    return describe && details ? describe(details) : formatActionLabel(log.action)
+}
@@ -0,0 +1,29 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { AUDIT_ACTIONS } from './audit'
+import { AUDIT_DETAIL_SCHEMAS, auditChange, checkAuditDetails } from './audit-details'
+
+describe('audit detail schemas', () => {
+    it('cover every audit action', () => {
+        const missing = Object.values(AUDIT_ACTIONS).filter(action => !(action in AUDIT_DETAIL_SCHEMAS))
+        assert.deepEqual(missing, [])
+    })
+
+    it('report details that do not match', () => {
+        assert.equal(checkAuditDetails(AUDIT_ACTIONS.USER_LOGOUT, { email: 'a@example.com', source: 'admin_panel' }), null)
+        assert.match(checkAuditDetails(AUDIT_ACTIONS.USER_LOGOUT, { email: 'a@example.com' }) || '', /source/)
+        assert.match(
+            checkAuditDetails(AUDIT_ACTIONS.USER_LOGOUT, { email: 'a@example.com', source: 'admin_panel', extra: 1 }) || '',
+            /extra/
+        )
+    })
+})
+
+describe('auditChange', () => {
+    it('keeps only the fields that differ', () => {
+        assert.deepEqual(
+            auditChange({ role: 'mod', expires_at: null }, { role: 'admin', expires_at: null }),
+            { before: { role: 'mod' }, after: { role: 'admin' } }
+        )
+    })
+})
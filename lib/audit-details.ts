@@ -0,0 +1,347 @@
+/**
+ * Audit Detail Schemas
+ * The shape of AuditLog.details for every AuditAction. logAuditEvent checks
+ * new events against these and logs any mismatch (advisory: the entry is
+ * still written); readers parse with readAuditDetails() instead of
+ * poking at untyped keys. Changes to a record are stored in one standard
+ * shape, details.changes = { before, after }, holding only the fields that
+ * differ. Safe to import from client components
+ */
+
+import { z } from 'zod'
+import { AuditAction, AuditChange, AuditLog } from '@/types'
+
+// ============================================================================
+// BUILDING BLOCKS
+// ============================================================================
+
+// Added to any event: by the route guard when a parked action is replayed
+// after approval, and by logAuditEvent for API token calls
+const COMMON_FIELDS = {
+    approval_id: z.string().optional(),
+    requested_by_email: z.string().nullable().optional(),
+    api_token_id: z.string().optional(),
+}
+
+function details<T extends z.ZodRawShape>(shape: T) {
+    return z.object({ ...COMMON_FIELDS, ...shape }).strict()
+}
+
+// Written by the user-facing app rather than this one; only known fields are typed
+function externalDetails<T extends z.ZodRawShape>(shape: T) {
+    return z.object({ ...COMMON_FIELDS, ...shape }).loose()
+}
+
+// { before, after } for the given fields, either side holding only what changed
+function changes<T extends z.ZodRawShape>(shape: T) {
+    const side = z.object(shape).partial().strict()
+    return z.object({ before: side, after: side }).strict()
+}
+
+const email = z.string().nullable().optional()
+const timestamp = z.string()
+
+const statusChange = changes({ status: z.string() })
+
+const userStatusDetails = details({
+    target_user_email: email,
+    changes: statusChange,
+})
+
+const accountRequestDetails = details({
+    email: z.string(),
+    name: z.string().nullable(),
+    changes: statusChange,
+    onboarding: z.enum(['invite', 'password_reset']).optional(),
+    target_user_id: z.string().nullable().optional(),
+})
+
+const lockoutDetails = details({
+    email: z.string(),
+    failed_attempts: z.number(),
+    locked_until: timestamp,
+})
+
+const mfaFactorDetails = details({
+    factor_id: z.string(),
+    friendly_name: z.string().nullable(),
+})
+
+const stepUpDetails = details({
+    method: z.enum(['password', 'totp']),
+})
+
+const sessionDetails = externalDetails({
+    session_name: z.string().optional(),
+    agent_type: z.string().optional(),
+})
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+export const AUDIT_DETAIL_SCHEMAS = {
+    'user.login': details({
+        email,
+        source: z.enum(['admin_panel', 'admin_oauth']),
+        provider: z.string().optional(),
+    }),
+    'user.logout': details({ email, source: z.literal('admin_panel') }),
+    'user.signup': details({ email, name: z.string().optional() }),
+    'user.password_reset': externalDetails({ email }),
+    'user.login_failed': details({
+        email: z.string(),
+        source: z.literal('admin_panel'),
+        reason: z.string(),
+        attempts: z.number(),
+        account_locked: z.boolean(),
+        ip_blocked: z.boolean(),
+    }),
+    'user.locked': lockoutDetails,
+    'user.unlocked': lockoutDetails,
+    'user.reauthenticated': stepUpDetails,
+    'user.reauth_failed': stepUpDetails,
+    'user.session_revoked': details({ session_id: z.string() }),
+    'user.sessions_revoked': details({ revoked: z.number(), reason: z.string() }),
+    'user.suspended': userStatusDetails,
+    'user.deleted': userStatusDetails,
+    'user.restored': userStatusDetails,
+
+    'session.created': sessionDetails,
+    'session.updated': sessionDetails,
+    'session.deleted': sessionDetails,
+    'session.restored': sessionDetails,
+
+    'role.updated': details({
+        target_user_email: email,
+        changes: changes({ role: z.string(), expires_at: timestamp.nullable() }),
+    }),
+    'role.expired': details({
+        expires_at: timestamp.nullable(),
+        changes: changes({ role: z.string() }),
+    }),
+    'role.expiry_held': details({
+        role: z.string(),
+        expires_at: timestamp,
+        min_admin_count: z.number(),
+    }),
+    'role.created': details({ name: z.string(), permissions: z.array(z.string()) }),
+    'role.permissions_changed': details({
+        name: z.string(),
+        changes: changes({ description: z.string().nullable(), permissions: z.array(z.string()) }),
+    }),
+    'role.deleted': details({ name: z.string(), permissions: z.array(z.string()) }),
+    'subscription.revoked': details({
+        target_user_email: email,
+        changes: changes({ account_type: z.string() }),
+    }),
+    'request.approved': accountRequestDetails,
+    'request.rejected': accountRequestDetails,
+
+    'audit.cleared': details({ deleted: z.number() }),
+    'audit.retention_changed': details({
+        // Days kept per pattern; null keeps forever, a missing pattern was added or removed
+        changes: z.object({
+            before: z.record(z.string(), z.number().nullable()),
+            after: z.record(z.string(), z.number().nullable()),
+        }).strict(),
+    }),
+    'audit.purged': details({ purged: z.number(), archives: z.array(z.string()) }),
+    'audit.exported': details({
+        format: z.enum(['csv', 'ndjson', 'cef']),
+        start_date: timestamp.nullable(),
+        end_date: timestamp,
+        filters: z.record(z.string(), z.unknown()),
+        entries: z.number(),
+        completed: z.boolean(),
+    }),
+
+    'audit.alert_created': details({
+        name: z.string(),
+        view_name: z.string(),
+        threshold: z.number(),
+        window_minutes: z.number(),
+        notify_in_app: z.boolean(),
+        // Host only: webhook paths often carry a secret
+        webhook_host: z.string().nullable(),
+    }),
+    'audit.alert_updated': details({
+        name: z.string(),
+        changes: changes({
+            name: z.string(),
+            view_name: z.string(),
+            threshold: z.number(),
+            window_minutes: z.number(),
+            notify_in_app: z.boolean(),
+            webhook_host: z.string().nullable(),
+            enabled: z.boolean(),
+        }),
+    }),
+    'audit.alert_deleted': details({ name: z.string() }),
+    'audit.alert_fired': details({
+        name: z.string(),
+        view_name: z.string(),
+        count: z.number(),
+        threshold: z.number(),
+        window_minutes: z.number(),
+        notified_in_app: z.boolean(),
+        webhook: z.enum(['none', 'delivered', 'failed']),
+        webhook_status: z.number().nullable().optional(),
+    }),
+
+    'ip.blocked': details({
+        ip: z.string(),
+        reason: z.string().nullable(),
+        source: z.enum(['manual', 'auto']),
+        expires_at: timestamp.nullable(),
+    }),
+    'ip.unblocked': details({
+        ip: z.string(),
+        reason: z.string().nullable(),
+        source: z.enum(['manual', 'auto']),
+    }),
+
+    'approval.requested': details({ action_type: z.string(), summary: z.string() }),
+    'approval.approved': details({
+        action_type: z.string(),
+        summary: z.string(),
+        requested_by: z.string(),
+        requested_by_email: z.string().nullable(),
+        outcome: z.enum(['executed', 'failed']),
+        result: z.unknown(),
+    }),
+    'approval.rejected': details({
+        action_type: z.string(),
+        summary: z.string(),
+        requested_by: z.string(),
+        requested_by_email: z.string().nullable(),
+        note: z.string().nullable(),
+    }),
+
+    'impersonation.started': details({
+        session_id: z.string(),
+        target_user_email: email,
+        reason: z.string(),
+        expires_at: timestamp,
+    }),
+    'impersonation.ended': details({
+        session_id: z.string(),
+        target_user_email: email,
+        reason: z.string(),
+        end_reason: z.enum(['ended', 'expired', 'replaced']),
+        duration_seconds: z.number(),
+    }),
+
+    'mfa.enrolled': mfaFactorDetails,
+    'mfa.verified': mfaFactorDetails,
+    'mfa.failed': mfaFactorDetails,
+    'mfa.reset': details({ target_user_email: email, removed: z.number() }),
+
+    'api_token.created': details({
+        name: z.string(),
+        scopes: z.array(z.string()),
+        expires_at: timestamp,
+    }),
+    'api_token.revoked': details({ name: z.string() }),
+    'api_token.used': details({ method: z.string(), path: z.string(), status: z.number() }),
+} satisfies Record<AuditAction, z.ZodObject>
+
+export type AuditDetails<A extends AuditAction> = z.infer<(typeof AUDIT_DETAIL_SCHEMAS)[A]>
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function sameValue(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+}
+
+/**
+ * Build details.changes from a record's fields before and after an update,
+ * keeping only the fields whose value changed
+ */
+export function auditChange<B extends Record<string, unknown>, A extends Record<string, unknown>>(
+    before: B,
+    after: A
+): AuditChange<B & A> {
+    const change: AuditChange = { before: {}, after: {} }
+
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+        if (sameValue(before[key], after[key])) continue
+        if (key in before) change.before[key] = before[key]
+        if (key in after) change.after[key] = after[key]
+    }
+
+    return change as AuditChange<B & A>
+}
+
+/**
+ * Check details against the action's schema
+ * Returns a readable list of problems, or null when they match
+ */
+export function checkAuditDetails(action: AuditAction, value: Record<string, unknown> | undefined): string | null {
+    const schema = AUDIT_DETAIL_SCHEMAS[action]
+    if (!schema) {
+        return `No detail schema for ${action}`
+    }
+
+    const result = schema.safeParse(value ?? {})
+    if (result.success) {
+        return null
+    }
+
+    return result.error.issues
+        .map(issue => `${issue.path.join('.') || 'details'}: ${issue.message}`)
+        .join(', ')
+}
+
+/**
+ * A log entry's details, typed for its action
+ * Lenient so older entries still read: every field is optional, unknown keys
+ * are dropped, and anything that doesn't fit comes back as null
+ */
+export function readAuditDetails<A extends AuditAction>(log: AuditLog & { action: A }): Partial<AuditDetails<A>> | null {
+    const schema = AUDIT_DETAIL_SCHEMAS[log.action] as z.ZodObject | undefined
+    if (!schema) {
+        return null
+    }
+
+    const result = z.object(schema.shape).partial().safeParse(log.details ?? {})
+    return result.success ? (result.data as Partial<AuditDetails<A>>) : null
+}
+
+export type AuditFieldChange = {
+    field: string
+    before: unknown
+    after: unknown
+    added?: unknown[]      // For list fields: items only in after
+    removed?: unknown[]    // ...and items only in before
+}
+
+/**
+ * Flatten details.changes into one row per field, for rendering
+ */
+export function listFieldChanges(change: AuditChange | null | undefined): AuditFieldChange[] {
+    if (!change) return []
+
+    const fields = Array.from(new Set([...Object.keys(change.before || {}), ...Object.keys(change.after || {})])).sort()
+
+    return fields.map(field => {
+        const before = change.before?.[field]
+        const after = change.after?.[field]
+
+        if (Array.isArray(before) || Array.isArray(after)) {
+            const beforeItems = Array.isArray(before) ? before : []
+            const afterItems = Array.isArray(after) ? after : []
+            return {
+                field,
+                before,
+                after,
+                added: afterItems.filter(item => !beforeItems.some(b => sameValue(b, item))),
+                removed: beforeItems.filter(item => !afterItems.some(a => sameValue(a, item))),
+            }
+        }
+
+        return { field, before, after }
+    })
+}
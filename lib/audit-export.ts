@@ -0,0 +1,213 @@
+/**
+ * Audit Log Export
+ * Streams every entry matching a search as CSV, NDJSON or CEF (ArcSight's
+ * Common Event Format, one syslog line per entry) for SIEM ingestion. Pages
+ * through getAuditLogs by keyset so no row cap applies, and records an
+ * audit.exported event once the download finishes or is abandoned
+ */
+
+import { hostname } from 'os'
+import { getAuditLogs, logAuditEvent, AUDIT_ACTIONS } from '@/lib/audit'
+import { logger } from '@/lib/logger'
+import { AuditExportFormat, AuditLog, AuditLogCursor, AuditLogFilters } from '@/types'
+
+type Actor = { id: string; email?: string | null }
+
+const PAGE_SIZE = 1000
+
+export const EXPORT_CONTENT_TYPES: Record<AuditExportFormat, string> = {
+    csv: 'text/csv; charset=utf-8',
+    ndjson: 'application/x-ndjson; charset=utf-8',
+    cef: 'text/plain; charset=utf-8',
+}
+
+export const EXPORT_EXTENSIONS: Record<AuditExportFormat, string> = {
+    csv: 'csv',
+    ndjson: 'ndjson',
+    cef: 'log',
+}
+
+// ============================================================================
+// FORMATTERS
+// ============================================================================
+
+const CSV_COLUMNS: (keyof AuditLog)[] = [
+    'created_at',
+    'id',
+    'chain_seq',
+    'action',
+    'user_id',
+    'user_email',
+    'resource_type',
+    'resource_id',
+    'ip_address',
+    'user_agent',
+    'request_id',
+    'details',
+    'hash',
+]
+
+function csvField(value: unknown): string {
+    if (value === null || value === undefined) return ''
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value)
+    // Leading =, +, - or @ would run as a formula when opened in a spreadsheet
+    const safe = /^[=+\-@]/.test(text) ? `'${text}` : text
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+function cefHeaderField(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|')
+}
+
+function cefExtensionValue(value: string): string {
+    return value
+        .replace(/\\/g, '\\\\')
+        .replace(/=/g, '\\=')
+        .replace(/\r?\n/g, '\\n')
+}
+
+// CEF severity (0-10): failures and destructive changes stand out in the SIEM
+function cefSeverity(action: string): number {
+    if (['audit.cleared', 'audit.purged', 'user.deleted', 'role.deleted'].includes(action)) return 8
+    if (action.endsWith('_failed') || action === 'mfa.failed' || action === 'user.locked') return 6
+    if (action.startsWith('role.') || action.startsWith('api_token.') || action.startsWith('impersonation.')) return 5
+    if (action === 'audit.exported' || action === 'audit.retention_changed') return 5
+    return 3
+}
+
+const SYSLOG_HOST = hostname()
+
+function toCef(log: AuditLog): string {
+    const extensions: [string, string | number | null][] = [
+        ['rt', new Date(log.created_at).getTime()],
+        ['externalId', log.id],
+        ['act', log.action],
+        ['suid', log.user_id],
+        ['suser', log.user_email],
+        ['src', log.ip_address],
+        ['requestClientApplication', log.user_agent],
+        ['cs1Label', 'resourceType'],
+        ['cs1', log.resource_type],
+        ['cs2Label', 'resourceId'],
+        ['cs2', log.resource_id],
+        ['cs3Label', 'details'],
+        ['cs3', log.details ? JSON.stringify(log.details) : null],
+        ['cs4Label', 'requestId'],
+        ['cs4', log.request_id],
+        ['cn1Label', 'chainSeq'],
+        ['cn1', log.chain_seq],
+    ]
+
+    const extension = extensions
+        .filter(([, value]) => value !== null && value !== undefined)
+        .map(([key, value]) => `${key}=${cefExtensionValue(String(value))}`)
+        .join(' ')
+
+    const header = [
+        'CEF:0',
+        'UtilityAI',
+        'Admin Panel',
+        '0.1.0',
+        log.action,
+        log.action,
+        String(cefSeverity(log.action)),
+    ].map(cefHeaderField).join('|')
+
+    // <110> = facility security/authorization (10), severity informational (6)
+    return `<110>${new Date(log.created_at).toISOString()} ${SYSLOG_HOST} ${header}|${extension}`
+}
+
+function formatHeader(format: AuditExportFormat): string {
+    return format === 'csv' ? CSV_COLUMNS.join(',') + '\n' : ''
+}
+
+function formatEntry(log: AuditLog, format: AuditExportFormat): string {
+    if (format === 'csv') return CSV_COLUMNS.map(column => csvField(log[column])).join(',') + '\n'
+    if (format === 'ndjson') return JSON.stringify(log) + '\n'
+    return toCef(log) + '\n'
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Stream every entry matching the filters, newest first
+ * The range is pinned to the moment the export starts, and each page picks
+ * up after the last entry sent, so neither new entries nor retention purges
+ * shift the pages
+ */
+export function streamAuditExport({
+    filters,
+    format,
+    actor,
+    request,
+}: {
+    filters: Omit<AuditLogFilters, 'before' | 'withCount' | 'limit' | 'offset'>
+    format: AuditExportFormat
+    actor: Actor
+    request?: Request
+}): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder()
+    const pinned = { ...filters, endDate: filters.endDate || new Date().toISOString() }
+    let cursor: AuditLogCursor | undefined
+    let exported = 0
+    let finished = false
+
+    const recordExport = async (completed: boolean) => {
+        if (finished) return
+        finished = true
+
+        await logAuditEvent({
+            userId: actor.id,
+            userEmail: actor.email,
+            action: AUDIT_ACTIONS.AUDIT_EXPORTED,
+            resourceType: 'audit_log',
+            details: {
+                format,
+                start_date: pinned.startDate || null,
+                end_date: pinned.endDate,
+                filters: { ...pinned, startDate: undefined, endDate: undefined },
+                entries: exported,
+                completed,
+            },
+            request,
+        })
+    }
+
+    return new ReadableStream<Uint8Array>({
+        start(controller) {
+            const header = formatHeader(format)
+            if (header) {
+                controller.enqueue(encoder.encode(header))
+            }
+        },
+
+        async pull(controller) {
+            try {
+                const { data } = await getAuditLogs({ ...pinned, before: cursor, withCount: false, limit: PAGE_SIZE })
+
+                if (data.length > 0) {
+                    controller.enqueue(encoder.encode(data.map(log => formatEntry(log, format)).join('')))
+                    exported += data.length
+
+                    const last = data[data.length - 1]
+                    cursor = { createdAt: last.created_at, seq: last.chain_seq ?? 0 }
+                }
+
+                if (data.length < PAGE_SIZE) {
+                    await recordExport(true)
+                    controller.close()
+                }
+            } catch (error) {
+                logger.error('Audit export failed', { format, exported, error })
+                await recordExport(false)
+                controller.error(error)
+            }
+        },
+
+        async cancel() {
+            await recordExport(false)
+        },
+    })
+}
@@ -0,0 +1,250 @@
+/**
+ * Audit Log Retention
+ * Policies in audit_retention_policies say how long each kind of entry is
+ * kept. The retention job archives expired entries to gzipped NDJSON files in
+ * AUDIT_ARCHIVE_DIR, records each file (with its SHA-256) in manifest.ndjson,
+ * and only then purges the entries. Purged entries leave a tombstone so the
+ * hash chain still verifies (see the audit_retention migration)
+ */
+
+import { createHash } from 'crypto'
+import { appendFile, mkdir, readFile, writeFile } from 'fs/promises'
+import path from 'path'
+import { gzipSync } from 'zlib'
+import { logAuditEvent, AUDIT_ACTIONS } from '@/lib/audit'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { AuditArchive, AuditLog, AuditRetentionPolicy, AuditRetentionPreview } from '@/types'
+
+type Actor = { id: string; email?: string | null }
+
+const ARCHIVE_DIR = path.resolve(process.env.AUDIT_ARCHIVE_DIR || 'audit-archive')
+const MANIFEST_FILE = path.join(ARCHIVE_DIR, 'manifest.ndjson')
+
+// Entries per archive file, and files per run so one run can't go on forever
+const ARCHIVE_BATCH_SIZE = 5000
+const MAX_BATCHES_PER_RUN = 20
+
+/**
+ * Every policy, sorted by pattern ('*' first)
+ */
+export async function listRetentionPolicies(): Promise<AuditRetentionPolicy[]> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data, error } = await supabaseAdmin
+        .from('audit_retention_policies')
+        .select('*')
+        .order('pattern', { ascending: true })
+
+    if (error) {
+        throw new Error(`Failed to fetch retention policies: ${error.message}`)
+    }
+
+    return (data as AuditRetentionPolicy[]) || []
+}
+
+/**
+ * Replace the policy set; patterns left out are removed
+ * Writes an audit.retention_changed event with the days before and after
+ */
+export async function replaceRetentionPolicies({
+    policies,
+    actor,
+    request,
+}: {
+    policies: { pattern: string; retention_days: number | null }[]
+    actor: Actor
+    request?: Request
+}): Promise<AuditRetentionPolicy[]> {
+    const supabaseAdmin = createServiceRoleClient()
+    const previous = await listRetentionPolicies()
+
+    const previousDays = new Map(previous.map(policy => [policy.pattern, policy.retention_days]))
+    const changed = policies.filter(policy =>
+        !previousDays.has(policy.pattern) || previousDays.get(policy.pattern) !== policy.retention_days
+    )
+    const removed = previous.filter(policy => !policies.some(p => p.pattern === policy.pattern))
+
+    if (changed.length > 0) {
+        const now = new Date().toISOString()
+        const { error } = await supabaseAdmin
+            .from('audit_retention_policies')
+            .upsert(changed.map(policy => ({
+                pattern: policy.pattern,
+                retention_days: policy.retention_days,
+                updated_by: actor.id,
+                updated_by_email: actor.email || null,
+                updated_at: now,
+            })), { onConflict: 'pattern' })
+
+        if (error) {
+            throw new Error(`Failed to save retention policies: ${error.message}`)
+        }
+    }
+
+    if (removed.length > 0) {
+        const { error } = await supabaseAdmin
+            .from('audit_retention_policies')
+            .delete()
+            .in('pattern', removed.map(policy => policy.pattern))
+
+        if (error) {
+            throw new Error(`Failed to remove retention policies: ${error.message}`)
+        }
+    }
+
+    if (changed.length > 0 || removed.length > 0) {
+        await logAuditEvent({
+            userId: actor.id,
+            userEmail: actor.email,
+            action: AUDIT_ACTIONS.AUDIT_RETENTION_CHANGED,
+            resourceType: 'audit_log',
+            details: {
+                // Days kept per pattern; a pattern only on one side was added or removed
+                changes: {
+                    before: Object.fromEntries([
+                        ...changed
+                            .filter(policy => previousDays.has(policy.pattern))
+                            .map(policy => [policy.pattern, previousDays.get(policy.pattern)]),
+                        ...removed.map(policy => [policy.pattern, policy.retention_days]),
+                    ]),
+                    after: Object.fromEntries(changed.map(policy => [policy.pattern, policy.retention_days])),
+                },
+            },
+            request,
+        })
+    }
+
+    return listRetentionPolicies()
+}
+
+/**
+ * Dry run: what the next retention run would purge, per policy
+ */
+export async function previewAuditRetention(): Promise<AuditRetentionPreview[]> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data, error } = await supabaseAdmin.rpc('audit_retention_preview')
+    if (error) {
+        throw new Error(`Failed to preview audit retention: ${error.message}`)
+    }
+
+    return ((data || []) as AuditRetentionPreview[]).map(row => ({ ...row, entries: Number(row.entries) }))
+}
+
+/**
+ * Archives written so far, newest first (none if nothing was purged yet)
+ */
+export async function listAuditArchives(): Promise<AuditArchive[]> {
+    let contents: string
+    try {
+        contents = await readFile(MANIFEST_FILE, 'utf8')
+    } catch (error: any) {
+        if (error?.code === 'ENOENT') {
+            return []
+        }
+        throw error
+    }
+
+    return contents
+        .split('\n')
+        .filter(line => line.trim())
+        .map(line => JSON.parse(line) as AuditArchive)
+        .reverse()
+}
+
+/**
+ * Write one batch of entries to a compressed archive and record it in the manifest
+ */
+async function archiveEntries(entries: AuditLog[]): Promise<AuditArchive> {
+    const first = entries[0]
+    const last = entries[entries.length - 1]
+    const createdAt = new Date().toISOString()
+
+    const file = `audit-${first.chain_seq}-${last.chain_seq}-${createdAt.replace(/[:.]/g, '-')}.ndjson.gz`
+    const compressed = gzipSync(entries.map(entry => JSON.stringify(entry)).join('\n') + '\n')
+
+    const timestamps = entries.map(entry => entry.created_at).sort()
+    const archive: AuditArchive = {
+        file,
+        sha256: createHash('sha256').update(compressed).digest('hex'),
+        entries: entries.length,
+        first_seq: Number(first.chain_seq),
+        last_seq: Number(last.chain_seq),
+        oldest: timestamps[0],
+        newest: timestamps[timestamps.length - 1],
+        created_at: createdAt,
+    }
+
+    await mkdir(ARCHIVE_DIR, { recursive: true })
+    await writeFile(path.join(ARCHIVE_DIR, file), compressed)
+    await appendFile(MANIFEST_FILE, JSON.stringify(archive) + '\n', 'utf8')
+
+    return archive
+}
+
+/**
+ * Archive and purge every entry past its retention
+ * Each batch is archived before it is deleted; if the delete fails the
+ * entries stay in the log and are archived again by the next run.
+ * Writes an audit.purged event when anything was removed
+ */
+export async function purgeExpiredAuditLogs({
+    actor,
+    request,
+}: {
+    actor?: Actor | null
+    request?: Request
+} = {}): Promise<{ purged: number; archives: AuditArchive[] }> {
+    const supabaseAdmin = createServiceRoleClient()
+    const archives: AuditArchive[] = []
+    let purged = 0
+
+    for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+        const { data, error } = await supabaseAdmin.rpc('audit_retention_candidates', {
+            max_entries: ARCHIVE_BATCH_SIZE,
+        })
+
+        if (error) {
+            throw new Error(`Failed to find expired audit logs: ${error.message}`)
+        }
+
+        const entries = (data || []) as AuditLog[]
+        if (entries.length === 0) {
+            break
+        }
+
+        const archive = await archiveEntries(entries)
+        archives.push(archive)
+
+        const { data: count, error: purgeError } = await supabaseAdmin.rpc('purge_audit_log_entries', {
+            target_seqs: entries.map(entry => entry.chain_seq),
+            archive_name: archive.file,
+        })
+
+        if (purgeError) {
+            throw new Error(`Failed to purge archived audit logs: ${purgeError.message}`)
+        }
+
+        purged += Number(count) || 0
+
+        if (entries.length < ARCHIVE_BATCH_SIZE) {
+            break
+        }
+    }
+
+    if (purged > 0) {
+        await logAuditEvent({
+            userId: actor?.id,
+            userEmail: actor?.email,
+            action: AUDIT_ACTIONS.AUDIT_PURGED,
+            resourceType: 'audit_log',
+            details: {
+                purged,
+                archives: archives.map(archive => archive.file),
+            },
+            request,
+        })
+    }
+
+    return { purged, archives }
+}
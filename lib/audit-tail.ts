@@ -0,0 +1,146 @@
+/**
+ * Live Audit Log Tail
+ * Server-Sent Events feed of new audit entries matching a search. Polls
+ * getAuditLogs with the last chain_seq sent as a cursor; every event carries
+ * its chain_seq as the SSE id, so a reconnecting EventSource resumes from
+ * Last-Event-ID without missing or repeating entries
+ */
+
+import { getAuditLogs } from '@/lib/audit'
+import { logger } from '@/lib/logger'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { AuditLogFilters } from '@/types'
+
+const POLL_INTERVAL_MS = 2000
+const HEARTBEAT_INTERVAL_MS = 15 * 1000
+
+// Entries sent per poll; anything beyond is reported as skipped
+const MAX_ENTRIES_PER_POLL = 200
+
+// Streams end after this long so the browser reconnects through the route
+// guard, re-checking the session and permissions
+const MAX_STREAM_MS = 5 * 60 * 1000
+
+/**
+ * Newest chain position, where a tail without a cursor starts
+ */
+async function currentChainSeq(): Promise<number> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data, error } = await supabaseAdmin
+        .from('audit_chain_head')
+        .select('seq')
+        .maybeSingle()
+
+    if (error) {
+        throw new Error(`Failed to read audit chain head: ${error.message}`)
+    }
+
+    return data ? Number(data.seq) : 0
+}
+
+function sseEvent(event: string, data: unknown, id?: number): string {
+    return `${id !== undefined ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+/**
+ * Stream entries written after `after` (or after now) that match the filters
+ * Events: "ready" ({ cursor }), "entry" (an AuditLog), "skipped" ({ count })
+ * when more arrived in one poll than are sent, and "failed" if it can't start
+ */
+export function streamAuditTail({
+    filters,
+    after,
+    signal,
+}: {
+    filters: Omit<AuditLogFilters, 'afterSeq' | 'limit' | 'offset'>
+    after?: number
+    signal: AbortSignal
+}): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder()
+    let pollTimer: ReturnType<typeof setTimeout> | undefined
+    let heartbeatTimer: ReturnType<typeof setInterval> | undefined
+    let closed = false
+
+    return new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const startedAt = Date.now()
+
+            const close = () => {
+                if (closed) return
+                closed = true
+                clearTimeout(pollTimer)
+                clearInterval(heartbeatTimer)
+                controller.close()
+            }
+
+            const send = (chunk: string) => {
+                if (!closed) {
+                    controller.enqueue(encoder.encode(chunk))
+                }
+            }
+
+            signal.addEventListener('abort', close)
+
+            let cursor: number
+            try {
+                cursor = after ?? await currentChainSeq()
+            } catch (error) {
+                logger.error('Audit tail failed to start', { error })
+                send(sseEvent('failed', { message: 'Failed to start the live tail' }))
+                close()
+                return
+            }
+
+            // Tell the browser to wait a poll interval before reconnecting
+            send(`retry: ${POLL_INTERVAL_MS}\n\n`)
+            // Carries the cursor as its id so even a quiet stream resumes in place
+            send(sseEvent('ready', { cursor }, cursor))
+
+            heartbeatTimer = setInterval(() => send(': keep-alive\n\n'), HEARTBEAT_INTERVAL_MS)
+
+            const poll = async () => {
+                if (closed) return
+
+                try {
+                    const { data, count } = await getAuditLogs({
+                        ...filters,
+                        afterSeq: cursor,
+                        limit: MAX_ENTRIES_PER_POLL,
+                    })
+
+                    if (count > data.length) {
+                        send(sseEvent('skipped', { count: count - data.length }))
+                    }
+
+                    // getAuditLogs is newest first; send in the order they happened
+                    for (const entry of [...data].reverse()) {
+                        send(sseEvent('entry', entry, Number(entry.chain_seq)))
+                    }
+
+                    if (data.length > 0) {
+                        cursor = Math.max(...data.map(entry => Number(entry.chain_seq)))
+                    }
+                } catch (error) {
+                    // Keep the stream open; the next poll may well succeed
+                    logger.warn('Audit tail poll failed', { error })
+                }
+
+                if (Date.now() - startedAt >= MAX_STREAM_MS) {
+                    close()
+                    return
+                }
+
+                pollTimer = setTimeout(poll, POLL_INTERVAL_MS)
+            }
+
+            pollTimer = setTimeout(poll, POLL_INTERVAL_MS)
+        },
+
+        cancel() {
+            closed = true
+            clearTimeout(pollTimer)
+            clearInterval(heartbeatTimer)
+        },
+    })
+}
@@ -0,0 +1,188 @@
+/**
+ * Saved Audit Log Views
+ * An admin's named audit log filters, kept per user in their query string
+ * form so the page can load one straight into its URL. Alert rules
+ * (lib/audit-alerts) count a view's matches; a view in use can't be deleted
+ */
+
+import { ConflictError } from '@/lib/errors'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { auditLogQuerySchema } from '@/lib/validations'
+import { AuditLogFilters, AuditSavedView, AuditViewFilters } from '@/types'
+
+// Postgres unique_violation: the owner already has a view with this name
+const UNIQUE_VIOLATION = '23505'
+
+/**
+ * The owner's views, by name
+ */
+export async function listAuditViews(userId: string): Promise<AuditSavedView[]> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data, error } = await supabaseAdmin
+        .from('audit_saved_views')
+        .select('*')
+        .eq('user_id', userId)
+        .order('name', { ascending: true })
+
+    if (error) {
+        throw new Error(`Failed to fetch saved views: ${error.message}`)
+    }
+
+    return (data || []) as AuditSavedView[]
+}
+
+/**
+ * One of the owner's views; null if they have no such view
+ */
+export async function getAuditView(userId: string, viewId: string): Promise<AuditSavedView | null> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data, error } = await supabaseAdmin
+        .from('audit_saved_views')
+        .select('*')
+        .eq('id', viewId)
+        .eq('user_id', userId)
+        .maybeSingle()
+
+    if (error) {
+        throw new Error(`Failed to fetch saved view: ${error.message}`)
+    }
+
+    return (data as AuditSavedView) || null
+}
+
+/**
+ * Save the owner's current filters under a name
+ */
+export async function createAuditView({
+    userId,
+    name,
+    filters,
+    rangeDays,
+}: {
+    userId: string
+    name: string
+    filters: AuditViewFilters
+    rangeDays?: number | null
+}): Promise<AuditSavedView> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data, error } = await supabaseAdmin
+        .from('audit_saved_views')
+        .insert({ user_id: userId, name, filters, range_days: rangeDays ?? null })
+        .select('*')
+        .single()
+
+    if (error?.code === UNIQUE_VIOLATION) {
+        throw new ConflictError(`You already have a view named "${name}"`)
+    }
+    if (error || !data) {
+        throw new Error(`Failed to save view: ${error?.message || 'no row returned'}`)
+    }
+
+    return data as AuditSavedView
+}
+
+/**
+ * Rename a view or replace its filters; null if the owner has no such view
+ */
+export async function updateAuditView({
+    userId,
+    viewId,
+    name,
+    filters,
+    rangeDays,
+}: {
+    userId: string
+    viewId: string
+    name?: string
+    filters?: AuditViewFilters
+    rangeDays?: number | null
+}): Promise<AuditSavedView | null> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const updates: Record<string, any> = { updated_at: new Date().toISOString() }
+    if (name !== undefined) updates.name = name
+    if (filters !== undefined) updates.filters = filters
+    if (rangeDays !== undefined) updates.range_days = rangeDays
+
+    const { data, error } = await supabaseAdmin
+        .from('audit_saved_views')
+        .update(updates)
+        .eq('id', viewId)
+        .eq('user_id', userId)
+        .select('*')
+        .maybeSingle()
+
+    if (error?.code === UNIQUE_VIOLATION) {
+        throw new ConflictError(`You already have a view named "${name}"`)
+    }
+    if (error) {
+        throw new Error(`Failed to update view: ${error.message}`)
+    }
+
+    return (data as AuditSavedView) || null
+}
+
+/**
+ * Delete a view no alert rule uses; null if the owner has no such view
+ */
+export async function deleteAuditView({
+    userId,
+    viewId,
+}: {
+    userId: string
+    viewId: string
+}): Promise<AuditSavedView | null> {
+    const view = await getAuditView(userId, viewId)
+    if (!view) {
+        return null
+    }
+
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { count, error: countError } = await supabaseAdmin
+        .from('audit_alert_rules')
+        .select('id', { count: 'exact', head: true })
+        .eq('view_id', viewId)
+
+    if (countError) {
+        throw new Error(`Failed to check alert rules: ${countError.message}`)
+    }
+    if (count) {
+        throw new ConflictError(`View is used by ${count} alert ${count === 1 ? 'rule' : 'rules'}; delete them first`)
+    }
+
+    const { error } = await supabaseAdmin
+        .from('audit_saved_views')
+        .delete()
+        .eq('id', viewId)
+        .eq('user_id', userId)
+
+    if (error) {
+        throw new Error(`Failed to delete view: ${error.message}`)
+    }
+
+    return view
+}
+
+/**
+ * A view's filters in the form getAuditLogs takes
+ * Filters were checked when saved, so an entry that no longer parses (say
+ * after the query rules tightened) throws rather than widening the match
+ */
+export function auditViewToFilters(view: AuditSavedView, extra: AuditLogFilters = {}): AuditLogFilters {
+    const query = auditLogQuerySchema.parse(view.filters)
+
+    return {
+        actions: query.action,
+        email: query.email,
+        ip: query.ip,
+        resourceId: query.resource_id,
+        requestId: query.request_id,
+        details: query.details,
+        search: query.q,
+        ...extra,
+    }
+}
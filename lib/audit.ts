@@ -1,9 +1,29 @@
-import { createClient } from '@/lib/supabase/server'
-import { AuditAction, AuditLog } from '@/types'
+import { checkAuditDetails } from '@/lib/audit-details'
+import { logger } from '@/lib/logger'
+import { getRequestId } from '@/lib/request-id'
+import { getClientIp } from '@/lib/security'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { AuditAction, AuditLog, AuditLogFilters } from '@/types'
+
+// Requests authenticated with an API token, mapped to the token's id
+const apiTokenRequests = new WeakMap<Request, string>()
+
+/**
+ * Mark a request as made with an API token
+ * Every audit event logged for it then records the token id
+ */
+export function tagApiTokenRequest(request: Request, tokenId: string): void {
+    apiTokenRequests.set(request, tokenId)
+}
 
 /**
  * Log an audit event to the database
- * This function should be called from API routes to track user actions
+ * This function should be called from API routes to track user actions.
+ * Writes with the service role: token-authenticated calls carry no session.
+ * Entries logged for a request record its correlation ID (lib/request-id).
+ * Details should match the action's schema in lib/audit-details. The check
+ * is advisory: by the time an event is logged the change has happened, so a
+ * mismatch is reported through the logger and the entry is still written
  */
 export async function logAuditEvent({
     userId,
@@ -22,22 +42,33 @@ export async function logAuditEvent({
     details?: Record<string, any>
     request?: Request
 }): Promise<void> {
+    const problems = checkAuditDetails(action, details)
+    if (problems) {
+        // The caller's change has already happened, so never throw here:
+        // a malformed entry still beats a missing one in the trail
+        logger.error('Audit details do not match their schema', { action, problems })
+    }
+
     try {
-        const supabase = await createClient()
+        const supabase = createServiceRoleClient()
 
         // Extract IP address and user agent from request if provided
         let ipAddress: string | null = null
         let userAgent: string | null = null
+        let requestId: string | null = null
 
         if (request) {
-            // Get IP address from various headers (considering proxies)
-            ipAddress =
-                request.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
-                request.headers.get('x-real-ip') ||
-                request.headers.get('cf-connecting-ip') ||
-                null
+            // The same address the rate limiter and blocklist acted on
+            const clientIp = getClientIp(request)
+            ipAddress = clientIp === 'unknown' ? null : clientIp
 
             userAgent = request.headers.get('user-agent') || null
+            requestId = getRequestId(request)
+
+            const apiTokenId = apiTokenRequests.get(request)
+            if (apiTokenId) {
+                details = { ...details, api_token_id: apiTokenId }
+            }
         }
 
         // Insert audit log
@@ -50,74 +81,58 @@ export async function logAuditEvent({
             details: details || null,
             ip_address: ipAddress,
             user_agent: userAgent,
+            request_id: requestId,
         })
 
         if (error) {
-            console.error('Failed to log audit event:', error)
+            logger.error('Failed to log audit event', { action, error })
             // Don't throw error - audit logging should not break the main flow
         }
     } catch (error) {
-        console.error('Error in logAuditEvent:', error)
+        logger.error('Failed to log audit event', { action, error })
         // Silent fail - audit logging is important but not critical
     }
 }
 
 /**
- * Get audit logs with optional filters
- * This should only be called by admin users
+ * Search audit logs, newest first
+ * Filtering and counting happen in the database (search_audit_logs), so
+ * count is the total number of matches across every page (0 when
+ * withCount is false).
+ * This should only be called by admin users (the route guard checks audit.read)
  */
-export async function getAuditLogs(filters?: {
-    userId?: string
-    action?: AuditAction
-    resourceType?: string
-    startDate?: string
-    endDate?: string
-    limit?: number
-    offset?: number
-}): Promise<{ data: AuditLog[]; count: number }> {
-    const supabase = await createClient()
-
-    let query = supabase
-        .from('audit_logs')
-        .select('*', { count: 'exact' })
-        .order('created_at', { ascending: false })
-
-    // Apply filters
-    if (filters?.userId) {
-        query = query.eq('user_id', filters.userId)
-    }
-
-    if (filters?.action) {
-        query = query.eq('action', filters.action)
-    }
-
-    if (filters?.resourceType) {
-        query = query.eq('resource_type', filters.resourceType)
-    }
-
-    if (filters?.startDate) {
-        query = query.gte('created_at', filters.startDate)
-    }
-
-    if (filters?.endDate) {
-        query = query.lte('created_at', filters.endDate)
-    }
-
-    // Apply pagination
-    const limit = filters?.limit || 50
-    const offset = filters?.offset || 0
-    query = query.range(offset, offset + limit - 1)
-
-    const { data, error, count } = await query
+export async function getAuditLogs(filters: AuditLogFilters = {}): Promise<{ data: AuditLog[]; count: number }> {
+    const supabase = createServiceRoleClient()
+
+    const { data, error } = await supabase.rpc('search_audit_logs', {
+        actions: filters.actions?.length ? filters.actions : null,
+        target_user_id: filters.userId || null,
+        email_prefix: filters.email || null,
+        ip_prefix: filters.ip || null,
+        target_resource_type: filters.resourceType || null,
+        target_resource_id: filters.resourceId || null,
+        target_request_id: filters.requestId || null,
+        detail_filters: filters.details?.length ? filters.details : null,
+        search: filters.search || null,
+        start_date: filters.startDate || null,
+        end_date: filters.endDate || null,
+        after_seq: filters.afterSeq ?? null,
+        max_entries: filters.limit || 50,
+        skip: filters.offset || 0,
+        before_created_at: filters.before?.createdAt ?? null,
+        before_seq: filters.before?.seq ?? null,
+        with_count: filters.withCount ?? true,
+    })
 
     if (error) {
-        console.error('Error fetching audit logs:', error)
+        logger.error('Failed to fetch audit logs', { error })
         throw new Error('Failed to fetch audit logs')
     }
 
+    const result = data as { data: AuditLog[]; count: number } | null
     return {
-        data: (data as AuditLog[]) || [],
-        count: count || 0,
+        data: result?.data || [],
+        count: Number(result?.count) || 0,
     }
 }
 
@@ -130,6 +145,16 @@ export const AUDIT_ACTIONS = {
     USER_LOGOUT: 'user.logout' as AuditAction,
     USER_SIGNUP: 'user.signup' as AuditAction,
     USER_PASSWORD_RESET: 'user.password_reset' as AuditAction,
+    USER_LOGIN_FAILED: 'user.login_failed' as AuditAction,
+    USER_LOCKED: 'user.locked' as AuditAction,
+    USER_UNLOCKED: 'user.unlocked' as AuditAction,
+    USER_REAUTHENTICATED: 'user.reauthenticated' as AuditAction,
+    USER_REAUTH_FAILED: 'user.reauth_failed' as AuditAction,
+    USER_SESSION_REVOKED: 'user.session_revoked' as AuditAction,
+    USER_SESSIONS_REVOKED: 'user.sessions_revoked' as AuditAction,
+    USER_SUSPENDED: 'user.suspended' as AuditAction,
+    USER_DELETED: 'user.deleted' as AuditAction,
+    USER_RESTORED: 'user.restored' as AuditAction,
 
     // Session actions
     SESSION_CREATED: 'session.created' as AuditAction,
@@ -139,5 +164,44 @@ export const AUDIT_ACTIONS = {
 
     // Admin actions
     ROLE_UPDATED: 'role.updated' as AuditAction,
+    ROLE_EXPIRED: 'role.expired' as AuditAction,
+    ROLE_EXPIRY_HELD: 'role.expiry_held' as AuditAction,
+    ROLE_CREATED: 'role.created' as AuditAction,
+    ROLE_PERMISSIONS_CHANGED: 'role.permissions_changed' as AuditAction,
+    ROLE_DELETED: 'role.deleted' as AuditAction,
     SUBSCRIPTION_REVOKED: 'subscription.revoked' as AuditAction,
+    REQUEST_APPROVED: 'request.approved' as AuditAction,
+    REQUEST_REJECTED: 'request.rejected' as AuditAction,
+    AUDIT_CLEARED: 'audit.cleared' as AuditAction,  // Clearing is gone; kept for older entries
+    AUDIT_RETENTION_CHANGED: 'audit.retention_changed' as AuditAction,
+    AUDIT_PURGED: 'audit.purged' as AuditAction,
+    AUDIT_EXPORTED: 'audit.exported' as AuditAction,
+    AUDIT_ALERT_CREATED: 'audit.alert_created' as AuditAction,
+    AUDIT_ALERT_UPDATED: 'audit.alert_updated' as AuditAction,
+    AUDIT_ALERT_DELETED: 'audit.alert_deleted' as AuditAction,
+    AUDIT_ALERT_FIRED: 'audit.alert_fired' as AuditAction,
+
+    // Security actions
+    IP_BLOCKED: 'ip.blocked' as AuditAction,
+    IP_UNBLOCKED: 'ip.unblocked' as AuditAction,
+
+    // Two-person approval actions
+    APPROVAL_REQUESTED: 'approval.requested' as AuditAction,
+    APPROVAL_APPROVED: 'approval.approved' as AuditAction,
+    APPROVAL_REJECTED: 'approval.rejected' as AuditAction,
+
+    // Impersonation actions
+    IMPERSONATION_STARTED: 'impersonation.started' as AuditAction,
+    IMPERSONATION_ENDED: 'impersonation.ended' as AuditAction,
+
+    // Multi-factor authentication actions
+    MFA_ENROLLED: 'mfa.enrolled' as AuditAction,
+    MFA_VERIFIED: 'mfa.verified' as AuditAction,
+    MFA_FAILED: 'mfa.failed' as AuditAction,
+    MFA_RESET: 'mfa.reset' as AuditAction,
+
+    // API token actions
+    API_TOKEN_CREATED: 'api_token.created' as AuditAction,
+    API_TOKEN_REVOKED: 'api_token.revoked' as AuditAction,
+    API_TOKEN_USED: 'api_token.used' as AuditAction,
 } as const
@@ -0,0 +1,124 @@
+/**
+ * Sign-In Session Management
+ * Lists and revokes a user's Supabase auth sessions through the service-role
+ * functions in the auth_session_admin migration. Revoking kills the refresh
+ * token at once; an access token already issued lives until it expires
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { createClient } from '@/lib/supabase/server'
+import { logAuditEvent, AUDIT_ACTIONS } from '@/lib/audit'
+import { AuthSession } from '@/types'
+
+type Actor = { id: string; email?: string | null } | null | undefined
+
+async function currentSessionId(): Promise<string | null> {
+    const supabase = await createClient()
+    const { data } = await supabase.auth.getClaims()
+    return data?.claims.session_id || null
+}
+
+/**
+ * A user's live sessions, most recently active first
+ */
+export async function listUserSessions(userId: string): Promise<AuthSession[]> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const [{ data, error }, current] = await Promise.all([
+        supabaseAdmin.rpc('admin_list_user_sessions', { target_user_id: userId }),
+        currentSessionId(),
+    ])
+
+    if (error) {
+        throw new Error(`Failed to fetch sessions: ${error.message}`)
+    }
+
+    return ((data || []) as Omit<AuthSession, 'current'>[]).map(session => ({
+        ...session,
+        current: session.id === current,
+    }))
+}
+
+/**
+ * Revoke one session
+ * Writes a user.session_revoked audit event; returns false if it didn't exist
+ */
+export async function revokeUserSession({
+    userId,
+    sessionId,
+    actor,
+    request,
+}: {
+    userId: string
+    sessionId: string
+    actor?: Actor
+    request?: Request
+}): Promise<boolean> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data, error } = await supabaseAdmin.rpc('admin_revoke_user_session', {
+        target_user_id: userId,
+        target_session_id: sessionId,
+    })
+
+    if (error) {
+        throw new Error(`Failed to revoke session: ${error.message}`)
+    }
+    if (!data) {
+        return false
+    }
+
+    await logAuditEvent({
+        userId: actor?.id,
+        userEmail: actor?.email,
+        action: AUDIT_ACTIONS.USER_SESSION_REVOKED,
+        resourceType: 'user',
+        resourceId: userId,
+        details: { session_id: sessionId },
+        request,
+    })
+
+    return true
+}
+
+/**
+ * Sign a user out everywhere
+ * Writes a user.sessions_revoked audit event (skipped when there was nothing
+ * to revoke); reason says why, e.g. 'manual' or the status that triggered it
+ */
+export async function revokeAllUserSessions({
+    userId,
+    reason = 'manual',
+    actor,
+    request,
+}: {
+    userId: string
+    reason?: string
+    actor?: Actor
+    request?: Request
+}): Promise<number> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data, error } = await supabaseAdmin.rpc('admin_revoke_all_user_sessions', {
+        target_user_id: userId,
+    })
+
+    if (error) {
+        throw new Error(`Failed to revoke sessions: ${error.message}`)
+    }
+
+    const revoked = (data as number) || 0
+    if (revoked > 0) {
+        await logAuditEvent({
+            userId: actor?.id,
+            userEmail: actor?.email,
+            action: AUDIT_ACTIONS.USER_SESSIONS_REVOKED,
+            resourceType: 'user',
+            resourceId: userId,
+            details: { revoked, reason },
+            request,
+        })
+    }
+
+    return revoked
+}
@@ -0,0 +1,122 @@
+/**
+ * API Error Classes
+ * Thrown from lib/ and route handlers; the admin route guard maps them to
+ * HTTP responses by status instead of matching on error.message
+ */
+
+export type ApiErrorCode =
+    | 'unauthorized'
+    | 'forbidden'
+    | 'not_found'
+    | 'validation_failed'
+    | 'conflict'
+    | 'last_admin'
+    | 'self_demotion_unconfirmed'
+    | 'inactive_admin'
+    | 'step_up_required'
+    | 'mfa_required'
+    | 'account_locked'
+    | 'rate_limited'
+    | 'internal_error'
+
+export interface ApiErrorDetail {
+    field: string
+    message: string
+}
+
+export class ApiError extends Error {
+    constructor(
+        message: string,
+        public status: number,
+        public code: ApiErrorCode,
+        public details?: ApiErrorDetail[],
+        public data?: Record<string, any>   // Extra fields the client needs to recover
+    ) {
+        super(message)
+        this.name = 'ApiError'
+    }
+}
+
+/**
+ * No authenticated user (401)
+ */
+export class UnauthorizedError extends ApiError {
+    constructor(message = 'Not authenticated') {
+        super(message, 401, 'unauthorized')
+        this.name = 'UnauthorizedError'
+    }
+}
+
+/**
+ * Authenticated but not allowed (403)
+ */
+export class ForbiddenError extends ApiError {
+    constructor(message = 'Forbidden') {
+        super(message, 403, 'forbidden')
+        this.name = 'ForbiddenError'
+    }
+}
+
+/**
+ * The action needs a fresh re-authentication (403)
+ * data.methods lists the ways this user can re-authenticate
+ */
+export class StepUpRequiredError extends ApiError {
+    constructor(methods: string[], message = 'Confirm it is you to continue') {
+        super(message, 403, 'step_up_required', undefined, { methods })
+        this.name = 'StepUpRequiredError'
+    }
+}
+
+/**
+ * Privileged user whose session hasn't passed the TOTP check (403)
+ * data.enrolled tells the client whether to enroll or just verify
+ */
+export class MfaRequiredError extends ApiError {
+    constructor(enrolled: boolean) {
+        super(
+            enrolled ? 'Enter your authenticator code to continue' : 'Set up an authenticator app to continue',
+            403,
+            'mfa_required',
+            undefined,
+            { enrolled }
+        )
+        this.name = 'MfaRequiredError'
+    }
+}
+
+/**
+ * Too many failed password attempts; the account is locked for a while (423)
+ * data.locked_until says when it opens again
+ */
+export class AccountLockedError extends ApiError {
+    constructor(lockedUntil: string) {
+        super('Too many failed password attempts. Try again later.', 423, 'account_locked', undefined, { locked_until: lockedUntil })
+        this.name = 'AccountLockedError'
+    }
+}
+
+export class NotFoundError extends ApiError {
+    constructor(message = 'Not found') {
+        super(message, 404, 'not_found')
+        this.name = 'NotFoundError'
+    }
+}
+
+export class ValidationError extends ApiError {
+    constructor(message = 'Validation failed', details?: ApiErrorDetail[]) {
+        super(message, 400, 'validation_failed', details)
+        this.name = 'ValidationError'
+    }
+}
+
+/**
+ * Request conflicts with current state (409)
+ * Pass a specific code so clients can tell invariant violations apart
+ */
+export class ConflictError extends ApiError {
+    constructor(message: string, code: ApiErrorCode = 'conflict', data?: Record<string, any>) {
+        super(message, 409, code, undefined, data)
+        this.name = 'ConflictError'
+    }
+}
@@ -0,0 +1,281 @@
+/**
+ * Admin Impersonation
+ * Lets support see the user app as a specific user. Each session is recorded
+ * in impersonation_sessions and handed to the user app as a short-lived
+ * access token for the target user:
+ *
+ *   ${USER_APP_URL}/impersonate#access_token=...&expires_at=...
+ *
+ * The token has no refresh token, so it dies at expires_at no matter what.
+ * It is not an ordinary `authenticated` token (migration 20261019000019):
+ *   - role = impersonation: PostgREST checks the impersonation_session_id
+ *     claim on every request, refusing the token once its session is ended
+ *     or replaced and running everything else read-only; Storage refuses it
+ *   - session_id names no Auth session, so Supabase Auth refuses it too. The
+ *     user app reads the user from the token instead of auth.getUser()
+ */
+
+import { createHmac } from 'crypto'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { logAuditEvent, AUDIT_ACTIONS } from '@/lib/audit'
+import { ConflictError, ForbiddenError } from '@/lib/errors'
+import { canAccessAdminPanel } from '@/lib/permissions'
+import { resolveRolePermissions } from '@/lib/roles'
+import { ImpersonationEndReason, ImpersonationSession } from '@/types'
+
+type Actor = { id: string; email?: string | null }
+
+// Kept short on purpose: a token leaked from the user app stays usable
+// until it expires unless the admin ends the session
+const IMPERSONATION_TTL_MS = Math.min(
+    60,
+    Math.max(1, Math.floor(Number(process.env.IMPERSONATION_TTL_MINUTES)) || 15)
+) * 60 * 1000
+
+export interface StartedImpersonation {
+    session: ImpersonationSession
+    url: string
+}
+
+/**
+ * Sign a Supabase-compatible HS256 access token for the target user
+ * The session id doubles as session_id: no Auth session has that id
+ */
+function signImpersonationToken(session: ImpersonationSession): string {
+    const secret = process.env.SUPABASE_JWT_SECRET
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+    if (!secret || !supabaseUrl) {
+        throw new Error('Impersonation is not configured: SUPABASE_JWT_SECRET is missing')
+    }
+
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url')
+
+    const header = encode({ alg: 'HS256', typ: 'JWT' })
+    const payload = encode({
+        iss: `${supabaseUrl}/auth/v1`,
+        aud: 'authenticated',
+        role: 'impersonation',
+        sub: session.target_user_id,
+        email: session.target_email,
+        iat: Math.floor(new Date(session.created_at).getTime() / 1000),
+        exp: Math.floor(new Date(session.expires_at).getTime() / 1000),
+        session_id: session.id,
+        impersonation_session_id: session.id,
+        impersonated_by: session.admin_id,
+    })
+    const signature = createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url')
+
+    return `${header}.${payload}.${signature}`
+}
+
+function buildHandoffUrl(session: ImpersonationSession, accessToken: string): string {
+    const appUrl = process.env.USER_APP_URL
+    if (!appUrl) {
+        throw new Error('Impersonation is not configured: USER_APP_URL is missing')
+    }
+
+    // The fragment keeps the token out of server logs and Referer headers
+    const fragment = new URLSearchParams({
+        access_token: accessToken,
+        expires_at: String(Math.floor(new Date(session.expires_at).getTime() / 1000)),
+        impersonation_session_id: session.id,
+    })
+    return `${appUrl.replace(/\/$/, '')}/impersonate#${fragment.toString()}`
+}
+
+/**
+ * Start impersonating a user
+ * Ends any session the admin still has open, then writes an
+ * impersonation.started audit event; returns null if the user doesn't exist
+ */
+export async function startImpersonation({
+    targetUserId,
+    reason,
+    actor,
+    request,
+}: {
+    targetUserId: string
+    reason: string
+    actor: Actor
+    request?: Request
+}): Promise<StartedImpersonation | null> {
+    if (targetUserId === actor.id) {
+        throw new ConflictError('You cannot impersonate yourself')
+    }
+
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data: target } = await supabaseAdmin.auth.admin.getUserById(targetUserId)
+    if (!target?.user) {
+        return null
+    }
+
+    const [{ data: roleRow }, { data: profile }] = await Promise.all([
+        supabaseAdmin.from('user_roles').select('role').eq('user_id', targetUserId).maybeSingle(),
+        supabaseAdmin.from('profiles').select('status').eq('id', targetUserId).maybeSingle(),
+    ])
+
+    // Staff accounts would hand the impersonator their admin access
+    if (canAccessAdminPanel(await resolveRolePermissions(roleRow?.role || 'user'))) {
+        throw new ForbiddenError('Accounts with admin panel access cannot be impersonated')
+    }
+    if (profile?.status === 'deleted') {
+        throw new ConflictError('Deleted users cannot be impersonated')
+    }
+
+    await endImpersonation({ actor, endReason: 'replaced', request })
+
+    const { data, error } = await supabaseAdmin
+        .from('impersonation_sessions')
+        .insert({
+            admin_id: actor.id,
+            admin_email: actor.email || null,
+            target_user_id: targetUserId,
+            target_email: target.user.email || null,
+            reason,
+            expires_at: new Date(Date.now() + IMPERSONATION_TTL_MS).toISOString(),
+        })
+        .select('*')
+        .single()
+
+    if (error?.code === '23505') {
+        throw new ConflictError('Another impersonation session was just started; end it first')
+    }
+    if (error || !data) {
+        throw new Error(`Failed to start impersonation: ${error?.message || 'no row returned'}`)
+    }
+
+    const session = data as ImpersonationSession
+    const url = buildHandoffUrl(session, signImpersonationToken(session))
+
+    await logAuditEvent({
+        userId: actor.id,
+        userEmail: actor.email,
+        action: AUDIT_ACTIONS.IMPERSONATION_STARTED,
+        resourceType: 'user',
+        resourceId: targetUserId,
+        details: {
+            session_id: session.id,
+            target_user_email: session.target_email,
+            reason,
+            expires_at: session.expires_at,
+        },
+        request,
+    })
+
+    return { session, url }
+}
+
+/**
+ * The admin's open impersonation session, if any
+ * A session found past its expiry is closed (and audited) on the way
+ */
+export async function getActiveImpersonation(actor: Actor, request?: Request): Promise<ImpersonationSession | null> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data, error } = await supabaseAdmin
+        .from('impersonation_sessions')
+        .select('*')
+        .eq('admin_id', actor.id)
+        .is('ended_at', null)
+        .maybeSingle()
+
+    if (error) {
+        throw new Error(`Failed to fetch impersonation session: ${error.message}`)
+    }
+    if (!data) {
+        return null
+    }
+
+    const session = data as ImpersonationSession
+    if (new Date(session.expires_at).getTime() <= Date.now()) {
+        await closeSession(session, 'expired', actor, request)
+        return null
+    }
+
+    return session
+}
+
+/**
+ * End the admin's open impersonation session
+ * Its token stops working as soon as the row is closed. Writes an
+ * impersonation.ended audit event; returns null if none was open
+ */
+export async function endImpersonation({
+    actor,
+    endReason = 'ended',
+    request,
+}: {
+    actor: Actor
+    endReason?: ImpersonationEndReason
+    request?: Request
+}): Promise<ImpersonationSession | null> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data, error } = await supabaseAdmin
+        .from('impersonation_sessions')
+        .select('*')
+        .eq('admin_id', actor.id)
+        .is('ended_at', null)
+        .maybeSingle()
+
+    if (error) {
+        throw new Error(`Failed to fetch impersonation session: ${error.message}`)
+    }
+    if (!data) {
+        return null
+    }
+
+    const session = data as ImpersonationSession
+    // A session that ran out is recorded as expired, whoever notices first
+    const expired = new Date(session.expires_at).getTime() <= Date.now()
+    return closeSession(session, expired ? 'expired' : endReason, actor, request)
+}
+
+async function closeSession(
+    session: ImpersonationSession,
+    endReason: ImpersonationEndReason,
+    actor: Actor,
+    request?: Request
+): Promise<ImpersonationSession | null> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    // Expired sessions end at their expiry, not whenever they were noticed
+    const endedAt = endReason === 'expired' ? session.expires_at : new Date().toISOString()
+
+    const { data, error } = await supabaseAdmin
+        .from('impersonation_sessions')
+        .update({ ended_at: endedAt, end_reason: endReason })
+        .eq('id', session.id)
+        .is('ended_at', null)
+        .select('*')
+        .maybeSingle()
+
+    if (error) {
+        throw new Error(`Failed to end impersonation: ${error.message}`)
+    }
+    if (!data) {
+        // Closed concurrently; that request wrote the audit event
+        return null
+    }
+
+    await logAuditEvent({
+        userId: actor.id,
+        userEmail: actor.email,
+        action: AUDIT_ACTIONS.IMPERSONATION_ENDED,
+        resourceType: 'user',
+        resourceId: session.target_user_id,
+        details: {
+            session_id: session.id,
+            target_user_email: session.target_email,
+            reason: session.reason,
+            end_reason: endReason,
+            duration_seconds: Math.round(
+                (new Date(endedAt).getTime() - new Date(session.created_at).getTime()) / 1000
+            ),
+        },
+        request,
+    })
+
+    return data as ImpersonationSession
+}
@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { assertSafeIpBlock, ipMatchesBlock } from './ip-blocks'
+
+describe('ipMatchesBlock', () => {
+    it('matches exact addresses and CIDR ranges', () => {
+        assert.equal(ipMatchesBlock('203.0.113.7', '203.0.113.7'), true)
+        assert.equal(ipMatchesBlock('203.0.113.7', '203.0.113.0/24'), true)
+        assert.equal(ipMatchesBlock('203.0.114.7', '203.0.113.0/24'), false)
+        assert.equal(ipMatchesBlock('2001:db8::1', '2001:db8::/32'), true)
+        assert.equal(ipMatchesBlock('::ffff:203.0.113.7', '203.0.113.0/24'), true)
+    })
+})
+
+describe('assertSafeIpBlock', () => {
+    it('refuses ranges wider than /8 (IPv4) or /32 (IPv6)', () => {
+        assert.throws(() => assertSafeIpBlock('0.0.0.0/0'), /wider than \/8/)
+        assert.throws(() => assertSafeIpBlock('10.0.0.0/7'), /wider than \/8/)
+        assert.throws(() => assertSafeIpBlock('::/0'), /wider than \/32/)
+        assert.throws(() => assertSafeIpBlock('2001:db8::/31'), /wider than \/32/)
+
+        assert.doesNotThrow(() => assertSafeIpBlock('10.0.0.0/8'))
+        assert.doesNotThrow(() => assertSafeIpBlock('2001:db8::/32'))
+    })
+
+    it("refuses a block that covers the caller's own address", () => {
+        assert.throws(() => assertSafeIpBlock('198.51.100.4', '198.51.100.4'), /your own address/)
+        assert.throws(() => assertSafeIpBlock('198.51.100.0/24', '198.51.100.4'), /your own address/)
+
+        assert.doesNotThrow(() => assertSafeIpBlock('198.51.101.0/24', '198.51.100.4'))
+        // Without a known caller address only the width is checked
+        assert.doesNotThrow(() => assertSafeIpBlock('198.51.100.0/24', 'unknown'))
+    })
+})
@@ -0,0 +1,316 @@
+/**
+ * Persistent IP Blocklist
+ * Manual and automatic IP/CIDR blocks stored in the ip_blocks table
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { getSecurityStore } from '@/lib/security-store'
+import { logAuditEvent, AUDIT_ACTIONS } from '@/lib/audit'
+import { ValidationError } from '@/lib/errors'
+import { getClientIp } from '@/lib/security'
+import { logger } from '@/lib/logger'
+import { IpBlock, IpBlockSource } from '@/types'
+
+// ============================================================================
+// CIDR MATCHING
+// ============================================================================
+
+/**
+ * Parse an IPv4 or IPv6 address into a numeric value
+ * Returns null for anything that isn't a valid address
+ */
+function parseIp(ip: string): { value: bigint; bits: number } | null {
+    if (ip.includes(':')) {
+        return parseIpv6(ip)
+    }
+
+    const parts = ip.split('.')
+    if (parts.length !== 4) return null
+
+    let value = BigInt(0)
+    for (const part of parts) {
+        if (!/^\d{1,3}$/.test(part)) return null
+        const octet = Number(part)
+        if (octet > 255) return null
+        value = (value << BigInt(8)) + BigInt(octet)
+    }
+
+    return { value, bits: 32 }
+}
+
+function parseIpv6(ip: string): { value: bigint; bits: number } | null {
+    // IPv4-mapped addresses (::ffff:1.2.3.4) are matched as IPv4
+    const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(ip)
+    if (mapped) {
+        return parseIp(mapped[1])
+    }
+
+    const halves = ip.split('::')
+    if (halves.length > 2) return null
+
+    const head = halves[0] ? halves[0].split(':') : []
+    const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : []
+    const missing = 8 - head.length - tail.length
+
+    if (halves.length === 1 ? head.length !== 8 : missing < 1) return null
+
+    const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail]
+
+    let value = BigInt(0)
+    for (const group of groups) {
+        if (!/^[0-9a-f]{1,4}$/i.test(group)) return null
+        value = (value << BigInt(16)) + BigInt(parseInt(group, 16))
+    }
+
+    return { value, bits: 128 }
+}
+
+/**
+ * Check whether an IP address falls inside a block entry (exact IP or CIDR)
+ */
+export function ipMatchesBlock(ip: string, block: string): boolean {
+    if (!block.includes('/')) {
+        return ip === block
+    }
+
+    const [network, prefixText] = block.split('/')
+    const address = parseIp(ip)
+    const range = parseIp(network)
+    const prefix = Number(prefixText)
+
+    if (!address || !range || address.bits !== range.bits) return false
+    if (!Number.isInteger(prefix) || prefix < 0 || prefix > range.bits) return false
+
+    const shift = BigInt(range.bits - prefix)
+    return (address.value >> shift) === (range.value >> shift)
+}
+
+// The widest ranges a block may cover: anything wider shuts out whole
+// swathes of the internet, admins included
+const MIN_BLOCK_PREFIX: Record<number, number> = {
+    32: 8,   // IPv4
+    128: 32, // IPv6
+}
+
+/**
+ * Refuse a block that is too wide, or that covers the address of the admin
+ * adding it: the proxy checks the blocklist before any admin route, this
+ * one included, so either mistake would leave no way to undo it
+ */
+export function assertSafeIpBlock(block: string, callerIp?: string): void {
+    if (block.includes('/')) {
+        const [network, prefixText] = block.split('/')
+        const range = parseIp(network)
+        const minimum = range ? MIN_BLOCK_PREFIX[range.bits] : undefined
+        if (minimum !== undefined && Number(prefixText) < minimum) {
+            throw new ValidationError(`Ranges wider than /${minimum} can't be blocked`)
+        }
+    }
+
+    if (callerIp && ipMatchesBlock(callerIp, block)) {
+        throw new ValidationError(`This block would cover your own address (${callerIp})`)
+    }
+}
+
+// ============================================================================
+// BLOCKLIST CACHE
+// ============================================================================
+
+// Active blocks are cached per instance so the proxy doesn't hit the
+// database on every request; other instances pick up changes on refresh
+const CACHE_TTL_MS = 60 * 1000
+
+let cachedBlocks: Pick<IpBlock, 'ip' | 'expires_at'>[] = []
+let cacheLoadedAt = 0
+
+async function loadActiveBlocks(): Promise<Pick<IpBlock, 'ip' | 'expires_at'>[]> {
+    const now = Date.now()
+    if (now - cacheLoadedAt < CACHE_TTL_MS) {
+        return cachedBlocks
+    }
+
+    try {
+        const supabaseAdmin = createServiceRoleClient()
+        const { data, error } = await supabaseAdmin
+            .from('ip_blocks')
+            .select('ip, expires_at')
+            .or(`expires_at.is.null,expires_at.gt.${new Date(now).toISOString()}`)
+
+        if (error) {
+            throw new Error(error.message)
+        }
+
+        cachedBlocks = data || []
+    } catch (error) {
+        // Keep serving the last known list rather than failing every request
+        logger.error('Failed to load IP blocklist', { error })
+    }
+
+    cacheLoadedAt = now
+    return cachedBlocks
+}
+
+function invalidateBlocklistCache(): void {
+    cacheLoadedAt = 0
+}
+
+/**
+ * Check if an IP address matches any active entry in the persistent blocklist
+ */
+export async function isIpInBlocklist(ip: string): Promise<boolean> {
+    const blocks = await loadActiveBlocks()
+    const now = Date.now()
+
+    return blocks.some(block =>
+        (!block.expires_at || new Date(block.expires_at).getTime() > now) &&
+        ipMatchesBlock(ip, block.ip)
+    )
+}
+
+// ============================================================================
+// BLOCKLIST MANAGEMENT
+// ============================================================================
+
+/**
+ * List active IP blocks, newest first
+ */
+export async function listIpBlocks(): Promise<IpBlock[]> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data, error } = await supabaseAdmin
+        .from('ip_blocks')
+        .select('*')
+        .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+        .order('created_at', { ascending: false })
+
+    if (error) {
+        throw new Error(`Failed to fetch IP blocks: ${error.message}`)
+    }
+
+    return (data as IpBlock[]) || []
+}
+
+/**
+ * Add (or replace) a block for an IP address or CIDR range
+ * Blocks added by an admin may not cover their own address (see
+ * assertSafeIpBlock). Writes an ip.blocked audit event
+ */
+export async function createIpBlock({
+    ip,
+    reason,
+    source,
+    expiresAt,
+    actor,
+    request,
+}: {
+    ip: string
+    reason: string
+    source: IpBlockSource
+    expiresAt?: string | null
+    actor?: { id: string; email?: string | null } | null
+    request?: Request
+}): Promise<IpBlock> {
+    // Automatic blocks have no actor: the request is the offender's own
+    assertSafeIpBlock(ip, actor && request ? getClientIp(request) : undefined)
+
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data, error } = await supabaseAdmin
+        .from('ip_blocks')
+        .upsert(
+            {
+                ip,
+                reason,
+                source,
+                created_by: actor?.id || null,
+                created_by_email: actor?.email || null,
+                expires_at: expiresAt || null,
+                created_at: new Date().toISOString(),
+            },
+            { onConflict: 'ip' }
+        )
+        .select('*')
+        .single()
+
+    if (error || !data) {
+        throw new Error(`Failed to block IP: ${error?.message || 'no row returned'}`)
+    }
+
+    // Exact addresses also go into the security store so the block
+    // takes effect immediately on every instance sharing that store
+    if (!ip.includes('/')) {
+        const ttlMs = expiresAt ? new Date(expiresAt).getTime() - Date.now() : undefined
+        await getSecurityStore().addBlock(ip, ttlMs)
+    }
+    invalidateBlocklistCache()
+
+    await logAuditEvent({
+        userId: actor?.id,
+        userEmail: actor?.email,
+        action: AUDIT_ACTIONS.IP_BLOCKED,
+        resourceType: 'ip_block',
+        resourceId: data.id,
+        details: {
+            ip,
+            reason,
+            source,
+            expires_at: expiresAt || null,
+        },
+        request,
+    })
+
+    return data as IpBlock
+}
+
+/**
+ * Remove a block by id
+ * Writes an ip.unblocked audit event
+ */
+export async function removeIpBlock({
+    id,
+    actor,
+    request,
+}: {
+    id: string
+    actor?: { id: string; email?: string | null } | null
+    request?: Request
+}): Promise<IpBlock | null> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data, error } = await supabaseAdmin
+        .from('ip_blocks')
+        .delete()
+        .eq('id', id)
+        .select('*')
+        .maybeSingle()
+
+    if (error) {
+        throw new Error(`Failed to unblock IP: ${error.message}`)
+    }
+
+    if (!data) {
+        return null
+    }
+
+    const block = data as IpBlock
+    if (!block.ip.includes('/')) {
+        await getSecurityStore().removeBlock(block.ip)
+    }
+    invalidateBlocklistCache()
+
+    await logAuditEvent({
+        userId: actor?.id,
+        userEmail: actor?.email,
+        action: AUDIT_ACTIONS.IP_UNBLOCKED,
+        resourceType: 'ip_block',
+        resourceId: block.id,
+        details: {
+            ip: block.ip,
+            reason: block.reason,
+            source: block.source,
+        },
+        request,
+    })
+
+    return block
+}
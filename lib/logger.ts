@@ -0,0 +1,280 @@
+/**
+ * Structured Server Logger
+ * One JSON object per line with a level, a fixed message and queryable
+ * fields, instead of free-text console output. Emails, secrets and IPs are
+ * masked before anything is written, and lines logged while a request is
+ * being served carry its context (request_id, method, path, actor_id)
+ *
+ * LOG_LEVEL=debug | info (default) | warn | error
+ * LOG_FORMAT=json (default in production) | pretty (default elsewhere)
+ * LOG_REDACT=emails,secrets,ips (default all; "none" = off)
+ *
+ * Records go to a LogSink: stdout/stderr by default, swappable with setLogSink
+ */
+
+import { AsyncLocalStorage } from 'async_hooks'
+import { getRequestId } from '@/lib/request-id'
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+export type LogFields = Record<string, unknown>
+
+export interface LogRecord {
+    time: string
+    level: LogLevel
+    msg: string
+    [field: string]: unknown
+}
+
+export interface LogSink {
+    write(record: LogRecord): void
+}
+
+type RedactionRule = 'emails' | 'secrets' | 'ips'
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 }
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+interface LoggerConfig {
+    level: LogLevel
+    redact: Set<RedactionRule>
+}
+
+let config: LoggerConfig | null = null
+
+function getConfig(): LoggerConfig {
+    if (!config) {
+        const level = (process.env.LOG_LEVEL || 'info') as LogLevel
+        const redact = (process.env.LOG_REDACT || 'emails,secrets,ips').trim().toLowerCase()
+
+        config = {
+            level: level in LEVELS ? level : 'info',
+            redact: new Set(
+                redact === 'none'
+                    ? []
+                    : redact.split(',').map(rule => rule.trim()).filter((rule): rule is RedactionRule =>
+                        rule === 'emails' || rule === 'secrets' || rule === 'ips'
+                    )
+            ),
+        }
+    }
+    return config
+}
+
+// ============================================================================
+// REDACTION
+// ============================================================================
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@([A-Za-z0-9.-]+\.[A-Za-z]{2,})/g
+const IPV4_PATTERN = /\b(\d{1,3}\.\d{1,3}\.\d{1,3})\.\d{1,3}\b/g
+const IPV6_PATTERN = /\b([0-9a-f]{1,4}:[0-9a-f]{1,4}:[0-9a-f]{1,4}):[0-9a-f:]*[0-9a-f]\b/gi
+// Bearer credentials and admin API tokens (lib/api-tokens)
+const SECRET_PATTERN = /\b(Bearer\s+\S+|adm_[A-Za-z0-9_-]{8,})/g
+
+const SECRET_KEYS = /(password|secret|token|authorization|cookie|api_?key|signature)/i
+
+// Keys holding identifiers that only look like secrets
+const NOT_SECRET_KEYS = new Set(['api_token_id', 'token_prefix', 'confirmation_token_required'])
+
+function redactString(value: string, rules: Set<RedactionRule>): string {
+    let result = value
+    if (rules.has('secrets')) result = result.replace(SECRET_PATTERN, '[redacted]')
+    // Keep the domain: enough to tell staff from customers
+    if (rules.has('emails')) result = result.replace(EMAIL_PATTERN, '***@$1')
+    // Keep the network: enough to spot one range hammering the API
+    if (rules.has('ips')) {
+        result = result.replace(IPV4_PATTERN, '$1.x').replace(IPV6_PATTERN, '$1::x')
+    }
+    return result
+}
+
+function serializeError(error: Error): LogFields {
+    const fields: LogFields = { name: error.name, message: error.message }
+    if ('code' in error && error.code !== undefined) fields.code = error.code
+    if (error.stack) fields.stack = error.stack
+    if (error.cause !== undefined) fields.cause = error.cause
+    return fields
+}
+
+function redactValue(value: unknown, rules: Set<RedactionRule>, depth = 0): unknown {
+    if (typeof value === 'string') return redactString(value, rules)
+    if (value === null || typeof value !== 'object') return value
+    if (depth > 6) return '[truncated]'
+
+    if (value instanceof Error) return redactValue(serializeError(value), rules, depth + 1)
+    if (value instanceof Date) return value.toISOString()
+    if (Array.isArray(value)) return value.map(item => redactValue(item, rules, depth + 1))
+
+    const result: LogFields = {}
+    for (const [key, field] of Object.entries(value)) {
+        result[key] = rules.has('secrets') && SECRET_KEYS.test(key) && !NOT_SECRET_KEYS.has(key) && field
+            ? '[redacted]'
+            : redactValue(field, rules, depth + 1)
+    }
+    return result
+}
+
+// ============================================================================
+// SINKS
+// ============================================================================
+
+/**
+ * One JSON object per line; warnings and errors go to stderr
+ */
+export const jsonSink: LogSink = {
+    write(record) {
+        const line = JSON.stringify(record)
+        if (LEVELS[record.level] >= LEVELS.warn) {
+            console.error(line)
+        } else {
+            console.log(line)
+        }
+    },
+}
+
+const PRETTY_COLORS: Record<LogLevel, string> = {
+    debug: '\x1b[90m',
+    info: '\x1b[36m',
+    warn: '\x1b[33m',
+    error: '\x1b[31m',
+}
+
+/**
+ * Human readable lines for local development: time, level, message, then
+ * fields as key=value and any stack trace underneath
+ */
+export const prettySink: LogSink = {
+    write({ time, level, msg, ...fields }) {
+        const error = fields.error as { stack?: string } | undefined
+        const rest = Object.entries(fields)
+            .filter(([, value]) => value !== undefined)
+            .map(([key, value]) => {
+                const shown = key === 'error' && error?.stack ? (value as { message?: string }).message : value
+                return `${key}=${typeof shown === 'string' ? shown : JSON.stringify(shown)}`
+            })
+            .join(' ')
+
+        const line = `${time.slice(11, 23)} ${PRETTY_COLORS[level]}${level.toUpperCase().padEnd(5)}\x1b[0m ${msg}${rest ? ` \x1b[90m${rest}\x1b[0m` : ''}`
+        const output = error?.stack ? `${line}\n${error.stack}` : line
+
+        if (LEVELS[level] >= LEVELS.warn) {
+            console.error(output)
+        } else {
+            console.log(output)
+        }
+    },
+}
+
+let sink: LogSink | null = null
+
+function getSink(): LogSink {
+    if (!sink) {
+        const format = process.env.LOG_FORMAT || (process.env.NODE_ENV === 'production' ? 'json' : 'pretty')
+        sink = format === 'pretty' ? prettySink : jsonSink
+    }
+    return sink
+}
+
+/**
+ * Replace where records go (e.g. ship them to a log service, or collect them)
+ */
+export function setLogSink(next: LogSink): void {
+    sink = next
+}
+
+// ============================================================================
+// REQUEST CONTEXT
+// ============================================================================
+
+const requestContext = new AsyncLocalStorage<LogFields>()
+
+/**
+ * Run fn with fields attached to every line logged inside it, however deep
+ */
+export function runWithLogContext<T>(fields: LogFields, fn: () => T): T {
+    return requestContext.run({ ...requestContext.getStore(), ...fields }, fn)
+}
+
+/**
+ * Add fields to the current context once they are known (e.g. the actor)
+ */
+export function addLogContext(fields: LogFields): void {
+    const store = requestContext.getStore()
+    if (store) {
+        Object.assign(store, fields)
+    }
+}
+
+/**
+ * The fields that identify a request in the logs
+ */
+export function requestLogFields(request: Request): LogFields {
+    return {
+        request_id: getRequestId(request),
+        method: request.method,
+        path: new URL(request.url).pathname,
+    }
+}
+
+// ============================================================================
+// LOGGER
+// ============================================================================
+
+export class Logger {
+    constructor(private context: LogFields = {}) {}
+
+    /**
+     * A logger that adds these fields to every line
+     */
+    child(fields: LogFields): Logger {
+        return new Logger({ ...this.context, ...fields })
+    }
+
+    debug(msg: string, fields?: LogFields): void {
+        this.log('debug', msg, fields)
+    }
+
+    info(msg: string, fields?: LogFields): void {
+        this.log('info', msg, fields)
+    }
+
+    warn(msg: string, fields?: LogFields): void {
+        this.log('warn', msg, fields)
+    }
+
+    error(msg: string, fields?: LogFields): void {
+        this.log('error', msg, fields)
+    }
+
+    private log(level: LogLevel, msg: string, fields?: LogFields): void {
+        const { level: minimum, redact } = getConfig()
+        if (LEVELS[level] < LEVELS[minimum]) {
+            return
+        }
+
+        const record = {
+            time: new Date().toISOString(),
+            level,
+            msg: redactString(msg, redact),
+            ...(redactValue({ ...requestContext.getStore(), ...this.context, ...fields }, redact) as LogFields),
+        }
+
+        try {
+            getSink().write(record)
+        } catch {
+            // A broken sink must never take a request down with it
+        }
+    }
+}
+
+export const logger = new Logger()
+
+/**
+ * A logger for code that has the request but runs outside the admin route
+ * guard (auth routes, cron jobs, the proxy)
+ */
+export function requestLogger(request: Request): Logger {
+    return logger.child(requestLogFields(request))
+}
@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { ForbiddenError } from './errors'
+import { resetUserMfa } from './mfa'
+import { ALL_PERMISSIONS, PERMISSIONS, SYSTEM_ROLE_PERMISSIONS } from './permissions'
+
+const TARGET_ID = '00000000-0000-4000-8000-000000000001'
+const FACTOR_ID = '00000000-0000-4000-8000-0000000000f1'
+
+/**
+ * Stand-in for the Supabase Auth admin and PostgREST endpoints that
+ * resetUserMfa calls; records every request so tests can see what ran
+ */
+function stubSupabase(targetRole: string) {
+    const calls: string[] = []
+
+    globalThis.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+        const url = new URL(input instanceof Request ? input.url : String(input))
+        const method = init?.method || 'GET'
+        calls.push(`${method} ${url.pathname}`)
+
+        const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), {
+            status,
+            headers: { 'Content-Type': 'application/json' },
+        })
+        const wantsObject = new Headers(init?.headers).get('Accept')?.includes('vnd.pgrst.object')
+
+        if (url.pathname === `/auth/v1/admin/users/${TARGET_ID}`) {
+            return json({ id: TARGET_ID, email: 'target@example.com', aud: 'authenticated', app_metadata: {}, user_metadata: {} })
+        }
+        if (url.pathname === `/auth/v1/admin/users/${TARGET_ID}/factors` && method === 'GET') {
+            return json([{ id: FACTOR_ID, factor_type: 'totp', status: 'verified' }])
+        }
+        if (url.pathname === `/auth/v1/admin/users/${TARGET_ID}/factors/${FACTOR_ID}`) {
+            return json({ id: FACTOR_ID })
+        }
+        if (url.pathname === '/rest/v1/user_roles') {
+            return json(wantsObject ? { role: targetRole } : [{ role: targetRole }])
+        }
+        if (url.pathname === '/rest/v1/roles') {
+            return json([])
+        }
+        if (url.pathname === '/rest/v1/audit_logs') {
+            return new Response(null, { status: 201 })
+        }
+        return json({ message: `Unexpected ${method} ${url.pathname}` }, 404)
+    }) as typeof fetch
+
+    return calls
+}
+
+describe('resetUserMfa', () => {
+    const realFetch = globalThis.fetch
+    const realEnv = { ...process.env }
+
+    beforeEach(() => {
+        process.env.NEXT_PUBLIC_SUPABASE_URL = 'http://supabase.test'
+        process.env.SUPABASE_SERVICE_ROLE_KEY = 'service-role-key'
+    })
+
+    afterEach(() => {
+        globalThis.fetch = realFetch
+        process.env = { ...realEnv }
+    })
+
+    it("refuses to reset the factors of a user who outranks the caller", async () => {
+        const calls = stubSupabase('admin')
+        const actor = {
+            id: 'actor',
+            email: 'security@example.com',
+            permissions: [...SYSTEM_ROLE_PERMISSIONS.mod, PERMISSIONS.SECURITY_MANAGE],
+        }
+
+        await assert.rejects(resetUserMfa({ userId: TARGET_ID, actor }), ForbiddenError)
+        assert.ok(!calls.some(call => call.startsWith('DELETE')), 'no factor may be removed')
+    })
+
+    it("resets the factors of a user whose permissions the caller holds", async () => {
+        const calls = stubSupabase('mod')
+        const actor = { id: 'actor', email: 'admin@example.com', permissions: ALL_PERMISSIONS }
+
+        assert.deepEqual(await resetUserMfa({ userId: TARGET_ID, actor }), { removed: 1 })
+        assert.ok(calls.includes(`DELETE /auth/v1/admin/users/${TARGET_ID}/factors/${FACTOR_ID}`))
+    })
+})
@@ -0,0 +1,241 @@
+/**
+ * Multi-Factor Authentication
+ * Admin panel users must enroll a TOTP factor (Supabase MFA) and pass it
+ * each session: the route guard refuses privileged actors whose session is
+ * below AAL2. ADMIN_MFA_REQUIRED=false turns enforcement off
+ */
+
+import { logAuditEvent, AUDIT_ACTIONS } from '@/lib/audit'
+import { MfaRequiredError, ValidationError } from '@/lib/errors'
+import { canAccessAdminPanel } from '@/lib/permissions'
+import { assertCanGrant, resolveRolePermissions } from '@/lib/roles'
+import { createClient } from '@/lib/supabase/server'
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { MfaCoverageEntry, MfaStatus, Permission, UserRoleType } from '@/types'
+
+type Actor = { id: string; email?: string | null; permissions: Permission[] }
+
+export const ADMIN_MFA_REQUIRED = process.env.ADMIN_MFA_REQUIRED !== 'false'
+
+/**
+ * Where the current session stands on MFA
+ */
+export async function getMfaStatus(actor: Actor): Promise<MfaStatus> {
+    const supabase = await createClient()
+    const { data } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel()
+
+    return {
+        required: ADMIN_MFA_REQUIRED && canAccessAdminPanel(actor.permissions),
+        enrolled: data?.nextLevel === 'aal2',
+        verified: data?.currentLevel === 'aal2',
+    }
+}
+
+/**
+ * The current user's verified authenticators
+ */
+export async function listTotpFactors(): Promise<{ id: string; friendly_name: string | null; created_at: string }[]> {
+    const supabase = await createClient()
+    const { data } = await supabase.auth.mfa.listFactors()
+
+    return (data?.totp || []).map(factor => ({
+        id: factor.id,
+        friendly_name: factor.friendly_name || null,
+        created_at: factor.created_at,
+    }))
+}
+
+/**
+ * Throw an MfaRequiredError if the actor needs MFA and this session hasn't passed it
+ */
+export async function assertMfaSatisfied(actor: Actor): Promise<void> {
+    if (!ADMIN_MFA_REQUIRED || !canAccessAdminPanel(actor.permissions)) {
+        return
+    }
+
+    const status = await getMfaStatus(actor)
+    if (!status.verified) {
+        throw new MfaRequiredError(status.enrolled)
+    }
+}
+
+/**
+ * Start TOTP enrollment for the current user
+ * Abandoned, never-verified factors are cleared first
+ */
+export async function enrollTotp(friendlyName?: string): Promise<{
+    factor_id: string
+    qr_code: string
+    secret: string
+    uri: string
+}> {
+    const supabase = await createClient()
+
+    const { data: factors } = await supabase.auth.mfa.listFactors()
+    if (factors?.totp.length) {
+        throw new ValidationError('An authenticator app is already enrolled')
+    }
+    for (const factor of factors?.all || []) {
+        if (factor.factor_type === 'totp' && factor.status === 'unverified') {
+            await supabase.auth.mfa.unenroll({ factorId: factor.id })
+        }
+    }
+
+    const { data, error } = await supabase.auth.mfa.enroll({
+        factorType: 'totp',
+        friendlyName: friendlyName || `Authenticator ${new Date().toISOString().slice(0, 10)}`,
+    })
+
+    if (error || !data) {
+        throw new Error(`Failed to start enrollment: ${error?.message || 'no factor returned'}`)
+    }
+
+    return {
+        factor_id: data.id,
+        qr_code: data.totp.qr_code,
+        secret: data.totp.secret,
+        uri: data.totp.uri,
+    }
+}
+
+/**
+ * Check a TOTP code and raise the session to AAL2
+ * Completing enrollment writes mfa.enrolled, later checks mfa.verified and
+ * wrong codes mfa.failed. Returns false on a wrong code
+ */
+export async function verifyTotp({
+    actor,
+    factorId,
+    code,
+    request,
+}: {
+    actor: Actor
+    factorId: string
+    code: string
+    request?: Request
+}): Promise<boolean> {
+    const supabase = await createClient()
+
+    const { data: factors } = await supabase.auth.mfa.listFactors()
+    const factor = factors?.all.find(f => f.id === factorId && f.factor_type === 'totp')
+    if (!factor) {
+        throw new ValidationError('Unknown authenticator')
+    }
+
+    const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code })
+
+    await logAuditEvent({
+        userId: actor.id,
+        userEmail: actor.email,
+        action: error
+            ? AUDIT_ACTIONS.MFA_FAILED
+            : factor.status === 'unverified' ? AUDIT_ACTIONS.MFA_ENROLLED : AUDIT_ACTIONS.MFA_VERIFIED,
+        resourceType: 'user',
+        resourceId: actor.id,
+        details: { factor_id: factorId, friendly_name: factor.friendly_name || null },
+        request,
+    })
+
+    return !error
+}
+
+/**
+ * Every user whose role opens the admin panel, with whether they enrolled
+ */
+export async function listMfaCoverage(): Promise<MfaCoverageEntry[]> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data: assignments, error } = await supabaseAdmin
+        .from('user_roles')
+        .select('user_id, role')
+
+    if (error) {
+        throw new Error(`Failed to fetch role assignments: ${error.message}`)
+    }
+
+    const privilegedRoles = new Set<string>()
+    for (const role of new Set((assignments || []).map(a => a.role as string))) {
+        if (canAccessAdminPanel(await resolveRolePermissions(role))) {
+            privilegedRoles.add(role)
+        }
+    }
+
+    const privileged = (assignments || []).filter(a => privilegedRoles.has(a.role))
+
+    const entries = await Promise.all(privileged.map(async ({ user_id, role }) => {
+        const [{ data: userData }, { data: factorData }] = await Promise.all([
+            supabaseAdmin.auth.admin.getUserById(user_id),
+            supabaseAdmin.auth.admin.mfa.listFactors({ userId: user_id }),
+        ])
+        const verified = (factorData?.factors || []).filter(f => f.factor_type === 'totp' && f.status === 'verified')
+
+        return {
+            user_id,
+            email: userData?.user?.email || null,
+            role: role as UserRoleType,
+            enrolled: verified.length > 0,
+            factor_count: verified.length,
+            last_sign_in_at: userData?.user?.last_sign_in_at || null,
+        }
+    }))
+
+    // Not enrolled first, then alphabetical
+    return entries.sort((a, b) =>
+        Number(a.enrolled) - Number(b.enrolled) || (a.email || '').localeCompare(b.email || '')
+    )
+}
+
+/**
+ * Remove all of a user's MFA factors (lost phone); they enroll again on next sign-in
+ * Refuses users whose role grants permissions the actor doesn't hold, so
+ * nobody can weaken an account that outranks their own.
+ * Writes an mfa.reset audit event; returns null if the user doesn't exist
+ */
+export async function resetUserMfa({
+    userId,
+    actor,
+    request,
+}: {
+    userId: string
+    actor: Actor
+    request?: Request
+}): Promise<{ removed: number } | null> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data: userData } = await supabaseAdmin.auth.admin.getUserById(userId)
+    if (!userData?.user) {
+        return null
+    }
+
+    const { data: roleRow } = await supabaseAdmin
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', userId)
+        .maybeSingle()
+    const role = (roleRow?.role as UserRoleType) || 'user'
+    assertCanGrant(await resolveRolePermissions(role), actor, `This user's ${role} role grants permissions you don't have`)
+
+    const { data, error } = await supabaseAdmin.auth.admin.mfa.listFactors({ userId })
+    if (error) {
+        throw new Error(`Failed to fetch MFA factors: ${error.message}`)
+    }
+
+    for (const factor of data?.factors || []) {
+        const { error: deleteError } = await supabaseAdmin.auth.admin.mfa.deleteFactor({ userId, id: factor.id })
+        if (deleteError) {
+            throw new Error(`Failed to remove MFA factor: ${deleteError.message}`)
+        }
+    }
+
+    await logAuditEvent({
+        userId: actor.id,
+        userEmail: actor.email,
+        action: AUDIT_ACTIONS.MFA_RESET,
+        resourceType: 'user',
+        resourceId: userId,
+        details: { target_user_email: userData.user.email, removed: data?.factors.length || 0 },
+        request,
+    })
+
+    return { removed: data?.factors.length || 0 }
+}
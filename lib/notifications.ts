@@ -0,0 +1,104 @@
+/**
+ * Admin Notifications
+ * In-app messages for one admin, shown under the bell in the admin panel
+ * header. Written by server jobs (audit alert rules); each user only ever
+ * reads and clears their own
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { AdminNotification, AdminNotificationKind } from '@/types'
+
+const LIST_LIMIT = 20
+
+/**
+ * Notify one user
+ */
+export async function createNotification({
+    userId,
+    kind,
+    title,
+    body,
+    link,
+    ruleId,
+}: {
+    userId: string
+    kind: AdminNotificationKind
+    title: string
+    body?: string | null
+    link?: string | null
+    ruleId?: string | null
+}): Promise<AdminNotification> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data, error } = await supabaseAdmin
+        .from('admin_notifications')
+        .insert({
+            user_id: userId,
+            kind,
+            title,
+            body: body ?? null,
+            link: link ?? null,
+            rule_id: ruleId ?? null,
+        })
+        .select('*')
+        .single()
+
+    if (error || !data) {
+        throw new Error(`Failed to create notification: ${error?.message || 'no row returned'}`)
+    }
+
+    return data as AdminNotification
+}
+
+/**
+ * The user's latest notifications, newest first, and how many are unread
+ */
+export async function listNotifications(userId: string): Promise<{ data: AdminNotification[]; unread: number }> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const [{ data, error }, { count, error: countError }] = await Promise.all([
+        supabaseAdmin
+            .from('admin_notifications')
+            .select('*')
+            .eq('user_id', userId)
+            .order('created_at', { ascending: false })
+            .limit(LIST_LIMIT),
+        supabaseAdmin
+            .from('admin_notifications')
+            .select('id', { count: 'exact', head: true })
+            .eq('user_id', userId)
+            .is('read_at', null),
+    ])
+
+    if (error || countError) {
+        throw new Error(`Failed to fetch notifications: ${(error || countError)?.message}`)
+    }
+
+    return { data: (data || []) as AdminNotification[], unread: count || 0 }
+}
+
+/**
+ * Mark some of the user's notifications read, or all of them without ids
+ * Returns how many were still unread
+ */
+export async function markNotificationsRead(userId: string, ids?: string[]): Promise<number> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    let update = supabaseAdmin
+        .from('admin_notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .is('read_at', null)
+
+    if (ids?.length) {
+        update = update.in('id', ids)
+    }
+
+    const { data, error } = await update.select('id')
+
+    if (error) {
+        throw new Error(`Failed to mark notifications read: ${error.message}`)
+    }
+
+    return data?.length || 0
+}
@@ -0,0 +1,326 @@
+/**
+ * Two-Person Approval
+ * Sensitive admin actions are parked in pending_admin_actions until a
+ * different admin approves them. The route guard creates the rows; the
+ * approvals API replays the original route handler on approval
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { logAuditEvent, AUDIT_ACTIONS } from '@/lib/audit'
+import { ConflictError } from '@/lib/errors'
+import { logger } from '@/lib/logger'
+import { PendingActionStatus, PendingActionType, PendingAdminAction } from '@/types'
+
+type Actor = { id: string; email?: string | null }
+
+const ALL_ACTION_TYPES: PendingActionType[] = [
+    'role.grant_admin',
+    'user.delete',
+    'subscription.revoke',
+    'audit.retention',
+]
+
+/**
+ * Action types that need a second admin
+ * TWO_PERSON_APPROVAL_ACTIONS is a comma-separated list ("none" turns it off);
+ * unset means every supported action
+ */
+function loadApprovalActions(): PendingActionType[] {
+    const configured = process.env.TWO_PERSON_APPROVAL_ACTIONS
+    if (!configured) {
+        return ALL_ACTION_TYPES
+    }
+
+    return configured
+        .split(',')
+        .map(type => type.trim())
+        .filter((type): type is PendingActionType => ALL_ACTION_TYPES.includes(type as PendingActionType))
+}
+
+const APPROVAL_ACTIONS = loadApprovalActions()
+
+// Requests nobody acts on are dropped after this long
+const APPROVAL_TTL_MS = (Number(process.env.APPROVAL_EXPIRY_HOURS) || 24) * 60 * 60 * 1000
+
+export function requiresApproval(type: PendingActionType): boolean {
+    return APPROVAL_ACTIONS.includes(type)
+}
+
+/**
+ * Best-effort label for a user in approval summaries
+ */
+export async function describeUser(userId: string): Promise<string> {
+    const supabaseAdmin = createServiceRoleClient()
+    const { data } = await supabaseAdmin.auth.admin.getUserById(userId)
+    return data?.user?.email || userId
+}
+
+/**
+ * Park a request for approval
+ * Writes an approval.requested audit event
+ */
+export async function createPendingAction({
+    type,
+    summary,
+    method,
+    path,
+    payload,
+    actor,
+    request,
+}: {
+    type: PendingActionType
+    summary: string
+    method: string
+    path: string
+    payload: PendingAdminAction['payload']
+    actor: Actor
+    request?: Request
+}): Promise<PendingAdminAction> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data, error } = await supabaseAdmin
+        .from('pending_admin_actions')
+        .insert({
+            action_type: type,
+            summary,
+            method,
+            path,
+            payload,
+            requested_by: actor.id,
+            requested_by_email: actor.email || null,
+            expires_at: new Date(Date.now() + APPROVAL_TTL_MS).toISOString(),
+        })
+        .select('*')
+        .single()
+
+    if (error || !data) {
+        throw new Error(`Failed to create approval request: ${error?.message || 'no row returned'}`)
+    }
+
+    await logAuditEvent({
+        userId: actor.id,
+        userEmail: actor.email,
+        action: AUDIT_ACTIONS.APPROVAL_REQUESTED,
+        resourceType: 'pending_action',
+        resourceId: data.id,
+        details: { action_type: type, summary },
+        request,
+    })
+
+    return data as PendingAdminAction
+}
+
+/**
+ * List approval requests, newest first
+ * Pending requests past their expiry are left out
+ */
+export async function listPendingActions(status?: PendingActionStatus): Promise<PendingAdminAction[]> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    let query = supabaseAdmin
+        .from('pending_admin_actions')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(100)
+
+    if (status) {
+        query = query.eq('status', status)
+    }
+    if (status === 'pending') {
+        query = query.gt('expires_at', new Date().toISOString())
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+        throw new Error(`Failed to fetch approval requests: ${error.message}`)
+    }
+
+    return (data as PendingAdminAction[]) || []
+}
+
+/**
+ * Atomically move a pending request to approved so it runs at most once
+ * Returns null if not found; the caller then replays the original handler
+ */
+export async function claimPendingAction({
+    id,
+    approver,
+    note,
+}: {
+    id: string
+    approver: Actor
+    note?: string | null
+}): Promise<PendingAdminAction | null> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data: existing, error: fetchError } = await supabaseAdmin
+        .from('pending_admin_actions')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle()
+
+    if (fetchError) {
+        throw new Error(`Failed to fetch approval request: ${fetchError.message}`)
+    }
+    if (!existing) {
+        return null
+    }
+
+    assertDecidable(existing as PendingAdminAction, approver)
+
+    const { data, error } = await supabaseAdmin
+        .from('pending_admin_actions')
+        .update({
+            status: 'approved',
+            decided_by: approver.id,
+            decided_by_email: approver.email || null,
+            decided_at: new Date().toISOString(),
+            decision_note: note || null,
+        })
+        .eq('id', id)
+        .eq('status', 'pending')
+        .select('*')
+        .maybeSingle()
+
+    if (error) {
+        throw new Error(`Failed to approve request: ${error.message}`)
+    }
+    if (!data) {
+        throw new ConflictError('This request has already been decided')
+    }
+
+    return data as PendingAdminAction
+}
+
+/**
+ * Record how the replayed handler went
+ * Writes an approval.approved audit event carrying the outcome
+ */
+export async function completePendingAction({
+    action,
+    succeeded,
+    result,
+    approver,
+    request,
+}: {
+    action: PendingAdminAction
+    succeeded: boolean
+    result: Record<string, any> | null
+    approver: Actor
+    request?: Request
+}): Promise<PendingAdminAction> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data, error } = await supabaseAdmin
+        .from('pending_admin_actions')
+        .update({
+            status: succeeded ? 'approved' : 'failed',
+            result,
+        })
+        .eq('id', action.id)
+        .select('*')
+        .single()
+
+    if (error || !data) {
+        logger.error('Failed to record approval outcome', { approval_id: action.id, error })
+    }
+
+    await logAuditEvent({
+        userId: approver.id,
+        userEmail: approver.email,
+        action: AUDIT_ACTIONS.APPROVAL_APPROVED,
+        resourceType: 'pending_action',
+        resourceId: action.id,
+        details: {
+            action_type: action.action_type,
+            summary: action.summary,
+            requested_by: action.requested_by,
+            requested_by_email: action.requested_by_email,
+            outcome: succeeded ? 'executed' : 'failed',
+            result,
+        },
+        request,
+    })
+
+    return (data as PendingAdminAction) || { ...action, status: succeeded ? 'approved' : 'failed', result }
+}
+
+/**
+ * Reject a pending request
+ * Writes an approval.rejected audit event; returns null if not found
+ */
+export async function rejectPendingAction({
+    id,
+    actor,
+    note,
+    request,
+}: {
+    id: string
+    actor: Actor
+    note?: string | null
+    request?: Request
+}): Promise<PendingAdminAction | null> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data, error } = await supabaseAdmin
+        .from('pending_admin_actions')
+        .update({
+            status: 'rejected',
+            decided_by: actor.id,
+            decided_by_email: actor.email || null,
+            decided_at: new Date().toISOString(),
+            decision_note: note || null,
+        })
+        .eq('id', id)
+        .eq('status', 'pending')
+        .select('*')
+        .maybeSingle()
+
+    if (error) {
+        throw new Error(`Failed to reject request: ${error.message}`)
+    }
+
+    if (!data) {
+        const { data: existing } = await supabaseAdmin
+            .from('pending_admin_actions')
+            .select('id')
+            .eq('id', id)
+            .maybeSingle()
+
+        if (existing) {
+            throw new ConflictError('This request has already been decided')
+        }
+        return null
+    }
+
+    await logAuditEvent({
+        userId: actor.id,
+        userEmail: actor.email,
+        action: AUDIT_ACTIONS.APPROVAL_REJECTED,
+        resourceType: 'pending_action',
+        resourceId: id,
+        details: {
+            action_type: data.action_type,
+            summary: data.summary,
+            requested_by: data.requested_by,
+            requested_by_email: data.requested_by_email,
+            note: note || null,
+        },
+        request,
+    })
+
+    return data as PendingAdminAction
+}
+
+function assertDecidable(action: PendingAdminAction, approver: Actor): void {
+    if (action.status !== 'pending') {
+        throw new ConflictError('This request has already been decided')
+    }
+    if (new Date(action.expires_at).getTime() <= Date.now()) {
+        throw new ConflictError('This request has expired; ask for it to be submitted again')
+    }
+    if (action.requested_by === approver.id) {
+        throw new ConflictError('A different admin must approve this request')
+    }
+}
@@ -0,0 +1,88 @@
+/**
+ * Permission Catalog
+ * Every admin capability a role can grant. Shared by the API route guard
+ * and the admin UI, so it must stay free of server imports; role-to-permission
+ * assignments live in the roles table (see lib/roles.ts)
+ */
+
+import { Permission, SystemRoleType } from '@/types'
+
+export const PERMISSIONS = {
+    DASHBOARD_VIEW: 'dashboard.view' as Permission,
+
+    // Users
+    USERS_READ: 'users.read' as Permission,
+    USERS_SUSPEND: 'users.suspend' as Permission,
+    USERS_DELETE: 'users.delete' as Permission,
+    USERS_IMPERSONATE: 'users.impersonate' as Permission,
+    ROLES_ASSIGN: 'roles.assign' as Permission,
+    ROLES_MANAGE: 'roles.manage' as Permission,
+
+    // Access requests
+    REQUESTS_APPROVE: 'requests.approve' as Permission,
+
+    // Credits & subscriptions
+    CREDITS_READ: 'credits.read' as Permission,
+    CREDITS_MANAGE: 'credits.manage' as Permission,
+
+    // Audit logs
+    AUDIT_READ: 'audit.read' as Permission,
+    AUDIT_PURGE: 'audit.purge' as Permission,
+
+    // IP blocks & account lockouts
+    SECURITY_MANAGE: 'security.manage' as Permission,
+
+    // Two-person approvals
+    APPROVALS_REVIEW: 'approvals.review' as Permission,
+} as const
+
+export const ALL_PERMISSIONS: Permission[] = Object.values(PERMISSIONS)
+
+/**
+ * Human-readable descriptions for the roles editor
+ */
+export const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+    'dashboard.view': 'View the admin dashboard and statistics',
+    'users.read': 'View the user list',
+    'users.suspend': 'Suspend and restore users',
+    'users.delete': 'Delete users',
+    'users.impersonate': 'View the app as a user (read-only, time-limited)',
+    'roles.assign': 'Change which role a user has',
+    'roles.manage': 'Create, edit and delete roles',
+    'requests.approve': 'Approve and reject access requests',
+    'credits.read': 'View credit usage',
+    'credits.manage': 'Revoke subscriptions',
+    'audit.read': 'View audit logs',
+    'audit.purge': 'Manage audit log retention',
+    'security.manage': 'Manage IP blocks and locked accounts',
+    'approvals.review': 'Approve or reject actions another admin requested',
+}
+
+/**
+ * Built-in role defaults
+ * The roles table is seeded with these; they are also the fallback when
+ * it can't be read. Admin always holds the full catalog
+ */
+export const SYSTEM_ROLE_PERMISSIONS: Record<SystemRoleType, Permission[]> = {
+    user: [],
+    mod: [
+        PERMISSIONS.DASHBOARD_VIEW,
+        PERMISSIONS.USERS_READ,
+        PERMISSIONS.USERS_SUSPEND,
+        PERMISSIONS.REQUESTS_APPROVE,
+        PERMISSIONS.CREDITS_READ,
+        PERMISSIONS.AUDIT_READ,
+    ],
+    admin: ALL_PERMISSIONS,
+}
+
+export function isSystemRole(role: string): role is SystemRoleType {
+    return Object.prototype.hasOwnProperty.call(SYSTEM_ROLE_PERMISSIONS, role)
+}
+
+/**
+ * Check if a permission set allows entering the admin panel at all
+ */
+export function canAccessAdminPanel(permissions: Permission[]): boolean {
+    return permissions.length > 0
+}
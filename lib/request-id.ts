@@ -0,0 +1,35 @@
+/**
+ * Request Correlation IDs
+ * Every request gets an X-Request-Id: the caller's own if it sends a sane
+ * one, otherwise a fresh UUID from the proxy. The proxy forwards it to route
+ * handlers and echoes it on the response; audit entries, server logs and
+ * error bodies carry it so one ID finds everything a request did
+ */
+
+export const REQUEST_ID_HEADER = 'x-request-id'
+
+// Letters, digits and . _ : - only, so a caller can't inject into logs
+export const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{8,128}$/
+
+// IDs minted so far, so every caller holding the same Request sees the same
+// one (the proxy and the checks it runs, or a handler the proxy didn't front)
+const assignedIds = new WeakMap<Request, string>()
+
+/**
+ * The incoming ID if it is well formed, otherwise a new one
+ */
+function acceptRequestId(value: string | null | undefined): string {
+    return value && REQUEST_ID_PATTERN.test(value) ? value : crypto.randomUUID()
+}
+
+/**
+ * The correlation ID of a request, minted on first use if it has none
+ */
+export function getRequestId(request: Request): string {
+    let id = assignedIds.get(request)
+    if (!id) {
+        id = acceptRequestId(request.headers.get(REQUEST_ID_HEADER))
+        assignedIds.set(request, id)
+    }
+    return id
+}
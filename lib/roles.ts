@@ -0,0 +1,339 @@
+/**
+ * Role Definitions
+ * Roles are named bundles of permissions stored in the roles table.
+ * The built-in user/mod/admin roles are seeded by migration and can't be removed
+ */
+
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { logAuditEvent, AUDIT_ACTIONS } from '@/lib/audit'
+import { auditChange } from '@/lib/audit-details'
+import { ConflictError, ForbiddenError } from '@/lib/errors'
+import { logger } from '@/lib/logger'
+import { ALL_PERMISSIONS, SYSTEM_ROLE_PERMISSIONS, isSystemRole } from '@/lib/permissions'
+import { Permission, Role } from '@/types'
+
+type Actor = { id: string; email?: string | null; permissions: Permission[] } | null | undefined
+
+// ============================================================================
+// PERMISSION RESOLUTION
+// ============================================================================
+
+// Role permissions are cached per instance; edits invalidate the local
+// cache and other instances pick them up on refresh
+const CACHE_TTL_MS = 60 * 1000
+
+let cachedPermissions = new Map<string, Permission[]>()
+let cacheLoadedAt = 0
+
+async function loadRolePermissions(): Promise<Map<string, Permission[]>> {
+    const now = Date.now()
+    if (now - cacheLoadedAt < CACHE_TTL_MS) {
+        return cachedPermissions
+    }
+
+    try {
+        const supabaseAdmin = createServiceRoleClient()
+        const { data, error } = await supabaseAdmin
+            .from('roles')
+            .select('name, permissions')
+
+        if (error) {
+            throw new Error(error.message)
+        }
+
+        cachedPermissions = new Map(
+            (data || []).map(row => [row.name as string, (row.permissions || []) as Permission[]])
+        )
+    } catch (error) {
+        // Keep serving the last known roles; system roles fall back to defaults
+        logger.error('Failed to load role permissions', { error })
+    }
+
+    cacheLoadedAt = now
+    return cachedPermissions
+}
+
+function invalidateRoleCache(): void {
+    cacheLoadedAt = 0
+}
+
+/**
+ * Resolve the permissions granted by a role name
+ * Unknown roles grant nothing; admin always holds the full catalog
+ */
+export async function resolveRolePermissions(role: string): Promise<Permission[]> {
+    if (role === 'admin') {
+        return ALL_PERMISSIONS
+    }
+
+    const roles = await loadRolePermissions()
+    const permissions = roles.get(role) ?? (isSystemRole(role) ? SYSTEM_ROLE_PERMISSIONS[role] : [])
+
+    // Ignore anything that has since been dropped from the catalog
+    return permissions.filter(permission => ALL_PERMISSIONS.includes(permission))
+}
+
+// ============================================================================
+// ROLE MANAGEMENT
+// ============================================================================
+
+/**
+ * Refuse permissions the actor doesn't hold, so managing or assigning roles
+ * can never hand out more than the actor's own role grants
+ */
+export function assertCanGrant(
+    permissions: Permission[],
+    actor: Actor,
+    message = "A role can't include permissions you don't have"
+): void {
+    const notHeld = permissions.filter(permission => !actor?.permissions.includes(permission))
+    if (notHeld.length > 0) {
+        throw new ForbiddenError(`${message}: ${notHeld.join(', ')}`)
+    }
+}
+
+/**
+ * List all roles with the number of users holding each
+ */
+export async function listRoles(): Promise<Role[]> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const [{ data: roles, error }, { data: assignments, error: assignmentsError }] = await Promise.all([
+        supabaseAdmin.from('roles').select('*').order('is_system', { ascending: false }).order('name'),
+        supabaseAdmin.from('user_roles').select('role'),
+    ])
+
+    if (error) {
+        throw new Error(`Failed to fetch roles: ${error.message}`)
+    }
+    if (assignmentsError) {
+        throw new Error(`Failed to fetch role assignments: ${assignmentsError.message}`)
+    }
+
+    const counts = new Map<string, number>()
+    for (const assignment of assignments || []) {
+        counts.set(assignment.role, (counts.get(assignment.role) || 0) + 1)
+    }
+
+    return ((roles as Role[]) || []).map(role => ({
+        ...role,
+        user_count: counts.get(role.name) || 0,
+    }))
+}
+
+/**
+ * Check whether a role with this name exists
+ */
+export async function roleExists(name: string): Promise<boolean> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data, error } = await supabaseAdmin
+        .from('roles')
+        .select('id')
+        .eq('name', name)
+        .maybeSingle()
+
+    if (error) {
+        throw new Error(`Failed to look up role: ${error.message}`)
+    }
+
+    return !!data
+}
+
+/**
+ * Create a custom role with permissions the actor holds
+ * Writes a role.created audit event
+ */
+export async function createRole({
+    name,
+    description,
+    permissions,
+    actor,
+    request,
+}: {
+    name: string
+    description?: string | null
+    permissions: Permission[]
+    actor?: Actor
+    request?: Request
+}): Promise<Role> {
+    assertCanGrant(permissions, actor)
+
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data, error } = await supabaseAdmin
+        .from('roles')
+        .insert({
+            name,
+            description: description || null,
+            permissions: Array.from(new Set(permissions)),
+            is_system: false,
+        })
+        .select('*')
+        .single()
+
+    if (error?.code === '23505') {
+        throw new ConflictError(`A role named "${name}" already exists`)
+    }
+    if (error || !data) {
+        throw new Error(`Failed to create role: ${error?.message || 'no row returned'}`)
+    }
+
+    invalidateRoleCache()
+
+    await logAuditEvent({
+        userId: actor?.id,
+        userEmail: actor?.email,
+        action: AUDIT_ACTIONS.ROLE_CREATED,
+        resourceType: 'role',
+        resourceId: data.id,
+        details: { name, permissions },
+        request,
+    })
+
+    return data as Role
+}
+
+/**
+ * Update a role's description and permissions
+ * The new permissions must all be held by the actor. Writes a
+ * role.permissions_changed audit event; returns null if not found
+ */
+export async function updateRole({
+    id,
+    description,
+    permissions,
+    actor,
+    request,
+}: {
+    id: string
+    description?: string | null
+    permissions?: Permission[]
+    actor?: Actor
+    request?: Request
+}): Promise<Role | null> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data: existing, error: fetchError } = await supabaseAdmin
+        .from('roles')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle()
+
+    if (fetchError) {
+        throw new Error(`Failed to fetch role: ${fetchError.message}`)
+    }
+    if (!existing) {
+        return null
+    }
+
+    if (existing.name === 'admin' && permissions) {
+        throw new ConflictError('The admin role always has every permission')
+    }
+    if (permissions) {
+        assertCanGrant(permissions, actor)
+    }
+
+    const updates: Record<string, any> = { updated_at: new Date().toISOString() }
+    if (description !== undefined) updates.description = description || null
+    if (permissions) updates.permissions = Array.from(new Set(permissions))
+
+    const { data, error } = await supabaseAdmin
+        .from('roles')
+        .update(updates)
+        .eq('id', id)
+        .select('*')
+        .single()
+
+    if (error || !data) {
+        throw new Error(`Failed to update role: ${error?.message || 'no row returned'}`)
+    }
+
+    invalidateRoleCache()
+
+    await logAuditEvent({
+        userId: actor?.id,
+        userEmail: actor?.email,
+        action: AUDIT_ACTIONS.ROLE_PERMISSIONS_CHANGED,
+        resourceType: 'role',
+        resourceId: id,
+        details: {
+            name: existing.name,
+            changes: auditChange(
+                { description: existing.description ?? null, permissions: [...(existing.permissions || [])].sort() },
+                { description: data.description ?? null, permissions: [...(data.permissions || [])].sort() }
+            ),
+        },
+        request,
+    })
+
+    return data as Role
+}
+
+/**
+ * Delete a custom role that no user holds
+ * Writes a role.deleted audit event; returns null if not found
+ */
+export async function deleteRole({
+    id,
+    actor,
+    request,
+}: {
+    id: string
+    actor?: Actor
+    request?: Request
+}): Promise<Role | null> {
+    const supabaseAdmin = createServiceRoleClient()
+
+    const { data: existing, error: fetchError } = await supabaseAdmin
+        .from('roles')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle()
+
+    if (fetchError) {
+        throw new Error(`Failed to fetch role: ${fetchError.message}`)
+    }
+    if (!existing) {
+        return null
+    }
+
+    if (existing.is_system) {
+        throw new ConflictError('Built-in roles cannot be deleted')
+    }
+
+    const { count, error: countError } = await supabaseAdmin
+        .from('user_roles')
+        .select('id', { count: 'exact', head: true })
+        .eq('role', existing.name)
+
+    if (countError) {
+        throw new Error(`Failed to check role assignments: ${countError.message}`)
+    }
+    if (count) {
+        throw new ConflictError(`Role is assigned to ${count} ${count === 1 ? 'user' : 'users'}; reassign them first`)
+    }
+
+    const { error } = await supabaseAdmin
+        .from('roles')
+        .delete()
+        .eq('id', id)
+
+    if (error) {
+        throw new Error(`Failed to delete role: ${error.message}`)
+    }
+
+    invalidateRoleCache()
+
+    await logAuditEvent({
+        userId: actor?.id,
+        userEmail: actor?.email,
+        action: AUDIT_ACTIONS.ROLE_DELETED,
+        resourceType: 'role',
+        resourceId: id,
+        details: { name: existing.name, permissions: existing.permissions },
+        request,
+    })
+
+    return existing as Role
+}
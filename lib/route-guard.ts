@@ -0,0 +1,322 @@
+/**
+ * Admin Route Guard
+ * Wraps app/api/admin route handlers: resolves the acting user once,
+ * enforces the required permission, validates params/query/body with Zod and
+ * maps thrown errors to a uniform ApiResponse error envelope. Routes
+ * marked for two-person approval are parked instead of run (lib/pending-actions);
+ * destructive ones can demand a recent re-authentication (lib/step-up).
+ * Privileged actors must have passed MFA this session (lib/mfa). Scripts can
+ * authenticate with a scoped API token instead of a session (lib/api-tokens);
+ * every token call is audited. Error bodies and server logs carry the
+ * request's correlation ID (lib/request-id); everything logged while the
+ * handler runs is tagged with the request and actor (lib/logger)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { AdminActor, getCurrentActor } from '@/lib/admin'
+import { authenticateApiToken, getBearerToken } from '@/lib/api-tokens'
+import { logAuditEvent, AUDIT_ACTIONS } from '@/lib/audit'
+import { ApiError, ForbiddenError, UnauthorizedError, ValidationError } from '@/lib/errors'
+import { assertMfaSatisfied } from '@/lib/mfa'
+import { addLogContext, logger, requestLogFields, runWithLogContext } from '@/lib/logger'
+import { createPendingAction, requiresApproval } from '@/lib/pending-actions'
+import { getRequestId } from '@/lib/request-id'
+import { RateLimitConfig, isRateLimited } from '@/lib/security'
+import { assertRecentStepUp } from '@/lib/step-up'
+import { validateInput } from '@/lib/validations'
+import { ApiResponse, AuditAction, PendingActionType, PendingAdminAction, Permission } from '@/types'
+
+type AuditEventInput = Parameters<typeof logAuditEvent>[0]
+
+export interface AdminRouteContext<TBody, TParams, TQuery> {
+    request: NextRequest
+    requestId: string             // X-Request-Id, also stamped on audit entries
+    actor: AdminActor
+    body: TBody
+    params: TParams
+    query: TQuery
+    // Merged into the declarative audit event when the handler succeeds
+    auditDetails: Record<string, any>
+    // Log an audit event with the actor and request already filled in
+    logAudit: (event: Omit<AuditEventInput, 'userId' | 'userEmail' | 'request'>) => Promise<void>
+    // Set when the handler is replaying a request a second admin approved
+    approval: PendingAdminAction | null
+}
+
+type ContextFor<TBody extends z.ZodType, TParams extends z.ZodType, TQuery extends z.ZodType> =
+    AdminRouteContext<z.infer<TBody>, z.infer<TParams>, z.infer<TQuery>>
+
+export interface AdminRouteOptions<
+    TBody extends z.ZodType,
+    TParams extends z.ZodType,
+    TQuery extends z.ZodType,
+> {
+    permission?: Permission | Permission[]  // Required permission (any of, for a list)
+    // A further permission this particular request needs, decided from its
+    // input; checked before the request can be parked for approval
+    requires?: (ctx: ContextFor<TBody, TParams, TQuery>) => Permission | null
+    allowAnyUser?: boolean        // Skip the permission check; any signed-in user passes (not API tokens)
+    allowWithoutMfa?: boolean     // Reachable before MFA is passed (enrollment, access check)
+    schema?: TBody                // JSON body schema
+    params?: TParams              // Dynamic route segment schema
+    query?: TQuery                // Search params schema (values arrive as strings)
+    rateLimit?: RateLimitConfig   // Per-actor limit on top of the per-IP proxy limit
+    audit?: {
+        action: AuditAction | ((ctx: ContextFor<TBody, TParams, TQuery>) => AuditAction)
+        resourceType?: string
+        resourceId?: (ctx: ContextFor<TBody, TParams, TQuery>) => string | undefined
+    }
+    // Require a recent password/TOTP re-entry (always, or when the predicate says so)
+    stepUp?: boolean | ((ctx: ContextFor<TBody, TParams, TQuery>) => boolean)
+    approval?: {                  // Hold for a second admin when this action type is configured
+        action: PendingActionType
+        when?: (ctx: ContextFor<TBody, TParams, TQuery>) => boolean
+        summary: (ctx: ContextFor<TBody, TParams, TQuery>) => string | Promise<string>
+    }
+    errorMessage?: string         // Fallback message for unexpected errors
+}
+
+type RouteSegment = { params: Promise<Record<string, string | string[] | undefined>> }
+
+export type AdminRouteHandler = ((request: NextRequest, segment?: RouteSegment) => Promise<NextResponse>) & {
+    // Run an approved pending action through the original handler
+    replay: (request: NextRequest, segment: RouteSegment, approval: PendingAdminAction) => Promise<NextResponse>
+}
+
+/**
+ * Build an error response in the ApiResponse envelope
+ * Pass the request ID so a user reporting the error can quote it. Anything
+ * that isn't an ApiError answers with the fallback message, since its own
+ * text may be Supabase or Postgres internals: log it before calling this
+ */
+export function apiErrorResponse(
+    error: unknown,
+    fallbackMessage = 'Internal server error',
+    requestId?: string
+): NextResponse<ApiResponse> {
+    if (error instanceof ApiError) {
+        return NextResponse.json(
+            { error: error.message, code: error.code, details: error.details, data: error.data, request_id: requestId },
+            { status: error.status }
+        )
+    }
+
+    return NextResponse.json({ error: fallbackMessage, code: 'internal_error', request_id: requestId }, { status: 500 })
+}
+
+function parseOrThrow<T extends z.ZodType>(schema: T, data: unknown, label: string): z.infer<T> {
+    const validation = validateInput(schema, data)
+    if (!validation.success) {
+        throw new ValidationError(
+            label,
+            validation.errors.map(err => ({
+                field: err.path.join('.'),
+                message: err.message,
+            }))
+        )
+    }
+    return validation.data
+}
+
+async function readJsonBody(request: NextRequest): Promise<unknown> {
+    try {
+        return await request.json()
+    } catch {
+        throw new ValidationError('Request body must be valid JSON')
+    }
+}
+
+/**
+ * Wrap an admin API route handler
+ *
+ * export const POST = withAdminRoute(
+ *     { permission: PERMISSIONS.ROLES_ASSIGN, params: userIdParamsSchema, schema: updateUserRoleSchema },
+ *     async ({ actor, params, body }) => { ... }
+ * )
+ */
+export function withAdminRoute<
+    TBody extends z.ZodType = z.ZodUndefined,
+    TParams extends z.ZodType = z.ZodUndefined,
+    TQuery extends z.ZodType = z.ZodUndefined,
+>(
+    options: AdminRouteOptions<TBody, TParams, TQuery>,
+    handler: (ctx: ContextFor<TBody, TParams, TQuery>) => Promise<NextResponse>
+): AdminRouteHandler {
+    // Fail at import time rather than ship a route nobody meant to open up
+    if (!options.permission && !options.allowAnyUser) {
+        throw new Error('withAdminRoute requires a permission (or allowAnyUser)')
+    }
+
+    const execute = async (
+        request: NextRequest,
+        segment: RouteSegment | undefined,
+        approval: PendingAdminAction | null,
+        resolved: { actor?: AdminActor }
+    ): Promise<NextResponse> => {
+        const requestId = getRequestId(request)
+
+        try {
+            const bearerToken = getBearerToken(request)
+            const actor = bearerToken
+                ? await authenticateApiToken(bearerToken, request)
+                : await getCurrentActor()
+            if (!actor) {
+                throw new UnauthorizedError(bearerToken ? 'Invalid or expired API token' : undefined)
+            }
+            resolved.actor = actor
+            addLogContext({ actor_id: actor.id, api_token_id: actor.apiTokenId })
+
+            if (actor.apiTokenId) {
+                // Personal endpoints (MFA, step-up, token management) need a real session
+                if (options.allowAnyUser) {
+                    throw new ForbiddenError('This endpoint cannot be called with an API token')
+                }
+            } else if (!options.allowWithoutMfa) {
+                await assertMfaSatisfied(actor)
+            }
+
+            if (options.permission) {
+                const required = Array.isArray(options.permission) ? options.permission : [options.permission]
+                if (!required.some(permission => actor.permissions.includes(permission))) {
+                    throw new ForbiddenError(`Missing permission: ${required.join(' or ')}`)
+                }
+            }
+
+            if (options.rateLimit) {
+                const result = await isRateLimited(`admin:${actor.id}:${request.nextUrl.pathname}`, options.rateLimit)
+                if (result.limited) {
+                    const retryAfter = Math.ceil((result.resetTime - Date.now()) / 1000)
+                    return NextResponse.json(
+                        { error: 'Too many requests', message: `Rate limit exceeded. Try again in ${retryAfter} seconds.`, code: 'rate_limited', request_id: requestId },
+                        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+                    )
+                }
+            }
+
+            const params = options.params
+                ? parseOrThrow(options.params, await segment?.params, 'Invalid route parameters')
+                : undefined
+            const query = options.query
+                ? parseOrThrow(options.query, Object.fromEntries(request.nextUrl.searchParams), 'Invalid query parameters')
+                : undefined
+            const body = options.schema
+                ? parseOrThrow(options.schema, await readJsonBody(request), 'Validation failed')
+                : undefined
+
+            const ctx: ContextFor<TBody, TParams, TQuery> = {
+                request,
+                requestId,
+                actor,
+                // Without a schema the type parameter defaults to ZodUndefined
+                body: body as z.infer<TBody>,
+                params: params as z.infer<TParams>,
+                query: query as z.infer<TQuery>,
+                auditDetails: {},
+                logAudit: (event) => logAuditEvent({
+                    ...event,
+                    userId: actor.id,
+                    userEmail: actor.email,
+                    request,
+                }),
+                approval,
+            }
+
+            const extra = options.requires?.(ctx)
+            if (extra && !actor.permissions.includes(extra)) {
+                throw new ForbiddenError(`Missing permission: ${extra}`)
+            }
+
+            // A token can't step up, so it can't make calls that need it
+            const stepUp = typeof options.stepUp === 'function' ? options.stepUp(ctx) : options.stepUp
+            if (stepUp && actor.apiTokenId) {
+                throw new ForbiddenError('This action cannot be performed with an API token')
+            }
+            // Approved replays were stepped up when the approver confirmed them
+            if (stepUp && !approval) {
+                await assertRecentStepUp(actor)
+            }
+
+            if (
+                options.approval &&
+                !approval &&
+                requiresApproval(options.approval.action) &&
+                (options.approval.when ? options.approval.when(ctx) : true)
+            ) {
+                const pending = await createPendingAction({
+                    type: options.approval.action,
+                    summary: await options.approval.summary(ctx),
+                    method: request.method,
+                    path: request.nextUrl.pathname + request.nextUrl.search,
+                    payload: {
+                        params: await segment?.params,
+                        body,
+                    },
+                    actor,
+                    request,
+                })
+
+                return NextResponse.json(
+                    {
+                        message: 'This action needs approval from another admin',
+                        code: 'approval_required',
+                        data: pending,
+                    },
+                    { status: 202 }
+                )
+            }
+
+            const response = await handler(ctx)
+
+            if (approval) {
+                ctx.auditDetails.approval_id = approval.id
+                ctx.auditDetails.requested_by_email = approval.requested_by_email
+            }
+
+            if (options.audit && response.status < 400) {
+                await ctx.logAudit({
+                    action: typeof options.audit.action === 'function' ? options.audit.action(ctx) : options.audit.action,
+                    resourceType: options.audit.resourceType,
+                    resourceId: options.audit.resourceId?.(ctx),
+                    details: ctx.auditDetails,
+                })
+            }
+
+            return response
+        } catch (error) {
+            if (!(error instanceof ApiError)) {
+                logger.error('Admin API request failed', { error })
+            }
+            return apiErrorResponse(error, options.errorMessage, requestId)
+        }
+    }
+
+    // Token calls are audited whatever the outcome, refusals included
+    const run = (
+        request: NextRequest,
+        segment: RouteSegment | undefined,
+        approval: PendingAdminAction | null
+    ): Promise<NextResponse> => runWithLogContext(requestLogFields(request), async () => {
+        const resolved: { actor?: AdminActor } = {}
+        const response = await execute(request, segment, approval, resolved)
+
+        if (resolved.actor?.apiTokenId) {
+            await logAuditEvent({
+                userId: resolved.actor.id,
+                userEmail: resolved.actor.email,
+                action: AUDIT_ACTIONS.API_TOKEN_USED,
+                resourceType: 'api_token',
+                resourceId: resolved.actor.apiTokenId,
+                details: { method: request.method, path: request.nextUrl.pathname, status: response.status },
+                request,
+            })
+        }
+
+        return response
+    })
+
+    return Object.assign(
+        (request: NextRequest, segment?: RouteSegment) => run(request, segment, null),
+        { replay: (request: NextRequest, segment: RouteSegment, approval: PendingAdminAction) => run(request, segment, approval) }
+    )
+}
@@ -0,0 +1,64 @@
+/**
+ * Security Store
+ * Selects the storage backend for rate limiting and IP blocking from env config
+ *
+ * SECURITY_STORE=memory   (default) in-process Maps
+ * SECURITY_STORE=supabase security_counters / ip_blocks tables
+ * SECURITY_STORE=redis    Redis-protocol server at SECURITY_REDIS_URL
+ */
+
+import { MemorySecurityStore } from './memory'
+import { RedisSecurityStore } from './redis'
+import { SupabaseSecurityStore } from './supabase'
+import { SecurityStore, SecurityStoreBackend } from './types'
+
+export type { CounterEntry, IncrementOptions, SecurityStore, SecurityStoreBackend } from './types'
+export { MemorySecurityStore, RedisSecurityStore, SupabaseSecurityStore }
+
+let store: SecurityStore | null = null
+
+function envMs(name: string): number | undefined {
+    const value = Number(process.env[name])
+    return Number.isFinite(value) && value > 0 ? value : undefined
+}
+
+/**
+ * Create a security store for the given backend
+ */
+export function createSecurityStore(backend: SecurityStoreBackend): SecurityStore {
+    switch (backend) {
+        case 'supabase':
+            return new SupabaseSecurityStore()
+        case 'redis':
+            return new RedisSecurityStore(
+                process.env.SECURITY_REDIS_URL || 'redis://127.0.0.1:6379',
+                process.env.SECURITY_REDIS_PREFIX || 'security:',
+                {
+                    connectMs: envMs('SECURITY_REDIS_CONNECT_TIMEOUT_MS'),
+                    commandMs: envMs('SECURITY_REDIS_COMMAND_TIMEOUT_MS'),
+                }
+            )
+        case 'memory':
+            return new MemorySecurityStore()
+        default:
+            throw new Error(`Unknown security store backend: ${backend}`)
+    }
+}
+
+/**
+ * Get the shared security store configured by SECURITY_STORE
+ */
+export function getSecurityStore(): SecurityStore {
+    if (!store) {
+        const backend = (process.env.SECURITY_STORE || 'memory') as SecurityStoreBackend
+        store = createSecurityStore(backend)
+    }
+    return store
+}
+
+/**
+ * Replace the shared security store (e.g. to point at a local stand-in)
+ */
+export function setSecurityStore(next: SecurityStore): void {
+    store = next
+}
@@ -0,0 +1,91 @@
+import { CounterEntry, IncrementOptions, SecurityStore } from './types'
+
+/**
+ * In-process security store
+ * State lives in process memory, so it is lost on restart and is not
+ * shared between instances. Suitable for local development and single
+ * instance deployments.
+ */
+export class MemorySecurityStore implements SecurityStore {
+    private counters = new Map<string, CounterEntry>()
+    private blocks = new Map<string, number | null>() // ip -> expiry (null = permanent)
+
+    constructor() {
+        // Periodically clean up expired entries (every 5 minutes)
+        if (typeof setInterval !== 'undefined') {
+            const timer = setInterval(() => this.cleanup(), 5 * 60 * 1000)
+            // Don't keep the process alive just for cleanup
+            if (typeof timer === 'object' && 'unref' in timer) {
+                timer.unref()
+            }
+        }
+    }
+
+    async increment(key: string, ttlMs: number, options?: IncrementOptions): Promise<CounterEntry> {
+        const now = Date.now()
+        const existing = this.counters.get(key)
+
+        // If no entry or window expired, create new entry
+        if (!existing || now > existing.expiresAt) {
+            const entry = { count: 1, expiresAt: now + ttlMs }
+            this.counters.set(key, entry)
+            return { ...entry }
+        }
+
+        existing.count++
+        if (options?.extendTtl) {
+            existing.expiresAt = now + ttlMs
+        }
+        return { ...existing }
+    }
+
+    async getCounter(key: string): Promise<CounterEntry | null> {
+        const entry = this.counters.get(key)
+        if (!entry || Date.now() > entry.expiresAt) {
+            return null
+        }
+        return { ...entry }
+    }
+
+    async deleteCounter(key: string): Promise<void> {
+        this.counters.delete(key)
+    }
+
+    async addBlock(ip: string, ttlMs?: number): Promise<void> {
+        this.blocks.set(ip, ttlMs ? Date.now() + ttlMs : null)
+    }
+
+    async removeBlock(ip: string): Promise<void> {
+        this.blocks.delete(ip)
+    }
+
+    async isBlocked(ip: string): Promise<boolean> {
+        if (!this.blocks.has(ip)) {
+            return false
+        }
+
+        const expiresAt = this.blocks.get(ip)
+        if (expiresAt && Date.now() > expiresAt) {
+            this.blocks.delete(ip)
+            return false
+        }
+
+        return true
+    }
+
+    private cleanup(): void {
+        const now = Date.now()
+
+        for (const [key, entry] of this.counters.entries()) {
+            if (now > entry.expiresAt) {
+                this.counters.delete(key)
+            }
+        }
+
+        for (const [ip, expiresAt] of this.blocks.entries()) {
+            if (expiresAt && now > expiresAt) {
+                this.blocks.delete(ip)
+            }
+        }
+    }
+}
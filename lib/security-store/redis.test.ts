@@ -0,0 +1,147 @@
+import assert from 'node:assert/strict'
+import net from 'node:net'
+import { after, describe, it } from 'node:test'
+import { RedisSecurityStore } from './redis'
+
+/**
+ * Local stand-in for a Redis server
+ * Implements just the commands the store sends; `hang` stops it replying
+ */
+function startStandIn(): Promise<{ url: string; hang: (value: boolean) => void; close: () => void }> {
+    const data = new Map<string, { value: string; expiresAt: number | null }>()
+    const sockets = new Set<net.Socket>()
+    let hanging = false
+
+    const live = (key: string) => {
+        const entry = data.get(key)
+        if (entry?.expiresAt && entry.expiresAt <= Date.now()) {
+            data.delete(key)
+            return undefined
+        }
+        return entry
+    }
+
+    const run = ([name, ...args]: string[]): string => {
+        switch (name.toUpperCase()) {
+            case 'AUTH':
+            case 'SELECT':
+                return '+OK\r\n'
+            case 'SET': {
+                const [key, value, ...flags] = args
+                if (flags.includes('NX') && live(key)) return '$-1\r\n'
+                const px = flags.indexOf('PX')
+                data.set(key, { value, expiresAt: px === -1 ? null : Date.now() + Number(flags[px + 1]) })
+                return '+OK\r\n'
+            }
+            case 'INCR': {
+                const entry = live(args[0]) || { value: '0', expiresAt: null }
+                entry.value = String(Number(entry.value) + 1)
+                data.set(args[0], entry)
+                return `:${entry.value}\r\n`
+            }
+            case 'GET': {
+                const entry = live(args[0])
+                return entry ? `$${Buffer.byteLength(entry.value)}\r\n${entry.value}\r\n` : '$-1\r\n'
+            }
+            case 'PTTL': {
+                const entry = live(args[0])
+                if (!entry) return ':-2\r\n'
+                return entry.expiresAt ? `:${entry.expiresAt - Date.now()}\r\n` : ':-1\r\n'
+            }
+            case 'PEXPIRE': {
+                const entry = live(args[0])
+                if (!entry) return ':0\r\n'
+                entry.expiresAt = Date.now() + Number(args[1])
+                return ':1\r\n'
+            }
+            case 'EXISTS':
+                return live(args[0]) ? ':1\r\n' : ':0\r\n'
+            case 'DEL':
+                return data.delete(args[0]) ? ':1\r\n' : ':0\r\n'
+            default:
+                return `-ERR unknown command '${name}'\r\n`
+        }
+    }
+
+    const server = net.createServer((socket) => {
+        sockets.add(socket)
+        socket.on('close', () => sockets.delete(socket))
+
+        let buffer = ''
+        socket.on('data', (chunk) => {
+            buffer += chunk.toString('utf8')
+
+            // Commands arrive as arrays of bulk strings
+            while (buffer.startsWith('*')) {
+                const lines = buffer.split('\r\n')
+                const count = Number(lines[0].slice(1))
+                if (lines.length < 1 + count * 2 + 1) break
+
+                const args = Array.from({ length: count }, (_, i) => lines[2 + i * 2])
+                buffer = lines.slice(1 + count * 2).join('\r\n')
+                if (!hanging) socket.write(run(args))
+            }
+        })
+    })
+
+    return new Promise((resolve) => {
+        server.listen(0, '127.0.0.1', () => {
+            const { port } = server.address() as net.AddressInfo
+            resolve({
+                url: `redis://127.0.0.1:${port}`,
+                hang: (value) => { hanging = value },
+                close: () => {
+                    sockets.forEach(socket => socket.destroy())
+                    server.close()
+                },
+            })
+        })
+    })
+}
+
+describe('RedisSecurityStore', async () => {
+    const standIn = await startStandIn()
+    after(() => standIn.close())
+
+    it('counts, expires and blocks against a Redis-protocol server', async () => {
+        const store = new RedisSecurityStore(standIn.url, 'test:')
+
+        assert.equal((await store.increment('login', 60_000)).count, 1)
+        assert.equal((await store.increment('login', 60_000)).count, 2)
+        assert.equal((await store.getCounter('login'))?.count, 2)
+
+        await store.deleteCounter('login')
+        assert.equal(await store.getCounter('login'), null)
+
+        await store.addBlock('203.0.113.7', 60_000)
+        assert.equal(await store.isBlocked('203.0.113.7'), true)
+        await store.removeBlock('203.0.113.7')
+        assert.equal(await store.isBlocked('203.0.113.7'), false)
+    })
+
+    it('rejects a command that gets no reply and reconnects afterwards', async () => {
+        const store = new RedisSecurityStore(standIn.url, 'test:', { commandMs: 50 })
+        await store.addBlock('198.51.100.1')
+
+        standIn.hang(true)
+        await assert.rejects(store.isBlocked('198.51.100.1'), /timed out/)
+
+        standIn.hang(false)
+        assert.equal(await store.isBlocked('198.51.100.1'), true)
+    })
+
+    it('rejects when the connection handshake gets no reply', async () => {
+        const url = new URL(standIn.url)
+        url.password = 'secret'
+        const store = new RedisSecurityStore(url.toString(), 'test:', { connectMs: 50 })
+
+        standIn.hang(true)
+        try {
+            await assert.rejects(store.isBlocked('198.51.100.2'), /timed out/)
+        } finally {
+            standIn.hang(false)
+        }
+
+        assert.equal(await store.isBlocked('198.51.100.2'), false)
+    })
+})
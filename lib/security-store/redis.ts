@@ -0,0 +1,298 @@
+import net from 'net'
+import { CounterEntry, IncrementOptions, SecurityStore } from './types'
+
+/**
+ * Redis-backed security store
+ * Speaks RESP2 directly over TCP, so it works against Redis, Valkey,
+ * KeyDB or any local stand-in that implements the handful of commands
+ * used here (SET, INCR, PEXPIRE, PTTL, GET, DEL, EXISTS, AUTH, SELECT).
+ */
+
+type RedisReply = string | number | null | RedisReply[]
+
+class RedisReplyError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'RedisReplyError'
+    }
+}
+
+/**
+ * Parse a single RESP reply starting at offset
+ * Returns null if the buffer does not yet hold a complete reply
+ */
+function parseReply(buffer: Buffer, offset: number): { value: RedisReply | RedisReplyError; next: number } | null {
+    const lineEnd = buffer.indexOf('\r\n', offset)
+    if (lineEnd === -1) return null
+
+    const type = String.fromCharCode(buffer[offset])
+    const line = buffer.toString('utf8', offset + 1, lineEnd)
+    const afterLine = lineEnd + 2
+
+    switch (type) {
+        case '+':
+            return { value: line, next: afterLine }
+        case '-':
+            return { value: new RedisReplyError(line), next: afterLine }
+        case ':':
+            return { value: parseInt(line, 10), next: afterLine }
+        case '$': {
+            const length = parseInt(line, 10)
+            if (length === -1) return { value: null, next: afterLine }
+            if (buffer.length < afterLine + length + 2) return null
+            return {
+                value: buffer.toString('utf8', afterLine, afterLine + length),
+                next: afterLine + length + 2,
+            }
+        }
+        case '*': {
+            const length = parseInt(line, 10)
+            if (length === -1) return { value: null, next: afterLine }
+            const items: RedisReply[] = []
+            let next = afterLine
+            for (let i = 0; i < length; i++) {
+                const item = parseReply(buffer, next)
+                if (!item) return null
+                if (item.value instanceof RedisReplyError) {
+                    return { value: item.value, next: item.next }
+                }
+                items.push(item.value)
+                next = item.next
+            }
+            return { value: items, next }
+        }
+        default:
+            throw new Error(`Unexpected RESP reply type: ${type}`)
+    }
+}
+
+function encodeCommand(args: (string | number)[]): string {
+    let out = `*${args.length}\r\n`
+    for (const arg of args) {
+        const value = String(arg)
+        out += `$${Buffer.byteLength(value)}\r\n${value}\r\n`
+    }
+    return out
+}
+
+export interface RedisTimeouts {
+    connectMs: number // Connecting, including AUTH and SELECT
+    commandMs: number // Waiting for any one reply
+}
+
+const DEFAULT_TIMEOUTS: RedisTimeouts = {
+    connectMs: 2000,
+    commandMs: 1000,
+}
+
+type Waiter = { resolve: (value: RedisReply) => void; reject: (error: Error) => void }
+
+/**
+ * Minimal pipelining RESP client
+ * Replies arrive in command order, so pending callbacks are a FIFO queue.
+ * A timeout drops the whole connection: the late reply would otherwise be
+ * handed to the next command in the queue
+ */
+class RedisConnection {
+    private active: net.Socket | null = null
+    private socket: net.Socket | null = null
+    private connecting: Promise<net.Socket> | null = null
+    private buffer = Buffer.alloc(0)
+    private pending: Waiter[] = []
+
+    constructor(private url: URL, private timeouts: RedisTimeouts) { }
+
+    async command(...args: (string | number)[]): Promise<RedisReply> {
+        const socket = await this.connect()
+        return this.send(socket, args)
+    }
+
+    private send(socket: net.Socket, args: (string | number)[]): Promise<RedisReply> {
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.reset(new Error(`Redis command timed out after ${this.timeouts.commandMs}ms`))
+            }, this.timeouts.commandMs)
+
+            this.pending.push({
+                resolve: (value) => {
+                    clearTimeout(timer)
+                    resolve(value)
+                },
+                reject: (error) => {
+                    clearTimeout(timer)
+                    reject(error)
+                },
+            })
+            socket.write(encodeCommand(args))
+        })
+    }
+
+    private connect(): Promise<net.Socket> {
+        if (this.socket) return Promise.resolve(this.socket)
+        if (this.connecting) return this.connecting
+
+        this.connecting = new Promise((resolve, reject) => {
+            const socket = net.createConnection({
+                host: this.url.hostname || '127.0.0.1',
+                port: parseInt(this.url.port || '6379', 10),
+            })
+            this.active = socket
+
+            const timer = setTimeout(() => {
+                const error = new Error(`Redis connection timed out after ${this.timeouts.connectMs}ms`)
+                this.reset(error)
+                reject(error)
+            }, this.timeouts.connectMs)
+
+            // Events from a socket that has since been replaced are ignored
+            socket.on('data', (chunk) => {
+                if (this.active === socket) this.onData(chunk)
+            })
+            socket.on('error', (error) => {
+                clearTimeout(timer)
+                if (this.active === socket) this.reset(error)
+                reject(error)
+            })
+            socket.on('close', () => {
+                clearTimeout(timer)
+                if (this.active === socket) this.reset(new Error('Redis connection closed'))
+                reject(new Error('Redis connection closed'))
+            })
+            socket.once('connect', async () => {
+                try {
+                    const password = decodeURIComponent(this.url.password)
+                    const username = decodeURIComponent(this.url.username)
+                    if (password) {
+                        await this.send(socket, username ? ['AUTH', username, password] : ['AUTH', password])
+                    }
+
+                    const db = this.url.pathname.replace('/', '')
+                    if (db) {
+                        await this.send(socket, ['SELECT', db])
+                    }
+
+                    clearTimeout(timer)
+                    this.socket = socket
+                    resolve(socket)
+                } catch (error) {
+                    clearTimeout(timer)
+                    if (this.active === socket) this.reset(error as Error)
+                    reject(error)
+                }
+            })
+        })
+
+        return this.connecting
+    }
+
+    private onData(chunk: Buffer): void {
+        this.buffer = Buffer.concat([this.buffer, chunk])
+
+        let offset = 0
+        while (offset < this.buffer.length) {
+            const reply = parseReply(this.buffer, offset)
+            if (!reply) break
+
+            offset = reply.next
+            const waiter = this.pending.shift()
+            if (!waiter) continue
+
+            if (reply.value instanceof RedisReplyError) {
+                waiter.reject(reply.value)
+            } else {
+                waiter.resolve(reply.value)
+            }
+        }
+
+        this.buffer = this.buffer.subarray(offset)
+    }
+
+    /**
+     * Drop the socket and fail everything waiting on it
+     * The next command opens a fresh connection
+     */
+    private reset(error: Error): void {
+        const socket = this.active
+        this.active = null
+        this.socket = null
+        this.connecting = null
+        socket?.destroy()
+
+        const waiters = this.pending
+        this.pending = []
+        this.buffer = Buffer.alloc(0)
+        waiters.forEach(waiter => waiter.reject(error))
+    }
+}
+
+export class RedisSecurityStore implements SecurityStore {
+    private connection: RedisConnection
+
+    constructor(url: string, private keyPrefix = 'security:', timeouts: Partial<RedisTimeouts> = {}) {
+        this.connection = new RedisConnection(new URL(url), {
+            connectMs: timeouts.connectMs ?? DEFAULT_TIMEOUTS.connectMs,
+            commandMs: timeouts.commandMs ?? DEFAULT_TIMEOUTS.commandMs,
+        })
+    }
+
+    async increment(key: string, ttlMs: number, options?: IncrementOptions): Promise<CounterEntry> {
+        const counterKey = this.counterKey(key)
+
+        // Create the counter with its TTL only if it doesn't exist yet;
+        // INCR keeps an existing TTL untouched
+        await this.connection.command('SET', counterKey, 0, 'PX', ttlMs, 'NX')
+        const count = await this.connection.command('INCR', counterKey) as number
+
+        let ttl = await this.connection.command('PTTL', counterKey) as number
+        // The key can expire between SET and INCR, leaving it without a TTL
+        if (options?.extendTtl || ttl < 0) {
+            await this.connection.command('PEXPIRE', counterKey, ttlMs)
+            ttl = ttlMs
+        }
+
+        return { count, expiresAt: Date.now() + ttl }
+    }
+
+    async getCounter(key: string): Promise<CounterEntry | null> {
+        const counterKey = this.counterKey(key)
+        const value = await this.connection.command('GET', counterKey)
+        if (value === null) return null
+
+        const ttl = await this.connection.command('PTTL', counterKey) as number
+        if (ttl === -2) return null
+
+        return {
+            count: parseInt(String(value), 10),
+            expiresAt: ttl > 0 ? Date.now() + ttl : Number.MAX_SAFE_INTEGER,
+        }
+    }
+
+    async deleteCounter(key: string): Promise<void> {
+        await this.connection.command('DEL', this.counterKey(key))
+    }
+
+    async addBlock(ip: string, ttlMs?: number): Promise<void> {
+        if (ttlMs) {
+            await this.connection.command('SET', this.blockKey(ip), 1, 'PX', ttlMs)
+        } else {
+            await this.connection.command('SET', this.blockKey(ip), 1)
+        }
+    }
+
+    async removeBlock(ip: string): Promise<void> {
+        await this.connection.command('DEL', this.blockKey(ip))
+    }
+
+    async isBlocked(ip: string): Promise<boolean> {
+        const exists = await this.connection.command('EXISTS', this.blockKey(ip))
+        return exists === 1
+    }
+
+    private counterKey(key: string): string {
+        return `${this.keyPrefix}counter:${key}`
+    }
+
+    private blockKey(ip: string): string {
+        return `${this.keyPrefix}block:${ip}`
+    }
+}
@@ -0,0 +1,107 @@
+import { createServiceRoleClient } from '@/lib/supabase/service-role'
+import { CounterEntry, IncrementOptions, SecurityStore } from './types'
+
+/**
+ * Postgres-backed security store
+ * Uses the security_counters and ip_blocks tables through the service role
+ * client. Counter increments go through the increment_security_counter
+ * function so concurrent instances never lose updates.
+ */
+export class SupabaseSecurityStore implements SecurityStore {
+    private get client() {
+        return createServiceRoleClient()
+    }
+
+    async increment(key: string, ttlMs: number, options?: IncrementOptions): Promise<CounterEntry> {
+        const { data, error } = await this.client.rpc('increment_security_counter', {
+            p_key: key,
+            p_ttl_ms: ttlMs,
+            p_extend_ttl: options?.extendTtl ?? false,
+        })
+
+        if (error) {
+            throw new Error(`Failed to increment security counter: ${error.message}`)
+        }
+
+        const row = Array.isArray(data) ? data[0] : data
+        return {
+            count: row.count,
+            expiresAt: new Date(row.expires_at).getTime(),
+        }
+    }
+
+    async getCounter(key: string): Promise<CounterEntry | null> {
+        const { data, error } = await this.client
+            .from('security_counters')
+            .select('count, expires_at')
+            .eq('key', key)
+            .gt('expires_at', new Date().toISOString())
+            .maybeSingle()
+
+        if (error) {
+            throw new Error(`Failed to read security counter: ${error.message}`)
+        }
+
+        if (!data) {
+            return null
+        }
+
+        return {
+            count: data.count,
+            expiresAt: new Date(data.expires_at).getTime(),
+        }
+    }
+
+    async deleteCounter(key: string): Promise<void> {
+        const { error } = await this.client
+            .from('security_counters')
+            .delete()
+            .eq('key', key)
+
+        if (error) {
+            throw new Error(`Failed to delete security counter: ${error.message}`)
+        }
+    }
+
+    async addBlock(ip: string, ttlMs?: number): Promise<void> {
+        const { error } = await this.client
+            .from('ip_blocks')
+            .upsert(
+                {
+                    ip,
+                    expires_at: ttlMs ? new Date(Date.now() + ttlMs).toISOString() : null,
+                },
+                { onConflict: 'ip' }
+            )
+
+        if (error) {
+            throw new Error(`Failed to block IP: ${error.message}`)
+        }
+    }
+
+    async removeBlock(ip: string): Promise<void> {
+        const { error } = await this.client
+            .from('ip_blocks')
+            .delete()
+            .eq('ip', ip)
+
+        if (error) {
+            throw new Error(`Failed to unblock IP: ${error.message}`)
+        }
+    }
+
+    async isBlocked(ip: string): Promise<boolean> {
+        const { data, error } = await this.client
+            .from('ip_blocks')
+            .select('ip')
+            .eq('ip', ip)
+            .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+            .maybeSingle()
+
+        if (error) {
+            throw new Error(`Failed to check IP block: ${error.message}`)
+        }
+
+        return !!data
+    }
+}
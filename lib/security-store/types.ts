@@ -0,0 +1,50 @@
+/**
+ * Security Store Types
+ * Storage contract for rate-limit counters, IP blocks and failed-login tallies
+ */
+
+export interface CounterEntry {
+    count: number
+    expiresAt: number // Epoch milliseconds
+}
+
+export interface IncrementOptions {
+    // Push the expiry out to now + ttlMs on every increment instead of
+    // keeping the expiry set when the counter was created
+    extendTtl?: boolean
+}
+
+export interface SecurityStore {
+    /**
+     * Increment a counter, creating it with the given TTL if missing or expired
+     */
+    increment(key: string, ttlMs: number, options?: IncrementOptions): Promise<CounterEntry>
+
+    /**
+     * Read a counter without modifying it
+     * Returns null if the counter does not exist or has expired
+     */
+    getCounter(key: string): Promise<CounterEntry | null>
+
+    /**
+     * Delete a counter
+     */
+    deleteCounter(key: string): Promise<void>
+
+    /**
+     * Block an IP address, optionally for a limited time
+     */
+    addBlock(ip: string, ttlMs?: number): Promise<void>
+
+    /**
+     * Remove an IP block
+     */
+    removeBlock(ip: string): Promise<void>
+
+    /**
+     * Check if an IP address is currently blocked
+     */
+    isBlocked(ip: string): Promise<boolean>
+}
+
+export type SecurityStoreBackend = 'memory' | 'supabase' | 'redis'
@@ -3,19 +3,24 @@
  * Rate limiting, IP blocking, request validation, and security helpers
  */
 
+import { timingSafeEqual } from 'crypto'
 import { NextRequest, NextResponse } from 'next/server'
+import { getSecurityStore } from '@/lib/security-store'
+import { createIpBlock, isIpInBlocklist } from '@/lib/ip-blocks'
+import { lockAccount } from '@/lib/account-lockouts'
+import { getRequestId } from '@/lib/request-id'
 
 // ============================================================================
 // RATE LIMITING
 // ============================================================================
 
-// In-memory rate limit store (for single instance deployments)
-// For production with multiple instances, use Redis or similar
-const rateLimitStore = new Map<string, { count: number; resetTime: number }>()
+// Counters live in the configured security store (see lib/security-store)
+export type RateLimitStrategy = 'fixed' | 'sliding'
 
 export interface RateLimitConfig {
     windowMs: number     // Time window in milliseconds
     maxRequests: number  // Max requests per window
+    strategy?: RateLimitStrategy // Defaults to SECURITY_RATE_LIMIT_STRATEGY, then 'fixed'
 }
 
 // Default rate limit: 100 requests per minute
@@ -24,12 +29,6 @@ const DEFAULT_RATE_LIMIT: RateLimitConfig = {
     maxRequests: 100,
 }
 
-// Stricter rate limit for auth endpoints
-export const AUTH_RATE_LIMIT: RateLimitConfig = {
-    windowMs: 15 * 60 * 1000, // 15 minutes
-    maxRequests: 5,           // 5 attempts
-}
-
 // Rate limit for API endpoints
 export const API_RATE_LIMIT: RateLimitConfig = {
     windowMs: 60 * 1000,     // 1 minute
@@ -38,11 +37,26 @@ export const API_RATE_LIMIT: RateLimitConfig = {
 
 /**
  * Get client IP address from request
+ *
+ * Each proxy appends the address it received the request from to
+ * X-Forwarded-For, so only the right-most TRUSTED_PROXY_HOPS entries were
+ * written by our own infrastructure; anything left of them is whatever the
+ * client sent. With no trusted proxies configured the forwarding headers
+ * are ignored altogether
  */
-export function getClientIp(request: NextRequest): string {
+export function getClientIp(request: Request): string {
+    const hops = trustedProxyHops()
+    if (hops === 0) {
+        return 'unknown'
+    }
+
     const forwarded = request.headers.get('x-forwarded-for')
     if (forwarded) {
-        return forwarded.split(',')[0].trim()
+        const entries = forwarded.split(',').map(entry => entry.trim()).filter(Boolean)
+        if (entries.length > 0) {
+            // Fewer entries than hops means every one came from a trusted proxy
+            return entries[Math.max(0, entries.length - hops)]
+        }
     }
 
     const realIp = request.headers.get('x-real-ip')
@@ -58,79 +72,81 @@ export function getClientIp(request: NextRequest): string {
     return 'unknown'
 }
 
+function trustedProxyHops(): number {
+    const value = Number(process.env.TRUSTED_PROXY_HOPS ?? 1)
+    return Number.isInteger(value) && value >= 0 ? value : 1
+}
+
+function resolveStrategy(config: RateLimitConfig): RateLimitStrategy {
+    if (config.strategy) return config.strategy
+    return process.env.SECURITY_RATE_LIMIT_STRATEGY === 'sliding' ? 'sliding' : 'fixed'
+}
+
 /**
  * Check if request is rate limited
- * Returns true if rate limited, false if allowed
+ *
+ * fixed:   the window starts on the first request and resets when it expires
+ * sliding: weighs the previous window's count by how much of it still
+ *          overlaps the sliding window, which smooths bursts at boundaries
  */
-export function isRateLimited(
+export async function isRateLimited(
     identifier: string,
     config: RateLimitConfig = DEFAULT_RATE_LIMIT
-): { limited: boolean; remaining: number; resetTime: number } {
-    const now = Date.now()
-    const key = identifier
-
-    // Get or create rate limit entry
-    let entry = rateLimitStore.get(key)
-
-    // If no entry or window expired, create new entry
-    if (!entry || now > entry.resetTime) {
-        entry = {
-            count: 1,
-            resetTime: now + config.windowMs,
-        }
-        rateLimitStore.set(key, entry)
+): Promise<{ limited: boolean; remaining: number; resetTime: number }> {
+    const store = getSecurityStore()
+
+    if (resolveStrategy(config) === 'sliding') {
+        const now = Date.now()
+        const windowIndex = Math.floor(now / config.windowMs)
+        const elapsed = (now % config.windowMs) / config.windowMs
+
+        // Keep each bucket around long enough to serve as the previous window
+        const current = await store.increment(`rl:${identifier}:${windowIndex}`, config.windowMs * 2)
+        const previous = await store.getCounter(`rl:${identifier}:${windowIndex - 1}`)
+
+        const weighted = Math.floor((previous?.count || 0) * (1 - elapsed)) + current.count
         return {
-            limited: false,
-            remaining: config.maxRequests - 1,
-            resetTime: entry.resetTime,
+            limited: weighted > config.maxRequests,
+            remaining: Math.max(0, config.maxRequests - weighted),
+            resetTime: (windowIndex + 1) * config.windowMs,
         }
     }
 
-    // Increment count
-    entry.count++
-    rateLimitStore.set(key, entry)
+    const entry = await store.increment(`rl:${identifier}`, config.windowMs)
 
     // Check if over limit
     const limited = entry.count > config.maxRequests
     const remaining = Math.max(0, config.maxRequests - entry.count)
 
-    return { limited, remaining, resetTime: entry.resetTime }
+    return { limited, remaining, resetTime: entry.expiresAt }
 }
 
 /**
  * Rate limit middleware for API routes
  */
-export function rateLimit(
+export async function rateLimit(
     request: NextRequest,
     config: RateLimitConfig = DEFAULT_RATE_LIMIT
-): { allowed: boolean; response?: NextResponse } {
+): Promise<{ allowed: boolean; response?: NextResponse }> {
     const ip = getClientIp(request)
     const path = request.nextUrl.pathname
     const identifier = `${ip}:${path}`
 
-    const result = isRateLimited(identifier, config)
+    const result = await isRateLimited(identifier, config)
 
     if (result.limited) {
         const retryAfter = Math.ceil((result.resetTime - Date.now()) / 1000)
-        return {
-            allowed: false,
-            response: NextResponse.json(
-                {
-                    error: 'Too many requests',
-                    message: `Rate limit exceeded. Try again in ${retryAfter} seconds.`,
-                    retryAfter,
-                },
-                {
-                    status: 429,
-                    headers: {
-                        'Retry-After': String(retryAfter),
-                        'X-RateLimit-Limit': String(config.maxRequests),
-                        'X-RateLimit-Remaining': '0',
-                        'X-RateLimit-Reset': String(result.resetTime),
-                    },
-                }
-            ),
-        }
+        const response = securityErrorResponse(
+            429,
+            'Too many requests',
+            `Rate limit exceeded. Try again in ${retryAfter} seconds.`,
+            { retryAfter, request_id: getRequestId(request) }
+        )
+        response.headers.set('Retry-After', String(retryAfter))
+        response.headers.set('X-RateLimit-Limit', String(config.maxRequests))
+        response.headers.set('X-RateLimit-Remaining', '0')
+        response.headers.set('X-RateLimit-Reset', String(result.resetTime))
+        return { allowed: false, response }
     }
 
     return { allowed: true }
@@ -140,67 +156,158 @@ export function rateLimit(
 // IP BLOCKING
 // ============================================================================
 
-// Blocked IPs (in production, use a database or Redis)
-const blockedIps = new Set<string>()
-
 /**
- * Block an IP address
+ * Block an IP address, optionally for a limited time
  */
-export function blockIp(ip: string): void {
-    blockedIps.add(ip)
+export async function blockIp(ip: string, ttlMs?: number): Promise<void> {
+    await getSecurityStore().addBlock(ip, ttlMs)
 }
 
 /**
  * Unblock an IP address
  */
-export function unblockIp(ip: string): void {
-    blockedIps.delete(ip)
+export async function unblockIp(ip: string): Promise<void> {
+    await getSecurityStore().removeBlock(ip)
 }
 
 /**
- * Check if IP is blocked
+ * Check if IP is blocked, either in the security store or by an
+ * entry (exact IP or CIDR range) in the persistent blocklist
  */
-export function isIpBlocked(ip: string): boolean {
-    return blockedIps.has(ip)
+export async function isIpBlocked(ip: string): Promise<boolean> {
+    if (await getSecurityStore().isBlocked(ip)) {
+        return true
+    }
+    return isIpInBlocklist(ip)
 }
 
 // ============================================================================
 // SUSPICIOUS ACTIVITY DETECTION
 // ============================================================================
 
-// Track failed login attempts
-const failedLoginAttempts = new Map<string, { count: number; lastAttempt: number }>()
+function envNumber(name: string, fallback: number): number {
+    const value = Number(process.env[name])
+    return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+export interface LoginLockoutConfig {
+    windowMs: number         // Failures older than this are forgotten
+    delayThreshold: number   // Failures per email before responses are slowed down
+    delayStepMs: number      // Added delay per failure past the threshold
+    maxDelayMs: number       // Upper bound on the delay
+    lockThreshold: number    // Failures per email before the account is locked
+    lockDurationMs: number   // How long a locked account stays locked
+    ipBlockThreshold: number // Failures per IP+email before the IP is blocked
+}
+
+// Progressive lockout: delay, then temporary account lock, then IP block
+export const LOGIN_LOCKOUT: LoginLockoutConfig = {
+    windowMs: envNumber('LOGIN_FAILURE_WINDOW_MINUTES', 15) * 60 * 1000,
+    delayThreshold: envNumber('LOGIN_DELAY_THRESHOLD', 3),
+    delayStepMs: 1000,
+    maxDelayMs: 10 * 1000,
+    lockThreshold: envNumber('LOGIN_LOCK_THRESHOLD', 5),
+    lockDurationMs: envNumber('LOGIN_LOCK_DURATION_MINUTES', 15) * 60 * 1000,
+    ipBlockThreshold: envNumber('LOGIN_IP_BLOCK_THRESHOLD', 10),
+}
+
+// Stricter rate limit for credential checks (login, step-up, MFA verify)
+// Sits above the lockout thresholds so accounts lock and IPs get blocked
+// before the limiter starts answering 429
+export const AUTH_RATE_LIMIT: RateLimitConfig = {
+    windowMs: LOGIN_LOCKOUT.windowMs,
+    maxRequests: LOGIN_LOCKOUT.ipBlockThreshold * 2,
+}
+
+export interface FailedLoginOutcome {
+    attempts: number       // Failures for this IP+email in the current window
+    accountLocked: boolean // The account was locked by this attempt
+    ipBlocked: boolean     // The IP was blocked by this attempt
+}
+
+function emailFailureKey(email: string): string {
+    return `login-email:${email}`
+}
 
 /**
- * Record a failed login attempt
+ * Get how long to stall a login attempt for this email before answering
  */
-export function recordFailedLogin(ip: string, email: string): void {
-    const key = `${ip}:${email}`
-    const now = Date.now()
-    const entry = failedLoginAttempts.get(key)
-
-    if (!entry || now - entry.lastAttempt > 15 * 60 * 1000) {
-        // Reset after 15 minutes
-        failedLoginAttempts.set(key, { count: 1, lastAttempt: now })
-    } else {
-        entry.count++
-        entry.lastAttempt = now
-        failedLoginAttempts.set(key, entry)
-
-        // Auto-block after 10 failed attempts
-        if (entry.count >= 10) {
-            blockIp(ip)
-            console.warn(`Auto-blocked IP ${ip} after 10 failed login attempts for ${email}`)
-        }
+export async function getLoginDelay(
+    email: string,
+    config: LoginLockoutConfig = LOGIN_LOCKOUT
+): Promise<number> {
+    const entry = await getSecurityStore().getCounter(emailFailureKey(email))
+    const failures = entry?.count || 0
+
+    if (failures < config.delayThreshold) {
+        return 0
     }
+
+    return Math.min(config.maxDelayMs, (failures - config.delayThreshold + 1) * config.delayStepMs)
+}
+
+/**
+ * Record a failed login attempt and escalate when thresholds are crossed
+ * Account locks and auto-blocks are persisted and audited
+ */
+export async function recordFailedLogin(
+    ip: string,
+    email: string,
+    request?: Request,
+    config: LoginLockoutConfig = LOGIN_LOCKOUT
+): Promise<FailedLoginOutcome> {
+    const store = getSecurityStore()
+
+    // Both tallies reset a full window after the most recent attempt
+    const ipEntry = await store.increment(`login:${ip}:${email}`, config.windowMs, { extendTtl: true })
+    const emailEntry = await store.increment(emailFailureKey(email), config.windowMs, { extendTtl: true })
+
+    const outcome: FailedLoginOutcome = {
+        attempts: ipEntry.count,
+        accountLocked: false,
+        ipBlocked: false,
+    }
+
+    if (emailEntry.count >= config.lockThreshold) {
+        await lockAccount({
+            email,
+            failedAttempts: emailEntry.count,
+            ip,
+            lockedUntil: new Date(Date.now() + config.lockDurationMs),
+            request,
+        })
+        // Start counting afresh once the lock expires
+        await store.deleteCounter(emailFailureKey(email))
+        outcome.accountLocked = true
+    }
+
+    if (ipEntry.count >= config.ipBlockThreshold && ip !== 'unknown') {
+        await createIpBlock({
+            ip,
+            reason: `${ipEntry.count} failed login attempts for ${email}`,
+            source: 'auto',
+            request,
+        })
+        outcome.ipBlocked = true
+    }
+
+    return outcome
 }
 
 /**
  * Clear failed login attempts (call on successful login)
  */
-export function clearFailedLogins(ip: string, email: string): void {
-    const key = `${ip}:${email}`
-    failedLoginAttempts.delete(key)
+export async function clearFailedLogins(ip: string, email: string): Promise<void> {
+    const store = getSecurityStore()
+    await store.deleteCounter(`login:${ip}:${email}`)
+    await store.deleteCounter(emailFailureKey(email))
+}
+
+/**
+ * Reset the per-email failure tally (call when an admin clears a lockout)
+ */
+export async function resetAccountFailures(email: string): Promise<void> {
+    await getSecurityStore().deleteCounter(emailFailureKey(email))
 }
 
 // ============================================================================
@@ -227,6 +334,22 @@ export function validateOrigin(request: NextRequest): boolean {
     }
 }
 
+/**
+ * Check a scheduler's bearer token against CRON_SECRET (for /api/cron/*)
+ * Without a configured secret the routes stay closed
+ */
+export function isAuthorizedCron(request: NextRequest): boolean {
+    const secret = process.env.CRON_SECRET
+    if (!secret) {
+        return false
+    }
+
+    const provided = Buffer.from(request.headers.get('authorization') || '')
+    const expected = Buffer.from(`Bearer ${secret}`)
+
+    return provided.length === expected.length && timingSafeEqual(provided, expected)
+}
+
 /**
  * Check for common attack patterns in URL
  */
@@ -244,6 +367,35 @@ export function hasAttackPatterns(url: string): boolean {
     return patterns.some(pattern => pattern.test(url))
 }
 
+/**
+ * Decode a URL for pattern matching, falling back to the raw value
+ * when it contains malformed percent-encoding
+ */
+export function decodeUrlForInspection(url: string): string {
+    try {
+        return decodeURIComponent(url)
+    } catch {
+        return url
+    }
+}
+
+// ============================================================================
+// ERROR RESPONSES
+// ============================================================================
+
+/**
+ * Build the JSON error response used by every security check
+ * Shape: { error, message, ...extra }
+ */
+export function securityErrorResponse(
+    status: number,
+    error: string,
+    message: string,
+    extra?: Record<string, unknown>
+): NextResponse {
+    return NextResponse.json({ error, message, ...extra }, { status })
+}
+
 // ============================================================================
 // SECURE HEADERS
 // ============================================================================
@@ -258,28 +410,3 @@ export function addSecurityHeaders(response: NextResponse): NextResponse {
     response.headers.set('Referrer-Policy', 'strict-origin-when-cross-origin')
     return response
 }
-
-// ============================================================================
-// CLEANUP
-// ============================================================================
-
-// Periodically clean up expired entries (every 5 minutes)
-if (typeof setInterval !== 'undefined') {
-    setInterval(() => {
-        const now = Date.now()
-
-        // Clean rate limit store
-        for (const [key, entry] of rateLimitStore.entries()) {
-            if (now > entry.resetTime) {
-                rateLimitStore.delete(key)
-            }
-        }
-
-        // Clean failed login attempts
-        for (const [key, entry] of failedLoginAttempts.entries()) {
-            if (now - entry.lastAttempt > 15 * 60 * 1000) {
-                failedLoginAttempts.delete(key)
-            }
-        }
-    }, 5 * 60 * 1000)
-}
@@ -0,0 +1,180 @@
+/**
+ * Step-Up Re-Authentication
+ * Destructive admin routes (withAdminRoute's stepUp option) need the admin to
+ * have re-entered their password or an authenticator code within the last
+ * STEP_UP_WINDOW_MINUTES. The proof is kept in the security store and bound
+ * to the current Supabase session, so a re-auth on one device doesn't unlock
+ * a cookie left open on another
+ */
+
+import { NextRequest } from 'next/server'
+import { createClient as createSupabaseClient } from '@supabase/supabase-js'
+import { getActiveLockout } from '@/lib/account-lockouts'
+import { logAuditEvent, AUDIT_ACTIONS } from '@/lib/audit'
+import { AccountLockedError, StepUpRequiredError, ValidationError } from '@/lib/errors'
+import { getClientIp, getLoginDelay, recordFailedLogin } from '@/lib/security'
+import { getSecurityStore } from '@/lib/security-store'
+import { createClient } from '@/lib/supabase/server'
+import { StepUpMethod } from '@/types'
+
+type Actor = { id: string; email?: string | null }
+
+export const STEP_UP_WINDOW_MS = Math.max(1, Math.floor(Number(process.env.STEP_UP_WINDOW_MINUTES)) || 5) * 60 * 1000
+
+async function stepUpKey(actor: Actor): Promise<string> {
+    const supabase = await createClient()
+    const { data } = await supabase.auth.getClaims()
+    return `step-up:${actor.id}:${data?.claims.session_id || 'no-session'}`
+}
+
+/**
+ * When the current session's step-up proof runs out, or null if there is none
+ */
+export async function getStepUpExpiry(actor: Actor): Promise<string | null> {
+    const entry = await getSecurityStore().getCounter(await stepUpKey(actor))
+    return entry ? new Date(entry.expiresAt).toISOString() : null
+}
+
+/**
+ * Ways the current user can re-authenticate: a password if they signed up
+ * with email, and any verified TOTP factor
+ */
+export async function getStepUpMethods(): Promise<StepUpMethod[]> {
+    const supabase = await createClient()
+    const methods: StepUpMethod[] = []
+
+    const { data: { user } } = await supabase.auth.getUser()
+    const providers: string[] = user?.app_metadata?.providers
+        ?? (user?.app_metadata?.provider ? [user.app_metadata.provider] : [])
+    if (providers.includes('email')) {
+        methods.push('password')
+    }
+
+    const { data: factors } = await supabase.auth.mfa.listFactors()
+    if (factors?.totp.length) {
+        methods.push('totp')
+    }
+
+    return methods
+}
+
+/**
+ * Throw a StepUpRequiredError unless the current session re-authenticated recently
+ */
+export async function assertRecentStepUp(actor: Actor): Promise<void> {
+    if (!(await getStepUpExpiry(actor))) {
+        throw new StepUpRequiredError(await getStepUpMethods())
+    }
+}
+
+async function verifyPassword(email: string, password: string): Promise<boolean> {
+    // Same guard as /api/auth/login: a stolen session mustn't become a
+    // way around the lockout to keep guessing the password
+    const lockout = await getActiveLockout(email)
+    if (lockout) {
+        throw new AccountLockedError(lockout.locked_until)
+    }
+
+    const delayMs = await getLoginDelay(email)
+    if (delayMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, delayMs))
+    }
+
+    // A throwaway client so the check doesn't replace the cookie session
+    const verifier = createSupabaseClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        { auth: { autoRefreshToken: false, persistSession: false } }
+    )
+
+    const { error } = await verifier.auth.signInWithPassword({ email, password })
+    if (error) {
+        return false
+    }
+
+    // Drop the session the check created
+    await verifier.auth.signOut({ scope: 'local' }).catch(() => { })
+    return true
+}
+
+async function verifyTotp(code: string): Promise<boolean> {
+    const supabase = await createClient()
+
+    const { data: factors } = await supabase.auth.mfa.listFactors()
+    const factor = factors?.totp[0]
+    if (!factor) {
+        throw new ValidationError('No authenticator app is enrolled for this account')
+    }
+
+    const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId: factor.id, code })
+    return !error
+}
+
+/**
+ * Check the admin's password or authenticator code and open a step-up window
+ * Passwords get the login lockout: refused while the account is locked,
+ * slowed down after repeated failures, and failures count towards the lock.
+ * Both outcomes are audited.
+ * Returns when the window closes, or null if verification failed
+ */
+export async function verifyStepUp({
+    actor,
+    method,
+    password,
+    code,
+    request,
+}: {
+    actor: Actor
+    method: StepUpMethod
+    password?: string
+    code?: string
+    request: NextRequest
+}): Promise<string | null> {
+    const methods = await getStepUpMethods()
+    if (!methods.includes(method)) {
+        throw new ValidationError(
+            method === 'password'
+                ? 'This account signs in without a password; use an authenticator code'
+                : 'No authenticator app is enrolled for this account'
+        )
+    }
+
+    const verified = method === 'password'
+        ? !!actor.email && await verifyPassword(actor.email, password || '')
+        : await verifyTotp(code || '')
+
+    if (!verified) {
+        if (method === 'password' && actor.email) {
+            await recordFailedLogin(getClientIp(request), actor.email, request)
+        }
+
+        await logAuditEvent({
+            userId: actor.id,
+            userEmail: actor.email,
+            action: AUDIT_ACTIONS.USER_REAUTH_FAILED,
+            resourceType: 'user',
+            resourceId: actor.id,
+            details: { method },
+            request,
+        })
+        return null
+    }
+
+    const key = await stepUpKey(actor)
+    const store = getSecurityStore()
+    // Start a fresh window rather than extending an old one
+    await store.deleteCounter(key)
+    const entry = await store.increment(key, STEP_UP_WINDOW_MS)
+
+    await logAuditEvent({
+        userId: actor.id,
+        userEmail: actor.email,
+        action: AUDIT_ACTIONS.USER_REAUTHENTICATED,
+        resourceType: 'user',
+        resourceId: actor.id,
+        details: { method },
+        request,
+    })
+
+    return new Date(entry.expiresAt).toISOString()
+}
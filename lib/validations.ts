@@ -5,6 +5,9 @@
  */
 
 import { z } from 'zod'
+import { ALL_PERMISSIONS } from '@/lib/permissions'
+import { REQUEST_ID_PATTERN } from '@/lib/request-id'
+import { Permission } from '@/types'
 
 // ============================================================================
 // AUTH SCHEMAS
@@ -143,10 +146,100 @@ export const executeWorkflowSchema = z.object({
 // ADMIN SCHEMAS
 // ============================================================================
 
-export const userRoleSchema = z.enum(['user', 'mod', 'admin'])
+// Role names are slugs; whether the role exists is checked against the roles table
+export const userRoleSchema = z.string()
+    .regex(/^[a-z][a-z0-9_-]{1,31}$/, 'Role name must be 2-32 lowercase letters, digits, - or _')
 
 export const updateUserRoleSchema = z.object({
     role: userRoleSchema,
+    // Issued by a previous 409 when an admin demotes themselves
+    confirmation_token: z.string().uuid().optional(),
+    // Time-boxed grant; the role reverts to the previous one afterwards
+    expires_at: z.string().datetime().nullable().optional(),
+}).strict()
+
+export const userStatusSchema = z.enum(['active', 'suspended', 'deleted'])
+
+export const updateUserStatusSchema = z.object({
+    status: userStatusSchema,
+}).strict()
+
+// Route params for app/api/admin/users/[userId]/*
+export const userIdParamsSchema = z.object({
+    userId: z.string().uuid('Invalid user ID format'),
+}).strict()
+
+export const startImpersonationSchema = z.object({
+    reason: z.string().trim().min(5, 'Give a reason of at least 5 characters').max(500),
+}).strict()
+
+export const stepUpSchema = z.discriminatedUnion('method', [
+    z.object({
+        method: z.literal('password'),
+        password: z.string().min(1, 'Password is required').max(128),
+    }).strict(),
+    z.object({
+        method: z.literal('totp'),
+        code: z.string().regex(/^\d{6}$/, 'Enter the 6-digit code'),
+    }).strict(),
+])
+
+export const enrollMfaSchema = z.object({
+    friendly_name: z.string().trim().min(1).max(60).optional(),
+}).strict()
+
+export const verifyMfaSchema = z.object({
+    factor_id: z.string().uuid('Invalid factor ID format'),
+    code: z.string().regex(/^\d{6}$/, 'Enter the 6-digit code'),
+}).strict()
+
+// Route params for app/api/admin/users/[userId]/sessions/[sessionId]
+export const userSessionParamsSchema = z.object({
+    userId: z.string().uuid('Invalid user ID format'),
+    sessionId: z.string().uuid('Invalid session ID format'),
+}).strict()
+
+export const permissionSchema = z.enum(ALL_PERMISSIONS as [Permission, ...Permission[]])
+
+export const createRoleSchema = z.object({
+    name: userRoleSchema,
+    description: z.string().max(200).nullable().optional(),
+    permissions: z.array(permissionSchema).max(ALL_PERMISSIONS.length),
+}).strict()
+
+export const updateRoleSchema = z.object({
+    description: z.string().max(200).nullable().optional(),
+    permissions: z.array(permissionSchema).max(ALL_PERMISSIONS.length).optional(),
+}).strict()
+
+export const createApiTokenSchema = z.object({
+    name: z.string().trim().min(1, 'Name is required').max(100),
+    scopes: z.array(permissionSchema).min(1, 'Pick at least one scope').max(ALL_PERMISSIONS.length),
+    expires_in_days: z.number().int().min(1).max(365),
+}).strict()
+
+// Route params for app/api/admin/api-tokens/[tokenId]
+export const apiTokenIdParamsSchema = z.object({
+    tokenId: z.string().uuid('Invalid token ID format'),
+}).strict()
+
+// Route params for app/api/admin/roles/[roleId]
+export const roleIdParamsSchema = z.object({
+    roleId: z.string().uuid('Invalid role ID format'),
+}).strict()
+
+export const approvalQuerySchema = z.object({
+    status: z.enum(['pending', 'approved', 'rejected', 'failed']).optional(),
+}).strict()
+
+export const approvalDecisionSchema = z.object({
+    decision: z.enum(['approve', 'reject']),
+    note: z.string().max(500).nullable().optional(),
+}).strict()
+
+// Route params for app/api/admin/approvals/[actionId]
+export const actionIdParamsSchema = z.object({
+    actionId: z.string().uuid('Invalid approval request ID format'),
 }).strict()
 
 export const auditLogFilterSchema = z.object({
@@ -159,6 +252,174 @@ export const auditLogFilterSchema = z.object({
     offset: z.number().min(0).optional(),
 }).strict()
 
+export const approveAccountRequestSchema = z.object({
+    requestId: z.string().min(1, 'Request ID is required').max(100),
+}).strict()
+
+export const rejectAccountRequestSchema = approveAccountRequestSchema
+
+// Comma-separated list in a query string, e.g. ?action=user.login,role.*
+function commaList<T extends z.ZodType<unknown, string>>(item: T, max: number) {
+    return z.string().max(2000)
+        .transform(value => value.split(',').map(part => part.trim()).filter(Boolean))
+        .pipe(z.array(item).max(max))
+}
+
+// path[:value] with a dot-separated path into details, e.g. changes.after.role:admin
+// or changes.before.status; without a value the path only has to exist
+export const auditDetailFilterSchema = z.string()
+    .regex(/^[a-zA-Z0-9_]+(\.[a-zA-Z0-9_]+)*(:.*)?$/, 'Must be path or path:value')
+    .transform(filter => {
+        const separator = filter.indexOf(':')
+        const path = separator === -1 ? filter : filter.slice(0, separator)
+        return {
+            path: path.split('.'),
+            value: separator === -1 ? null : filter.slice(separator + 1),
+        }
+    })
+
+// Query string form of the audit log filters (GET /api/admin/audit-logs)
+export const auditLogQuerySchema = z.object({
+    user_id: z.string().uuid().optional(),
+    action: commaList(z.string().regex(/^[a-z_]+\.(\*|[a-z_]+)$/, 'Must be an action or a group like role.*'), 50).optional(),
+    email: z.string().trim().min(1).max(255).optional(),
+    ip: z.string().trim().min(1).max(64).optional(),
+    resource_type: z.string().max(100).optional(),
+    resource_id: z.string().max(255).optional(),
+    request_id: z.string().regex(REQUEST_ID_PATTERN, 'Invalid request ID').optional(),
+    details: commaList(auditDetailFilterSchema, 10).optional(),
+    q: z.string().trim().min(1).max(200).optional(),
+    start_date: z.string().datetime().optional(),
+    end_date: z.string().datetime().optional(),
+    limit: z.coerce.number().int().min(1).max(1000).default(50),
+    offset: z.coerce.number().int().min(0).default(0),
+}).strict()
+
+// An exact action ('user.login'), an action group ('role.*') or '*'
+export const auditRetentionPolicySchema = z.object({
+    pattern: z.string().regex(/^(\*|[a-z_]+\.(\*|[a-z_]+))$/, 'Must be an action, a group like role.* or *'),
+    retention_days: z.number().int().min(1).max(36500).nullable(),
+}).strict()
+
+export const updateAuditRetentionSchema = z.object({
+    policies: z.array(auditRetentionPolicySchema).min(1).max(100)
+        .refine(policies => policies.some(policy => policy.pattern === '*'), 'A * policy is required')
+        .refine(
+            policies => new Set(policies.map(policy => policy.pattern)).size === policies.length,
+            'Each pattern can only appear once'
+        ),
+}).strict()
+
+// Same filters as the list, without paging (GET /api/admin/audit-logs/export)
+export const auditLogExportQuerySchema = auditLogQuerySchema
+    .omit({ limit: true, offset: true })
+    .extend({ format: z.enum(['csv', 'ndjson', 'cef']).default('csv') })
+    .strict()
+
+// Live tail filters (GET /api/admin/audit-logs/stream); after is the last
+// chain_seq the client has, otherwise the tail starts at the newest entry
+export const auditLogStreamQuerySchema = auditLogQuerySchema
+    .omit({ limit: true, offset: true })
+    .extend({ after: z.coerce.number().int().min(0).optional() })
+    .strict()
+
+// The filters a saved view keeps: the ones the audit log page offers, without
+// dates (a view keeps a trailing range instead) or paging
+const auditViewQuerySchema = auditLogQuerySchema.omit({
+    user_id: true,
+    resource_type: true,
+    start_date: true,
+    end_date: true,
+    limit: true,
+    offset: true,
+})
+
+// Kept in their query string form, so the page can put them straight back
+// into the URL; checked against the list's own rules so a view always loads
+export const auditViewFiltersSchema = z.object({
+    action: z.string().optional(),
+    email: z.string().optional(),
+    ip: z.string().optional(),
+    resource_id: z.string().optional(),
+    request_id: z.string().optional(),
+    details: z.string().optional(),
+    q: z.string().optional(),
+}).strict().superRefine((filters, ctx) => {
+    const result = auditViewQuerySchema.safeParse(filters)
+    if (!result.success) {
+        for (const issue of result.error.issues) {
+            ctx.addIssue({ code: 'custom', message: issue.message, path: issue.path })
+        }
+    }
+})
+
+export const createAuditViewSchema = z.object({
+    name: z.string().trim().min(1, 'Name is required').max(100),
+    filters: auditViewFiltersSchema,
+    range_days: z.number().int().min(1).max(3650).nullable().optional(),
+}).strict()
+
+export const updateAuditViewSchema = createAuditViewSchema.partial().strict()
+
+// Route params for app/api/admin/audit-logs/views/[viewId]
+export const auditViewIdParamsSchema = z.object({
+    viewId: z.string().uuid('Invalid view ID format'),
+}).strict()
+
+// Loopback, private and link-local hosts: alerts must not reach into our network
+const PRIVATE_HOST_PATTERN = /^(localhost|.*\.localhost|127\.|10\.|192\.168\.|172\.(1[6-9]|2\d|3[01])\.|169\.254\.|0\.|\[(::1?|f[cd][0-9a-f]{0,2}:.*|fe80:.*)\]$)/i
+
+export const alertWebhookUrlSchema = z.string().trim().max(2000)
+    .url('Must be a URL')
+    .refine(url => url.startsWith('https://'), 'Webhook URL must use https')
+    .refine(url => !PRIVATE_HOST_PATTERN.test(new URL(url).hostname), 'Webhook URL must be a public host')
+
+export const createAuditAlertSchema = z.object({
+    name: z.string().trim().min(1, 'Name is required').max(100),
+    view_id: z.string().uuid('Invalid view ID format'),
+    threshold: z.number().int().min(1).max(1000000),
+    window_minutes: z.number().int().min(5).max(10080),
+    notify_in_app: z.boolean().default(true),
+    webhook_url: alertWebhookUrlSchema.nullable().optional(),
+    enabled: z.boolean().default(true),
+}).strict().refine(
+    rule => rule.notify_in_app || rule.webhook_url,
+    { message: 'Pick in-app notifications, a webhook, or both', path: ['notify_in_app'] }
+)
+
+export const updateAuditAlertSchema = z.object({
+    name: z.string().trim().min(1, 'Name is required').max(100).optional(),
+    view_id: z.string().uuid('Invalid view ID format').optional(),
+    threshold: z.number().int().min(1).max(1000000).optional(),
+    window_minutes: z.number().int().min(5).max(10080).optional(),
+    notify_in_app: z.boolean().optional(),
+    webhook_url: alertWebhookUrlSchema.nullable().optional(),
+    enabled: z.boolean().optional(),
+}).strict()
+
+// Route params for app/api/admin/audit-logs/alerts/[ruleId]
+export const auditAlertIdParamsSchema = z.object({
+    ruleId: z.string().uuid('Invalid alert ID format'),
+}).strict()
+
+// Mark these notifications read, or all of them when ids is left out
+export const markNotificationsReadSchema = z.object({
+    ids: z.array(z.string().uuid('Invalid notification ID format')).min(1).max(100).optional(),
+}).strict()
+
+export const ipBlockTargetSchema = z.union([
+    z.ipv4(),
+    z.ipv6(),
+    z.cidrv4(),
+    z.cidrv6(),
+], { message: 'Must be an IP address or CIDR range' })
+
+export const createIpBlockSchema = z.object({
+    ip: ipBlockTargetSchema,
+    reason: z.string().min(1, 'Reason is required').max(500),
+    expires_at: z.string().datetime().nullable().optional(),
+}).strict()
+
 // ============================================================================
 // FILE UPLOAD SCHEMAS
 // ============================================================================
@@ -188,6 +449,11 @@ export const paginationSchema = z.object({
 
 export const uuidSchema = z.string().uuid('Invalid ID format')
 
+// ?id=<uuid> for DELETE-by-id collection routes
+export const idQuerySchema = z.object({
+    id: uuidSchema,
+}).strict()
+
 // ============================================================================
 // VALIDATION HELPERS
 // ============================================================================
@@ -261,3 +527,7 @@ export type CreateWorkflowInput = z.infer<typeof createWorkflowSchema>
 export type UpdateWorkflowInput = z.infer<typeof updateWorkflowSchema>
 export type UserRole = z.infer<typeof userRoleSchema>
 export type FileUploadInput = z.infer<typeof fileUploadSchema>
+export type CreateIpBlockInput = z.infer<typeof createIpBlockSchema>
+export type UpdateAuditRetentionInput = z.infer<typeof updateAuditRetentionSchema>
+export type CreateRoleInput = z.infer<typeof createRoleSchema>
+export type UpdateRoleInput = z.infer<typeof updateRoleSchema>
@@ -0,0 +1,90 @@
+/**
+ * Global request proxy
+ * Runs the lib/security checks on every admin and auth API request,
+ * gives every request a correlation ID (lib/request-id) and stamps security
+ * headers on every response
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+    API_RATE_LIMIT,
+    AUTH_RATE_LIMIT,
+    addSecurityHeaders,
+    decodeUrlForInspection,
+    getClientIp,
+    hasAttackPatterns,
+    isIpBlocked,
+    rateLimit,
+    securityErrorResponse,
+    validateOrigin,
+} from '@/lib/security'
+import { requestLogger } from '@/lib/logger'
+import { REQUEST_ID_HEADER, getRequestId } from '@/lib/request-id'
+
+const ADMIN_API_PREFIX = '/api/admin/'
+const AUTH_API_PREFIX = '/api/auth/'
+const LOGIN_API_PATH = '/api/auth/login'
+
+function isProtectedApiPath(pathname: string): boolean {
+    return pathname.startsWith(ADMIN_API_PREFIX) || pathname.startsWith(AUTH_API_PREFIX)
+}
+
+/**
+ * Run the security checks for a protected API request
+ * Returns a rejection response, or null if the request may proceed
+ */
+async function checkApiRequest(request: NextRequest, requestId: string): Promise<NextResponse | null> {
+    const ip = getClientIp(request)
+    const { pathname, search } = request.nextUrl
+
+    if (await isIpBlocked(ip)) {
+        return securityErrorResponse(403, 'Forbidden', 'Access from this IP address has been blocked.', { request_id: requestId })
+    }
+
+    if (!validateOrigin(request)) {
+        return securityErrorResponse(403, 'Forbidden', 'Request origin is not allowed.', { request_id: requestId })
+    }
+
+    if (hasAttackPatterns(decodeUrlForInspection(pathname + search))) {
+        return securityErrorResponse(400, 'Bad request', 'Request URL contains disallowed patterns.', { request_id: requestId })
+    }
+
+    // Logout and registration don't check credentials; only login gets the strict limit
+    const config = pathname === LOGIN_API_PATH ? AUTH_RATE_LIMIT : API_RATE_LIMIT
+    const { allowed, response } = await rateLimit(request, config)
+    if (!allowed && response) {
+        return response
+    }
+
+    return null
+}
+
+export async function proxy(request: NextRequest) {
+    const requestId = getRequestId(request)
+
+    if (isProtectedApiPath(request.nextUrl.pathname)) {
+        try {
+            const rejection = await checkApiRequest(request, requestId)
+            if (rejection) {
+                rejection.headers.set(REQUEST_ID_HEADER, requestId)
+                return addSecurityHeaders(rejection)
+            }
+        } catch (error) {
+            // Fail open: an unreachable security store must not take the API down
+            requestLogger(request).error('Security check failed', { error })
+        }
+    }
+
+    // Forward the ID so route handlers log under the same one
+    const headers = new Headers(request.headers)
+    headers.set(REQUEST_ID_HEADER, requestId)
+
+    const response = NextResponse.next({ request: { headers } })
+    response.headers.set(REQUEST_ID_HEADER, requestId)
+    return addSecurityHeaders(response)
+}
+
+export const config = {
+    // Skip static assets and image optimization; everything else gets headers
+    matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'],
+}
@@ -0,0 +1,55 @@
+-- Shared storage for rate-limit counters, failed-login tallies and IP blocks
+-- Used when SECURITY_STORE=supabase (see lib/security-store/supabase.ts)
+
+create table if not exists public.security_counters (
+    key text primary key,
+    count integer not null default 0,
+    expires_at timestamptz not null
+);
+
+create index if not exists security_counters_expires_at_idx
+    on public.security_counters (expires_at);
+
+create table if not exists public.ip_blocks (
+    ip text primary key,
+    expires_at timestamptz,
+    created_at timestamptz not null default now()
+);
+
+-- Only the service role touches these tables
+alter table public.security_counters enable row level security;
+alter table public.ip_blocks enable row level security;
+
+-- Atomically increment a counter, starting a new window if it is missing or expired
+create or replace function public.increment_security_counter(
+    p_key text,
+    p_ttl_ms bigint,
+    p_extend_ttl boolean default false
+)
+returns table (count integer, expires_at timestamptz)
+language plpgsql
+as $$
+declare
+    v_expires timestamptz := now() + make_interval(secs => p_ttl_ms / 1000.0);
+begin
+    return query
+    insert into public.security_counters as c (key, count, expires_at)
+    values (p_key, 1, v_expires)
+    on conflict (key) do update
+        set count = case when c.expires_at < now() then 1 else c.count + 1 end,
+            expires_at = case
+                when c.expires_at < now() or p_extend_ttl then v_expires
+                else c.expires_at
+            end
+    returning c.count, c.expires_at;
+end;
+$$;
+
+-- Housekeeping: call periodically (e.g. pg_cron) to drop expired rows
+create or replace function public.purge_expired_security_entries()
+returns void
+language sql
+as $$
+    delete from public.security_counters where expires_at < now();
+    delete from public.ip_blocks where expires_at is not null and expires_at < now();
+$$;
@@ -0,0 +1,16 @@
+-- Persistent IP blocklist: who blocked what, why, and until when
+-- ip holds either a single address or a CIDR range
+
+alter table public.ip_blocks
+    add column if not exists id uuid not null default gen_random_uuid(),
+    add column if not exists reason text,
+    add column if not exists source text not null default 'manual'
+        check (source in ('manual', 'auto')),
+    add column if not exists created_by uuid references auth.users (id) on delete set null,
+    add column if not exists created_by_email text;
+
+alter table public.ip_blocks drop constraint if exists ip_blocks_pkey;
+alter table public.ip_blocks add primary key (id);
+alter table public.ip_blocks add constraint ip_blocks_ip_key unique (ip);
+
+create index if not exists ip_blocks_expires_at_idx on public.ip_blocks (expires_at);
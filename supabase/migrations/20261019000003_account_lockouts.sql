@@ -0,0 +1,17 @@
+-- Temporary account locks after repeated failed logins
+-- Written by recordFailedLogin in lib/security.ts, cleared from /admin/security/locked-accounts
+
+create table if not exists public.account_lockouts (
+    id uuid primary key default gen_random_uuid(),
+    email text not null unique,
+    failed_attempts integer not null default 0,
+    last_ip text,
+    locked_until timestamptz not null,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists account_lockouts_locked_until_idx
+    on public.account_lockouts (locked_until);
+
+-- Only the service role touches this table
+alter table public.account_lockouts enable row level security;
@@ -0,0 +1,37 @@
+-- Roles as named bundles of permissions
+-- Managed from /admin/roles; permission names come from lib/permissions.ts
+
+create table if not exists public.roles (
+    id uuid primary key default gen_random_uuid(),
+    name text not null unique check (name ~ '^[a-z][a-z0-9_-]{1,31}$'),
+    description text,
+    permissions text[] not null default '{}',
+    is_system boolean not null default false,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+insert into public.roles (name, description, permissions, is_system) values
+    ('user', 'Regular user with no admin access', '{}', true),
+    ('mod', 'Day-to-day moderation', array[
+        'dashboard.view', 'users.read', 'users.suspend',
+        'requests.approve', 'credits.read', 'audit.read'
+    ], true),
+    ('admin', 'Full access to every admin feature', array[
+        'dashboard.view', 'users.read', 'users.suspend', 'users.delete',
+        'roles.assign', 'roles.manage', 'requests.approve',
+        'credits.read', 'credits.manage', 'audit.read', 'audit.purge',
+        'security.manage'
+    ], true)
+on conflict (name) do nothing;
+
+-- user_roles.role used to be limited to the built-in names
+alter table public.user_roles drop constraint if exists user_roles_role_check;
+
+alter table public.user_roles
+    add constraint user_roles_role_fkey
+    foreign key (role) references public.roles (name)
+    on update cascade;
+
+-- Only the service role touches this table
+alter table public.roles enable row level security;
@@ -0,0 +1,30 @@
+-- Time-boxed role grants
+-- A grant with expires_at set is reverted to previous_role by the role
+-- expiry sweep (GET /api/cron/role-expiry)
+
+alter table public.user_roles
+    add column if not exists expires_at timestamptz,
+    add column if not exists previous_role text references public.roles (name) on update cascade;
+
+create index if not exists user_roles_expires_at_idx
+    on public.user_roles (expires_at)
+    where expires_at is not null;
+
+-- Every grant and expiry, newest last
+create table if not exists public.user_role_history (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null,
+    event text not null check (event in ('granted', 'expired')),
+    role text not null,
+    previous_role text,
+    expires_at timestamptz,
+    changed_by uuid,
+    changed_by_email text,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists user_role_history_user_id_idx
+    on public.user_role_history (user_id, created_at desc);
+
+-- Only the service role touches this table
+alter table public.user_role_history enable row level security;
@@ -0,0 +1,34 @@
+-- Two-person approval for sensitive admin actions
+-- The guarded route stores the request here instead of running it; a second
+-- admin approves from /admin/approvals and the route handler is replayed
+
+create table if not exists public.pending_admin_actions (
+    id uuid primary key default gen_random_uuid(),
+    action_type text not null,
+    summary text not null,
+    method text not null,
+    path text not null,
+    payload jsonb not null default '{}',
+    status text not null default 'pending'
+        check (status in ('pending', 'approved', 'rejected', 'failed')),
+    requested_by uuid not null,
+    requested_by_email text,
+    decided_by uuid,
+    decided_by_email text,
+    decided_at timestamptz,
+    decision_note text,
+    result jsonb,
+    expires_at timestamptz not null,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists pending_admin_actions_status_idx
+    on public.pending_admin_actions (status, created_at desc);
+
+-- Let existing admins review approvals
+update public.roles
+    set permissions = array_append(permissions, 'approvals.review')
+    where name = 'admin' and not ('approvals.review' = any(permissions));
+
+-- Only the service role touches this table
+alter table public.pending_admin_actions enable row level security;
@@ -0,0 +1,63 @@
+-- Admin impersonation ("view as user")
+-- Each row is one time-limited, read-only session an admin opened for a user.
+-- The access token itself is never stored; it carries the session id in its
+-- impersonation_session_id claim and simply expires with the row
+
+create table if not exists public.impersonation_sessions (
+    id uuid primary key default gen_random_uuid(),
+    admin_id uuid not null,
+    admin_email text,
+    target_user_id uuid not null,
+    target_email text,
+    reason text not null,
+    expires_at timestamptz not null,
+    ended_at timestamptz,
+    end_reason text check (end_reason in ('ended', 'expired', 'replaced')),
+    created_at timestamptz not null default now()
+);
+
+-- At most one open session per admin
+create unique index if not exists impersonation_sessions_open_idx
+    on public.impersonation_sessions (admin_id)
+    where ended_at is null;
+
+create index if not exists impersonation_sessions_target_idx
+    on public.impersonation_sessions (target_user_id, created_at desc);
+
+-- Only the service role touches this table
+alter table public.impersonation_sessions enable row level security;
+
+-- True when the request is authenticated with an impersonation token
+create or replace function public.is_impersonation_session()
+returns boolean
+language sql
+stable
+as $$
+    select coalesce(auth.jwt() ->> 'impersonation_session_id', '') <> ''
+$$;
+
+-- Keep impersonation tokens read-only on the user-facing tables. Restrictive
+-- policies are ANDed with the existing ones, so reads are unaffected
+do $$
+declare
+    t text;
+begin
+    foreach t in array array['profiles', 'agent_sessions', 'user_usage', 'account_requests'] loop
+        if to_regclass('public.' || t) is null then
+            continue;
+        end if;
+
+        execute format('drop policy if exists impersonation_no_insert on public.%I', t);
+        execute format('drop policy if exists impersonation_no_update on public.%I', t);
+        execute format('drop policy if exists impersonation_no_delete on public.%I', t);
+
+        execute format('create policy impersonation_no_insert on public.%I as restrictive for insert to authenticated with check (not public.is_impersonation_session())', t);
+        execute format('create policy impersonation_no_update on public.%I as restrictive for update to authenticated using (not public.is_impersonation_session())', t);
+        execute format('create policy impersonation_no_delete on public.%I as restrictive for delete to authenticated using (not public.is_impersonation_session())', t);
+    end loop;
+end $$;
+
+-- Let existing admins impersonate
+update public.roles
+    set permissions = array_append(permissions, 'users.impersonate')
+    where name = 'admin' and not ('users.impersonate' = any(permissions));
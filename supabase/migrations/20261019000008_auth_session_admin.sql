@@ -0,0 +1,72 @@
+-- Admin session management
+-- auth.sessions isn't exposed through the API, so these security definer
+-- functions let the service role list and revoke a user's sessions. Deleting
+-- a session cascades to its refresh tokens; access tokens already issued stay
+-- valid for PostgREST until they expire, but the auth server rejects them
+
+create or replace function public.admin_list_user_sessions(target_user_id uuid)
+returns table (
+    id uuid,
+    created_at timestamptz,
+    updated_at timestamptz,
+    refreshed_at timestamptz,
+    not_after timestamptz,
+    user_agent text,
+    ip text,
+    aal text
+)
+language sql
+security definer
+set search_path = ''
+as $$
+    select
+        s.id,
+        s.created_at,
+        s.updated_at,
+        s.refreshed_at at time zone 'utc',
+        s.not_after,
+        s.user_agent,
+        host(s.ip),
+        s.aal::text
+    from auth.sessions s
+    where s.user_id = target_user_id
+      and (s.not_after is null or s.not_after > now())
+    order by coalesce(s.refreshed_at at time zone 'utc', s.updated_at, s.created_at) desc
+$$;
+
+create or replace function public.admin_revoke_user_session(target_user_id uuid, target_session_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+    delete from auth.sessions
+        where id = target_session_id and user_id = target_user_id;
+    return found;
+end
+$$;
+
+create or replace function public.admin_revoke_all_user_sessions(target_user_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+    revoked integer;
+begin
+    delete from auth.sessions where user_id = target_user_id;
+    get diagnostics revoked = row_count;
+    return revoked;
+end
+$$;
+
+-- Only the service role may call these
+revoke execute on function public.admin_list_user_sessions(uuid) from public, anon, authenticated;
+revoke execute on function public.admin_revoke_user_session(uuid, uuid) from public, anon, authenticated;
+revoke execute on function public.admin_revoke_all_user_sessions(uuid) from public, anon, authenticated;
+
+grant execute on function public.admin_list_user_sessions(uuid) to service_role;
+grant execute on function public.admin_revoke_user_session(uuid, uuid) to service_role;
+grant execute on function public.admin_revoke_all_user_sessions(uuid) to service_role;
@@ -0,0 +1,24 @@
+-- Personal admin API tokens
+-- Scripts send these as "Authorization: Bearer adm_..." instead of a session
+-- cookie. Only a SHA-256 hash of the token is kept; the plaintext is shown
+-- once at creation. A token acts as its owner, narrowed to its scopes
+
+create table if not exists public.admin_api_tokens (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references auth.users (id) on delete cascade,
+    name text not null,
+    token_prefix text not null,
+    token_hash text not null unique,
+    scopes text[] not null default '{}',
+    expires_at timestamptz not null,
+    last_used_at timestamptz,
+    last_used_ip text,
+    revoked_at timestamptz,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists admin_api_tokens_user_idx
+    on public.admin_api_tokens (user_id, created_at desc);
+
+-- Only the service role touches this table
+alter table public.admin_api_tokens enable row level security;
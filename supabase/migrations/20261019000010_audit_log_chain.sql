@@ -0,0 +1,198 @@
+-- Tamper-evident audit log
+-- Every entry stores the hash of its own canonical content plus the hash of
+-- the entry before it, assigned by a trigger so no writer can skip it.
+-- audit_chain_head remembers the newest link, so entries removed from the end
+-- are caught as well. Verify with verify_audit_chain(); signed checkpoints
+-- of the head are exported outside the database by /api/cron/audit-checkpoint
+
+create table if not exists public.audit_chain_head (
+    id boolean primary key default true check (id),
+    seq bigint not null,
+    hash text not null,
+    updated_at timestamptz not null default now()
+);
+
+-- Only the service role touches this table
+alter table public.audit_chain_head enable row level security;
+
+alter table public.audit_logs
+    add column if not exists chain_seq bigint,
+    add column if not exists prev_hash text,
+    add column if not exists hash text;
+
+create unique index if not exists audit_logs_chain_seq_idx
+    on public.audit_logs (chain_seq);
+
+-- SHA-256 over a JSON array of the entry's fields. jsonb normalizes details,
+-- so key order in the original insert doesn't matter
+create or replace function public.audit_log_hash(entry public.audit_logs)
+returns text
+language sql
+stable
+set search_path = ''
+as $$
+    select encode(sha256(convert_to(jsonb_build_array(
+        entry.prev_hash,
+        entry.chain_seq,
+        entry.id::text,
+        to_char(entry.created_at at time zone 'utc', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+        entry.user_id::text,
+        entry.user_email,
+        entry.action,
+        entry.resource_type,
+        entry.resource_id,
+        entry.details,
+        entry.ip_address::text,
+        entry.user_agent
+    )::text, 'UTF8')), 'hex')
+$$;
+
+-- Chain the rows that predate this migration, oldest first
+do $$
+declare
+    entry public.audit_logs;
+    prev text := repeat('0', 64);
+    seq bigint := 0;
+begin
+    if exists (select 1 from public.audit_chain_head) then
+        return;
+    end if;
+
+    for entry in select * from public.audit_logs order by created_at, id loop
+        seq := seq + 1;
+        entry.chain_seq := seq;
+        entry.prev_hash := prev;
+        prev := public.audit_log_hash(entry);
+
+        update public.audit_logs
+            set chain_seq = seq, prev_hash = entry.prev_hash, hash = prev
+            where id = entry.id;
+    end loop;
+
+    if seq > 0 then
+        insert into public.audit_chain_head (seq, hash) values (seq, prev);
+    end if;
+end
+$$;
+
+create or replace function public.audit_logs_chain()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+    head public.audit_chain_head;
+begin
+    -- One writer at a time, so every entry links to the one before it
+    perform pg_advisory_xact_lock(hashtext('public.audit_logs_chain'));
+
+    select * into head from public.audit_chain_head where id;
+
+    new.chain_seq := coalesce(head.seq, 0) + 1;
+    new.prev_hash := coalesce(head.hash, repeat('0', 64));
+    new.hash := public.audit_log_hash(new);
+
+    insert into public.audit_chain_head (id, seq, hash, updated_at)
+        values (true, new.chain_seq, new.hash, now())
+        on conflict (id) do update
+            set seq = excluded.seq, hash = excluded.hash, updated_at = excluded.updated_at;
+
+    return new;
+end
+$$;
+
+drop trigger if exists audit_logs_chain on public.audit_logs;
+create trigger audit_logs_chain
+    before insert on public.audit_logs
+    for each row execute function public.audit_logs_chain();
+
+-- Entries are never edited; deletes stay possible (clearing, retention) and
+-- show up in verification as a gap or a pruned start
+create or replace function public.audit_logs_append_only()
+returns trigger
+language plpgsql
+set search_path = ''
+as $$
+begin
+    raise exception 'audit_logs is append-only';
+end
+$$;
+
+drop trigger if exists audit_logs_append_only on public.audit_logs;
+create trigger audit_logs_append_only
+    before update on public.audit_logs
+    for each row execute function public.audit_logs_append_only();
+
+-- Walk the chain in order and report the first broken link, if any
+create or replace function public.verify_audit_chain()
+returns table (
+    checked bigint,
+    first_seq bigint,
+    last_seq bigint,
+    broken_seq bigint,
+    broken_id text,
+    reason text
+)
+language plpgsql
+stable
+security definer
+set search_path = ''
+as $$
+declare
+    entry public.audit_logs;
+    previous public.audit_logs;
+    head public.audit_chain_head;
+begin
+    checked := 0;
+
+    if exists (select 1 from public.audit_logs where chain_seq is null) then
+        select a.id::text into broken_id from public.audit_logs a where a.chain_seq is null order by a.created_at limit 1;
+        reason := 'Entry was written without a chain link';
+        return next;
+        return;
+    end if;
+
+    for entry in select * from public.audit_logs order by chain_seq loop
+        if previous.chain_seq is null then
+            first_seq := entry.chain_seq;
+        elsif entry.chain_seq <> previous.chain_seq + 1 then
+            broken_seq := entry.chain_seq;
+            broken_id := entry.id::text;
+            reason := format('Entries %s to %s are missing', previous.chain_seq + 1, entry.chain_seq - 1);
+        elsif entry.prev_hash is distinct from previous.hash then
+            broken_seq := entry.chain_seq;
+            broken_id := entry.id::text;
+            reason := 'Does not link to the entry before it';
+        end if;
+
+        if reason is null and entry.hash is distinct from public.audit_log_hash(entry) then
+            broken_seq := entry.chain_seq;
+            broken_id := entry.id::text;
+            reason := 'Content does not match its hash';
+        end if;
+
+        if reason is not null then
+            last_seq := previous.chain_seq;
+            return next;
+            return;
+        end if;
+
+        checked := checked + 1;
+        previous := entry;
+    end loop;
+
+    last_seq := previous.chain_seq;
+
+    select * into head from public.audit_chain_head where id;
+    if head.seq is not null and (previous.chain_seq is distinct from head.seq or previous.hash is distinct from head.hash) then
+        broken_seq := head.seq;
+        reason := format('Newest entries are missing (the chain ends at %s, expected %s)', coalesce(previous.chain_seq, 0), head.seq);
+    end if;
+
+    return next;
+end
+$$;
+
+revoke execute on function public.verify_audit_chain() from public, anon, authenticated;
+grant execute on function public.verify_audit_chain() to service_role;
@@ -0,0 +1,212 @@
+-- Audit log retention
+-- Replaces "clear all audit logs". Each policy keeps entries matching an
+-- action ('user.login'), an action group ('role.*') or everything ('*') for
+-- retention_days (null = forever); the most specific match wins. The
+-- retention job (/api/cron/audit-retention) archives expired entries to
+-- compressed files before purging them through purge_audit_log_entries(),
+-- which leaves a tombstone per entry so the hash chain still verifies
+
+create table if not exists public.audit_retention_policies (
+    pattern text primary key check (pattern = '*' or pattern ~ '^[a-z_]+\.(\*|[a-z_]+)$'),
+    retention_days integer check (retention_days is null or retention_days > 0),
+    updated_by uuid,
+    updated_by_email text,
+    updated_at timestamptz not null default now()
+);
+
+insert into public.audit_retention_policies (pattern, retention_days) values
+    ('*', null),
+    ('user.login', 90),
+    ('user.logout', 90),
+    ('user.login_failed', 90),
+    ('api_token.used', 90),
+    ('role.*', 2555),
+    ('approval.*', 2555),
+    ('audit.*', 2555)
+on conflict (pattern) do nothing;
+
+-- Only the service role touches this table
+alter table public.audit_retention_policies enable row level security;
+
+-- What's left of a purged entry: enough to keep the chain linked
+create table if not exists public.audit_log_tombstones (
+    chain_seq bigint primary key,
+    prev_hash text not null,
+    hash text not null,
+    action text not null,
+    created_at timestamptz not null,
+    archive text not null,
+    purged_at timestamptz not null default now()
+);
+
+alter table public.audit_log_tombstones enable row level security;
+
+-- The policy that governs an action
+create or replace function public.audit_retention_policy_for(target_action text)
+returns public.audit_retention_policies
+language sql
+stable
+set search_path = ''
+as $$
+    select p.*
+    from public.audit_retention_policies p
+    where p.pattern = target_action
+       or p.pattern = split_part(target_action, '.', 1) || '.*'
+       or p.pattern = '*'
+    order by case when p.pattern = target_action then 0 when p.pattern = '*' then 2 else 1 end
+    limit 1
+$$;
+
+-- Entries past their retention, oldest link first
+create or replace function public.audit_retention_candidates(max_entries integer)
+returns setof public.audit_logs
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+    select a.*
+    from public.audit_logs a
+    cross join lateral public.audit_retention_policy_for(a.action) p
+    where p.retention_days is not null
+      and a.created_at < now() - make_interval(days => p.retention_days)
+    order by a.chain_seq
+    limit max_entries
+$$;
+
+-- Dry run: what the retention job would purge right now, per policy
+create or replace function public.audit_retention_preview()
+returns table (
+    pattern text,
+    retention_days integer,
+    entries bigint,
+    oldest timestamptz,
+    newest timestamptz
+)
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+    select p.pattern, p.retention_days, count(*), min(a.created_at), max(a.created_at)
+    from public.audit_logs a
+    cross join lateral public.audit_retention_policy_for(a.action) p
+    where p.retention_days is not null
+      and a.created_at < now() - make_interval(days => p.retention_days)
+    group by p.pattern, p.retention_days
+    order by p.pattern
+$$;
+
+-- Tombstone and delete archived entries; returns how many were purged
+create or replace function public.purge_audit_log_entries(target_seqs bigint[], archive_name text)
+returns integer
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+    purged integer;
+begin
+    insert into public.audit_log_tombstones (chain_seq, prev_hash, hash, action, created_at, archive)
+        select a.chain_seq, a.prev_hash, a.hash, a.action, a.created_at, archive_name
+        from public.audit_logs a
+        where a.chain_seq = any(target_seqs);
+
+    delete from public.audit_logs where chain_seq = any(target_seqs);
+    get diagnostics purged = row_count;
+    return purged;
+end
+$$;
+
+-- Same walk as before, but purged entries are filled in from their
+-- tombstones (their links are checked; their content is in the archive)
+create or replace function public.verify_audit_chain()
+returns table (
+    checked bigint,
+    first_seq bigint,
+    last_seq bigint,
+    broken_seq bigint,
+    broken_id text,
+    reason text
+)
+language plpgsql
+stable
+security definer
+set search_path = ''
+as $$
+declare
+    link record;
+    previous_seq bigint;
+    previous_hash text;
+    head public.audit_chain_head;
+begin
+    checked := 0;
+
+    if exists (select 1 from public.audit_logs where chain_seq is null) then
+        select a.id::text into broken_id from public.audit_logs a where a.chain_seq is null order by a.created_at limit 1;
+        reason := 'Entry was written without a chain link';
+        return next;
+        return;
+    end if;
+
+    for link in
+        select a.chain_seq, a.prev_hash, a.hash, a.id::text as id, public.audit_log_hash(a) as computed
+            from public.audit_logs a
+        union all
+        select t.chain_seq, t.prev_hash, t.hash, null, t.hash
+            from public.audit_log_tombstones t
+        order by chain_seq
+    loop
+        if previous_seq is null then
+            first_seq := link.chain_seq;
+        elsif link.chain_seq = previous_seq then
+            reason := 'Entry is both in the log and purged';
+        elsif link.chain_seq <> previous_seq + 1 then
+            reason := format('Entries %s to %s are missing', previous_seq + 1, link.chain_seq - 1);
+        elsif link.prev_hash is distinct from previous_hash then
+            reason := 'Does not link to the entry before it';
+        end if;
+
+        if reason is null and link.hash is distinct from link.computed then
+            reason := 'Content does not match its hash';
+        end if;
+
+        if reason is not null then
+            broken_seq := link.chain_seq;
+            broken_id := link.id;
+            last_seq := previous_seq;
+            return next;
+            return;
+        end if;
+
+        checked := checked + 1;
+        previous_seq := link.chain_seq;
+        previous_hash := link.hash;
+    end loop;
+
+    last_seq := previous_seq;
+
+    select * into head from public.audit_chain_head where id;
+    if head.seq is not null and (previous_seq is distinct from head.seq or previous_hash is distinct from head.hash) then
+        broken_seq := head.seq;
+        reason := format('Newest entries are missing (the chain ends at %s, expected %s)', coalesce(previous_seq, 0), head.seq);
+    end if;
+
+    return next;
+end
+$$;
+
+revoke execute on function public.audit_retention_candidates(integer) from public, anon, authenticated;
+revoke execute on function public.audit_retention_preview() from public, anon, authenticated;
+revoke execute on function public.purge_audit_log_entries(bigint[], text) from public, anon, authenticated;
+
+grant execute on function public.audit_retention_candidates(integer) to service_role;
+grant execute on function public.audit_retention_preview() to service_role;
+grant execute on function public.purge_audit_log_entries(bigint[], text) to service_role;
+
+-- Clearing is gone; close any clear requests still waiting for approval
+update public.pending_admin_actions
+    set status = 'rejected',
+        decided_at = now(),
+        decision_note = 'Clearing audit logs was replaced by retention policies'
+    where action_type = 'audit.clear' and status = 'pending';
@@ -0,0 +1,122 @@
+-- Server-side audit log search
+-- search_audit_logs() backs GET /api/admin/audit-logs: every filter runs in
+-- the database so totals and pagination cover the whole log, not the page
+-- the browser happened to load
+
+create extension if not exists pg_trgm with schema extensions;
+
+-- Escape LIKE wildcards so user input only ever matches literally
+create or replace function public.escape_like(value text)
+returns text
+language sql
+immutable
+set search_path = ''
+as $$
+    select replace(replace(replace(value, '\', '\\'), '%', '\%'), '_', '\_')
+$$;
+
+-- Everything free-text search looks at, as one lowercase string
+create or replace function public.audit_log_search_text(
+    user_email text,
+    action text,
+    resource_type text,
+    resource_id text,
+    ip_address text,
+    details jsonb
+)
+returns text
+language sql
+immutable
+set search_path = ''
+as $$
+    select lower(concat_ws(' ', user_email, action, resource_type, resource_id, ip_address, details::text))
+$$;
+
+create index if not exists audit_logs_created_at_idx
+    on public.audit_logs (created_at desc);
+
+create index if not exists audit_logs_user_email_prefix_idx
+    on public.audit_logs (lower(user_email) text_pattern_ops);
+
+create index if not exists audit_logs_ip_prefix_idx
+    on public.audit_logs ((ip_address::text) text_pattern_ops);
+
+create index if not exists audit_logs_resource_idx
+    on public.audit_logs (resource_type, resource_id);
+
+create index if not exists audit_logs_search_idx
+    on public.audit_logs using gin (
+        public.audit_log_search_text(user_email, action, resource_type, resource_id, ip_address::text, details)
+        extensions.gin_trgm_ops
+    );
+
+-- One page of matching entries, newest first, plus the total match count.
+-- actions may hold exact actions or groups ('role.*'); detail_filters is an
+-- array of {"path": [...], "value": text | null} where a null value only
+-- requires the path to exist. Every given filter must match
+create or replace function public.search_audit_logs(
+    actions text[] default null,
+    target_user_id uuid default null,
+    email_prefix text default null,
+    ip_prefix text default null,
+    target_resource_type text default null,
+    target_resource_id text default null,
+    detail_filters jsonb default null,
+    search text default null,
+    start_date timestamptz default null,
+    end_date timestamptz default null,
+    max_entries integer default 50,
+    skip integer default 0
+)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+    with matches as (
+        select a.*
+        from public.audit_logs a
+        where (actions is null
+                or a.action = any(actions)
+                or split_part(a.action, '.', 1) || '.*' = any(actions))
+          and (target_user_id is null or a.user_id = target_user_id)
+          and (email_prefix is null
+                or lower(a.user_email) like public.escape_like(lower(email_prefix)) || '%')
+          and (ip_prefix is null
+                or a.ip_address::text like public.escape_like(ip_prefix) || '%')
+          and (target_resource_type is null or a.resource_type = target_resource_type)
+          and (target_resource_id is null or a.resource_id = target_resource_id)
+          and (detail_filters is null or not exists (
+                select 1
+                from jsonb_array_elements(detail_filters) f
+                cross join lateral (
+                    select array(select jsonb_array_elements_text(f->'path')) as path
+                ) p
+                where case
+                    when f->>'value' is null then a.details #> p.path is null
+                    else (a.details #>> p.path) is distinct from f->>'value'
+                end
+          ))
+          and (search is null
+                or public.audit_log_search_text(a.user_email, a.action, a.resource_type, a.resource_id, a.ip_address::text, a.details)
+                    like '%' || public.escape_like(lower(search)) || '%')
+          and (start_date is null or a.created_at >= start_date)
+          and (end_date is null or a.created_at <= end_date)
+    )
+    select jsonb_build_object(
+        'count', (select count(*) from matches),
+        'data', coalesce((
+            select jsonb_agg(to_jsonb(page) order by page.created_at desc, page.chain_seq desc)
+            from (
+                select * from matches
+                order by created_at desc, chain_seq desc
+                limit max_entries
+                offset skip
+            ) page
+        ), '[]'::jsonb)
+    )
+$$;
+
+revoke execute on function public.search_audit_logs(text[], uuid, text, text, text, text, jsonb, text, timestamptz, timestamptz, integer, integer) from public, anon, authenticated;
+grant execute on function public.search_audit_logs(text[], uuid, text, text, text, text, jsonb, text, timestamptz, timestamptz, integer, integer) to service_role;
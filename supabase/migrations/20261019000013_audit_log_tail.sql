@@ -0,0 +1,78 @@
+-- Live audit log tail
+-- GET /api/admin/audit-logs/stream polls search_audit_logs() for entries past
+-- the last chain_seq it sent, so it needs a cursor argument
+
+drop function if exists public.search_audit_logs(text[], uuid, text, text, text, text, jsonb, text, timestamptz, timestamptz, integer, integer);
+
+-- As before, plus after_seq: only entries past that chain position.
+-- actions may hold exact actions or groups ('role.*'); detail_filters is an
+-- array of {"path": [...], "value": text | null} where a null value only
+-- requires the path to exist. Every given filter must match
+create or replace function public.search_audit_logs(
+    actions text[] default null,
+    target_user_id uuid default null,
+    email_prefix text default null,
+    ip_prefix text default null,
+    target_resource_type text default null,
+    target_resource_id text default null,
+    detail_filters jsonb default null,
+    search text default null,
+    start_date timestamptz default null,
+    end_date timestamptz default null,
+    after_seq bigint default null,
+    max_entries integer default 50,
+    skip integer default 0
+)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+    with matches as (
+        select a.*
+        from public.audit_logs a
+        where (actions is null
+                or a.action = any(actions)
+                or split_part(a.action, '.', 1) || '.*' = any(actions))
+          and (target_user_id is null or a.user_id = target_user_id)
+          and (email_prefix is null
+                or lower(a.user_email) like public.escape_like(lower(email_prefix)) || '%')
+          and (ip_prefix is null
+                or a.ip_address::text like public.escape_like(ip_prefix) || '%')
+          and (target_resource_type is null or a.resource_type = target_resource_type)
+          and (target_resource_id is null or a.resource_id = target_resource_id)
+          and (detail_filters is null or not exists (
+                select 1
+                from jsonb_array_elements(detail_filters) f
+                cross join lateral (
+                    select array(select jsonb_array_elements_text(f->'path')) as path
+                ) p
+                where case
+                    when f->>'value' is null then a.details #> p.path is null
+                    else (a.details #>> p.path) is distinct from f->>'value'
+                end
+          ))
+          and (search is null
+                or public.audit_log_search_text(a.user_email, a.action, a.resource_type, a.resource_id, a.ip_address::text, a.details)
+                    like '%' || public.escape_like(lower(search)) || '%')
+          and (start_date is null or a.created_at >= start_date)
+          and (end_date is null or a.created_at <= end_date)
+          and (after_seq is null or a.chain_seq > after_seq)
+    )
+    select jsonb_build_object(
+        'count', (select count(*) from matches),
+        'data', coalesce((
+            select jsonb_agg(to_jsonb(page) order by page.created_at desc, page.chain_seq desc)
+            from (
+                select * from matches
+                order by created_at desc, chain_seq desc
+                limit max_entries
+                offset skip
+            ) page
+        ), '[]'::jsonb)
+    )
+$$;
+
+revoke execute on function public.search_audit_logs(text[], uuid, text, text, text, text, jsonb, text, timestamptz, timestamptz, bigint, integer, integer) from public, anon, authenticated;
+grant execute on function public.search_audit_logs(text[], uuid, text, text, text, text, jsonb, text, timestamptz, timestamptz, bigint, integer, integer) to service_role;
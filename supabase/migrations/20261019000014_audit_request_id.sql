@@ -0,0 +1,117 @@
+-- Request correlation IDs on audit entries
+-- Every API request carries an X-Request-Id (accepted from the caller or
+-- minted by the proxy); logAuditEvent stores it so all the entries one
+-- request wrote, and its server logs, can be found together
+
+alter table public.audit_logs
+    add column if not exists request_id text;
+
+create index if not exists audit_logs_request_id_idx
+    on public.audit_logs (request_id)
+    where request_id is not null;
+
+-- As before, with request_id hashed too. It is appended only when set, so
+-- entries written before this migration keep the hash they were chained with
+create or replace function public.audit_log_hash(entry public.audit_logs)
+returns text
+language sql
+stable
+set search_path = ''
+as $$
+    select encode(sha256(convert_to((
+        jsonb_build_array(
+            entry.prev_hash,
+            entry.chain_seq,
+            entry.id::text,
+            to_char(entry.created_at at time zone 'utc', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+            entry.user_id::text,
+            entry.user_email,
+            entry.action,
+            entry.resource_type,
+            entry.resource_id,
+            entry.details,
+            entry.ip_address::text,
+            entry.user_agent
+        ) || case
+            when entry.request_id is null then '[]'::jsonb
+            else jsonb_build_array(entry.request_id)
+        end
+    )::text, 'UTF8')), 'hex')
+$$;
+
+drop function if exists public.search_audit_logs(text[], uuid, text, text, text, text, jsonb, text, timestamptz, timestamptz, bigint, integer, integer);
+
+-- As before, plus target_request_id: only entries written by that request.
+-- actions may hold exact actions or groups ('role.*'); detail_filters is an
+-- array of {"path": [...], "value": text | null} where a null value only
+-- requires the path to exist. Every given filter must match
+create or replace function public.search_audit_logs(
+    actions text[] default null,
+    target_user_id uuid default null,
+    email_prefix text default null,
+    ip_prefix text default null,
+    target_resource_type text default null,
+    target_resource_id text default null,
+    target_request_id text default null,
+    detail_filters jsonb default null,
+    search text default null,
+    start_date timestamptz default null,
+    end_date timestamptz default null,
+    after_seq bigint default null,
+    max_entries integer default 50,
+    skip integer default 0
+)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+    with matches as (
+        select a.*
+        from public.audit_logs a
+        where (actions is null
+                or a.action = any(actions)
+                or split_part(a.action, '.', 1) || '.*' = any(actions))
+          and (target_user_id is null or a.user_id = target_user_id)
+          and (email_prefix is null
+                or lower(a.user_email) like public.escape_like(lower(email_prefix)) || '%')
+          and (ip_prefix is null
+                or a.ip_address::text like public.escape_like(ip_prefix) || '%')
+          and (target_resource_type is null or a.resource_type = target_resource_type)
+          and (target_resource_id is null or a.resource_id = target_resource_id)
+          and (target_request_id is null or a.request_id = target_request_id)
+          and (detail_filters is null or not exists (
+                select 1
+                from jsonb_array_elements(detail_filters) f
+                cross join lateral (
+                    select array(select jsonb_array_elements_text(f->'path')) as path
+                ) p
+                where case
+                    when f->>'value' is null then a.details #> p.path is null
+                    else (a.details #>> p.path) is distinct from f->>'value'
+                end
+          ))
+          and (search is null
+                or public.audit_log_search_text(a.user_email, a.action, a.resource_type, a.resource_id, a.ip_address::text, a.details)
+                    like '%' || public.escape_like(lower(search)) || '%')
+          and (start_date is null or a.created_at >= start_date)
+          and (end_date is null or a.created_at <= end_date)
+          and (after_seq is null or a.chain_seq > after_seq)
+    )
+    select jsonb_build_object(
+        'count', (select count(*) from matches),
+        'data', coalesce((
+            select jsonb_agg(to_jsonb(page) order by page.created_at desc, page.chain_seq desc)
+            from (
+                select * from matches
+                order by created_at desc, chain_seq desc
+                limit max_entries
+                offset skip
+            ) page
+        ), '[]'::jsonb)
+    )
+$$;
+
+revoke execute on function public.search_audit_logs(text[], uuid, text, text, text, text, text, jsonb, text, timestamptz, timestamptz, bigint, integer, integer) from public, anon, authenticated;
+grant execute on function public.search_audit_logs(text[], uuid, text, text, text, text, text, jsonb, text, timestamptz, timestamptz, bigint, integer, integer) to service_role;
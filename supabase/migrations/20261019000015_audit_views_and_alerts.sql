@@ -0,0 +1,71 @@
+-- Saved audit log views and alert rules
+-- A view is one admin's named set of audit log filters, kept in their query
+-- string form. An alert rule counts a view's matches over a trailing window
+-- (/api/cron/audit-alerts) and notifies its owner in the admin panel and/or
+-- at a webhook once the count reaches the threshold
+
+create table if not exists public.audit_saved_views (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references auth.users (id) on delete cascade,
+    name text not null,
+    filters jsonb not null default '{}'::jsonb,
+    range_days integer check (range_days is null or range_days between 1 and 3650),
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now(),
+    unique (user_id, name)
+);
+
+-- Only the service role touches this table
+alter table public.audit_saved_views enable row level security;
+
+create table if not exists public.audit_alert_rules (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references auth.users (id) on delete cascade,
+    -- A view in use by a rule can't be deleted out from under it
+    view_id uuid not null references public.audit_saved_views (id) on delete restrict,
+    name text not null,
+    threshold integer not null check (threshold > 0),
+    window_minutes integer not null check (window_minutes between 5 and 10080),
+    notify_in_app boolean not null default true,
+    webhook_url text check (webhook_url is null or webhook_url like 'https://%'),
+    enabled boolean not null default true,
+    last_evaluated_at timestamptz,
+    last_count integer,
+    last_fired_at timestamptz,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now(),
+    check (notify_in_app or webhook_url is not null)
+);
+
+create index if not exists audit_alert_rules_user_idx
+    on public.audit_alert_rules (user_id, created_at desc);
+
+create index if not exists audit_alert_rules_enabled_idx
+    on public.audit_alert_rules (enabled)
+    where enabled;
+
+-- Only the service role touches this table
+alter table public.audit_alert_rules enable row level security;
+
+-- In-app notifications shown in the admin panel header
+create table if not exists public.admin_notifications (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references auth.users (id) on delete cascade,
+    kind text not null,
+    title text not null,
+    body text,
+    link text,
+    rule_id uuid references public.audit_alert_rules (id) on delete set null,
+    read_at timestamptz,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists admin_notifications_user_idx
+    on public.admin_notifications (user_id, created_at desc);
+
+create index if not exists admin_notifications_unread_idx
+    on public.admin_notifications (user_id)
+    where read_at is null;
+
+-- Only the service role touches this table
+alter table public.admin_notifications enable row level security;
@@ -0,0 +1,54 @@
+-- Enforce impersonation sessions on every request, not just at token expiry
+-- The impersonation_session_id claim alone proved nothing: an ended or
+-- replaced session's token kept working until it expired, and only the four
+-- tables with restrictive policies were read-only. A PostgREST pre-request
+-- check now refuses tokens whose session is no longer open and makes every
+-- other impersonation request's transaction read-only, so writes are denied
+-- on all tables and through RPCs, present and future
+
+-- True when the request's impersonation claim names an open, unexpired session
+create or replace function public.impersonation_session_is_open()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select exists (
+        select 1
+        from public.impersonation_sessions s
+        where s.id::text = auth.jwt() ->> 'impersonation_session_id'
+          and s.ended_at is null
+          and s.expires_at > now()
+    )
+$$;
+
+-- Runs before every PostgREST request (see db_pre_request below)
+create or replace function public.check_impersonation_request()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if not public.is_impersonation_session() then
+        return;
+    end if;
+
+    if not public.impersonation_session_is_open() then
+        raise exception 'Impersonation session has ended'
+            using errcode = 'insufficient_privilege';
+    end if;
+
+    -- Read-only by default: any write in this transaction fails
+    perform set_config('transaction_read_only', 'on', true);
+end;
+$$;
+
+grant execute on function public.impersonation_session_is_open() to anon, authenticated;
+grant execute on function public.check_impersonation_request() to anon, authenticated;
+
+-- Replaces any pre-request function set before; chain it from
+-- check_impersonation_request if the project needs one of its own
+alter role authenticator set pgrst.db_pre_request = 'public.check_impersonation_request';
+notify pgrst, 'reload config';
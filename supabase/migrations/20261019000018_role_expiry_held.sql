@@ -0,0 +1,9 @@
+-- Expired grants held back by the admin minimum
+-- The role expiry sweep won't revert an expired admin grant when that would
+-- leave fewer than MIN_ADMIN_COUNT active admins. It stamps expiry_held_at
+-- the first time, and writes a role.expiry_held audit event, so the grant
+-- shows up in the users list instead of quietly becoming permanent. Any new
+-- grant or a later revert clears it
+
+alter table public.user_roles
+    add column if not exists expiry_held_at timestamptz;
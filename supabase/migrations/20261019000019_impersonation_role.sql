@@ -0,0 +1,65 @@
+-- Impersonation tokens get a database role of their own
+-- The token used to be an ordinary `authenticated` JWT. Only PostgREST ran
+-- the pre-request check, so the other services took it at face value:
+-- Supabase Auth let it change the target's email or password (PUT
+-- /auth/v1/user) and Storage let it upload and delete files. The token now
+-- carries role = impersonation and a session_id claim that names no Auth
+-- session (lib/impersonation):
+--   * PostgREST switches to the impersonation role; the pre-request check
+--     refuses closed sessions and makes the transaction read-only
+--   * Storage's database user can't switch to the role, so it refuses the
+--     token; restrictive policies on storage.objects back that up
+--   * Supabase Auth loads the session named by session_id, finds none and
+--     refuses the token on every endpoint
+
+-- Reads go through the same grants and RLS policies as `authenticated`
+do $$
+begin
+    if not exists (select 1 from pg_roles where rolname = 'impersonation') then
+        create role impersonation nologin inherit;
+    end if;
+end $$;
+
+grant authenticated to impersonation;
+-- Only PostgREST may act as it
+grant impersonation to authenticator;
+
+-- As before, but the role alone marks an impersonation request too, so a
+-- token can't shed the check by leaving out its session claim
+create or replace function public.check_impersonation_request()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if not public.is_impersonation_session() and auth.role() is distinct from 'impersonation' then
+        return;
+    end if;
+
+    if not public.impersonation_session_is_open() then
+        raise exception 'Impersonation session has ended'
+            using errcode = 'insufficient_privilege';
+    end if;
+
+    -- Read-only by default: any write in this transaction fails
+    perform set_config('transaction_read_only', 'on', true);
+end;
+$$;
+
+do $$
+begin
+    if to_regclass('storage.objects') is null then
+        return;
+    end if;
+
+    drop policy if exists impersonation_no_insert on storage.objects;
+    drop policy if exists impersonation_no_update on storage.objects;
+    drop policy if exists impersonation_no_delete on storage.objects;
+
+    create policy impersonation_no_insert on storage.objects as restrictive for insert to impersonation with check (false);
+    create policy impersonation_no_update on storage.objects as restrictive for update to impersonation using (false);
+    create policy impersonation_no_delete on storage.objects as restrictive for delete to impersonation using (false);
+end $$;
+
+notify pgrst, 'reload config';
@@ -14,14 +14,58 @@ export interface Profile {
 }
 
 // Admin & Audit Types
-export type UserRoleType = 'user' | 'mod' | 'admin'
+// Built-in system roles; custom roles from the roles table are plain strings
+export type SystemRoleType = 'user' | 'mod' | 'admin'
+export type UserRoleType = SystemRoleType | (string & {})
+
+export type Permission =
+    | 'dashboard.view'
+    | 'users.read'
+    | 'users.suspend'
+    | 'users.delete'
+    | 'roles.assign'
+    | 'roles.manage'
+    | 'requests.approve'
+    | 'credits.read'
+    | 'credits.manage'
+    | 'audit.read'
+    | 'audit.purge'
+    | 'security.manage'
+    | 'approvals.review'
+    | 'users.impersonate'
 
 export interface UserRole {
     id: string
     user_id: string
     role: UserRoleType
+    expires_at: string | null      // Time-boxed grant; reverted to previous_role when it passes
+    previous_role: UserRoleType | null
+    expiry_held_at: string | null  // Expired, but reverting would break the admin minimum
+    created_at: string
+    updated_at: string
+}
+
+export interface UserRoleHistoryEntry {
+    id: string
+    user_id: string
+    event: 'granted' | 'expired'
+    role: UserRoleType
+    previous_role: UserRoleType | null
+    expires_at: string | null
+    changed_by: string | null
+    changed_by_email: string | null
+    created_at: string
+}
+
+export interface Role {
+    id: string
+    name: string
+    description: string | null
+    permissions: Permission[]
+    is_system: boolean
     created_at: string
     updated_at: string
+    user_count?: number
 }
 
 export type AuditAction =
@@ -29,12 +73,51 @@ export type AuditAction =
     | 'user.logout'
     | 'user.signup'
     | 'user.password_reset'
+    | 'user.login_failed'
+    | 'user.locked'
+    | 'user.unlocked'
+    | 'user.reauthenticated'
+    | 'user.reauth_failed'
+    | 'user.session_revoked'
+    | 'user.sessions_revoked'
+    | 'user.suspended'
+    | 'user.deleted'
+    | 'user.restored'
     | 'session.created'
     | 'session.updated'
     | 'session.deleted'
     | 'session.restored'
     | 'role.updated'
+    | 'role.expired'
+    | 'role.expiry_held'
+    | 'role.created'
+    | 'role.permissions_changed'
+    | 'role.deleted'
     | 'subscription.revoked'
+    | 'request.approved'
+    | 'request.rejected'
+    | 'audit.cleared'
+    | 'audit.retention_changed'
+    | 'audit.purged'
+    | 'audit.exported'
+    | 'audit.alert_created'
+    | 'audit.alert_updated'
+    | 'audit.alert_deleted'
+    | 'audit.alert_fired'
+    | 'ip.blocked'
+    | 'ip.unblocked'
+    | 'approval.requested'
+    | 'approval.approved'
+    | 'approval.rejected'
+    | 'impersonation.started'
+    | 'impersonation.ended'
+    | 'mfa.enrolled'
+    | 'mfa.verified'
+    | 'mfa.failed'
+    | 'mfa.reset'
+    | 'api_token.created'
+    | 'api_token.revoked'
+    | 'api_token.used'
 
 export interface AuditLog {
     id: string
@@ -46,6 +129,275 @@ export interface AuditLog {
     details: Record<string, any> | null
     ip_address: string | null
     user_agent: string | null
+    request_id: string | null // X-Request-Id of the request that wrote it
+    created_at: string
+    chain_seq: number | null  // Position in the hash chain
+    prev_hash: string | null
+    hash: string | null
+}
+
+// AuditLog.details.changes: the fields an action changed, before and after
+export interface AuditChange<T extends Record<string, unknown> = Record<string, unknown>> {
+    before: Partial<T>
+    after: Partial<T>
+}
+
+// Match on a value inside AuditLog.details; path ['changes', 'after', 'role']
+// reads details.changes.after.role. A null value only requires the path to exist
+export interface AuditDetailFilter {
+    path: string[]
+    value: string | null
+}
+
+export interface AuditLogFilters {
+    userId?: string
+    actions?: string[]        // Exact actions or groups like 'role.*'
+    email?: string            // Prefix of the actor's email, case-insensitive
+    ip?: string               // Prefix of the client IP
+    resourceType?: string
+    resourceId?: string
+    requestId?: string        // Entries written while serving one request
+    details?: AuditDetailFilter[]
+    search?: string           // Substring of email, action, resource, IP or details
+    startDate?: string
+    endDate?: string
+    afterSeq?: number         // Only entries past this chain position
+    before?: AuditLogCursor   // Only entries listed after this one (keyset paging)
+    withCount?: boolean       // Count every match (default); false leaves count at 0
+    limit?: number
+    offset?: number
+}
+
+// An entry's place in the newest-first list, for paging without an offset
+export interface AuditLogCursor {
+    createdAt: string
+    seq: number
+}
+
+export type AuditExportFormat = 'csv' | 'ndjson' | 'cef'
+
+// A signed snapshot of the audit chain head, kept outside the database
+export interface AuditCheckpoint {
+    seq: number
+    hash: string
+    created_at: string
+    signature: string
+}
+
+export type AuditCheckpointStatus = 'ok' | 'mismatch' | 'pruned' | 'bad_signature'
+
+export interface AuditChainVerification {
+    valid: boolean
+    checked: number           // Entries whose link and hash were confirmed
+    first_seq: number | null  // Oldest link, purged entries included
+    last_seq: number | null
+    broken: { seq: number | null; id: string | null; reason: string } | null
+    checkpoints_enabled: boolean  // AUDIT_CHECKPOINT_SECRET is set
+    checkpoints: (AuditCheckpoint & { status: AuditCheckpointStatus })[]
+    verified_at: string
+}
+
+// How long entries matching an action ('user.login'), a group ('role.*')
+// or anything ('*') are kept; the most specific pattern wins
+export interface AuditRetentionPolicy {
+    pattern: string
+    retention_days: number | null  // null keeps entries forever
+    updated_by: string | null
+    updated_by_email: string | null
+    updated_at: string
+}
+
+// Entries the next retention run would purge under one policy
+export interface AuditRetentionPreview {
+    pattern: string
+    retention_days: number
+    entries: number
+    oldest: string
+    newest: string
+}
+
+// A manifest line describing one compressed archive of purged entries
+export interface AuditArchive {
+    file: string
+    sha256: string            // Of the compressed file
+    entries: number
+    first_seq: number
+    last_seq: number
+    oldest: string
+    newest: string
+    created_at: string
+}
+
+// A saved view's filters, as the audit log page sends them in the query string
+export interface AuditViewFilters {
+    action?: string           // Comma list of actions or groups
+    email?: string
+    ip?: string
+    resource_id?: string
+    request_id?: string
+    details?: string          // Comma list of path[:value]
+    q?: string
+}
+
+export interface AuditSavedView {
+    id: string
+    user_id: string
+    name: string
+    filters: AuditViewFilters
+    range_days: number | null // Only the last N days; null = all time
+    created_at: string
+    updated_at: string
+}
+
+// Fires when a view matches at least threshold entries within the window
+export interface AuditAlertRule {
+    id: string
+    user_id: string
+    view_id: string
+    name: string
+    threshold: number
+    window_minutes: number
+    notify_in_app: boolean
+    webhook_url: string | null
+    enabled: boolean
+    last_evaluated_at: string | null
+    last_count: number | null
+    last_fired_at: string | null
+    created_at: string
+    updated_at: string
+    view?: { id: string; name: string }
+}
+
+export interface AuditAlertEvaluation {
+    evaluated: number
+    fired: number
+    skipped: number           // Owner no longer holds audit.read
+    failed: number
+}
+
+export type AdminNotificationKind = 'audit_alert'
+
+export interface AdminNotification {
+    id: string
+    user_id: string
+    kind: AdminNotificationKind
+    title: string
+    body: string | null
+    link: string | null
+    rule_id: string | null
+    read_at: string | null
+    created_at: string
+}
+
+export type IpBlockSource = 'manual' | 'auto'
+
+export interface IpBlock {
+    id: string
+    ip: string // Single address or CIDR range
+    reason: string | null
+    source: IpBlockSource
+    created_by: string | null
+    created_by_email: string | null
+    expires_at: string | null
+    created_at: string
+}
+
+export interface AccountLockout {
+    id: string
+    email: string
+    failed_attempts: number
+    last_ip: string | null
+    locked_until: string
+    created_at: string
+}
+
+// Sensitive actions that can be held for a second admin's approval
+export type PendingActionType =
+    | 'role.grant_admin'
+    | 'user.delete'
+    | 'subscription.revoke'
+    | 'audit.retention'
+
+export type PendingActionStatus = 'pending' | 'approved' | 'rejected' | 'failed'
+
+export interface PendingAdminAction {
+    id: string
+    action_type: PendingActionType
+    summary: string
+    method: string
+    path: string
+    payload: {
+        params?: Record<string, any>
+        body?: unknown
+    }
+    status: PendingActionStatus
+    requested_by: string
+    requested_by_email: string | null
+    decided_by: string | null
+    decided_by_email: string | null
+    decided_at: string | null
+    decision_note: string | null
+    result: Record<string, any> | null
+    expires_at: string
+    created_at: string
+}
+
+// A sign-in session from auth.sessions (not an agent session)
+export interface AuthSession {
+    id: string
+    created_at: string
+    updated_at: string | null
+    refreshed_at: string | null
+    not_after: string | null
+    user_agent: string | null
+    ip: string | null
+    aal: string | null
+    current: boolean  // The session making this request
+}
+
+export interface ApiToken {
+    id: string
+    name: string
+    token_prefix: string      // First characters of the token, to tell them apart
+    scopes: Permission[]
+    expires_at: string
+    last_used_at: string | null
+    last_used_ip: string | null
+    revoked_at: string | null
+    created_at: string
+}
+
+export interface MfaStatus {
+    required: boolean   // The user's role grants admin panel access and enforcement is on
+    enrolled: boolean   // Has a verified TOTP factor
+    verified: boolean   // The current session passed the TOTP check (AAL2)
+}
+
+// A privileged user in the MFA coverage report
+export interface MfaCoverageEntry {
+    user_id: string
+    email: string | null
+    role: UserRoleType
+    enrolled: boolean
+    factor_count: number
+    last_sign_in_at: string | null
+}
+
+// Ways an admin can re-authenticate before a destructive action
+export type StepUpMethod = 'password' | 'totp'
+
+export type ImpersonationEndReason = 'ended' | 'expired' | 'replaced'
+
+export interface ImpersonationSession {
+    id: string
+    admin_id: string
+    admin_email: string | null
+    target_user_id: string
+    target_email: string | null
+    reason: string
+    expires_at: string
+    ended_at: string | null
+    end_reason: ImpersonationEndReason | null
     created_at: string
 }
 
@@ -102,6 +454,8 @@ export interface AdminUser {
     created_at: string
     last_sign_in_at: string | null
     role: UserRoleType
+    role_expires_at: string | null
+    role_expiry_held: boolean    // Past role_expires_at, kept to preserve the admin minimum
     session_count: number
     subscription_type: 'free' | 'premium'
     status: 'active' | 'suspended' | 'deleted'
@@ -112,4 +466,7 @@ export interface ApiResponse<T = any> {
     data?: T
     error?: string
     message?: string
+    code?: string
+    details?: Array<{ field: string; message: string }>
+    request_id?: string       // Set on errors; quote it when reporting a problem
 }